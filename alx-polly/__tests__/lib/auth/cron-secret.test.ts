@@ -0,0 +1,35 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the scheduled job secret check
+ */
+
+import { NextRequest } from "next/server";
+import { isCronRequest } from "../../../lib/auth/cron-secret";
+
+const SECRET = "cron-test-secret";
+
+function requestWith(headers: Record<string, string>) {
+  return new NextRequest("http://localhost/api/cron/poll-schedules", { headers });
+}
+
+describe("Cron secret", () => {
+  it("should accept the secret as a bearer token", () => {
+    expect(isCronRequest(requestWith({ authorization: `Bearer ${SECRET}` }), SECRET)).toBe(true);
+  });
+
+  it("should reject a wrong or missing secret", () => {
+    expect(isCronRequest(requestWith({ authorization: "Bearer cron-test-secreT" }), SECRET)).toBe(
+      false
+    );
+    expect(isCronRequest(requestWith({ authorization: SECRET }), SECRET)).toBe(false);
+    expect(isCronRequest(requestWith({}), SECRET)).toBe(false);
+  });
+
+  it("should refuse every request while no secret is configured", () => {
+    expect(isCronRequest(requestWith({ authorization: "Bearer " }), undefined)).toBe(false);
+    expect(isCronRequest(requestWith({ authorization: "Bearer " }), "")).toBe(false);
+  });
+});
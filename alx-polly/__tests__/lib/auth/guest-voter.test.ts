@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the signed guest voter cookie
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getGuestVoter,
+  readGuestVoterToken,
+  setGuestVoterCookie,
+  signVoterToken,
+  verifyVoterToken,
+} from "../../../lib/auth/guest-voter";
+
+const VOTER_TOKEN = "3f1c2a9e-8b7d-4c6e-9a5f-1d2e3c4b5a69";
+
+function requestWith(headers: Record<string, string>) {
+  return new NextRequest("http://localhost/api/polls/poll-1/vote", { headers });
+}
+
+describe("Guest voter cookie", () => {
+  describe("verifyVoterToken", () => {
+    it("should accept a value it signed", () => {
+      expect(verifyVoterToken(signVoterToken(VOTER_TOKEN))).toBe(VOTER_TOKEN);
+    });
+
+    it("should reject tampered tokens and signatures", () => {
+      const [, signature] = signVoterToken(VOTER_TOKEN).split(".");
+      const otherToken = "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d";
+
+      expect(verifyVoterToken(`${otherToken}.${signature}`)).toBeNull();
+      expect(verifyVoterToken(`${VOTER_TOKEN}.${signature}x`)).toBeNull();
+      expect(verifyVoterToken(`${VOTER_TOKEN}.`)).toBeNull();
+    });
+
+    it("should reject missing and malformed values", () => {
+      expect(verifyVoterToken(undefined)).toBeNull();
+      expect(verifyVoterToken("")).toBeNull();
+      expect(verifyVoterToken(VOTER_TOKEN)).toBeNull();
+      expect(verifyVoterToken(`${signVoterToken(VOTER_TOKEN)}.extra`)).toBeNull();
+    });
+  });
+
+  describe("getGuestVoter", () => {
+    it("should reuse the token from a valid cookie", () => {
+      const request = requestWith({ cookie: `polly_voter=${signVoterToken(VOTER_TOKEN)}` });
+
+      expect(readGuestVoterToken(request)).toBe(VOTER_TOKEN);
+      expect(getGuestVoter(request).voterToken).toBe(VOTER_TOKEN);
+    });
+
+    it("should issue a new token when the cookie is missing or forged", () => {
+      const forged = requestWith({ cookie: `polly_voter=${VOTER_TOKEN}.forged` });
+
+      expect(getGuestVoter(requestWith({})).voterToken).toMatch(/^[0-9a-f-]{36}$/);
+      expect(getGuestVoter(forged).voterToken).not.toBe(VOTER_TOKEN);
+    });
+
+    it("should take the client address and user agent from the headers", () => {
+      const voter = getGuestVoter(
+        requestWith({
+          "x-forwarded-for": "203.0.113.7, 10.0.0.1",
+          "user-agent": "Mozilla/5.0",
+        })
+      );
+
+      expect(voter.ipAddress).toBe("203.0.113.7");
+      expect(voter.userAgent).toBe("Mozilla/5.0");
+    });
+
+    it("should drop addresses that are not IPs", () => {
+      const voter = getGuestVoter(requestWith({ "x-forwarded-for": "unknown" }));
+
+      expect(voter.ipAddress).toBeNull();
+    });
+  });
+
+  describe("setGuestVoterCookie", () => {
+    it("should store the signed token in an HTTP-only cookie", () => {
+      const response = NextResponse.json({});
+      setGuestVoterCookie(response, VOTER_TOKEN);
+
+      const cookie = response.cookies.get("polly_voter");
+      expect(cookie?.httpOnly).toBe(true);
+      expect(verifyVoterToken(cookie?.value)).toBe(VOTER_TOKEN);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for PollRepository statistics
+ */
+
+const mockFrom = jest.fn();
+const mockAdminFrom = jest.fn();
+
+jest.mock("../../../lib/supabase", () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+jest.mock("../../../lib/supabase-admin", () => ({
+  getSupabaseAdmin: () => ({
+    from: (...args: unknown[]) => mockAdminFrom(...args),
+  }),
+}));
+
+import { PollRepository } from "../../../lib/repositories/poll-repository";
+import type { PollWithOptions } from "../../../types/database";
+
+const pollRepository = new PollRepository();
+
+// A query that resolves with the table's rows whatever filters are chained onto it
+function tableQuery(rows: unknown[]) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: () => query,
+    then: (resolve: (result: { data: unknown[]; error: null }) => unknown) =>
+      Promise.resolve({ data: rows, error: null }).then(resolve),
+  };
+  return query;
+}
+
+function mockTables(tables: Record<string, unknown[]>) {
+  mockAdminFrom.mockImplementation((table: string) => tableQuery(tables[table] ?? []));
+}
+
+function makePoll(overrides: Partial<PollWithOptions> = {}): PollWithOptions {
+  return {
+    id: "poll-1",
+    vote_type: "single",
+    score_min: null,
+    score_max: null,
+    poll_options: [
+      { id: "option-a", text: "Vanilla" },
+      { id: "option-b", text: "Chocolate" },
+    ],
+    ...overrides,
+  } as PollWithOptions;
+}
+
+function makeVote(overrides: Record<string, unknown>) {
+  return {
+    user_id: null,
+    voter_token: null,
+    option_id: null,
+    rank: null,
+    score: null,
+    write_in: null,
+    source: null,
+    ...overrides,
+  };
+}
+
+describe("PollRepository.getStatistics", () => {
+  beforeEach(() => {
+    mockFrom.mockReset();
+    mockAdminFrom.mockReset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("counts votes, sources and write-ins through the service role", async () => {
+    jest.spyOn(pollRepository, "findWithOptions").mockResolvedValueOnce(makePoll());
+    mockTables({
+      votes: [
+        makeVote({ id: "vote-1", user_id: "user-1", option_id: "option-a", source: "lobby" }),
+        makeVote({ id: "vote-2", voter_token: "voter-1", option_id: "option-b" }),
+        makeVote({ id: "vote-3", user_id: "user-2", write_in: "Pistachio" }),
+      ],
+      poll_views: [{ source: "lobby" }, { source: "lobby" }, { source: null }],
+      poll_qr_codes: [{ name: "Lobby poster", source: "lobby" }],
+    });
+
+    const stats = await pollRepository.getStatistics("poll-1");
+
+    expect(mockAdminFrom).toHaveBeenCalledWith("votes");
+    expect(mockAdminFrom).toHaveBeenCalledWith("poll_views");
+    expect(mockAdminFrom).toHaveBeenCalledWith("poll_qr_codes");
+    expect(mockFrom).not.toHaveBeenCalled();
+    expect(stats).toEqual({
+      totalVotes: 3,
+      uniqueVoters: 3,
+      optionStats: [
+        { optionId: "option-a", text: "Vanilla", votes: 1, percentage: (1 / 3) * 100 },
+        { optionId: "option-b", text: "Chocolate", votes: 1, percentage: (1 / 3) * 100 },
+      ],
+      sourceStats: [
+        { source: "lobby", name: "Lobby poster", scans: 2, votes: 1, conversionRate: 50 },
+        { source: null, name: "Direct link", scans: 1, votes: 2, conversionRate: 200 },
+      ],
+      writeInVotes: 1,
+      writeIns: [{ key: "pistachio", text: "Pistachio", count: 1, variants: ["Pistachio"] }],
+    });
+  });
+
+  it("runs the instant-runoff count of a ranked poll", async () => {
+    jest
+      .spyOn(pollRepository, "findWithOptions")
+      .mockResolvedValueOnce(makePoll({ vote_type: "ranked" }));
+    mockTables({
+      votes: [
+        makeVote({ id: "vote-1", user_id: "user-1", option_id: "option-a", rank: 1 }),
+        makeVote({ id: "vote-2", user_id: "user-1", option_id: "option-b", rank: 2 }),
+        makeVote({ id: "vote-3", user_id: "user-2", option_id: "option-b", rank: 1 }),
+        makeVote({ id: "vote-4", user_id: "user-3", option_id: "option-b", rank: 1 }),
+      ],
+    });
+
+    const stats = await pollRepository.getStatistics("poll-1");
+
+    // Only first choices count towards the option totals
+    expect(stats.totalVotes).toBe(3);
+    expect(stats.uniqueVoters).toBe(3);
+    expect(stats.optionStats.map((option) => option.votes)).toEqual([1, 2]);
+    expect(stats.instantRunoff).toMatchObject({ totalBallots: 3, winnerId: "option-b" });
+  });
+
+  it("rejects a poll that does not exist", async () => {
+    jest.spyOn(pollRepository, "findWithOptions").mockResolvedValueOnce(null);
+
+    await expect(pollRepository.getStatistics("poll-1")).rejects.toThrow("Poll not found");
+    expect(mockAdminFrom).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Tests for VoteRepository ballot replacement
+ */
+
+const mockRpc = jest.fn();
+const mockFrom = jest.fn();
+const mockAdminRpc = jest.fn();
+
+jest.mock("../../../lib/supabase", () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+jest.mock("../../../lib/supabase-admin", () => ({
+  getSupabaseAdmin: () => ({
+    rpc: (...args: unknown[]) => mockAdminRpc(...args),
+  }),
+}));
+
+import { VoteRepository } from "../../../lib/repositories/poll-repository";
+import {
+  AuthenticationError,
+  DatabaseError,
+  GuestVoteLimitError,
+  InvalidInputError,
+  MultipleVotesNotAllowedError,
+  NotFoundError,
+  PollExpiredError,
+  PollInactiveError,
+  PollNotFoundError,
+  PollNotStartedError,
+  SelectionLimitError,
+  UnauthorizedError,
+  VoteChangeNotAllowedError,
+} from "../../../lib/errors/custom-errors";
+
+const voteRepository = new VoteRepository();
+
+describe("VoteRepository.submitVotes", () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockFrom.mockReset();
+    mockAdminRpc.mockReset();
+    // The repository logs every submission and failure; keep the test output readable
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("replaces the ballot through a single service role call scoped to the user", async () => {
+    const vote = {
+      id: "vote-1",
+      poll_id: "poll-1",
+      option_id: "option-a",
+      user_id: "user-1",
+      source: "poster",
+    };
+    mockAdminRpc.mockResolvedValueOnce({ data: [vote], error: null });
+
+    const votes = await voteRepository.submitVotes("poll-1", "user-1", ["option-a"], "poster");
+
+    expect(mockAdminRpc).toHaveBeenCalledTimes(1);
+    expect(mockAdminRpc).toHaveBeenCalledWith("replace_user_votes", {
+      poll_uuid: "poll-1",
+      user_uuid: "user-1",
+      option_uuids: ["option-a"],
+      vote_source: "poster",
+    });
+    expect(mockRpc).not.toHaveBeenCalled();
+    expect(mockFrom).not.toHaveBeenCalled();
+    expect(votes).toEqual([vote]);
+  });
+
+  describe("database errors", () => {
+    it.each([
+      ["POLL_NOT_FOUND", null, PollNotFoundError],
+      ["POLL_NOT_STARTED", "2099-01-01T00:00:00+00:00", PollNotStartedError],
+      ["POLL_INACTIVE", null, PollInactiveError],
+      ["POLL_EXPIRED", "2024-01-01T00:00:00+00:00", PollExpiredError],
+      ["MULTIPLE_VOTES_NOT_ALLOWED", null, MultipleVotesNotAllowedError],
+      ["SELECTION_LIMIT", "1,3", SelectionLimitError],
+      ["INVALID_SCORE", "1-5", InvalidInputError],
+      ["WRITE_INS_NOT_ALLOWED", null, InvalidInputError],
+      ["WRITE_IN_TOO_LONG", "200", InvalidInputError],
+      ["VOTE_CHANGE_NOT_ALLOWED", "", VoteChangeNotAllowedError],
+      ["GUEST_VOTING_DISABLED", null, AuthenticationError],
+      ["GUEST_VOTE_LIMIT", null, GuestVoteLimitError],
+      ["deadlock detected", null, DatabaseError],
+    ])("maps %s to the matching error", async (message, details, ErrorClass) => {
+      mockAdminRpc.mockResolvedValueOnce({ data: null, error: { message, details } });
+
+      await expect(
+        voteRepository.submitVotes("poll-1", "user-1", ["option-a"])
+      ).rejects.toBeInstanceOf(ErrorClass);
+    });
+
+    it("reports the unknown option IDs", async () => {
+      mockAdminRpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: "INVALID_OPTION", details: "option-z" },
+      });
+
+      await expect(
+        voteRepository.submitVotes("poll-1", "user-1", ["option-z"])
+      ).rejects.toThrow("Invalid option IDs: option-z");
+    });
+
+    it("reports the poll's selection limits", async () => {
+      mockAdminRpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: "SELECTION_LIMIT", details: ",3" },
+      });
+
+      await expect(
+        voteRepository.submitVotes("poll-1", "user-1", ["option-a", "option-b", "option-c", "option-d"])
+      ).rejects.toMatchObject({
+        code: "SELECTION_LIMIT",
+        context: { minSelections: null, maxSelections: 3 },
+      });
+    });
+
+    it("reports the poll's rating scale", async () => {
+      mockAdminRpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: "INVALID_SCORE", details: "1-5" },
+      });
+
+      await expect(
+        voteRepository.submitVotes("poll-1", "user-1", ["option-a"], null, { "option-a": 9 })
+      ).rejects.toThrow("Invalid scores: every option must be scored from 1 to 5");
+    });
+  });
+
+  it("sends rating scores in the same order as the option IDs", async () => {
+    mockAdminRpc.mockResolvedValueOnce({ data: [], error: null });
+
+    await voteRepository.submitVotes("poll-1", "user-1", ["option-b", "option-a"], null, {
+      "option-a": 4,
+      "option-b": 2,
+    });
+
+    expect(mockAdminRpc).toHaveBeenCalledWith("replace_user_votes", {
+      poll_uuid: "poll-1",
+      user_uuid: "user-1",
+      option_uuids: ["option-b", "option-a"],
+      vote_source: null,
+      option_scores: [2, 4],
+    });
+  });
+
+  it("sends the write-in alongside the chosen options", async () => {
+    mockAdminRpc.mockResolvedValueOnce({ data: [], error: null });
+
+    await voteRepository.submitVotes("poll-1", "user-1", [], null, null, "Pistachio");
+
+    expect(mockAdminRpc).toHaveBeenCalledWith("replace_user_votes", {
+      poll_uuid: "poll-1",
+      user_uuid: "user-1",
+      option_uuids: [],
+      vote_source: null,
+      write_in_text: "Pistachio",
+    });
+  });
+});
+
+describe("VoteRepository.retractVotes", () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockAdminRpc.mockReset();
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("removes the ballot through the database and reports how many rows went", async () => {
+    mockAdminRpc.mockResolvedValueOnce({ data: 2, error: null });
+
+    await expect(voteRepository.retractVotes("poll-1", "user-1")).resolves.toBe(2);
+    expect(mockAdminRpc).toHaveBeenCalledWith("retract_user_votes", {
+      poll_uuid: "poll-1",
+      user_uuid: "user-1",
+    });
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("reports the poll's change window when the ballot is locked", async () => {
+    mockAdminRpc.mockResolvedValueOnce({
+      data: null,
+      error: { message: "VOTE_CHANGE_NOT_ALLOWED", details: "15" },
+    });
+
+    await expect(voteRepository.retractVotes("poll-1", "user-1")).rejects.toMatchObject({
+      code: "VOTE_CHANGE_NOT_ALLOWED",
+      context: { pollId: "poll-1", windowMinutes: 15 },
+    });
+  });
+
+  it("retracts a guest ballot by voter token", async () => {
+    mockAdminRpc.mockResolvedValueOnce({ data: 1, error: null });
+
+    await voteRepository.retractGuestVotes("poll-1", "voter-1");
+
+    expect(mockAdminRpc).toHaveBeenCalledWith("retract_guest_votes", {
+      poll_uuid: "poll-1",
+      voter_uuid: "voter-1",
+    });
+  });
+});
+
+describe("VoteRepository.promoteWriteIn", () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockAdminRpc.mockReset();
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("promotes the write-in through the database on behalf of the owner", async () => {
+    const option = { id: "option-p", poll_id: "poll-1", text: "Pistachio", votes_count: 3 };
+    mockAdminRpc.mockResolvedValueOnce({ data: option, error: null });
+
+    await expect(voteRepository.promoteWriteIn("poll-1", "owner-1", "pistachio")).resolves.toEqual(
+      option
+    );
+    expect(mockAdminRpc).toHaveBeenCalledWith("promote_write_in", {
+      poll_uuid: "poll-1",
+      owner_uuid: "owner-1",
+      write_in_text: "pistachio",
+    });
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["NOT_POLL_OWNER", UnauthorizedError],
+    ["WRITE_IN_NOT_FOUND", NotFoundError],
+    ["POLL_NOT_FOUND", PollNotFoundError],
+  ])("maps %s to the matching error", async (message, ErrorClass) => {
+    mockAdminRpc.mockResolvedValueOnce({ data: null, error: { message, details: null } });
+
+    await expect(
+      voteRepository.promoteWriteIn("poll-1", "owner-1", "pistachio")
+    ).rejects.toBeInstanceOf(ErrorClass);
+  });
+});
+
+describe("VoteRepository.submitGuestVotes", () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockAdminRpc.mockReset();
+    mockAdminRpc.mockResolvedValue({ data: [], error: null });
+    jest.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("passes the voter token, address and user agent to the database", async () => {
+    await voteRepository.submitGuestVotes(
+      "poll-1",
+      { voter_token: "voter-1", ip_address: "203.0.113.7", user_agent: "Mozilla/5.0" },
+      ["option-a"],
+      "lobby-poster"
+    );
+
+    expect(mockAdminRpc).toHaveBeenCalledWith("replace_guest_votes", {
+      poll_uuid: "poll-1",
+      voter_uuid: "voter-1",
+      option_uuids: ["option-a"],
+      vote_source: "lobby-poster",
+      voter_ip: "203.0.113.7",
+      voter_user_agent: "Mozilla/5.0",
+    });
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the filesystem storage adapter
+ */
+
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalStorageAdapter } from "../../../lib/storage/local-storage-adapter";
+
+const KEY = "option-images/user-1/abc.png";
+
+describe("LocalStorageAdapter", () => {
+  let rootDir: string;
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), "polly-uploads-"));
+    storage = new LocalStorageAdapter(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should read back a saved file with its content type", async () => {
+    const data = Buffer.from([1, 2, 3]);
+
+    await expect(storage.save(KEY, data, "image/png")).resolves.toEqual({
+      key: KEY,
+      contentType: "image/png",
+      size: 3,
+    });
+    await expect(storage.read(KEY)).resolves.toEqual({ data, contentType: "image/png" });
+  });
+
+  it("should return null for a missing or deleted file", async () => {
+    await expect(storage.read(KEY)).resolves.toBeNull();
+
+    await storage.save(KEY, Buffer.from([1]), "image/png");
+    await storage.delete(KEY);
+    await expect(storage.read(KEY)).resolves.toBeNull();
+  });
+
+  it("should not overwrite an existing file", async () => {
+    await storage.save(KEY, Buffer.from([1]), "image/png");
+
+    await expect(storage.save(KEY, Buffer.from([2]), "image/png")).rejects.toThrow();
+    await expect(storage.read(KEY)).resolves.toMatchObject({ data: Buffer.from([1]) });
+  });
+
+  it("should reject keys that reach outside the uploads directory", async () => {
+    await expect(storage.read("../secrets.png")).rejects.toThrow("Invalid key");
+    await expect(storage.save("/etc/passwd.png", Buffer.from([1]), "image/png")).rejects.toThrow(
+      "Invalid key"
+    );
+  });
+});
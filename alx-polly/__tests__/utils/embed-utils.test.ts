@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for embed option parsing, poll URL resolution and oEmbed markup
+ */
+
+import {
+  DEFAULT_EMBED_OPTIONS,
+  buildEmbedIframeHtml,
+  getPollEmbedPath,
+  parseEmbedOptions,
+  parsePollUrl,
+} from "../../utils/embed-utils";
+
+describe("Embed utilities", () => {
+  describe("parseEmbedOptions", () => {
+    it("should fall back to defaults when no params are given", () => {
+      expect(parseEmbedOptions(new URLSearchParams())).toEqual({
+        isValid: true,
+        options: DEFAULT_EMBED_OPTIONS,
+      });
+    });
+
+    it("should parse theme, height and hide_avatar", () => {
+      const result = parseEmbedOptions(
+        new URLSearchParams("theme=DARK&height=600&hide_avatar=true")
+      );
+
+      expect(result).toEqual({
+        isValid: true,
+        options: { theme: "dark", height: 600, hideAvatar: true },
+      });
+    });
+
+    it.each([["theme=blue"], ["height=100"], ["height=5000"], ["height=abc"], ["hide_avatar=maybe"]])(
+      "should reject invalid params: %s",
+      (query) => {
+        expect(parseEmbedOptions(new URLSearchParams(query)).isValid).toBe(false);
+      }
+    );
+  });
+
+  describe("getPollEmbedPath", () => {
+    it("should omit default options from the path", () => {
+      expect(getPollEmbedPath("poll-1")).toBe("/embed/polls/poll-1");
+      expect(getPollEmbedPath("poll-1", DEFAULT_EMBED_OPTIONS)).toBe("/embed/polls/poll-1");
+    });
+
+    it("should include non-default options", () => {
+      expect(getPollEmbedPath("poll-1", { theme: "auto", height: 360, hideAvatar: true })).toBe(
+        "/embed/polls/poll-1?theme=auto&height=360&hide_avatar=1"
+      );
+    });
+  });
+
+  describe("parsePollUrl", () => {
+    const origin = "https://polly.example";
+
+    it("should resolve poll pages, embed pages and short links", () => {
+      expect(parsePollUrl("https://polly.example/polls/abc?src=slide-3", origin)).toEqual({
+        pollId: "abc",
+      });
+      expect(parsePollUrl("https://polly.example/embed/polls/abc", origin)).toEqual({
+        pollId: "abc",
+      });
+      expect(parsePollUrl("https://polly.example/p/team-lunch", origin)).toEqual({
+        slug: "team-lunch",
+      });
+    });
+
+    it("should ignore other sites, other paths and invalid URLs", () => {
+      expect(parsePollUrl("https://evil.example/polls/abc", origin)).toBeNull();
+      expect(parsePollUrl("https://polly.example/polls/abc/edit", origin)).toBeNull();
+      expect(parsePollUrl("https://polly.example/dashboard", origin)).toBeNull();
+      expect(parsePollUrl("not a url", origin)).toBeNull();
+    });
+  });
+
+  describe("buildEmbedIframeHtml", () => {
+    it("should escape attribute values", () => {
+      const html = buildEmbedIframeHtml({
+        src: "https://polly.example/embed/polls/abc?theme=dark&height=600",
+        title: 'Best "pizza" <topping>',
+        width: 560,
+        height: 600,
+      });
+
+      expect(html).toBe(
+        '<iframe src="https://polly.example/embed/polls/abc?theme=dark&amp;height=600" ' +
+          'title="Best &quot;pizza&quot; &lt;topping&gt;" width="560" height="600" ' +
+          'style="max-width:100%;border:0" loading="lazy"></iframe>'
+      );
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for option image validation helpers
+ */
+
+import {
+  detectImageType,
+  formatFileSize,
+  getUploadContentType,
+  getUploadUrl,
+  isOptionImageType,
+  isValidUploadKey,
+  validateOptionImageUrl,
+} from "../../utils/media-utils";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const ascii = (text: string) => bytes(...Array.from(text, (char) => char.charCodeAt(0)));
+
+describe("Media utilities", () => {
+  describe("detectImageType", () => {
+    it("should recognize PNG, JPEG, GIF and WebP signatures", () => {
+      expect(detectImageType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0))).toBe(
+        "image/png"
+      );
+      expect(detectImageType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe("image/jpeg");
+      expect(detectImageType(ascii("GIF89a..."))).toBe("image/gif");
+      expect(detectImageType(ascii("RIFF\0\0\0\0WEBPVP8 "))).toBe("image/webp");
+    });
+
+    it("should reject other files, even when they claim to be images", () => {
+      expect(detectImageType(ascii("<svg xmlns="))).toBeNull();
+      expect(detectImageType(ascii("RIFF\0\0\0\0WAVE"))).toBeNull();
+      expect(detectImageType(bytes(0x89, 0x50))).toBeNull();
+      expect(detectImageType(bytes())).toBeNull();
+    });
+  });
+
+  describe("isOptionImageType", () => {
+    it("should accept raster image types only", () => {
+      expect(isOptionImageType("image/png")).toBe(true);
+      expect(isOptionImageType("image/webp")).toBe(true);
+      expect(isOptionImageType("image/svg+xml")).toBe(false);
+      expect(isOptionImageType("toString")).toBe(false);
+    });
+  });
+
+  describe("validateOptionImageUrl", () => {
+    it("should accept web addresses and uploaded files", () => {
+      expect(validateOptionImageUrl("https://example.com/logo-a.png").isValid).toBe(true);
+      expect(validateOptionImageUrl(" http://example.com/b.jpg ").isValid).toBe(true);
+      expect(validateOptionImageUrl(getUploadUrl("option-images/user-1/abc.png")).isValid).toBe(
+        true
+      );
+    });
+
+    it("should reject other schemes and paths", () => {
+      expect(validateOptionImageUrl("javascript:alert(1)").isValid).toBe(false);
+      expect(validateOptionImageUrl("data:image/png;base64,AAAA").isValid).toBe(false);
+      expect(validateOptionImageUrl("/api/uploads/../secrets.png").isValid).toBe(false);
+      expect(validateOptionImageUrl("  ").error).toBe("Image URL is required");
+    });
+
+    it("should limit the URL length", () => {
+      expect(validateOptionImageUrl(`https://example.com/${"a".repeat(2048)}`).isValid).toBe(
+        false
+      );
+    });
+  });
+
+  describe("isValidUploadKey", () => {
+    it("should only accept plain relative paths", () => {
+      expect(isValidUploadKey("option-images/user-1/abc.png")).toBe(true);
+      expect(isValidUploadKey("../abc.png")).toBe(false);
+      expect(isValidUploadKey("/abc.png")).toBe(false);
+      expect(isValidUploadKey("option-images//abc.png")).toBe(false);
+      expect(isValidUploadKey("option-images/abc")).toBe(false);
+    });
+  });
+
+  describe("getUploadContentType", () => {
+    it("should map stored extensions back to their image type", () => {
+      expect(getUploadContentType("option-images/a.jpg")).toBe("image/jpeg");
+      expect(getUploadContentType("option-images/a.WEBP")).toBe("image/webp");
+      expect(getUploadContentType("option-images/a.txt")).toBe("application/octet-stream");
+    });
+  });
+
+  describe("formatFileSize", () => {
+    it("should use the largest fitting unit", () => {
+      expect(formatFileSize(5 * 1024 * 1024)).toBe("5 MB");
+      expect(formatFileSize(1536 * 1024)).toBe("1.5 MB");
+      expect(formatFileSize(2048)).toBe("2 KB");
+      expect(formatFileSize(12)).toBe("12 bytes");
+    });
+  });
+});
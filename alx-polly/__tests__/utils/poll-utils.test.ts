@@ -0,0 +1,958 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for poll short links, URL generation, row mapping and voting rules
+ */
+
+import {
+  GENERATED_SLUG_LENGTH,
+  allowsGuestVoting,
+  calculateInstantRunoff,
+  calculateQuizLeaderboard,
+  calculateRatingStats,
+  calculateSurveyFunnel,
+  canChangeVote,
+  canTransitionPollStatus,
+  canViewPollResults,
+  countWriteInVotes,
+  decidePollOutcome,
+  describeCloseRules,
+  describeResultsVisibility,
+  describeSelectionLimits,
+  findFollowUpCycle,
+  generatePollSlug,
+  generatePollUrl,
+  getFollowUpPollId,
+  getPollPath,
+  getPollStatus,
+  getPollStatusActionLabel,
+  getTimeRemaining,
+  getWinningOptions,
+  groupRankedBallots,
+  groupWriteIns,
+  isGuestVoteLimit,
+  isPollStatus,
+  isQuizAnswerCorrect,
+  isTieStrategy,
+  isVoteType,
+  isWithinSelectionLimits,
+  meetsFollowUpCondition,
+  normalizePollSlug,
+  normalizeWriteIn,
+  supportsCloseRules,
+  toPoll,
+  toSurveyProgress,
+  validatePollSlug,
+  withholdPollResults,
+} from "../../utils/poll-utils";
+import { Poll } from "../../types";
+import { PollWithOptions } from "../../types/database";
+
+describe("Poll utilities", () => {
+  describe("generatePollSlug", () => {
+    it("should generate short slugs without ambiguous characters", () => {
+      const slug = generatePollSlug();
+
+      expect(slug).toHaveLength(GENERATED_SLUG_LENGTH);
+      expect(slug).toMatch(/^[a-hjkmnp-z2-9]+$/);
+    });
+
+    it("should generate different slugs", () => {
+      const slugs = new Set(Array.from({ length: 50 }, () => generatePollSlug()));
+
+      expect(slugs.size).toBe(50);
+    });
+  });
+
+  describe("normalizePollSlug", () => {
+    it("should lowercase and hyphenate vanity slugs", () => {
+      expect(normalizePollSlug("  Team Lunch_2024 ")).toBe("team-lunch-2024");
+      expect(normalizePollSlug("--a--b--")).toBe("a-b");
+    });
+  });
+
+  describe("validatePollSlug", () => {
+    it("should accept valid slugs", () => {
+      expect(validatePollSlug("team-lunch")).toEqual({ isValid: true });
+    });
+
+    it.each([["ab"], ["a".repeat(41)], ["team lunch"], ["café"], ["dashboard"]])(
+      "should reject %s",
+      (slug) => {
+        expect(validatePollSlug(slug).isValid).toBe(false);
+      }
+    );
+  });
+
+  describe("generatePollUrl", () => {
+    it("should prefer the short link when the poll has a slug", () => {
+      expect(getPollPath({ id: "poll-1", slug: "team-lunch" })).toBe("/p/team-lunch");
+      expect(
+        generatePollUrl({ id: "poll-1", slug: "team-lunch" }, "https://polly.example/")
+      ).toBe("https://polly.example/p/team-lunch");
+    });
+
+    it("should fall back to the poll ID", () => {
+      expect(generatePollUrl({ id: "poll-1", slug: null }, "https://polly.example")).toBe(
+        "https://polly.example/polls/poll-1"
+      );
+      expect(generatePollUrl("poll-1")).toBe("/polls/poll-1");
+    });
+  });
+
+  describe("toPoll", () => {
+    it("should map a poll row and its options to the component shape", () => {
+      const row = {
+        id: "poll-1",
+        title: "Team lunch",
+        description: null,
+        created_by: "user-1",
+        created_at: "2024-01-15T10:00:00.000Z",
+        updated_at: "2024-01-15T10:00:00.000Z",
+        expires_at: null,
+        status: "open",
+        allow_multiple_votes: false,
+        vote_type: "single",
+        is_anonymous: true,
+        total_votes: 3,
+        qr_code_url: null,
+        slug: "team-lunch",
+        poll_options: [
+          { id: "o1", poll_id: "poll-1", text: "Pizza", votes_count: 2, created_at: "" },
+          { id: "o2", poll_id: "poll-1", text: "Sushi", votes_count: 1, created_at: "" },
+        ],
+      } as unknown as PollWithOptions;
+
+      expect(toPoll(row)).toEqual({
+        id: "poll-1",
+        title: "Team lunch",
+        description: undefined,
+        options: [
+          { id: "o1", text: "Pizza", votes: 2, pollId: "poll-1" },
+          { id: "o2", text: "Sushi", votes: 1, pollId: "poll-1" },
+        ],
+        createdBy: "user-1",
+        createdAt: new Date("2024-01-15T10:00:00.000Z"),
+        updatedAt: new Date("2024-01-15T10:00:00.000Z"),
+        expiresAt: undefined,
+        status: "open",
+        allowMultipleVotes: false,
+        voteType: "single",
+        isAnonymous: true,
+        totalVotes: 3,
+        qrCode: "/api/polls/poll-1/qr",
+        slug: "team-lunch",
+      });
+    });
+  });
+
+  describe("getPollStatus", () => {
+    const now = new Date("2025-03-01T12:00:00Z");
+    const poll = (overrides: Partial<Poll>) => ({ status: "open", ...overrides }) as Poll;
+
+    it("should count scheduled polls as open from their start time", () => {
+      const scheduled = poll({ status: "scheduled", startsAt: new Date("2025-03-01T14:00:00Z") });
+
+      expect(getPollStatus(scheduled, now)).toBe("scheduled");
+      expect(getPollStatus(scheduled, new Date("2025-03-01T14:00:01Z"))).toBe("open");
+    });
+
+    it("should count expired polls as closed before the sweeper gets to them", () => {
+      const expiresAt = new Date("2025-03-01T10:00:00Z");
+
+      expect(getPollStatus(poll({ expiresAt }), now)).toBe("closed");
+      expect(getPollStatus(poll({ status: "paused", expiresAt }), now)).toBe("closed");
+      expect(getPollStatus(poll({ status: "paused" }), now)).toBe("paused");
+    });
+
+    it("should keep drafts and archived polls as they are", () => {
+      const expiresAt = new Date("2025-03-01T10:00:00Z");
+
+      expect(getPollStatus(poll({ status: "draft", expiresAt }), now)).toBe("draft");
+      expect(getPollStatus(poll({ status: "archived", expiresAt }), now)).toBe("archived");
+    });
+  });
+
+  describe("canTransitionPollStatus", () => {
+    it("should follow the lifecycle", () => {
+      expect(canTransitionPollStatus("draft", "open")).toBe(true);
+      expect(canTransitionPollStatus("open", "paused")).toBe(true);
+      expect(canTransitionPollStatus("closed", "archived")).toBe(true);
+      expect(canTransitionPollStatus("archived", "closed")).toBe(true);
+    });
+
+    it("should reject skipping steps or going back to draft once published", () => {
+      expect(canTransitionPollStatus("draft", "closed")).toBe(false);
+      expect(canTransitionPollStatus("open", "archived")).toBe(false);
+      expect(canTransitionPollStatus("open", "draft")).toBe(false);
+      expect(canTransitionPollStatus("paused", "paused")).toBe(false);
+    });
+  });
+
+  describe("getPollStatusActionLabel", () => {
+    it("should name the action after where the poll comes from", () => {
+      expect(getPollStatusActionLabel("draft", "open")).toBe("Publish");
+      expect(getPollStatusActionLabel("paused", "open")).toBe("Resume");
+      expect(getPollStatusActionLabel("closed", "open")).toBe("Reopen");
+      expect(getPollStatusActionLabel("archived", "closed")).toBe("Restore");
+      expect(getPollStatusActionLabel("open", "closed")).toBe("Close");
+    });
+  });
+
+  describe("isPollStatus", () => {
+    it("should only accept lifecycle statuses", () => {
+      expect(isPollStatus("paused")).toBe(true);
+      expect(isPollStatus("active")).toBe(false);
+      expect(isPollStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe("getTimeRemaining", () => {
+    const now = new Date("2025-03-01T12:00:00Z");
+
+    it("should count down to the start of a scheduled poll", () => {
+      expect(getTimeRemaining(null, new Date("2025-03-01T14:00:00Z"), now)).toBe("Starts in 2h");
+      expect(
+        getTimeRemaining(new Date("2025-03-05T12:00:00Z"), new Date("2025-03-02T15:30:00Z"), now)
+      ).toBe("Starts in 1d 3h");
+    });
+
+    it("should count down to the expiration once the poll is open", () => {
+      expect(
+        getTimeRemaining(new Date("2025-03-01T14:30:00Z"), new Date("2025-03-01T11:00:00Z"), now)
+      ).toBe("2h 30m remaining");
+      expect(getTimeRemaining(new Date("2025-03-01T12:45:00Z"), null, now)).toBe("45m remaining");
+      expect(getTimeRemaining(new Date("2025-03-01T11:00:00Z"), null, now)).toBe("Expired");
+    });
+  });
+
+  describe("canViewPollResults", () => {
+    it("should show results of open polls to everyone", () => {
+      const poll = { status: "open" as const, created_by: "owner" };
+
+      expect(canViewPollResults(poll)).toBe(true);
+      expect(canViewPollResults(poll, "someone-else")).toBe(true);
+    });
+
+    it("should only show results of drafts and paused polls to the owner", () => {
+      for (const status of ["draft", "paused"] as const) {
+        const poll = { status, created_by: "owner" };
+
+        expect(canViewPollResults(poll)).toBe(false);
+        expect(canViewPollResults(poll, "someone-else")).toBe(false);
+        expect(canViewPollResults(poll, "owner")).toBe(true);
+      }
+    });
+
+    it("should treat closed and archived polls as closed before their expiration", () => {
+      const closed = {
+        status: "closed" as const,
+        created_by: "owner",
+        results_visibility: "after_close" as const,
+        expires_at: "2099-03-01T10:00:00Z",
+      };
+      const scheduled = { status: "scheduled" as const, created_by: "owner" };
+
+      expect(canViewPollResults(closed, "voter")).toBe(true);
+      expect(canViewPollResults({ ...closed, status: "archived" }, "voter")).toBe(true);
+      expect(canViewPollResults(scheduled, "voter")).toBe(true);
+    });
+
+    it("should hold results back until the viewer votes or the poll closes", () => {
+      const now = new Date("2025-03-01T12:00:00Z");
+      const poll = {
+        status: "open" as const,
+        created_by: "owner",
+        results_visibility: "after_vote" as const,
+        expires_at: "2025-03-02T12:00:00Z",
+      };
+
+      expect(canViewPollResults(poll, "voter", false, now)).toBe(false);
+      expect(canViewPollResults(poll, "voter", true, now)).toBe(true);
+      expect(canViewPollResults(poll, "owner", false, now)).toBe(true);
+      expect(canViewPollResults(poll, null, false, new Date("2025-03-03T00:00:00Z"))).toBe(
+        true
+      );
+    });
+
+    it("should only show results after close once the poll has expired", () => {
+      const poll = {
+        status: "open" as const,
+        created_by: "owner",
+        results_visibility: "after_close" as const,
+        expires_at: "2025-03-02T12:00:00Z",
+      };
+
+      expect(canViewPollResults(poll, "voter", true, new Date("2025-03-01T12:00:00Z"))).toBe(
+        false
+      );
+      expect(canViewPollResults(poll, "voter", true, new Date("2025-03-02T12:00:00Z"))).toBe(
+        true
+      );
+    });
+
+    it("should keep owner-only results from everyone else", () => {
+      const poll = {
+        status: "open" as const,
+        created_by: "owner",
+        results_visibility: "owner_only" as const,
+        expires_at: "2000-01-01T00:00:00Z",
+      };
+
+      expect(canViewPollResults(poll, "voter", true)).toBe(false);
+      expect(canViewPollResults(poll, "owner")).toBe(true);
+    });
+  });
+
+  describe("withholdPollResults", () => {
+    it("should blank the counts and flag the poll", () => {
+      const poll = {
+        id: "poll-1",
+        total_votes: 5,
+        poll_options: [
+          { id: "o1", text: "Pizza", votes_count: 3 },
+          { id: "o2", text: "Sushi", votes_count: 2 },
+        ],
+      } as unknown as PollWithOptions;
+
+      const withheld = withholdPollResults(poll);
+
+      expect(withheld.total_votes).toBe(0);
+      expect(withheld.poll_options.map((option) => option.votes_count)).toEqual([0, 0]);
+      expect(withheld.poll_options[0].text).toBe("Pizza");
+      expect(withheld.results_hidden).toBe(true);
+      expect(poll.total_votes).toBe(5);
+    });
+  });
+
+  describe("describeResultsVisibility", () => {
+    it("should tell the viewer when results will be shown", () => {
+      expect(
+        describeResultsVisibility({ status: "open", resultsVisibility: "after_vote" })
+      ).toBe("Results are shown once you vote, or to everyone when the poll closes.");
+      expect(
+        describeResultsVisibility({
+          status: "open",
+          resultsVisibility: "after_close",
+          expiresAt: new Date("2025-03-02T12:00:00Z"),
+        })
+      ).toMatch(/^Results are shown when the poll closes on Mar 2, 2025/);
+      expect(
+        describeResultsVisibility({ status: "open", resultsVisibility: "owner_only" })
+      ).toBe("Only the poll creator can see the results.");
+      expect(
+        describeResultsVisibility({ status: "paused", resultsVisibility: "always" })
+      ).toBe("Results are hidden while the poll is paused.");
+    });
+  });
+
+  describe("allowsGuestVoting", () => {
+    it("should only let guests vote on anonymous polls", () => {
+      expect(allowsGuestVoting({ is_anonymous: true })).toBe(true);
+      expect(allowsGuestVoting({ is_anonymous: false })).toBe(false);
+    });
+  });
+
+  describe("isGuestVoteLimit", () => {
+    it("should accept the known limits", () => {
+      expect(isGuestVoteLimit("browser")).toBe(true);
+      expect(isGuestVoteLimit("device")).toBe(true);
+      expect(isGuestVoteLimit("network")).toBe(true);
+    });
+
+    it("should reject anything else", () => {
+      expect(isGuestVoteLimit("ip")).toBe(false);
+      expect(isGuestVoteLimit("")).toBe(false);
+      expect(isGuestVoteLimit(undefined)).toBe(false);
+    });
+  });
+
+  describe("isVoteType", () => {
+    it("should accept the known vote types", () => {
+      expect(isVoteType("single")).toBe(true);
+      expect(isVoteType("multiple")).toBe(true);
+      expect(isVoteType("ranked")).toBe(true);
+    });
+
+    it("should reject anything else", () => {
+      expect(isVoteType("approval")).toBe(false);
+      expect(isVoteType(undefined)).toBe(false);
+    });
+  });
+
+  describe("calculateInstantRunoff", () => {
+    const options = ["a", "b", "c", "d"];
+
+    it("should elect a first-round majority without further rounds", () => {
+      const result = calculateInstantRunoff(options, [["a", "b"], ["a"], ["b", "a"]]);
+
+      expect(result.winnerId).toBe("a");
+      expect(result.rounds).toEqual([
+        { round: 1, tallies: { a: 2, b: 1, c: 0, d: 0 }, exhaustedBallots: 0, eliminatedId: null },
+      ]);
+    });
+
+    it("should transfer eliminated ballots to their next continuing choice", () => {
+      const ballots = [
+        ["a"], ["a"], ["a"],
+        ["b", "c"], ["b", "c"],
+        ["c", "b"], ["c", "b"],
+        ["d", "b"],
+      ];
+
+      const result = calculateInstantRunoff(options, ballots);
+
+      expect(result.rounds.map((round) => round.eliminatedId)).toEqual(["d", "c", null]);
+      expect(result.rounds[1].tallies).toEqual({ a: 3, b: 3, c: 2 });
+      expect(result.rounds[2].tallies).toEqual({ a: 3, b: 5 });
+      expect(result.winnerId).toBe("b");
+    });
+
+    it("should count exhausted ballots separately and exclude them from the majority", () => {
+      const ballots = [["a"], ["a"], ["b"], ["c"], ["c", "a"]];
+
+      const result = calculateInstantRunoff(["a", "b", "c"], ballots);
+
+      expect(result.rounds[1]).toEqual({
+        round: 2,
+        tallies: { a: 2, c: 2 },
+        exhaustedBallots: 1,
+        eliminatedId: "c",
+      });
+      expect(result.rounds[2]).toEqual({
+        round: 3,
+        tallies: { a: 3 },
+        exhaustedBallots: 2,
+        eliminatedId: null,
+      });
+      expect(result.winnerId).toBe("a");
+    });
+
+    it("should break ties for last place using earlier rounds", () => {
+      // b and c tie in round 2, but b had fewer first choices
+      const ballots = [
+        ["a"], ["a"], ["a"], ["a"],
+        ["b"], ["b"],
+        ["c"], ["c"], ["c"],
+        ["d", "b"],
+      ];
+
+      const result = calculateInstantRunoff(options, ballots);
+
+      expect(result.rounds[0].eliminatedId).toBe("d");
+      expect(result.rounds[1].tallies).toEqual({ a: 4, b: 3, c: 3 });
+      expect(result.rounds[1].eliminatedId).toBe("b");
+    });
+
+    it("should eliminate the option listed last when a tie goes back to the first round", () => {
+      const result = calculateInstantRunoff(["a", "b"], [["a"], ["b"]]);
+
+      expect(result.rounds[0].eliminatedId).toBe("b");
+      expect(result.winnerId).toBe("a");
+    });
+
+    it("should not depend on the order ballots are counted in", () => {
+      const ballots = [["b", "a"], ["c", "a"], ["a", "c"], ["b", "c"], ["c", "b"]];
+
+      expect(calculateInstantRunoff(options, [...ballots].reverse())).toEqual(
+        calculateInstantRunoff(options, ballots)
+      );
+    });
+
+    it("should ignore unknown and repeated options on a ballot", () => {
+      const result = calculateInstantRunoff(["a", "b"], [["x", "b", "b"], ["a"], ["b"]]);
+
+      expect(result.totalBallots).toBe(3);
+      expect(result.rounds[0].tallies).toEqual({ a: 1, b: 2 });
+      expect(result.winnerId).toBe("b");
+    });
+
+    it("should have no winner without ballots", () => {
+      expect(calculateInstantRunoff(options, [])).toEqual({
+        totalBallots: 0,
+        rounds: [],
+        winnerId: null,
+      });
+    });
+  });
+
+  describe("getWinningOptions", () => {
+    const row = {
+      id: "poll-1",
+      title: "Team lunch",
+      description: null,
+      created_by: "user-1",
+      created_at: "2024-01-15T10:00:00.000Z",
+      updated_at: "2024-01-15T10:00:00.000Z",
+      expires_at: null,
+      status: "open",
+      allow_multiple_votes: false,
+      vote_type: "single",
+      is_anonymous: true,
+      total_votes: 5,
+      qr_code_url: null,
+      slug: null,
+      poll_options: [
+        { id: "a", poll_id: "poll-1", text: "Pizza", votes_count: 2, created_at: "" },
+        { id: "b", poll_id: "poll-1", text: "Sushi", votes_count: 2, created_at: "" },
+        { id: "c", poll_id: "poll-1", text: "Tacos", votes_count: 1, created_at: "" },
+      ],
+    } as unknown as PollWithOptions;
+
+    it("should return every option tied for the most votes", () => {
+      expect(getWinningOptions(toPoll(row)).map((option) => option.id)).toEqual(["a", "b"]);
+    });
+
+    it("should decide ranked polls by instant runoff", () => {
+      const poll = toPoll({ ...row, vote_type: "ranked" });
+      const ballots = [["a"], ["a"], ["b"], ["b"], ["c", "b"]];
+
+      expect(getWinningOptions(poll, ballots).map((option) => option.id)).toEqual(["b"]);
+      expect(getWinningOptions(poll)).toEqual([]);
+    });
+  });
+
+  describe("groupRankedBallots", () => {
+    it("should group rows by voter and order each ballot by rank", () => {
+      const votes = [
+        { id: "v1", option_id: "b", user_id: "u1", voter_token: null, rank: 2 },
+        { id: "v2", option_id: "c", user_id: null, voter_token: "guest", rank: 1 },
+        { id: "v3", option_id: "a", user_id: "u1", voter_token: null, rank: 1 },
+        { id: "v4", option_id: "a", user_id: null, voter_token: "guest", rank: 2 },
+      ];
+
+      expect(groupRankedBallots(votes)).toEqual([
+        ["a", "b"],
+        ["c", "a"],
+      ]);
+    });
+  });
+
+  describe("decidePollOutcome", () => {
+    const row = {
+      id: "poll-1",
+      title: "Team lunch",
+      description: null,
+      created_by: "user-1",
+      created_at: "2024-01-15T10:00:00.000Z",
+      updated_at: "2024-01-15T10:00:00.000Z",
+      expires_at: null,
+      status: "closed",
+      allow_multiple_votes: false,
+      vote_type: "single",
+      is_anonymous: true,
+      total_votes: 5,
+      qr_code_url: null,
+      slug: null,
+      quorum: null,
+      tie_strategy: "owner_decides",
+      poll_options: [
+        { id: "a", poll_id: "poll-1", text: "Pizza", votes_count: 2, created_at: "" },
+        { id: "b", poll_id: "poll-1", text: "Sushi", votes_count: 2, created_at: "" },
+        { id: "c", poll_id: "poll-1", text: "Tacos", votes_count: 1, created_at: "" },
+      ],
+    } as unknown as PollWithOptions;
+
+    it("should declare the single leader the winner", () => {
+      const poll = toPoll({
+        ...row,
+        poll_options: row.poll_options.map((option) =>
+          option.id === "a" ? { ...option, votes_count: 3 } : option
+        ),
+      });
+
+      expect(decidePollOutcome(poll)).toEqual({
+        status: "decided",
+        winnerOptionIds: ["a"],
+        tiedOptionIds: [],
+      });
+    });
+
+    it("should leave a tie to the owner by default", () => {
+      expect(decidePollOutcome(toPoll(row))).toEqual({
+        status: "tied",
+        winnerOptionIds: [],
+        tiedOptionIds: ["a", "b"],
+      });
+    });
+
+    it("should draw a random winner among the tied options", () => {
+      const poll = toPoll({ ...row, tie_strategy: "random" });
+
+      expect(decidePollOutcome(poll, [], { random: () => 0.75 })).toEqual({
+        status: "decided",
+        winnerOptionIds: ["b"],
+        tiedOptionIds: ["a", "b"],
+        tieResolution: "random",
+      });
+    });
+
+    it("should extend a tied poll once, then leave the tie to the owner", () => {
+      const poll = toPoll({ ...row, tie_strategy: "extend" });
+
+      expect(decidePollOutcome(poll).status).toBe("extended");
+      expect(decidePollOutcome(poll, [], { wasExtended: true }).status).toBe("tied");
+    });
+
+    it("should not declare a winner below the quorum or without votes", () => {
+      expect(decidePollOutcome(toPoll({ ...row, quorum: 6 }))).toEqual({
+        status: "no_quorum",
+        winnerOptionIds: [],
+        tiedOptionIds: [],
+      });
+      expect(decidePollOutcome(toPoll({ ...row, quorum: 5 })).status).toBe("tied");
+      expect(decidePollOutcome(toPoll({ ...row, total_votes: 0 })).status).toBe("no_votes");
+    });
+
+    it("should not count options nobody picked when every ballot was a write-in", () => {
+      const poll = toPoll({
+        ...row,
+        total_votes: 2,
+        poll_options: row.poll_options.map((option) => ({ ...option, votes_count: 0 })),
+      });
+
+      expect(decidePollOutcome(poll).status).toBe("no_votes");
+    });
+
+    it("should decide ranked polls by instant runoff", () => {
+      const poll = toPoll({ ...row, vote_type: "ranked" });
+      const ballots = [["a"], ["a"], ["b"], ["b"], ["c", "b"]];
+
+      expect(decidePollOutcome(poll, ballots)).toEqual({
+        status: "decided",
+        winnerOptionIds: ["b"],
+        tiedOptionIds: [],
+      });
+    });
+  });
+
+  describe("supportsCloseRules", () => {
+    it("should only allow closing rules on standalone polls with a winner", () => {
+      expect(supportsCloseRules({ voteType: "single" })).toBe(true);
+      expect(supportsCloseRules({ voteType: "ranked" })).toBe(true);
+      expect(supportsCloseRules({ voteType: "rating" })).toBe(false);
+      expect(supportsCloseRules({ voteType: "schedule" })).toBe(false);
+      expect(supportsCloseRules({ voteType: "multiple", quizId: "quiz-1" })).toBe(false);
+      expect(supportsCloseRules({ voteType: "single", surveyId: "survey-1" })).toBe(false);
+    });
+  });
+
+  describe("describeCloseRules", () => {
+    it("should describe the vote target, decisive lead and quorum", () => {
+      expect(describeCloseRules({ totalVotes: 3 })).toBeNull();
+      expect(describeCloseRules({ closeAfterVotes: 10, totalVotes: 3 })).toBe(
+        "Closes after 10 votes (7 to go)."
+      );
+      expect(
+        describeCloseRules({ closeAfterVotes: 10, closeOnDecisiveLead: true, quorum: 5, totalVotes: 12 })
+      ).toBe(
+        "Closes after 10 votes (0 to go), or sooner once the leader can't be caught. The result needs at least 5 votes to count."
+      );
+    });
+
+    it("should leave out the votes to go while the counts are hidden", () => {
+      expect(describeCloseRules({ closeAfterVotes: 10, totalVotes: 0, resultsHidden: true })).toBe(
+        "Closes after 10 votes."
+      );
+    });
+  });
+
+  describe("isTieStrategy", () => {
+    it("should accept only known tie strategies", () => {
+      expect(isTieStrategy("owner_decides")).toBe(true);
+      expect(isTieStrategy("extend")).toBe(true);
+      expect(isTieStrategy("coin_flip")).toBe(false);
+      expect(isTieStrategy(undefined)).toBe(false);
+    });
+  });
+
+  describe("describeSelectionLimits", () => {
+    it("should describe each combination of limits", () => {
+      expect(describeSelectionLimits(null, 3)).toBe("up to 3 options");
+      expect(describeSelectionLimits(2)).toBe("at least 2 options");
+      expect(describeSelectionLimits(2, 4)).toBe("2 to 4 options");
+      expect(describeSelectionLimits(1, 1)).toBe("exactly 1 option");
+    });
+
+    it("should return null without limits", () => {
+      expect(describeSelectionLimits()).toBeNull();
+      expect(describeSelectionLimits(null, null)).toBeNull();
+    });
+  });
+
+  describe("isWithinSelectionLimits", () => {
+    it("should require at least one option even without limits", () => {
+      expect(isWithinSelectionLimits(0)).toBe(false);
+      expect(isWithinSelectionLimits(5)).toBe(true);
+    });
+
+    it("should enforce the minimum and maximum", () => {
+      expect(isWithinSelectionLimits(1, 2, 3)).toBe(false);
+      expect(isWithinSelectionLimits(2, 2, 3)).toBe(true);
+      expect(isWithinSelectionLimits(3, null, 3)).toBe(true);
+      expect(isWithinSelectionLimits(4, null, 3)).toBe(false);
+    });
+  });
+
+  describe("calculateRatingStats", () => {
+    const scale = { min: 1, max: 5 };
+
+    it("should compute raters, average, median and distribution per option", () => {
+      const votes = [
+        { option_id: "a", score: 5 },
+        { option_id: "a", score: 4 },
+        { option_id: "a", score: 4 },
+        { option_id: "b", score: 1 },
+        { option_id: "b", score: 4 },
+      ];
+
+      expect(calculateRatingStats(["a", "b"], scale, votes)).toEqual([
+        { optionId: "a", raters: 3, average: 13 / 3, median: 4, distribution: [0, 0, 0, 2, 1] },
+        { optionId: "b", raters: 2, average: 2.5, median: 2.5, distribution: [1, 0, 0, 1, 0] },
+      ]);
+    });
+
+    it("should leave unrated options without an average or median", () => {
+      expect(calculateRatingStats(["a"], { min: 0, max: 2 }, [])).toEqual([
+        { optionId: "a", raters: 0, average: null, median: null, distribution: [0, 0, 0] },
+      ]);
+    });
+
+    it("should ignore scores outside the scale and rows without a score", () => {
+      const votes = [
+        { option_id: "a", score: 9 },
+        { option_id: "a", score: null },
+        { option_id: "a", score: 3 },
+      ];
+
+      expect(calculateRatingStats(["a"], scale, votes)[0]).toMatchObject({
+        raters: 1,
+        average: 3,
+      });
+    });
+  });
+
+  describe("normalizeWriteIn", () => {
+    it("should ignore case and extra spaces", () => {
+      expect(normalizeWriteIn("  Pad   Thai ")).toBe("pad thai");
+    });
+  });
+
+  describe("groupWriteIns", () => {
+    it("should group write-ins by normalized text, most frequent first", () => {
+      const votes = [
+        { write_in: "Tacos" },
+        { write_in: "pad thai" },
+        { write_in: "Pad Thai" },
+        { write_in: " pad  thai" },
+        { write_in: null },
+      ];
+
+      expect(groupWriteIns(votes)).toEqual([
+        { key: "pad thai", text: "pad thai", count: 3, variants: ["pad thai", "Pad Thai"] },
+        { key: "tacos", text: "Tacos", count: 1, variants: ["Tacos"] },
+      ]);
+    });
+  });
+
+  describe("countWriteInVotes", () => {
+    it("should count the votes no option accounts for", () => {
+      const options = [
+        { id: "a", text: "A", votes: 3, pollId: "poll-1" },
+        { id: "b", text: "B", votes: 1, pollId: "poll-1" },
+      ];
+
+      expect(countWriteInVotes({ options, totalVotes: 6 })).toBe(2);
+      expect(countWriteInVotes({ options, totalVotes: 4 })).toBe(0);
+    });
+  });
+
+  describe("canChangeVote", () => {
+    const votedAt = new Date("2025-03-01T12:00:00Z");
+
+    it("should let voters without a ballot vote under any policy", () => {
+      expect(canChangeVote("never", null, null)).toBe(true);
+    });
+
+    it("should keep ballots final when changes are off", () => {
+      expect(canChangeVote("never", null, votedAt, votedAt)).toBe(false);
+    });
+
+    it("should allow changes until the poll closes", () => {
+      expect(canChangeVote("until_close", null, votedAt, new Date("2026-01-01T00:00:00Z"))).toBe(true);
+    });
+
+    it("should only allow changes within the window after voting", () => {
+      expect(canChangeVote("window", 15, votedAt, new Date("2025-03-01T12:14:59Z"))).toBe(true);
+      expect(canChangeVote("window", 15, votedAt, new Date("2025-03-01T12:15:00Z"))).toBe(false);
+    });
+  });
+
+  describe("isQuizAnswerCorrect", () => {
+    it("should require exactly the correct options", () => {
+      expect(isQuizAnswerCorrect(["o1", "o3"], ["o3", "o1"])).toBe(true);
+      expect(isQuizAnswerCorrect(["o1"], ["o1", "o3"])).toBe(false);
+      expect(isQuizAnswerCorrect(["o1", "o2", "o3"], ["o1", "o3"])).toBe(false);
+    });
+
+    it("should never accept an answer to a question without correct options", () => {
+      expect(isQuizAnswerCorrect([], [])).toBe(false);
+    });
+  });
+
+  describe("calculateQuizLeaderboard", () => {
+    const answerKey = { q1: ["q1-a"], q2: ["q2-a", "q2-b"] };
+    const vote = (poll_id: string, option_id: string, voter: string, seconds: number) => ({
+      poll_id,
+      option_id,
+      user_id: voter.startsWith("guest") ? null : voter,
+      voter_token: voter.startsWith("guest") ? voter : null,
+      created_at: new Date(Date.UTC(2025, 0, 1, 12, 0, seconds)).toISOString(),
+      name: voter.startsWith("guest") ? null : `${voter}-name`,
+    });
+
+    it("should rank by score, then by time behind the first answer", () => {
+      const leaderboard = calculateQuizLeaderboard(answerKey, [
+        vote("q1", "q1-a", "alice", 0),
+        vote("q2", "q2-a", "alice", 30),
+        vote("q2", "q2-b", "alice", 30),
+        vote("q1", "q1-a", "bob", 5),
+        vote("q2", "q2-a", "bob", 10),
+        vote("q2", "q2-b", "bob", 10),
+        vote("q1", "q1-b", "guest-1", 1),
+        vote("q2", "q2-a", "guest-1", 12),
+      ]);
+
+      expect(leaderboard).toEqual([
+        { participantId: "user:bob", name: "bob-name", score: 2, answered: 2, answerTimeMs: 5000, rank: 1 },
+        { participantId: "user:alice", name: "alice-name", score: 2, answered: 2, answerTimeMs: 20000, rank: 2 },
+        { participantId: "guest:guest-1", name: null, score: 0, answered: 2, answerTimeMs: 0, rank: 3 },
+      ]);
+    });
+
+    it("should give tied participants the same rank", () => {
+      const leaderboard = calculateQuizLeaderboard(answerKey, [
+        vote("q1", "q1-a", "alice", 0),
+        vote("q1", "q1-a", "bob", 0),
+        vote("q1", "q1-b", "carol", 3),
+      ]);
+
+      expect(leaderboard.map(entry => entry.rank)).toEqual([1, 1, 3]);
+    });
+
+    it("should ignore votes on polls outside the quiz", () => {
+      expect(calculateQuizLeaderboard(answerKey, [vote("other", "x", "alice", 0)])).toEqual([]);
+    });
+  });
+
+  describe("calculateSurveyFunnel", () => {
+    const questions = [
+      { id: "q2", survey_position: 2 },
+      { id: "q1", survey_position: 1 },
+      { id: "q3", survey_position: 3 },
+    ];
+    const response = (furthest_position: number, submitted = false) => ({
+      furthest_position,
+      submitted_at: submitted ? "2025-01-01T12:00:00Z" : null,
+    });
+
+    it("should report completion and where unfinished respondents stopped", () => {
+      const funnel = calculateSurveyFunnel(questions, [
+        response(3, true),
+        response(3, true),
+        response(3),
+        response(1),
+        response(2),
+      ]);
+
+      expect(funnel.started).toBe(5);
+      expect(funnel.completed).toBe(2);
+      expect(funnel.completionRate).toBe(40);
+      expect(funnel.questions).toEqual([
+        { pollId: "q1", position: 1, reached: 5, droppedOff: 1, dropOffRate: 20 },
+        { pollId: "q2", position: 2, reached: 4, droppedOff: 1, dropOffRate: 25 },
+        { pollId: "q3", position: 3, reached: 3, droppedOff: 1, dropOffRate: 33 },
+      ]);
+    });
+
+    it("should report zero rates before anyone responds", () => {
+      const funnel = calculateSurveyFunnel(questions, []);
+
+      expect(funnel.completionRate).toBe(0);
+      expect(funnel.questions.every(question => question.dropOffRate === 0)).toBe(true);
+    });
+  });
+
+  describe("toSurveyProgress", () => {
+    it("should start at question zero without a response", () => {
+      expect(toSurveyProgress(null)).toEqual({ furthestPosition: 0, submitted: false });
+    });
+
+    it("should report a submitted response", () => {
+      expect(
+        toSurveyProgress({ furthest_position: 4, submitted_at: "2025-01-01T12:00:00Z" })
+      ).toEqual({ furthestPosition: 4, submitted: true });
+    });
+  });
+
+  describe("getFollowUpPollId", () => {
+    const followUps = [
+      { optionId: "no", followUpPollId: "what-went-wrong" },
+      { optionId: "maybe", followUpPollId: "what-would-help" },
+    ];
+
+    it("should follow the link of the chosen option", () => {
+      expect(getFollowUpPollId(followUps, ["no"])).toBe("what-went-wrong");
+      expect(getFollowUpPollId(followUps, ["yes"])).toBeNull();
+    });
+
+    it("should take the first linked option in ballot order", () => {
+      expect(getFollowUpPollId(followUps, ["yes", "maybe", "no"])).toBe("what-would-help");
+    });
+
+    it("should handle polls without follow-ups", () => {
+      expect(getFollowUpPollId(undefined, ["no"])).toBeNull();
+    });
+  });
+
+  describe("meetsFollowUpCondition", () => {
+    it("should let anyone vote on a poll no link leads to", () => {
+      expect(meetsFollowUpCondition([], [])).toBe(true);
+    });
+
+    it("should require one of the linked options", () => {
+      const conditions = [{ option_id: "no" }, { option_id: "maybe" }];
+
+      expect(meetsFollowUpCondition(conditions, [{ option_id: "maybe" }])).toBe(true);
+      expect(meetsFollowUpCondition(conditions, [{ option_id: "yes" }])).toBe(false);
+      expect(meetsFollowUpCondition(conditions, [])).toBe(false);
+    });
+  });
+
+  describe("findFollowUpCycle", () => {
+    const link = (from: string, to: string) => ({ poll_id: from, follow_up_poll_id: to });
+
+    it("should accept chains and branches that never loop back", () => {
+      expect(findFollowUpCycle([link("a", "b"), link("a", "c"), link("b", "d"), link("c", "d")])).toBeNull();
+    });
+
+    it("should return the polls along a loop", () => {
+      expect(findFollowUpCycle([link("a", "b"), link("b", "c"), link("c", "a")])).toEqual([
+        "a",
+        "b",
+        "c",
+        "a",
+      ]);
+    });
+
+    it("should find a loop that does not include the first poll", () => {
+      expect(findFollowUpCycle([link("a", "b"), link("b", "c"), link("c", "b")])).toEqual([
+        "b",
+        "c",
+        "b",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for poster page size parsing and PDF rendering
+ */
+
+import { PDFDocument, PageSizes, StandardFonts } from "pdf-lib";
+import { getPollPosterPath, parsePosterPageSize } from "../../utils/poster-utils";
+import { renderPollPoster, wrapText } from "../../lib/poll-poster";
+
+describe("Poll poster utilities", () => {
+  describe("parsePosterPageSize", () => {
+    it("should default to A4", () => {
+      expect(parsePosterPageSize(new URLSearchParams())).toEqual({
+        isValid: true,
+        pageSize: "a4",
+      });
+    });
+
+    it("should accept letter case-insensitively", () => {
+      expect(parsePosterPageSize(new URLSearchParams("size=Letter"))).toEqual({
+        isValid: true,
+        pageSize: "letter",
+      });
+    });
+
+    it("should reject unknown sizes", () => {
+      expect(parsePosterPageSize(new URLSearchParams("size=a3")).isValid).toBe(false);
+    });
+  });
+
+  describe("getPollPosterPath", () => {
+    it("should only add the size for non-default pages", () => {
+      expect(getPollPosterPath("poll-1")).toBe("/api/polls/poll-1/poster");
+      expect(getPollPosterPath("poll-1", "letter")).toBe(
+        "/api/polls/poll-1/poster?size=letter"
+      );
+    });
+  });
+
+  describe("wrapText", () => {
+    it("should wrap words and break overlong ones to fit the width", async () => {
+      const pdf = await PDFDocument.create();
+      const font = await pdf.embedFont(StandardFonts.Helvetica);
+      const maxWidth = 100;
+
+      const lines = wrapText(
+        "A reasonably long poll title Supercalifragilisticexpialidocious",
+        font,
+        14,
+        maxWidth
+      );
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line) => {
+        expect(font.widthOfTextAtSize(line, 14)).toBeLessThanOrEqual(maxWidth);
+      });
+    });
+  });
+
+  describe("renderPollPoster", () => {
+    it.each([
+      ["a4", PageSizes.A4],
+      ["letter", PageSizes.Letter],
+    ] as const)("should render a one-page %s PDF", async (pageSize, [width, height]) => {
+      const bytes = await renderPollPoster(
+        {
+          title: "What's your favorite programming language? 🚀",
+          description: "Help us understand the community preferences",
+          options: ["JavaScript", "Python", "TypeScript", "Go", "Rust", "Zig", "C"],
+          expiresAt: new Date("2030-01-01T12:00:00Z"),
+          pollUrl: "https://polly.example/polls/poll-1",
+        },
+        pageSize
+      );
+
+      expect(Buffer.from(bytes).subarray(0, 5).toString()).toBe("%PDF-");
+
+      const pdf = await PDFDocument.load(bytes);
+      expect(pdf.getPageCount()).toBe(1);
+      expect(pdf.getPage(0).getSize()).toEqual({ width, height });
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for QR code option parsing and server-side rendering
+ */
+
+import {
+  DEFAULT_QR_CODE_OPTIONS,
+  addLogoToQRCodeSvg,
+  calculateSourceStats,
+  createSourceTag,
+  getPollQRCodePath,
+  isValidSourceTag,
+  normalizeHexColor,
+  parseQRCodeOptions,
+  withSourceTag,
+} from "../../utils/qr-utils";
+import { renderQRCode } from "../../lib/qr-code";
+
+describe("QR code utilities", () => {
+  describe("parseQRCodeOptions", () => {
+    it("should fall back to defaults when no params are given", () => {
+      const result = parseQRCodeOptions(new URLSearchParams());
+
+      expect(result).toEqual({ isValid: true, options: DEFAULT_QR_CODE_OPTIONS });
+    });
+
+    it("should parse format, size, margin and error correction level", () => {
+      const result = parseQRCodeOptions(
+        new URLSearchParams("format=png&size=512&margin=0&ecl=h")
+      );
+
+      expect(result).toEqual({
+        isValid: true,
+        options: {
+          ...DEFAULT_QR_CODE_OPTIONS,
+          format: "png",
+          size: 512,
+          margin: 0,
+          errorCorrectionLevel: "H",
+        },
+      });
+    });
+
+    it("should parse dark and light colors", () => {
+      const result = parseQRCodeOptions(
+        new URLSearchParams("dark=1F2937&light=fef3c7")
+      );
+
+      expect(result).toEqual({
+        isValid: true,
+        options: {
+          ...DEFAULT_QR_CODE_OPTIONS,
+          darkColor: "#1f2937",
+          lightColor: "#fef3c7",
+        },
+      });
+    });
+
+    it.each([
+      ["format=gif"],
+      ["size=10"],
+      ["size=abc"],
+      ["margin=-1"],
+      ["ecl=X"],
+      ["dark=red"],
+      ["light=fff"],
+      ["dark=ffffff"],
+    ])("should reject invalid params: %s", (query) => {
+      const result = parseQRCodeOptions(new URLSearchParams(query));
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe("getPollQRCodePath", () => {
+    it("should omit default options from the path", () => {
+      expect(getPollQRCodePath("poll-1")).toBe("/api/polls/poll-1/qr");
+      expect(getPollQRCodePath("poll-1", DEFAULT_QR_CODE_OPTIONS)).toBe(
+        "/api/polls/poll-1/qr"
+      );
+    });
+
+    it("should include non-default options", () => {
+      expect(
+        getPollQRCodePath("poll-1", { format: "png", size: 1024, errorCorrectionLevel: "H" })
+      ).toBe("/api/polls/poll-1/qr?format=png&size=1024&ecl=H");
+    });
+
+    it("should strip the hash from colors", () => {
+      expect(
+        getPollQRCodePath("poll-1", { darkColor: "#1f2937", lightColor: "#fef3c7" })
+      ).toBe("/api/polls/poll-1/qr?dark=1f2937&light=fef3c7");
+    });
+
+    it("should include the source tag", () => {
+      expect(getPollQRCodePath("poll-1", {}, "lobby-poster")).toBe(
+        "/api/polls/poll-1/qr?src=lobby-poster"
+      );
+    });
+  });
+
+  describe("source tags", () => {
+    it("should derive slugs from QR code names", () => {
+      expect(createSourceTag("Lobby poster")).toBe("lobby-poster");
+      expect(createSourceTag("  Slide #3!  ")).toBe("slide-3");
+      expect(createSourceTag("🎉")).toBe("qr");
+    });
+
+    it("should suffix slugs that are already taken", () => {
+      expect(createSourceTag("Newsletter", ["newsletter", "newsletter-2"])).toBe(
+        "newsletter-3"
+      );
+    });
+
+    it("should validate source tags", () => {
+      expect(isValidSourceTag("lobby-poster")).toBe(true);
+      expect(isValidSourceTag("Lobby Poster")).toBe(false);
+      expect(isValidSourceTag("-lobby")).toBe(false);
+      expect(isValidSourceTag("a".repeat(51))).toBe(false);
+    });
+
+    it("should append the source tag to poll URLs", () => {
+      expect(withSourceTag("https://polly.example/polls/1", "slide-3")).toBe(
+        "https://polly.example/polls/1?src=slide-3"
+      );
+      expect(withSourceTag("https://polly.example/polls/1", null)).toBe(
+        "https://polly.example/polls/1"
+      );
+    });
+  });
+
+  describe("calculateSourceStats", () => {
+    it("should break down scans, ballots and conversion per source", () => {
+      const stats = calculateSourceStats(
+        [
+          { name: "Lobby poster", source: "lobby-poster" },
+          { name: "Newsletter", source: "newsletter" },
+        ],
+        [
+          { source: "lobby-poster" },
+          { source: "lobby-poster" },
+          { source: "lobby-poster" },
+          { source: "lobby-poster" },
+          { source: "old-flyer" },
+          { source: null },
+        ],
+        [
+          // One multiple-choice ballot counts once
+          { id: "v1", user_id: "u1", source: "lobby-poster" },
+          { id: "v2", user_id: "u1", source: "lobby-poster" },
+          { id: "v3", user_id: "u2", source: null },
+        ]
+      );
+
+      expect(stats).toEqual([
+        { source: "lobby-poster", name: "Lobby poster", scans: 4, votes: 1, conversionRate: 25 },
+        { source: "newsletter", name: "Newsletter", scans: 0, votes: 0, conversionRate: 0 },
+        { source: "old-flyer", name: "old-flyer", scans: 1, votes: 0, conversionRate: 0 },
+        { source: null, name: "Direct link", scans: 1, votes: 1, conversionRate: 100 },
+      ]);
+    });
+  });
+
+  describe("normalizeHexColor", () => {
+    it("should normalize valid hex colors", () => {
+      expect(normalizeHexColor("#AABBCC")).toBe("#aabbcc");
+      expect(normalizeHexColor("aabbcc")).toBe("#aabbcc");
+    });
+
+    it("should return null for invalid colors", () => {
+      expect(normalizeHexColor("#abc")).toBeNull();
+      expect(normalizeHexColor("blue")).toBeNull();
+    });
+  });
+
+  describe("addLogoToQRCodeSvg", () => {
+    it("should center the logo over a padded background", () => {
+      const svg = '<svg viewBox="0 0 50 50"><path d="M0 0h1v1H0z"/></svg>';
+
+      const result = addLogoToQRCodeSvg(svg, "data:image/png;base64,AAAA", "#ffffff");
+
+      expect(result).toContain('<image href="data:image/png;base64,AAAA" x="20" y="20" width="10" height="10"');
+      expect(result).toContain('fill="#ffffff"');
+      expect(result.endsWith("</svg>")).toBe(true);
+    });
+
+    it("should leave SVGs without a viewBox untouched", () => {
+      const svg = "<svg><path/></svg>";
+
+      expect(addLogoToQRCodeSvg(svg, "logo.png", "#ffffff")).toBe(svg);
+    });
+  });
+
+  describe("renderQRCode", () => {
+    it("should render an SVG locally", async () => {
+      const { body, contentType } = await renderQRCode(
+        "https://polly.example/polls/poll-1",
+        DEFAULT_QR_CODE_OPTIONS
+      );
+
+      expect(contentType).toBe("image/svg+xml");
+      expect(String(body)).toContain("<svg");
+    });
+
+    it("should render a PNG locally", async () => {
+      const { body, contentType } = await renderQRCode(
+        "https://polly.example/polls/poll-1",
+        { ...DEFAULT_QR_CODE_OPTIONS, format: "png" }
+      );
+
+      expect(contentType).toBe("image/png");
+      expect(body).toBeInstanceOf(Uint8Array);
+      // PNG signature
+      expect(Buffer.from(body as Uint8Array).subarray(1, 4).toString()).toBe("PNG");
+    });
+  });
+});
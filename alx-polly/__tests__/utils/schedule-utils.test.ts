@@ -0,0 +1,232 @@
+/**
+ * Tests for scheduling poll helpers
+ */
+
+import {
+  AVAILABILITY_SCORES,
+  buildICalendar,
+  calculateSlotAvailability,
+  findBestSlot,
+  formatTimeSlot,
+  getCalendarFileName,
+  getSlotLabel,
+  isValidTimeZone,
+  parseTimeSlots,
+  toAvailability,
+  validateTimeSlots,
+} from "../../utils/schedule-utils";
+
+const NOW = new Date("2025-03-01T12:00:00Z");
+
+const slot = (startsAt: string, endsAt: string) => ({
+  startsAt: new Date(startsAt),
+  endsAt: new Date(endsAt),
+});
+
+// ICU separates times from AM/PM with a narrow no-break space on newer runtimes
+const normalizeSpaces = (text: string) => text.replace(/\s/g, " ");
+
+describe("Schedule utilities", () => {
+  describe("toAvailability", () => {
+    it("should map stored scores back to answers", () => {
+      expect(toAvailability(AVAILABILITY_SCORES.yes)).toBe("yes");
+      expect(toAvailability(1)).toBe("if_need_be");
+      expect(toAvailability(0)).toBe("no");
+      expect(toAvailability(3)).toBeUndefined();
+      expect(toAvailability(null)).toBeUndefined();
+    });
+  });
+
+  describe("isValidTimeZone", () => {
+    it("should accept IANA time zones only", () => {
+      expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+      expect(isValidTimeZone("UTC")).toBe(true);
+      expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+      expect(isValidTimeZone("")).toBe(false);
+    });
+  });
+
+  describe("formatTimeSlot", () => {
+    it("should show the slot in the given time zone", () => {
+      const meeting = slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z");
+
+      expect(normalizeSpaces(formatTimeSlot(meeting, { timeZone: "UTC", locale: "en-US" }))).toBe(
+        "Tue, Mar 4, 9:00 AM – 10:00 AM"
+      );
+      expect(
+        normalizeSpaces(formatTimeSlot(meeting, { timeZone: "Asia/Tokyo", locale: "en-US" }))
+      ).toBe("Tue, Mar 4, 6:00 PM – 7:00 PM");
+    });
+
+    it("should repeat the date for slots that run past midnight", () => {
+      const lateShift = slot("2025-03-04T22:00:00Z", "2025-03-05T01:00:00Z");
+
+      expect(
+        normalizeSpaces(
+          formatTimeSlot(lateShift, { timeZone: "UTC", locale: "en-US", showTimeZone: true })
+        )
+      ).toBe("Tue, Mar 4, 10:00 PM – Wed, Mar 5, 1:00 AM UTC");
+    });
+  });
+
+  describe("getSlotLabel", () => {
+    it("should prefer the slot times over the saved option text", () => {
+      const option = {
+        text: "Tue, Mar 4, 10:00 AM – 11:00 AM GMT+1",
+        ...slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z"),
+      };
+
+      expect(normalizeSpaces(getSlotLabel(option, { timeZone: "UTC", locale: "en-US" }))).toBe(
+        "Tue, Mar 4, 9:00 AM – 10:00 AM"
+      );
+      expect(getSlotLabel({ text: "Friday lunch" })).toBe("Friday lunch");
+    });
+  });
+
+  describe("parseTimeSlots", () => {
+    it("should read ISO strings and keep bad values as invalid dates", () => {
+      const [meeting, broken] = parseTimeSlots([
+        { startsAt: "2025-03-04T09:00:00Z", endsAt: "2025-03-04T10:00:00Z" },
+        { startsAt: "soon" },
+      ])!;
+
+      expect(meeting).toEqual(slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z"));
+      expect(Number.isNaN(broken.startsAt.getTime())).toBe(true);
+      expect(Number.isNaN(broken.endsAt.getTime())).toBe(true);
+      expect(parseTimeSlots("2025-03-04")).toBeUndefined();
+    });
+  });
+
+  describe("validateTimeSlots", () => {
+    it("should accept distinct future slots", () => {
+      expect(
+        validateTimeSlots(
+          [
+            slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z"),
+            slot("2025-03-04T09:00:00Z", "2025-03-04T09:30:00Z"),
+          ],
+          NOW
+        ).isValid
+      ).toBe(true);
+    });
+
+    it("should reject invalid, past, backwards, overlong and repeated slots", () => {
+      const check = (...slots: { startsAt: Date; endsAt: Date }[]) =>
+        validateTimeSlots(slots, NOW).error;
+
+      expect(check(slot("not a date", "2025-03-04T10:00:00Z"))).toBe(
+        "Every time slot needs a valid start and end"
+      );
+      expect(check(slot("2025-02-28T09:00:00Z", "2025-02-28T10:00:00Z"))).toBe(
+        "Time slots must be in the future"
+      );
+      expect(check(slot("2025-03-04T10:00:00Z", "2025-03-04T09:00:00Z"))).toBe(
+        "Time slots must end after they start"
+      );
+      expect(check(slot("2025-03-04T09:00:00Z", "2025-03-05T09:01:00Z"))).toBe(
+        "Time slots cannot be longer than a day"
+      );
+      expect(
+        check(
+          slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z"),
+          slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z")
+        )
+      ).toBe("Time slots must be different from each other");
+    });
+  });
+
+  describe("calculateSlotAvailability", () => {
+    it("should count the answers for each slot", () => {
+      const votes = [
+        { option_id: "a", score: 2 },
+        { option_id: "a", score: 1 },
+        { option_id: "b", score: 0 },
+        { option_id: "b", score: 2 },
+        { option_id: "c", score: 2 }, // Not a slot of this poll
+        { option_id: "a", score: null },
+      ];
+
+      expect(calculateSlotAvailability(["a", "b"], votes)).toEqual([
+        { optionId: "a", yes: 1, ifNeedBe: 1, no: 0 },
+        { optionId: "b", yes: 1, ifNeedBe: 0, no: 1 },
+      ]);
+    });
+  });
+
+  describe("findBestSlot", () => {
+    it("should prefer the most available voters, then the most yes answers", () => {
+      expect(
+        findBestSlot([
+          { optionId: "a", yes: 1, ifNeedBe: 1, no: 1 },
+          { optionId: "b", yes: 2, ifNeedBe: 0, no: 1 },
+          { optionId: "c", yes: 1, ifNeedBe: 0, no: 2 },
+        ])
+      ).toBe("b");
+    });
+
+    it("should break remaining ties in favour of the earlier slot", () => {
+      expect(
+        findBestSlot([
+          { optionId: "a", yes: 1, ifNeedBe: 0, no: 0 },
+          { optionId: "b", yes: 1, ifNeedBe: 0, no: 0 },
+        ])
+      ).toBe("a");
+    });
+
+    it("should return null when nobody is available", () => {
+      expect(findBestSlot([{ optionId: "a", yes: 0, ifNeedBe: 0, no: 3 }])).toBeNull();
+      expect(findBestSlot([])).toBeNull();
+    });
+  });
+
+  describe("buildICalendar", () => {
+    it("should write a single UTC event with escaped text", () => {
+      const ics = buildICalendar(
+        {
+          uid: "poll-1@alx-polly",
+          title: "Team sync; Q2, planning",
+          description: "Picked by the team\nSee the poll",
+          url: "https://polly.example/p/team-sync",
+          ...slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z"),
+        },
+        NOW
+      );
+
+      const lines = ics.split("\r\n");
+      expect(lines[0]).toBe("BEGIN:VCALENDAR");
+      expect(lines).toContain("DTSTAMP:20250301T120000Z");
+      expect(lines).toContain("DTSTART:20250304T090000Z");
+      expect(lines).toContain("DTEND:20250304T100000Z");
+      expect(lines).toContain("SUMMARY:Team sync\\; Q2\\, planning");
+      expect(lines).toContain("DESCRIPTION:Picked by the team\\nSee the poll");
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    });
+
+    it("should fold lines longer than 75 octets", () => {
+      const ics = buildICalendar(
+        {
+          uid: "poll-1",
+          title: "x".repeat(100),
+          ...slot("2025-03-04T09:00:00Z", "2025-03-04T10:00:00Z"),
+        },
+        NOW
+      );
+
+      const summary = ics
+        .split("\r\n")
+        .filter((line) => line.startsWith("SUMMARY:") || line.startsWith(" "));
+      expect(summary).toHaveLength(2);
+      expect(summary[0]).toHaveLength(75);
+      expect(summary.join("").replace(/^SUMMARY:| /g, "")).toBe("x".repeat(100));
+    });
+  });
+
+  describe("getCalendarFileName", () => {
+    it("should name the file after the poll", () => {
+      expect(getCalendarFileName("Best time for team meetings?")).toBe(
+        "best-time-for-team-meetings.ics"
+      );
+      expect(getCalendarFileName("???")).toBe("meeting.ics");
+    });
+  });
+});
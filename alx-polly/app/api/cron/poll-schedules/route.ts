@@ -0,0 +1,22 @@
+import { withRequestId } from "@/lib/auth/auth-middleware";
+import { isCronRequest } from "@/lib/auth/cron-secret";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { AuthenticationError } from "@/lib/errors/custom-errors";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/cron/poll-schedules - Open scheduled polls that are due and close expired ones
+// Run every minute by the scheduler (see vercel.json), which authenticates with CRON_SECRET
+export const GET = withRequestId(async (request) => {
+  try {
+    if (!isCronRequest(request)) {
+      throw new AuthenticationError("Invalid cron secret");
+    }
+
+    const counts = await PollService.sweepPollSchedules();
+
+    return ApiResponse.success(counts, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
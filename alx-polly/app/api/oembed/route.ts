@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PollService } from "@/lib/services/poll-service";
+import { handleApiError } from "@/lib/errors/error-handler";
+import {
+  EMBED_DEFAULT_WIDTH,
+  EMBED_MIN_HEIGHT,
+  buildEmbedIframeHtml,
+  getPollEmbedPath,
+  parseEmbedOptions,
+  parsePollUrl,
+} from "@/utils/embed-utils";
+import { getUserDisplayName } from "@/utils/auth-utils";
+
+function parseMaxDimension(value: string | null): number | null | undefined {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+// GET /api/oembed - oEmbed (https://oembed.com) provider for poll URLs
+// Query params: url (poll, short link or embed URL), maxwidth, maxheight, format (json),
+// plus the embed options theme (light|dark|auto), height (px) and hide_avatar (true|false)
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = searchParams.get("format");
+    if (format !== null && format !== "json") {
+      return NextResponse.json(
+        { error: "Only the json format is supported" },
+        { status: 501 }
+      );
+    }
+
+    const url = searchParams.get("url");
+    if (!url) {
+      return NextResponse.json({ error: "url is required" }, { status: 400 });
+    }
+
+    const maxWidth = parseMaxDimension(searchParams.get("maxwidth"));
+    const maxHeight = parseMaxDimension(searchParams.get("maxheight"));
+    if (maxWidth === null || maxHeight === null) {
+      return NextResponse.json(
+        { error: "maxwidth and maxheight must be positive whole numbers" },
+        { status: 400 }
+      );
+    }
+    // oEmbed asks providers to answer 501 when they can't fit the requested size
+    if (maxHeight !== undefined && maxHeight < EMBED_MIN_HEIGHT) {
+      return NextResponse.json(
+        { error: `The embed needs a height of at least ${EMBED_MIN_HEIGHT}px` },
+        { status: 501 }
+      );
+    }
+
+    const parsed = parseEmbedOptions(searchParams);
+    if (!parsed.isValid) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const reference = parsePollUrl(url, origin);
+    if (!reference) {
+      return NextResponse.json(
+        { error: "url is not a poll on this site" },
+        { status: 404 }
+      );
+    }
+
+    const poll =
+      "slug" in reference
+        ? await PollService.getPollBySlug(reference.slug)
+        : await PollService.getPollForViewer(reference.pollId);
+
+    const width = Math.min(maxWidth ?? EMBED_DEFAULT_WIDTH, EMBED_DEFAULT_WIDTH);
+    const height = Math.min(maxHeight ?? parsed.options.height, parsed.options.height);
+    const embedUrl = `${origin.replace(/\/$/, "")}${getPollEmbedPath(poll.id, {
+      ...parsed.options,
+      height,
+    })}`;
+
+    const profile = poll.profiles;
+    const authorName =
+      profile && !parsed.options.hideAvatar
+        ? getUserDisplayName(
+            profile.first_name ?? undefined,
+            profile.last_name ?? undefined,
+            profile.username
+          )
+        : undefined;
+
+    return NextResponse.json(
+      {
+        version: "1.0",
+        type: "rich",
+        provider_name: "Polly",
+        provider_url: origin,
+        title: poll.title,
+        author_name: authorName,
+        html: buildEmbedIframeHtml({ src: embedUrl, title: poll.title, width, height }),
+        width,
+        height,
+        cache_age: 3600,
+      },
+      {
+        status: 200,
+        headers: {
+          "Cache-Control": "public, max-age=3600",
+        },
+      }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// PUT /api/polls/[id]/follow-ups - Replace the poll's follow-up links (owner only)
+// Body: { followUps: [{ optionId, followUpPollId }] }; an empty list removes them all
+export const PUT = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const followUps = await PollService.setFollowUps(id, body.followUps, request.user.id);
+
+    return ApiResponse.success(
+      followUps.map((link) => ({
+        optionId: link.option_id,
+        followUpPollId: link.follow_up_poll_id,
+      })),
+      "Follow-up polls saved",
+      request.requestId
+    );
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+import { getPollPath } from "@/utils/poll-utils";
+import { buildICalendar, getCalendarFileName } from "@/utils/schedule-utils";
+
+// GET /api/polls/[id]/ics - Calendar file for a slot of a scheduling poll
+// Query: optionId picks the slot; without it the best slot so far is exported
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const optionId = request.nextUrl.searchParams.get("optionId");
+    const { poll, option, slot } = await PollService.getMeetingSlot(
+      id,
+      optionId,
+      { userId: request.user?.id, voterToken: readGuestVoterToken(request) }
+    );
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const calendar = buildICalendar({
+      uid: `${poll.id}-${option.id}@alx-polly`,
+      title: poll.title,
+      description: poll.description ?? undefined,
+      url: `${origin}${getPollPath(poll)}`,
+      ...slot,
+    });
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${getCalendarFileName(poll.title)}"`,
+        // The best slot moves as votes come in
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+import { renderPollOgImage } from "@/lib/poll-og-image";
+import { canViewPollResults, getPollStatus, toPoll } from "@/utils/poll-utils";
+
+// GET /api/polls/[id]/og - Link preview image with the poll's options and, when the
+// viewer may see them, the current results
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    // Drafts are only previewed for their creator
+    const poll = await PollService.getPollForViewer(id, { userId: request.user?.id });
+
+    const isPublic = canViewPollResults(poll);
+    const showResults = isPublic || canViewPollResults(poll, request.user?.id);
+    const previewPoll = toPoll(poll);
+
+    const image = renderPollOgImage({
+      title: poll.title,
+      options: previewPoll.options,
+      totalVotes: poll.total_votes,
+      isOpen: getPollStatus(previewPoll) === "open",
+      showResults,
+    });
+
+    return new NextResponse(image.body, {
+      status: 200,
+      headers: {
+        "Content-Type": "image/png",
+        // Counts change with every vote; an owner-only view must never reach a shared cache
+        "Cache-Control": isPublic || !showResults ? "public, max-age=300" : "private, no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
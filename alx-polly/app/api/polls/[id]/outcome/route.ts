@@ -0,0 +1,41 @@
+import { withAuth, withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { InvalidInputError } from "@/lib/errors/custom-errors";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/polls/[id]/outcome - The poll's declared outcome, or null while there is none to show
+// Follows the poll's results visibility, like the statistics
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const outcome = await PollService.getPollOutcome(id, {
+      userId: request.user?.id,
+      voterToken: readGuestVoterToken(request),
+    });
+
+    return ApiResponse.success(outcome, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
+
+// PUT /api/polls/[id]/outcome - Pick the winner of a tie left to the owner (owner only)
+// Body: { optionId }, one of the tied options
+export const PUT = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.optionId !== "string" || body.optionId.length === 0) {
+      throw new InvalidInputError("optionId", body.optionId, "pick one of the tied options");
+    }
+
+    const outcome = await PollService.resolvePollTie(id, request.user.id, body.optionId);
+
+    return ApiResponse.success(outcome, "Winner declared", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { PollService } from "@/lib/services/poll-service";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { renderPollPoster } from "@/lib/poll-poster";
+import { generatePollUrl } from "@/utils/poll-utils";
+import { parsePosterPageSize } from "@/utils/poster-utils";
+
+// GET /api/polls/[id]/poster - Render a printable PDF poster for the poll
+// Query params: size (a4|letter)
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+
+    const parsed = parsePosterPageSize(request.nextUrl.searchParams);
+    if (!parsed.isValid) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Drafts are only printed for their creator
+    const poll = await PollService.getPollForViewer(id, { userId: request.user?.id });
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+
+    const pdf = await renderPollPoster(
+      {
+        title: poll.title,
+        description: poll.description,
+        options: poll.poll_options.map((option) => option.text),
+        expiresAt: poll.expires_at ? new Date(poll.expires_at) : null,
+        pollUrl: generatePollUrl(poll, origin),
+      },
+      parsed.pageSize
+    );
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="poll-${poll.id}-poster.pdf"`,
+        // Title, options and expiry can be edited, so keep the cache short; drafts stay private
+        "Cache-Control": poll.status === "draft" ? "private, no-store" : "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
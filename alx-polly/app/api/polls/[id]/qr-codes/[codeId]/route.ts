@@ -0,0 +1,16 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// DELETE /api/polls/[id]/qr-codes/[codeId] - Delete a named QR code
+export const DELETE = withAuth(async (request, context) => {
+  try {
+    const { id, codeId } = await context.params;
+    await PollService.deleteQRCode(id, codeId, request.user.id);
+
+    return ApiResponse.success(null, "QR code deleted", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
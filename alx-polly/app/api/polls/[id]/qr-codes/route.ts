@@ -0,0 +1,30 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/polls/[id]/qr-codes - List the poll's named QR codes (owner only)
+export const GET = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const qrCodes = await PollService.getQRCodes(id, request.user.id);
+
+    return ApiResponse.success(qrCodes, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
+
+// POST /api/polls/[id]/qr-codes - Create a named QR code with its own source tag
+export const POST = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const qrCode = await PollService.createQRCode(id, body.name, request.user.id);
+
+    return ApiResponse.created(qrCode, "QR code created", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
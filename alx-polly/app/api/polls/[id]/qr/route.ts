@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { renderQRCode } from "@/lib/qr-code";
+import { PollService } from "@/lib/services/poll-service";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { generatePollUrl } from "@/utils/poll-utils";
+import {
+  QR_SOURCE_PARAM,
+  isValidSourceTag,
+  parseQRCodeOptions,
+  withSourceTag,
+} from "@/utils/qr-utils";
+
+// GET /api/polls/[id]/qr - Render a QR code that links to the poll
+// Query params: format (svg|png), size (px), margin (modules), ecl (L|M|Q|H),
+// dark and light (hex colors without "#"), src (source tag added to the encoded URL)
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+
+    const parsed = parseQRCodeOptions(request.nextUrl.searchParams);
+    if (!parsed.isValid) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const source = request.nextUrl.searchParams.get(QR_SOURCE_PARAM);
+    if (source !== null && !isValidSourceTag(source)) {
+      return NextResponse.json(
+        { error: "Source must be a lowercase slug such as lobby-poster" },
+        { status: 400 }
+      );
+    }
+
+    // Encode the short /p/[slug] link when the poll has one, it makes a less dense code.
+    // Drafts are only encoded for their creator, so their links stay private
+    const poll = await PollService.getPollForViewer(id, { userId: request.user?.id });
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const pollUrl = withSourceTag(generatePollUrl(poll, origin), source);
+
+    const { body, contentType } = await renderQRCode(pollUrl, parsed.options);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+        // The encoded URL never changes for a poll, so the image can be cached aggressively,
+        // except a draft's, which only its creator may see
+        "Cache-Control":
+          poll.status === "draft" ? "private, no-store" : "public, max-age=86400, immutable",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
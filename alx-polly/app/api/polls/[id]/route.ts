@@ -1,88 +1,56 @@
-import { NextRequest, NextResponse } from "next/server";
+import { withAuth, withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
 
-// Mock data (same as in polls/route.ts)
-const mockPolls = [
-  {
-    id: "1",
-    title: "What's your favorite programming language?",
-    description: "Help us understand the community preferences",
-    options: [
-      { id: "1", text: "JavaScript", votes: 45, pollId: "1" },
-      { id: "2", text: "Python", votes: 38, pollId: "1" },
-      { id: "3", text: "TypeScript", votes: 32, pollId: "1" },
-      { id: "4", text: "Go", votes: 15, pollId: "1" },
-    ],
-    createdBy: "user1",
-    createdAt: new Date("2024-01-15"),
-    updatedAt: new Date("2024-01-15"),
-    expiresAt: new Date("2024-12-31"),
-    isActive: true,
-    allowMultipleVotes: false,
-    isAnonymous: true,
-    totalVotes: 130,
-    qrCode:
-      "https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=http://localhost:3001/polls/1",
-  },
-  {
-    id: "2",
-    title: "Best time for team meetings?",
-    description: "Let's find a time that works for everyone",
-    options: [
-      { id: "5", text: "9:00 AM", votes: 12, pollId: "2" },
-      { id: "6", text: "2:00 PM", votes: 18, pollId: "2" },
-      { id: "7", text: "4:00 PM", votes: 8, pollId: "2" },
-    ],
-    createdBy: "user2",
-    createdAt: new Date("2024-01-10"),
-    updatedAt: new Date("2024-01-10"),
-    isActive: true,
-    allowMultipleVotes: true,
-    isAnonymous: false,
-    totalVotes: 38,
-  },
-  {
-    id: "3",
-    title: "Office lunch preferences",
-    description: "What should we order for the team lunch?",
-    options: [
-      { id: "8", text: "Pizza", votes: 25, pollId: "3" },
-      { id: "9", text: "Sushi", votes: 15, pollId: "3" },
-      { id: "10", text: "Sandwiches", votes: 10, pollId: "3" },
-      { id: "11", text: "Salads", votes: 8, pollId: "3" },
-    ],
-    createdBy: "user1",
-    createdAt: new Date("2024-01-05"),
-    updatedAt: new Date("2024-01-05"),
-    expiresAt: new Date("2024-01-20"),
-    isActive: false,
-    allowMultipleVotes: false,
-    isAnonymous: true,
-    totalVotes: 58,
-  },
-];
-
-// GET /api/polls/[id] - Get a specific poll
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// GET /api/polls/[id] - Get a specific poll with its options and vote counts
+// Counts are blanked while the poll's results visibility hides them from the viewer
+export const GET = withOptionalAuth(async (request, context) => {
   try {
-    const { id } = await params;
+    const { id } = await context.params;
+    const poll = await PollService.getPollForViewer(id, {
+      userId: request.user?.id,
+      voterToken: readGuestVoterToken(request),
+    });
 
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 300));
+    return ApiResponse.success(poll, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
 
-    const poll = mockPolls.find((p) => p.id === id);
+// PUT /api/polls/[id] - Update a poll's details and settings (owner only)
+// Body: { title?, description?, expiresAt?, allowMultipleVotes?, isAnonymous?, options? };
+// options ([{ id?, text }], new ones without an ID) can only be sent while the poll is a draft.
+// Status changes go through PUT /api/polls/[id]/status
+export const PUT = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
 
-    if (!poll) {
-      return NextResponse.json({ error: "Poll not found" }, { status: 404 });
-    }
+    const poll = await PollService.updatePoll(
+      id,
+      {
+        title: body.title ?? undefined,
+        description: body.description ?? undefined,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+        allowMultipleVotes: body.allowMultipleVotes ?? undefined,
+        isAnonymous: body.isAnonymous ?? undefined,
+        options: Array.isArray(body.options)
+          ? body.options.map((option: { id?: string; text?: string }) => ({
+              id: option?.id ?? "",
+              text: String(option?.text ?? ""),
+              votes: 0,
+              pollId: id,
+            }))
+          : undefined,
+      },
+      request.user.id
+    );
 
-    return NextResponse.json(poll, { status: 200 });
+    return ApiResponse.success(poll, "Poll updated", request.requestId);
   } catch (error) {
-    return NextResponse.json(
-      { error: "Failed to fetch poll" },
-      { status: 500 }
-    );
+    return handleApiError(error, request.requestId);
   }
-}
+});
@@ -0,0 +1,21 @@
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/polls/[id]/statistics - Vote statistics, with per-source breakdown for the owner
+// Refused while the poll's results visibility hides the results from the viewer
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const { statistics } = await PollService.getPollStatistics(id, {
+      userId: request.user?.id,
+      voterToken: readGuestVoterToken(request),
+    });
+
+    return ApiResponse.success(statistics, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
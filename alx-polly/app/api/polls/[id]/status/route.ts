@@ -0,0 +1,41 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { InvalidInputError } from "@/lib/errors/custom-errors";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+import { POLL_STATUSES, isPollStatus } from "@/utils/poll-utils";
+
+// GET /api/polls/[id]/status - Get the poll's status timeline, oldest first (owner only)
+export const GET = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const timeline = await PollService.getPollTimeline(id, request.user.id);
+
+    return ApiResponse.success(timeline, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
+
+// PUT /api/polls/[id]/status - Move the poll to another lifecycle status (owner only)
+// Body: { status }; moves the lifecycle doesn't allow are rejected with 409
+export const PUT = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    if (!isPollStatus(body.status)) {
+      throw new InvalidInputError(
+        "status",
+        body.status,
+        `status must be one of: ${POLL_STATUSES.join(", ")}`
+      );
+    }
+
+    const poll = await PollService.transitionPollStatus(id, request.user.id, body.status);
+
+    return ApiResponse.success(poll, "Poll status changed", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
@@ -0,0 +1,23 @@
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// POST /api/polls/[id]/views - Record a poll view, tagged with the QR code source
+export const POST = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    await PollService.recordView(id, {
+      userId: request.user?.id,
+      ipAddress: request.headers.get("x-forwarded-for")?.split(",")[0].trim(),
+      userAgent: request.headers.get("user-agent"),
+      source: typeof body.source === "string" ? body.source : null,
+    });
+
+    return ApiResponse.noContent(request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
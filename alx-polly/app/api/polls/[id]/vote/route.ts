@@ -1,43 +1,109 @@
-import { NextRequest, NextResponse } from "next/server";
+import { withOptionalAuth, withRequestId } from "@/lib/auth/auth-middleware";
+import {
+  getGuestVoter,
+  readGuestVoterToken,
+  setGuestVoterCookie,
+} from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { NotFoundError } from "@/lib/errors/custom-errors";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
 
-// POST /api/polls/[id]/vote - Submit a vote
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// POST /api/polls/[id]/vote - Submit the current user's ballot
+// Body: { optionIds: string[], writeIn?: string, source?: string | null }, or
+// { scores: { [optionId]: number } } on rating polls; writeIn answers the "Other" choice
+// Logged-out visitors may vote on anonymous polls; they are recognised by a signed cookie
+// Quiz questions answer with feedback: whether the ballot was right and the correct option IDs
+export const POST = withRequestId(withOptionalAuth(async (request, context) => {
   try {
-    const { id } = await params;
-    const body = await request.json();
-
-    // Basic validation
-    if (
-      !body.optionIds ||
-      !Array.isArray(body.optionIds) ||
-      body.optionIds.length === 0
-    ) {
-      return NextResponse.json(
-        { error: "At least one option must be selected" },
-        { status: 400 }
+    const { id } = await context.params;
+
+    const body = await request.json().catch(() => ({}));
+    // The QR code source tag is optional attribution, so ignore anything that isn't a string
+    const source = typeof body.source === "string" ? body.source : null;
+    // Rating and availability ballots score every option, so their option IDs are the scored ones
+    const scores = body.scores && typeof body.scores === "object" ? body.scores : null;
+    const ballotOptionIds = scores ? Object.keys(scores) : body.optionIds;
+    const writeIn = typeof body.writeIn === "string" ? body.writeIn : null;
+
+    if (request.user) {
+      await PollService.submitVote(id, ballotOptionIds, request.user.id, source, scores, writeIn);
+
+      // Answer with the ballot as stored, so the client reflects the server state
+      const ballot = await PollService.getUserVote(id, request.user.id);
+      const feedback = await PollService.getAnswerFeedback(id, ballot.optionIds);
+
+      return ApiResponse.success(
+        {
+          pollId: id,
+          hasVoted: ballot.hasVoted,
+          optionIds: ballot.optionIds,
+          scores: ballot.scores,
+          writeIn: ballot.writeIn,
+          votedAt: ballot.votedAt,
+          feedback,
+        },
+        "Vote submitted successfully",
+        request.requestId
       );
     }
 
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    const voter = getGuestVoter(request);
+    await PollService.submitGuestVote(id, ballotOptionIds, voter, source, scores, writeIn);
 
-    // Mock successful vote submission
-    const voteResponse = {
-      success: true,
-      message: "Vote submitted successfully",
-      pollId: id,
-      optionIds: body.optionIds,
-      timestamp: new Date().toISOString(),
-    };
+    const ballot = await PollService.getGuestVote(id, voter.voterToken);
+    const feedback = await PollService.getAnswerFeedback(id, ballot.optionIds);
 
-    return NextResponse.json(voteResponse, { status: 200 });
+    const response = ApiResponse.success(
+      {
+        pollId: id,
+        hasVoted: ballot.hasVoted,
+        optionIds: ballot.optionIds,
+        scores: ballot.scores,
+        writeIn: ballot.writeIn,
+        votedAt: ballot.votedAt,
+        feedback,
+      },
+      "Vote submitted successfully",
+      request.requestId
+    );
+    setGuestVoterCookie(response, voter.voterToken);
+    return response;
   } catch (error) {
-    return NextResponse.json(
-      { error: "Failed to submit vote" },
-      { status: 500 }
+    return handleApiError(error, request.requestId);
+  }
+}));
+
+// DELETE /api/polls/[id]/vote - Retract the current user's ballot
+// Only while the poll is open and its vote change policy allows it; guests retract the
+// ballot stored under their voter cookie
+export const DELETE = withRequestId(withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+
+    if (request.user) {
+      await PollService.retractVote(id, request.user.id);
+    } else {
+      const voterToken = readGuestVoterToken(request);
+      if (!voterToken) {
+        throw new NotFoundError("Vote", undefined, { pollId: id });
+      }
+      await PollService.retractGuestVote(id, voterToken);
+    }
+
+    return ApiResponse.success(
+      {
+        pollId: id,
+        hasVoted: false,
+        optionIds: [],
+        scores: null,
+        writeIn: null,
+        votedAt: null,
+      },
+      "Vote retracted successfully",
+      request.requestId
     );
+  } catch (error) {
+    return handleApiError(error, request.requestId);
   }
-}
+}));
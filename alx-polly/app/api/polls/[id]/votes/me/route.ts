@@ -1,36 +1,49 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+import { ScoreBallot } from "@/types";
 
-// GET /api/polls/[id]/votes/me - Get current user's votes for a specific poll
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// GET /api/polls/[id]/votes/me - Get the current user's ballot for a poll
+// For logged-out visitors this is the ballot stored under their voter cookie, if any
+// On quiz questions, feedback tells whether the ballot was right once there is one
+export const GET = withOptionalAuth(async (request, context) => {
   try {
-    const { id } = await params;
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 200));
-    
-    // Mock user votes for specific polls
-    const mockUserVotesForPoll: Record<string, string[]> = {
-      '1': ['2'], // User voted for Python in poll 1
-      '2': ['6', '7'], // User voted for 2:00 PM and 4:00 PM in poll 2 (multiple choice)
-      '3': [], // User hasn't voted in poll 3
-    };
-    
-    const userVotes = mockUserVotesForPoll[id] || [];
-    
-    const response = {
-      pollId: id,
-      optionIds: userVotes,
-      hasVoted: userVotes.length > 0,
+    const { id } = await context.params;
+
+    let ballot = {
+      hasVoted: false,
+      optionIds: [] as string[],
+      scores: null as ScoreBallot | null,
+      writeIn: null as string | null,
+      votedAt: null as Date | null,
     };
-    
-    return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Failed to fetch user votes for poll' },
-      { status: 500 }
+    if (request.user) {
+      ballot = await PollService.getUserVote(id, request.user.id);
+    } else {
+      const voterToken = readGuestVoterToken(request);
+      if (voterToken) {
+        ballot = await PollService.getGuestVote(id, voterToken);
+      }
+    }
+
+    const feedback = await PollService.getAnswerFeedback(id, ballot.optionIds);
+
+    return ApiResponse.success(
+      {
+        pollId: id,
+        hasVoted: ballot.hasVoted,
+        optionIds: ballot.optionIds,
+        scores: ballot.scores,
+        writeIn: ballot.writeIn,
+        votedAt: ballot.votedAt,
+        feedback,
+      },
+      undefined,
+      request.requestId
     );
+  } catch (error) {
+    return handleApiError(error, request.requestId);
   }
-}
+});
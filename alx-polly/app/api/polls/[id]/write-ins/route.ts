@@ -0,0 +1,19 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// POST /api/polls/[id]/write-ins - Promote a write-in to a real option (owner only)
+// Body: { text: string }; every write-in matching it, ignoring case and spacing, moves over
+export const POST = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const option = await PollService.promoteWriteIn(id, body.text, request.user.id);
+
+    return ApiResponse.created(option, "Write-in promoted to an option", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
@@ -22,11 +22,12 @@ export async function GET(request: NextRequest) {
         createdAt: new Date('2024-01-15'),
         updatedAt: new Date('2024-01-15'),
         expiresAt: new Date('2024-12-31'),
-        isActive: true,
+        status: 'open',
         allowMultipleVotes: false,
+        voteType: 'single',
         isAnonymous: true,
         totalVotes: 130,
-        qrCode: 'https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=http://localhost:3001/polls/1'
+        qrCode: '/api/polls/1/qr'
       },
       {
         id: '3',
@@ -42,10 +43,12 @@ export async function GET(request: NextRequest) {
         createdAt: new Date('2024-01-05'),
         updatedAt: new Date('2024-01-05'),
         expiresAt: new Date('2024-01-20'),
-        isActive: false,
+        status: 'closed',
         allowMultipleVotes: false,
+        voteType: 'single',
         isAnonymous: true,
         totalVotes: 58,
+        qrCode: '/api/polls/3/qr'
       }
     ];
     
@@ -1,12 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PollService } from "@/lib/services/poll-service";
-import { getCurrentUser, supabase } from "@/lib/supabase";
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { InvalidInputError } from "@/lib/errors/custom-errors";
+import { handleApiError } from "@/lib/errors/error-handler";
 import { CreatePollFormData } from "@/types";
+import { getPollQRCodePath } from "@/utils/qr-utils";
+import { canViewPollResults, withholdPollResults } from "@/utils/poll-utils";
+import { parseTimeSlots } from "@/utils/schedule-utils";
 
 // GET /api/polls - Get all polls
 export async function GET(request: NextRequest) {
   try {
-    const polls = await PollService.getActivePolls();
+    // The list is public, so counts are only included where everyone may see them
+    const polls = (await PollService.getActivePolls()).map((poll) =>
+      canViewPollResults(poll) ? poll : withholdPollResults(poll)
+    );
 
     // Transform the data to match your existing frontend expectations
     const transformedPolls = polls.map((poll) => ({
@@ -18,16 +26,49 @@ export async function GET(request: NextRequest) {
         text: option.text,
         votes: option.votes_count,
         pollId: poll.id,
+        imageUrl: option.image_url ?? undefined,
+        imageCaption: option.image_caption ?? undefined,
+        startsAt: option.starts_at ? new Date(option.starts_at) : undefined,
+        endsAt: option.ends_at ? new Date(option.ends_at) : undefined,
       })),
       createdBy: poll.created_by,
       createdAt: new Date(poll.created_at),
       updatedAt: new Date(poll.updated_at),
+      startsAt: poll.starts_at ? new Date(poll.starts_at) : null,
+      openedAt: poll.opened_at ? new Date(poll.opened_at) : null,
+      closedAt: poll.closed_at ? new Date(poll.closed_at) : null,
       expiresAt: poll.expires_at ? new Date(poll.expires_at) : null,
-      isActive: poll.is_active,
+      status: poll.status,
       allowMultipleVotes: poll.allow_multiple_votes,
+      voteType: poll.vote_type,
+      minSelections: poll.min_selections,
+      maxSelections: poll.max_selections,
+      ratingScale:
+        poll.vote_type === "rating"
+          ? { min: poll.score_min, max: poll.score_max }
+          : undefined,
+      timeZone: poll.time_zone ?? undefined,
+      allowWriteIns: poll.allow_write_ins,
+      voteChangePolicy: poll.vote_change_policy,
+      voteChangeWindowMinutes: poll.vote_change_window_minutes,
+      quizId: poll.quiz_id,
+      quizPosition: poll.quiz_position,
+      surveyId: poll.survey_id,
+      surveyPosition: poll.survey_position,
+      followUps: poll.poll_follow_ups?.map((link) => ({
+        optionId: link.option_id,
+        followUpPollId: link.follow_up_poll_id,
+      })),
       isAnonymous: poll.is_anonymous,
+      resultsVisibility: poll.results_visibility,
+      resultsHidden: poll.results_hidden,
+      closeAfterVotes: poll.close_after_votes,
+      closeOnDecisiveLead: poll.close_on_decisive_lead,
+      quorum: poll.quorum,
+      tieStrategy: poll.tie_strategy,
       totalVotes: poll.total_votes,
-      qrCode: poll.qr_code_url,
+      qrCode: poll.qr_code_url ?? getPollQRCodePath(poll.id),
+      slug: poll.slug,
     }));
 
     return NextResponse.json(transformedPolls, { status: 200 });
@@ -41,53 +82,18 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/polls - Create a new poll
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
-    // Get the authorization header
-    const authHeader = request.headers.get("authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return NextResponse.json(
-        {
-          error: "You must be logged in to create a poll",
-          redirectTo: "/auth/login",
-        },
-        { status: 401 }
-      );
-    }
-
-    // Extract the token and verify the user
-    const token = authHeader.replace("Bearer ", "");
-    const {
-      data: { user },
-      error,
-    } = await supabase.auth.getUser(token);
-
-    if (error || !user) {
-      return NextResponse.json(
-        {
-          error: "You must be logged in to create a poll",
-          redirectTo: "/auth/login",
-        },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
 
     // Basic validation
     if (!body.title || !body.options || body.options.length < 2) {
-      return NextResponse.json(
-        { error: "Title and at least 2 options are required" },
-        { status: 400 }
-      );
+      throw new InvalidInputError("options", body.options, "title and at least 2 options are required");
     }
 
     // Validate options
     if (body.options.length > 10) {
-      return NextResponse.json(
-        { error: "Maximum 10 options allowed" },
-        { status: 400 }
-      );
+      throw new InvalidInputError("options", body.options.length, "maximum 10 options allowed");
     }
 
     // Create poll data
@@ -95,13 +101,35 @@ export async function POST(request: NextRequest) {
       title: body.title,
       description: body.description || undefined,
       options: body.options,
+      startsAt: body.startsAt ? new Date(body.startsAt) : undefined,
+      isDraft: body.isDraft === true,
       expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
       allowMultipleVotes: body.allowMultipleVotes || false,
+      voteType: body.voteType,
+      minSelections: body.minSelections ?? undefined,
+      maxSelections: body.maxSelections ?? undefined,
+      ratingScale: body.ratingScale ?? undefined,
+      allowWriteIns: body.allowWriteIns === true,
+      voteChangePolicy: body.voteChangePolicy ?? undefined,
+      voteChangeWindowMinutes: body.voteChangeWindowMinutes ?? undefined,
+      resultsVisibility: body.resultsVisibility ?? undefined,
+      closeAfterVotes: body.closeAfterVotes ?? undefined,
+      closeOnDecisiveLead: body.closeOnDecisiveLead === true,
+      quorum: body.quorum ?? undefined,
+      tieStrategy: body.tieStrategy ?? undefined,
+      quizId: body.quizId || undefined,
+      correctOptions: Array.isArray(body.correctOptions) ? body.correctOptions : undefined,
+      optionMedia: Array.isArray(body.optionMedia) ? body.optionMedia : undefined,
+      slots: parseTimeSlots(body.slots),
+      timeZone: body.timeZone || undefined,
+      surveyId: body.surveyId || undefined,
       isAnonymous: body.isAnonymous !== false, // Default to true
+      guestVoteLimit: body.guestVoteLimit,
+      slug: body.slug || undefined,
     };
 
     // Create the poll using our service
-    const newPoll = await PollService.createPoll(pollData, user.id);
+    const newPoll = await PollService.createPoll(pollData, request.user.id);
 
     // Transform the response to match frontend expectations
     const transformedPoll = {
@@ -113,26 +141,48 @@ export async function POST(request: NextRequest) {
         text: option.text,
         votes: option.votes_count,
         pollId: newPoll.id,
+        imageUrl: option.image_url ?? undefined,
+        imageCaption: option.image_caption ?? undefined,
+        startsAt: option.starts_at ? new Date(option.starts_at) : undefined,
+        endsAt: option.ends_at ? new Date(option.ends_at) : undefined,
       })),
       createdBy: newPoll.created_by,
       createdAt: new Date(newPoll.created_at),
       updatedAt: new Date(newPoll.updated_at),
+      startsAt: newPoll.starts_at ? new Date(newPoll.starts_at) : null,
+      openedAt: newPoll.opened_at ? new Date(newPoll.opened_at) : null,
+      closedAt: newPoll.closed_at ? new Date(newPoll.closed_at) : null,
       expiresAt: newPoll.expires_at ? new Date(newPoll.expires_at) : null,
-      isActive: newPoll.is_active,
+      status: newPoll.status,
       allowMultipleVotes: newPoll.allow_multiple_votes,
+      voteType: newPoll.vote_type,
+      minSelections: newPoll.min_selections,
+      maxSelections: newPoll.max_selections,
+      ratingScale:
+        newPoll.vote_type === "rating"
+          ? { min: newPoll.score_min, max: newPoll.score_max }
+          : undefined,
+      timeZone: newPoll.time_zone ?? undefined,
+      allowWriteIns: newPoll.allow_write_ins,
+      voteChangePolicy: newPoll.vote_change_policy,
+      voteChangeWindowMinutes: newPoll.vote_change_window_minutes,
+      quizId: newPoll.quiz_id,
+      quizPosition: newPoll.quiz_position,
+      surveyId: newPoll.survey_id,
+      surveyPosition: newPoll.survey_position,
       isAnonymous: newPoll.is_anonymous,
+      resultsVisibility: newPoll.results_visibility,
+      closeAfterVotes: newPoll.close_after_votes,
+      closeOnDecisiveLead: newPoll.close_on_decisive_lead,
+      quorum: newPoll.quorum,
+      tieStrategy: newPoll.tie_strategy,
       totalVotes: newPoll.total_votes,
-      qrCode: newPoll.qr_code_url,
+      qrCode: newPoll.qr_code_url ?? getPollQRCodePath(newPoll.id),
+      slug: newPoll.slug,
     };
 
     return NextResponse.json(transformedPoll, { status: 201 });
   } catch (error) {
-    console.error("Error creating poll:", error);
-    return NextResponse.json(
-      {
-        error: error instanceof Error ? error.message : "Failed to create poll",
-      },
-      { status: 500 }
-    );
+    return handleApiError(error, request.requestId);
   }
-}
+});
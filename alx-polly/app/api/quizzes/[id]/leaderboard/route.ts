@@ -0,0 +1,21 @@
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/quizzes/[id]/leaderboard - Participants ranked by correct answers, then answer speed
+// The viewer's own entry, signed in or by voter cookie, is flagged with isViewer
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const leaderboard = await PollService.getQuizLeaderboard(id, {
+      userId: request.user?.id,
+      voterToken: readGuestVoterToken(request),
+    });
+
+    return ApiResponse.success(leaderboard, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
@@ -0,0 +1,17 @@
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/quizzes/[id] - Get a quiz with its questions in order
+// Questions come without their correct answers, which voters only see after answering
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const quiz = await PollService.getQuiz(id);
+
+    return ApiResponse.success(quiz, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
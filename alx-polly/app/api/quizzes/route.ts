@@ -0,0 +1,32 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/quizzes - List the current user's quizzes, newest first
+export const GET = withAuth(async (request) => {
+  try {
+    const quizzes = await PollService.getUserQuizzes(request.user.id);
+
+    return ApiResponse.success(quizzes, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
+
+// POST /api/quizzes - Create a quiz
+// Body: { title: string, description?: string }; questions are added by creating polls with its quizId
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const quiz = await PollService.createQuiz(
+      { title: body.title, description: body.description || undefined },
+      request.user.id
+    );
+
+    return ApiResponse.created(quiz, "Quiz created successfully", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
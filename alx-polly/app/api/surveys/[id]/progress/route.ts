@@ -0,0 +1,21 @@
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/surveys/[id]/progress - The viewer's furthest answered question and whether they submitted
+// Respondents are identified by their session, or by voter cookie when logged out
+export const GET = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const progress = await PollService.getSurveyProgress(id, {
+      userId: request.user?.id,
+      voterToken: readGuestVoterToken(request),
+    });
+
+    return ApiResponse.success(progress, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
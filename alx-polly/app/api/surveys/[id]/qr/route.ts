@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { renderQRCode } from "@/lib/qr-code";
+import { PollService } from "@/lib/services/poll-service";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { generateSurveyUrl } from "@/utils/poll-utils";
+import {
+  QR_SOURCE_PARAM,
+  isValidSourceTag,
+  parseQRCodeOptions,
+  withSourceTag,
+} from "@/utils/qr-utils";
+
+// GET /api/surveys/[id]/qr - Render a QR code that links to the survey
+// Takes the same query params as GET /api/polls/[id]/qr
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const parsed = parseQRCodeOptions(request.nextUrl.searchParams);
+    if (!parsed.isValid) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const source = request.nextUrl.searchParams.get(QR_SOURCE_PARAM);
+    if (source !== null && !isValidSourceTag(source)) {
+      return NextResponse.json(
+        { error: "Source must be a lowercase slug such as lobby-poster" },
+        { status: 400 }
+      );
+    }
+
+    // One code for the whole survey; respondents step through the questions from there
+    const survey = await PollService.getSurvey(id);
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const surveyUrl = withSourceTag(generateSurveyUrl(survey.id, origin), source);
+
+    const { body, contentType } = await renderQRCode(surveyUrl, parsed.options);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=86400, immutable",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
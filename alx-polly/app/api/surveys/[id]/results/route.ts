@@ -0,0 +1,16 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// GET /api/surveys/[id]/results - Per-question results with completion and drop-off rates (owner only)
+export const GET = withAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const results = await PollService.getSurveyResults(id, request.user.id);
+
+    return ApiResponse.success(results, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
@@ -0,0 +1,21 @@
+import { withOptionalAuth } from "@/lib/auth/auth-middleware";
+import { readGuestVoterToken } from "@/lib/auth/guest-voter";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+
+// POST /api/surveys/[id]/submit - Submit the viewer's answers once every question is answered
+// Answers are saved question by question through the poll vote endpoint; submitting makes them final
+export const POST = withOptionalAuth(async (request, context) => {
+  try {
+    const { id } = await context.params;
+    const progress = await PollService.submitSurveyResponse(id, {
+      userId: request.user?.id,
+      voterToken: readGuestVoterToken(request),
+    });
+
+    return ApiResponse.success(progress, "Survey submitted successfully", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
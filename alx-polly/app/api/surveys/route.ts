@@ -0,0 +1,58 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { PollService } from "@/lib/services/poll-service";
+import { CreateSurveyFormData, SurveyQuestionFormData } from "@/types";
+import { parseTimeSlots } from "@/utils/schedule-utils";
+
+// A question as it arrives in the request body; slots are still JSON until parsed
+type SurveyQuestionBody = Partial<Omit<SurveyQuestionFormData, "slots">> & { slots?: unknown };
+
+// GET /api/surveys - List the current user's surveys, newest first
+export const GET = withAuth(async (request) => {
+  try {
+    const surveys = await PollService.getUserSurveys(request.user.id);
+
+    return ApiResponse.success(surveys, undefined, request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
+
+// POST /api/surveys - Create a survey with its questions
+// Body: { title, description?, questions: [{ title, options, voteType, ... }], expiresAt?, isAnonymous, guestVoteLimit? }
+export const POST = withAuth(async (request) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const surveyData: CreateSurveyFormData = {
+      title: body.title,
+      description: body.description || undefined,
+      questions: Array.isArray(body.questions)
+        ? body.questions.map((question: SurveyQuestionBody | null) => ({
+            title: question?.title,
+            description: question?.description || undefined,
+            options: Array.isArray(question?.options) ? question.options : [],
+            allowMultipleVotes: question?.allowMultipleVotes || false,
+            voteType: question?.voteType,
+            minSelections: question?.minSelections ?? undefined,
+            maxSelections: question?.maxSelections ?? undefined,
+            ratingScale: question?.ratingScale ?? undefined,
+            allowWriteIns: question?.allowWriteIns === true,
+            optionMedia: Array.isArray(question?.optionMedia) ? question.optionMedia : undefined,
+            slots: parseTimeSlots(question?.slots),
+            timeZone: question?.timeZone || undefined,
+          }))
+        : [],
+      expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+      isAnonymous: body.isAnonymous !== false, // Default to true, like polls
+      guestVoteLimit: body.guestVoteLimit,
+    };
+
+    const survey = await PollService.createSurvey(surveyData, request.user.id);
+
+    return ApiResponse.created(survey, "Survey created successfully", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
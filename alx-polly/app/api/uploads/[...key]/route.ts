@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MediaService } from "@/lib/services/media-service";
+import { handleApiError } from "@/lib/errors/error-handler";
+
+// GET /api/uploads/[...key] - Serve an uploaded file
+// Public, since option images show on polls anyone can open
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key } = await params;
+    const file = await MediaService.readUpload(key.join("/"));
+
+    return new NextResponse(new Uint8Array(file.data), {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "X-Content-Type-Options": "nosniff",
+        // Keys are random and never reused, so a stored file never changes
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { withAuth } from "@/lib/auth/auth-middleware";
+import { ApiResponse } from "@/lib/api/response-utils";
+import { handleApiError } from "@/lib/errors/error-handler";
+import { FileTooLargeError, InvalidInputError } from "@/lib/errors/custom-errors";
+import { MediaService } from "@/lib/services/media-service";
+import { OPTION_IMAGE_MAX_BYTES, formatFileSize } from "@/utils/media-utils";
+
+// Room for the multipart boundaries and headers around the file itself
+const MULTIPART_OVERHEAD_BYTES = 16 * 1024;
+
+// POST /api/uploads - Upload an image for a poll option
+// Body: multipart/form-data with the image in a "file" field; responds with its URL
+export const POST = withAuth(async (request) => {
+  try {
+    // Turn away oversized bodies before buffering them
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > OPTION_IMAGE_MAX_BYTES + MULTIPART_OVERHEAD_BYTES) {
+      throw new FileTooLargeError(formatFileSize(OPTION_IMAGE_MAX_BYTES));
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get("file");
+    if (!file || typeof file === "string") {
+      throw new InvalidInputError("file", null, "attach an image in the file field");
+    }
+
+    const uploaded = await MediaService.uploadOptionImage(
+      { data: Buffer.from(await file.arrayBuffer()), contentType: file.type },
+      request.user.id
+    );
+
+    return ApiResponse.created(uploaded, "Image uploaded", request.requestId);
+  } catch (error) {
+    return handleApiError(error, request.requestId);
+  }
+});
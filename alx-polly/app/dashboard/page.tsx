@@ -11,22 +11,57 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Poll } from "@/types";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DeclaredOutcome, PollStatus, PollStatusChange } from "@/types";
 import { PollWithOptions } from "@/types/database";
-import { filterPollsByStatus } from "@/utils/poll-utils";
+import {
+  POLL_STATUSES,
+  POLL_STATUS_LABELS,
+  POLL_STATUS_TRANSITIONS,
+  getPollStatus,
+  getPollStatusActionLabel,
+  getTimeRemaining,
+  isPollStatus,
+  supportsCloseRules,
+  toPoll,
+} from "@/utils/poll-utils";
 import { toast } from "sonner";
-import { Plus, BarChart3, Users, Clock, Edit, Trash2, Eye } from "lucide-react";
+import { Plus, BarChart3, Users, Clock, Edit, Trash2, Eye, Filter, History } from "lucide-react";
 import Link from "next/link";
+import { PollPosterMenu } from "@/components/polls/poll-poster-menu";
+import { PollStatusTimeline } from "@/components/polls/poll-status-timeline";
+import { PollOutcomeSummary } from "@/components/polls/poll-outcome";
 import { useAuth } from "@/contexts/auth-context";
 import { PollService } from "@/lib/services/poll-service";
+import { api } from "@/lib/api-client";
 import { ProtectedRoute } from "@/components/auth/protected-route";
 
+// Outcomes arrive from the API with decidedAt as an ISO string
+type OutcomeResponse = Omit<DeclaredOutcome, "decidedAt"> & { decidedAt: string };
+
+function toDeclaredOutcome(outcome: OutcomeResponse | null): DeclaredOutcome | null {
+  return outcome ? { ...outcome, decidedAt: new Date(outcome.decidedAt) } : null;
+}
+
 function DashboardContent() {
   const { user } = useAuth();
   const router = useRouter();
   const [polls, setPolls] = useState<PollWithOptions[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [deletingPollId, setDeletingPollId] = useState<string | null>(null);
+  const [changingPollId, setChangingPollId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<PollStatus | "all">("all");
+  // Timelines are loaded when first opened and dropped whenever the polls are refetched
+  const [timelines, setTimelines] = useState<Record<string, PollStatusChange[]>>({});
+  const [openTimelineId, setOpenTimelineId] = useState<string | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<string, DeclaredOutcome | null>>({});
+  const [resolvingPollId, setResolvingPollId] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -40,6 +75,8 @@ function DashboardContent() {
       setIsLoading(true);
       const userPolls = await PollService.getUserPolls(user.id);
       setPolls(userPolls);
+      setTimelines({});
+      await fetchOutcomes(userPolls);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to load your polls";
@@ -49,6 +86,50 @@ function DashboardContent() {
     }
   };
 
+  // Closed polls declare their result when first read, so this also settles any still pending
+  const fetchOutcomes = async (userPolls: PollWithOptions[]) => {
+    if (!user) return;
+    const finished = userPolls.filter(
+      (poll) =>
+        (poll.status === "closed" || poll.status === "archived") &&
+        supportsCloseRules(toPoll(poll))
+    );
+
+    try {
+      const declared = await Promise.all(
+        finished.map((poll) =>
+          api.get<{ data: OutcomeResponse | null }>(`/api/polls/${poll.id}/outcome`)
+        )
+      );
+      setOutcomes(
+        Object.fromEntries(
+          finished.map((poll, index) => [poll.id, toDeclaredOutcome(declared[index].data)])
+        )
+      );
+    } catch (err) {
+      console.error("Failed to load poll outcomes:", err);
+    }
+  };
+
+  const handlePickWinner = async (pollId: string, optionId: string) => {
+    if (!user) return;
+
+    try {
+      setResolvingPollId(pollId);
+      const response = await api.put<{ data: OutcomeResponse }>(`/api/polls/${pollId}/outcome`, {
+        optionId,
+      });
+      setOutcomes((prev) => ({ ...prev, [pollId]: toDeclaredOutcome(response.data) }));
+      toast.success("Winner declared");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to declare the winner";
+      toast.error(errorMessage);
+    } finally {
+      setResolvingPollId(null);
+    }
+  };
+
   const handleDeletePoll = async (pollId: string) => {
     if (
       !user ||
@@ -72,31 +153,75 @@ function DashboardContent() {
     }
   };
 
-  const handleTogglePollStatus = async (pollId: string) => {
+  const handleChangePollStatus = async (pollId: string, status: PollStatus) => {
     if (!user) return;
 
     try {
-      await PollService.togglePollStatus(pollId, user.id);
-      toast.success("Poll status updated successfully!");
+      setChangingPollId(pollId);
+      await api.put(`/api/polls/${pollId}/status`, { status });
+      toast.success(`Poll is now ${POLL_STATUS_LABELS[status].toLowerCase()}`);
       await fetchUserPolls(); // Refresh the list
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to update poll status";
       toast.error(errorMessage);
+    } finally {
+      setChangingPollId(null);
+    }
+  };
+
+  const handleToggleTimeline = async (pollId: string) => {
+    if (!user) return;
+    if (openTimelineId === pollId) {
+      setOpenTimelineId(null);
+      return;
+    }
+
+    setOpenTimelineId(pollId);
+    if (timelines[pollId]) return;
+
+    try {
+      const timeline = await PollService.getPollTimeline(pollId, user.id);
+      setTimelines((prev) => ({ ...prev, [pollId]: timeline }));
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load the poll history";
+      toast.error(errorMessage);
+      setOpenTimelineId(null);
     }
   };
 
+  // Moves offered for a poll; scheduling needs a start time ahead and expired polls can't reopen
+  const getStatusActions = (poll: PollWithOptions): PollStatus[] => {
+    const now = new Date();
+    const hasExpired = !!poll.expires_at && new Date(poll.expires_at) <= now;
+
+    return POLL_STATUS_TRANSITIONS[poll.status].filter((status) => {
+      if (status === "scheduled") return !!poll.starts_at && new Date(poll.starts_at) > now;
+      if (status === "open") return !hasExpired;
+      return true;
+    });
+  };
+
+  const pollStatuses = Object.fromEntries(
+    polls.map((poll) => [poll.id, getPollStatus(toPoll(poll))])
+  ) as Record<string, PollStatus>;
+  const visiblePolls =
+    statusFilter === "all"
+      ? polls
+      : polls.filter((poll) => pollStatuses[poll.id] === statusFilter);
+
   const getStats = () => {
-    const activePolls = polls.filter((poll) => poll.is_active).length;
-    const expiredPolls = polls.filter(
-      (poll) => poll.expires_at && new Date(poll.expires_at) < new Date()
+    const openPolls = polls.filter((poll) => pollStatuses[poll.id] === "open").length;
+    const closedPolls = polls.filter(
+      (poll) => pollStatuses[poll.id] === "closed" || pollStatuses[poll.id] === "archived"
     ).length;
     const totalVotes = polls.reduce((sum, poll) => sum + poll.total_votes, 0);
 
     return {
       totalPolls: polls.length,
-      activePolls,
-      expiredPolls,
+      openPolls,
+      closedPolls,
       totalVotes,
     };
   };
@@ -145,12 +270,12 @@ function DashboardContent() {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">
-                Active Polls
+                Open Polls
               </CardTitle>
               <Clock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{stats.activePolls}</div>
+              <div className="text-2xl font-bold">{stats.openPolls}</div>
               <p className="text-xs text-muted-foreground">
                 Currently accepting votes
               </p>
@@ -173,12 +298,12 @@ function DashboardContent() {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">
-                Expired Polls
+                Closed Polls
               </CardTitle>
               <BarChart3 className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{stats.expiredPolls}</div>
+              <div className="text-2xl font-bold">{stats.closedPolls}</div>
               <p className="text-xs text-muted-foreground">
                 No longer accepting votes
               </p>
@@ -215,9 +340,33 @@ function DashboardContent() {
         {/* Your Polls */}
         {polls.length > 0 && (
           <div>
-            <h2 className="text-2xl font-bold mb-6">Your Polls</h2>
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-2xl font-bold">Your Polls</h2>
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => setStatusFilter(isPollStatus(value) ? value : "all")}
+              >
+                <SelectTrigger className="w-44">
+                  <Filter className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  {POLL_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {POLL_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {statusFilter !== "all" && visiblePolls.length === 0 && (
+              <p className="text-muted-foreground">
+                None of your polls are {POLL_STATUS_LABELS[statusFilter].toLowerCase()}.
+              </p>
+            )}
             <div className="grid gap-6">
-              {polls.map((poll) => (
+              {visiblePolls.map((poll) => (
                 <Card key={poll.id} className="w-full">
                   <CardHeader>
                     <div className="flex justify-between items-start">
@@ -231,14 +380,15 @@ function DashboardContent() {
                       </div>
                       <div className="flex items-center gap-2 ml-4">
                         <Badge
-                          variant={poll.is_active ? "default" : "secondary"}
+                          variant={pollStatuses[poll.id] === "open" ? "default" : "secondary"}
                         >
-                          {poll.is_active ? "Active" : "Inactive"}
+                          {POLL_STATUS_LABELS[pollStatuses[poll.id]]}
                         </Badge>
-                        {poll.expires_at &&
-                          new Date(poll.expires_at) < new Date() && (
-                            <Badge variant="destructive">Expired</Badge>
-                          )}
+                        {poll.starts_at && pollStatuses[poll.id] === "scheduled" && (
+                          <Badge variant="outline">
+                            {getTimeRemaining(null, new Date(poll.starts_at))}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                   </CardHeader>
@@ -259,6 +409,17 @@ function DashboardContent() {
                         ))}
                       </div>
 
+                      {outcomes[poll.id] && (
+                        <div className="rounded-lg border p-3">
+                          <PollOutcomeSummary
+                            outcome={outcomes[poll.id]!}
+                            options={poll.poll_options}
+                            onPickWinner={(optionId) => handlePickWinner(poll.id, optionId)}
+                            isResolving={resolvingPollId === poll.id}
+                          />
+                        </div>
+                      )}
+
                       {/* Poll Stats */}
                       <div className="flex justify-between text-sm text-muted-foreground">
                         <span>Total votes: {poll.total_votes}</span>
@@ -282,12 +443,26 @@ function DashboardContent() {
                             Edit
                           </Link>
                         </Button>
+                        {poll.status !== "draft" && <PollPosterMenu pollId={poll.id} />}
+                        {getStatusActions(poll).map((status) => (
+                          <Button
+                            key={status}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleChangePollStatus(poll.id, status)}
+                            disabled={changingPollId === poll.id}
+                          >
+                            {getPollStatusActionLabel(poll.status, status)}
+                          </Button>
+                        ))}
                         <Button
-                          variant="outline"
+                          variant="ghost"
                           size="sm"
-                          onClick={() => handleTogglePollStatus(poll.id)}
+                          onClick={() => handleToggleTimeline(poll.id)}
+                          aria-expanded={openTimelineId === poll.id}
                         >
-                          {poll.is_active ? "Deactivate" : "Activate"}
+                          <History className="h-4 w-4 mr-2" />
+                          History
                         </Button>
                         <Button
                           variant="destructive"
@@ -301,6 +476,16 @@ function DashboardContent() {
                             : "Delete"}
                         </Button>
                       </div>
+
+                      {openTimelineId === poll.id && (
+                        <div className="border-t pt-4">
+                          {timelines[poll.id] ? (
+                            <PollStatusTimeline changes={timelines[poll.id]} />
+                          ) : (
+                            <p className="text-sm text-muted-foreground">Loading history...</p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
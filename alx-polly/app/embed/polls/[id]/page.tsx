@@ -0,0 +1,68 @@
+import { notFound } from "next/navigation";
+import { PollService } from "@/lib/services/poll-service";
+import { NotFoundError } from "@/lib/errors/custom-errors";
+import { EmbeddedPoll } from "@/components/polls/embedded-poll";
+import { PollWithOptions } from "@/types/database";
+import { DEFAULT_EMBED_OPTIONS, parseEmbedOptions } from "@/utils/embed-utils";
+import { toPoll } from "@/utils/poll-utils";
+import { getUserDisplayName, getUserInitials } from "@/utils/auth-utils";
+
+interface EmbedPollPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// /embed/polls/[id] - Iframe-safe poll widget
+// Query params: theme (light|dark|auto), height (px), hide_avatar (true|false)
+export default async function EmbedPollPage({
+  params,
+  searchParams,
+}: EmbedPollPageProps) {
+  const { id } = await params;
+
+  const query = new URLSearchParams();
+  Object.entries(await searchParams).forEach(([key, value]) => {
+    if (typeof value === "string") query.set(key, value);
+  });
+  // A bad option shouldn't break the host page, so fall back to the defaults
+  const parsed = parseEmbedOptions(query);
+  const options = parsed.isValid ? parsed.options : DEFAULT_EMBED_OPTIONS;
+
+  let poll: PollWithOptions;
+  try {
+    // Host pages rarely share our session, so the widget shows what a logged-out reader may see
+    poll = await PollService.getPollForViewer(id);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  const profile = poll.profiles;
+  const author =
+    profile && !options.hideAvatar
+      ? {
+          name: getUserDisplayName(
+            profile.first_name ?? undefined,
+            profile.last_name ?? undefined,
+            profile.username
+          ),
+          initials: getUserInitials(
+            profile.first_name ?? undefined,
+            profile.last_name ?? undefined,
+            profile.username
+          ),
+          avatarUrl: profile.avatar_url,
+        }
+      : null;
+
+  return (
+    <EmbeddedPoll
+      poll={toPoll(poll)}
+      author={author}
+      theme={options.theme}
+      height={options.height}
+    />
+  );
+}
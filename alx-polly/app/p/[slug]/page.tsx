@@ -0,0 +1,36 @@
+import { notFound, redirect } from "next/navigation";
+import { PollService } from "@/lib/services/poll-service";
+import { NotFoundError } from "@/lib/errors/custom-errors";
+
+interface ShortLinkPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// /p/[slug] - Resolve a poll's short link to the full poll page
+export default async function ShortLinkPage({
+  params,
+  searchParams,
+}: ShortLinkPageProps) {
+  const { slug } = await params;
+
+  let pollId: string;
+  try {
+    const poll = await PollService.getPollBySlug(slug);
+    pollId = poll.id;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  // Keep query params such as the QR code source tag
+  const query = new URLSearchParams();
+  Object.entries(await searchParams).forEach(([key, value]) => {
+    if (typeof value === "string") query.set(key, value);
+  });
+  const queryString = query.toString();
+
+  redirect(`/polls/${pollId}${queryString ? `?${queryString}` : ""}`);
+}
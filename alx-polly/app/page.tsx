@@ -102,8 +102,8 @@ export default function Home() {
               </CardHeader>
               <CardContent>
                 <CardDescription>
-                  Share polls instantly with QR codes, direct links, or social
-                  media integration.
+                  Share polls instantly with QR codes, direct links, social
+                  media, or printable posters for events.
                 </CardDescription>
               </CardContent>
             </Card>
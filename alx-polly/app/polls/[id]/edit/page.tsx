@@ -44,7 +44,9 @@ export default function EditPollPage() {
     try {
       setIsLoadingPoll(true);
       // Use authenticated API client to fetch poll details
-      const poll = await api.get<PollWithOptions>(`/api/polls/${pollId}`);
+      const { data: poll } = await api.get<{ data: PollWithOptions }>(
+        `/api/polls/${pollId}`
+      );
 
       if (!poll) {
         toast.error("Poll not found");
@@ -72,8 +74,9 @@ export default function EditPollPage() {
         })),
         expiresAt: poll.expires_at ? new Date(poll.expires_at) : undefined,
         allowMultipleVotes: poll.allow_multiple_votes,
+        voteType: poll.vote_type,
         isAnonymous: poll.is_anonymous,
-        isActive: poll.is_active,
+        status: poll.status,
         createdAt: new Date(poll.created_at),
         updatedAt: new Date(poll.updated_at),
       };
@@ -100,10 +103,10 @@ export default function EditPollPage() {
       await api.put(`/api/polls/${pollId}`, {
         title: data.title,
         description: data.description || null,
-        expires_at: data.expiresAt ? data.expiresAt.toISOString() : null,
-        allow_multiple_votes: data.allowMultipleVotes,
-        is_anonymous: data.isAnonymous,
-        is_active: data.isActive,
+        expiresAt: data.expiresAt ? data.expiresAt.toISOString() : null,
+        allowMultipleVotes: data.allowMultipleVotes,
+        isAnonymous: data.isAnonymous,
+        options: data.options?.map((option) => ({ id: option.id || undefined, text: option.text })),
       });
 
       toast.success("Poll updated successfully!");
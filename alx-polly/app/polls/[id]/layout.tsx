@@ -0,0 +1,78 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { PollService } from "@/lib/services/poll-service";
+import { NotFoundError } from "@/lib/errors/custom-errors";
+import { PollWithOptions } from "@/types/database";
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from "@/lib/poll-og-image";
+import { generatePollUrl } from "@/utils/poll-utils";
+
+interface PollLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ id: string }>;
+}
+
+async function getRequestOrigin(): Promise<string> {
+  if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL;
+
+  const headerList = await headers();
+  const host = headerList.get("x-forwarded-host") ?? headerList.get("host");
+  const protocol = headerList.get("x-forwarded-proto") ?? "http";
+  return `${protocol}://${host}`;
+}
+
+// Title, description and preview image for link unfurls, plus the oEmbed endpoint
+// so CMSes can auto-embed pasted poll links
+export async function generateMetadata({
+  params,
+}: Pick<PollLayoutProps, "params">): Promise<Metadata> {
+  const { id } = await params;
+  const origin = (await getRequestOrigin()).replace(/\/$/, "");
+
+  let poll: PollWithOptions;
+  try {
+    // Unfurls have no viewer, so drafts read as missing even to their creator
+    poll = await PollService.getPollForViewer(id);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return { title: "Poll Not Found - Polly" };
+    }
+    throw error;
+  }
+
+  const title = `${poll.title} - Polly`;
+  // Never mention vote counts here, the description is public even for inactive polls
+  const description =
+    poll.description ||
+    `Vote on: ${poll.poll_options.map((option) => option.text).join(", ")}`;
+  const pollUrl = `${origin}/polls/${poll.id}`;
+  // Versioned by updated_at so previews refresh when the poll is edited or deactivated
+  const imageUrl = `${origin}/api/polls/${poll.id}/og?v=${encodeURIComponent(poll.updated_at)}`;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      type: "website",
+      siteName: "Polly",
+      title: poll.title,
+      description,
+      url: generatePollUrl(poll, origin),
+      images: [{ url: imageUrl, width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT, alt: poll.title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: poll.title,
+      description,
+      images: [imageUrl],
+    },
+    alternates: {
+      types: {
+        "application/json+oembed": `${origin}/api/oembed?url=${encodeURIComponent(pollUrl)}&format=json`,
+      },
+    },
+  };
+}
+
+export default function PollLayout({ children }: PollLayoutProps) {
+  return children;
+}
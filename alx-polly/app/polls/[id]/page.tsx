@@ -3,6 +3,12 @@
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { PollCard } from "@/components/polls/poll-card";
+import { QRCodeDialog } from "@/components/polls/qr-code-dialog";
+import { PollPosterMenu } from "@/components/polls/poll-poster-menu";
+import { QRSourceStatsCard } from "@/components/polls/qr-source-stats";
+import { WriteInsCard } from "@/components/polls/write-ins";
+import { FollowUpsCard } from "@/components/polls/follow-ups";
+import { PollOutcomeSummary } from "@/components/polls/poll-outcome";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -12,13 +18,38 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Poll } from "@/types";
+import {
+  AnswerFeedback,
+  DeclaredOutcome,
+  InstantRunoffResult,
+  OptionRatingStats,
+  ScoreBallot,
+  SlotAvailability,
+} from "@/types";
 import { PollWithOptions } from "@/types/database";
 import { toast } from "sonner";
-import { ArrowLeft, Share2, QrCode } from "lucide-react";
+import { ArrowLeft, Share2, QrCode, Presentation, Code } from "lucide-react";
 import Link from "next/link";
-import { api } from "@/lib/api-client";
+import { api, optionalAuthApi } from "@/lib/api-client";
 import { useAuth } from "@/contexts/auth-context";
+import { QR_SOURCE_PARAM, isValidSourceTag } from "@/utils/qr-utils";
+import {
+  GUEST_VOTE_LIMIT_LABELS,
+  RESULTS_VISIBILITY_LABELS,
+  VOTE_CHANGE_POLICY_LABELS,
+  VOTE_TYPE_LABELS,
+  allowsGuestVoting,
+  describeCloseRules,
+  describeSelectionLimits,
+  generatePollUrl,
+  toPoll,
+} from "@/utils/poll-utils";
+import {
+  DEFAULT_EMBED_OPTIONS,
+  EMBED_DEFAULT_WIDTH,
+  buildEmbedIframeHtml,
+  getPollEmbedPath,
+} from "@/utils/embed-utils";
 
 export default function PollPage() {
   const params = useParams();
@@ -31,19 +62,68 @@ export default function PollPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>("");
   const [userVotes, setUserVotes] = useState<string[]>([]);
+  const [userScores, setUserScores] = useState<ScoreBallot | null>(null);
+  const [userWriteIn, setUserWriteIn] = useState<string | null>(null);
+  const [userVotedAt, setUserVotedAt] = useState<string | null>(null);
+  const [answerFeedback, setAnswerFeedback] = useState<AnswerFeedback | null>(null);
+  const [instantRunoff, setInstantRunoff] = useState<InstantRunoffResult>();
+  const [ratingStats, setRatingStats] = useState<OptionRatingStats[]>();
+  const [slotAvailability, setSlotAvailability] = useState<SlotAvailability[]>();
+  const [outcome, setOutcome] = useState<DeclaredOutcome | null>(null);
+  const [isResolvingTie, setIsResolvingTie] = useState(false);
   const [isVoting, setIsVoting] = useState(false);
+  const [isQRCodeOpen, setIsQRCodeOpen] = useState(false);
 
   useEffect(() => {
     fetchPoll();
-    fetchUserVotes();
   }, [pollId]);
 
-  const fetchPoll = async () => {
+  // The session is restored after the first render, so load the ballot once it is known
+  useEffect(() => {
+    fetchUserVotes();
+  }, [pollId, user?.id]);
+
+  const sourceStorageKey = `polly:source:${pollId}`;
+
+  // Attribute the visit (and a later vote) to the QR code the visitor scanned
+  useEffect(() => {
+    const tag = new URLSearchParams(window.location.search).get(QR_SOURCE_PARAM);
+    if (tag && isValidSourceTag(tag)) {
+      sessionStorage.setItem(sourceStorageKey, tag);
+    }
+    const source = sessionStorage.getItem(sourceStorageKey);
+
+    // Count each source once per browser session so refreshes don't inflate scans
+    const viewedKey = `polly:viewed:${pollId}:${source ?? "direct"}`;
+    if (sessionStorage.getItem(viewedKey)) return;
+    sessionStorage.setItem(viewedKey, "1");
+
+    fetch(`/api/polls/${pollId}/views`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ source }),
+    }).catch((err) => console.error("Failed to record poll view:", err));
+  }, [pollId, sourceStorageKey]);
+
+  const fetchPoll = async (showLoading = true) => {
     try {
-      setIsLoading(true);
-      // Use authenticated API client to fetch poll details
-      const pollData = await api.get<PollWithOptions>(`/api/polls/${pollId}`);
-      setPoll(pollData);
+      if (showLoading) setIsLoading(true);
+      // Logged-out visitors can open polls too, e.g. after scanning a QR code
+      const response = await optionalAuthApi.get<{ data: PollWithOptions }>(
+        `/api/polls/${pollId}`
+      );
+      setPoll(response.data);
+      await fetchOutcome();
+
+      // The statistics endpoint refuses viewers the results are hidden from
+      if (response.data.results_hidden) return;
+      if (
+        response.data.vote_type === "ranked" ||
+        response.data.vote_type === "rating" ||
+        response.data.vote_type === "schedule"
+      ) {
+        await fetchStatistics();
+      }
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to load poll";
@@ -54,38 +134,126 @@ export default function PollPage() {
     }
   };
 
-  const fetchUserVotes = async () => {
+  // Runoff rounds, score summaries and availability can't be read off the option counts,
+  // so ranked, rating and scheduling polls load them from the statistics endpoint
+  const fetchStatistics = async () => {
     try {
-      if (!user) return;
+      const response = await optionalAuthApi.get<{
+        data: {
+          instantRunoff?: InstantRunoffResult;
+          ratingStats?: OptionRatingStats[];
+          slotAvailability?: SlotAvailability[];
+        };
+      }>(`/api/polls/${pollId}/statistics`);
+      setInstantRunoff(response.data.instantRunoff);
+      setRatingStats(response.data.ratingStats);
+      setSlotAvailability(response.data.slotAvailability);
+    } catch (err) {
+      console.error("Failed to fetch poll statistics:", err);
+    }
+  };
 
-      // Use authenticated API client to get user's votes for this poll
-      const votesData = await api.get(`/api/polls/${pollId}/votes/me`);
-      setUserVotes(votesData.optionIds || []);
+  // Null until the poll closes, and while the results are hidden from this viewer
+  const fetchOutcome = async () => {
+    try {
+      const response = await optionalAuthApi.get<{
+        data: (Omit<DeclaredOutcome, "decidedAt"> & { decidedAt: string }) | null;
+      }>(`/api/polls/${pollId}/outcome`);
+      setOutcome(
+        response.data
+          ? { ...response.data, decidedAt: new Date(response.data.decidedAt) }
+          : null
+      );
+    } catch (err) {
+      console.error("Failed to fetch poll outcome:", err);
+    }
+  };
+
+  const handlePickWinner = async (optionId: string) => {
+    try {
+      setIsResolvingTie(true);
+      await api.put(`/api/polls/${pollId}/outcome`, { optionId });
+      await fetchOutcome();
+      toast.success("Winner declared");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to declare the winner";
+      toast.error(errorMessage);
+    } finally {
+      setIsResolvingTie(false);
+    }
+  };
+
+  const fetchUserVotes = async () => {
+    try {
+      // Without a session this returns the ballot stored under the guest voter cookie
+      const response = await optionalAuthApi.get<{
+        data: {
+          optionIds: string[];
+          scores: ScoreBallot | null;
+          writeIn: string | null;
+          votedAt: string | null;
+          feedback: AnswerFeedback | null;
+        };
+      }>(`/api/polls/${pollId}/votes/me`);
+      setUserVotes(response.data.optionIds);
+      setUserScores(response.data.scores);
+      setUserWriteIn(response.data.writeIn);
+      setUserVotedAt(response.data.votedAt);
+      setAnswerFeedback(response.data.feedback);
     } catch (err) {
       console.error("Failed to fetch user votes:", err);
       // Don't show error toast for votes - it's not critical
     }
   };
 
-  const handleVote = async (pollId: string, optionIds: string[]) => {
-    if (!user) {
-      toast.error("Please log in to vote");
-      return;
+  const handleVote = async (
+    pollId: string,
+    optionIds: string[],
+    scores?: ScoreBallot,
+    writeIn?: string
+  ) => {
+    if (!user && !(poll && allowsGuestVoting(poll))) {
+      toast.error("Please log in to vote", {
+        action: { label: "Log in", onClick: () => router.push("/auth/login") },
+      });
+      // Reject so the card keeps the ballot open
+      throw new Error("Not logged in");
     }
 
     try {
       setIsVoting(true);
 
-      // Use authenticated API client to submit vote
-      const result = await api.post(`/api/polls/${pollId}/vote`, { optionIds });
+      // Guests on anonymous polls are recognised by the voter cookie the server sets
+      const response = await optionalAuthApi.post<{
+        data: {
+          optionIds: string[];
+          scores: ScoreBallot | null;
+          writeIn: string | null;
+          votedAt: string | null;
+          feedback: AnswerFeedback | null;
+        };
+      }>(`/api/polls/${pollId}/vote`, {
+        optionIds,
+        scores,
+        writeIn,
+        source: sessionStorage.getItem(sourceStorageKey),
+      });
 
-      // Update local state
-      setUserVotes(optionIds);
+      // Show the ballot the server stored, not what was sent
+      setUserVotes(response.data.optionIds);
+      setUserScores(response.data.scores);
+      setUserWriteIn(response.data.writeIn);
+      setUserVotedAt(response.data.votedAt);
+      setAnswerFeedback(response.data.feedback);
 
       // Refresh poll data to get updated vote counts
-      await fetchPoll();
+      await fetchPoll(false);
 
-      toast.success("Vote submitted successfully!");
+      // Quiz questions show whether the answer was right instead
+      if (!response.data.feedback) {
+        toast.success("Vote submitted successfully!");
+      }
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to submit vote";
@@ -96,8 +264,32 @@ export default function PollPage() {
     }
   };
 
+  const handleRetract = async (pollId: string) => {
+    try {
+      setIsVoting(true);
+      await optionalAuthApi.delete(`/api/polls/${pollId}/vote`);
+
+      setUserVotes([]);
+      setUserScores(null);
+      setUserWriteIn(null);
+      setUserVotedAt(null);
+      setAnswerFeedback(null);
+
+      await fetchPoll(false);
+
+      toast.success("Vote retracted");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to retract vote";
+      toast.error(errorMessage);
+      throw err;
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
   const handleShare = async () => {
-    const url = window.location.href;
+    const url = poll ? generatePollUrl(poll) : window.location.href;
 
     if (navigator.share) {
       try {
@@ -106,22 +298,35 @@ export default function PollPage() {
           text: poll?.description || undefined,
           url,
         });
-      } catch (err) {
+      } catch {
         // User cancelled sharing
       }
     } else {
       try {
         await navigator.clipboard.writeText(url);
         toast.success("Poll link copied to clipboard!");
-      } catch (err) {
+      } catch {
         toast.error("Failed to copy link");
       }
     }
   };
 
-  const showQRCode = () => {
-    // TODO: Implement QR code modal
-    toast.info("QR code feature coming soon!");
+  const handleCopyEmbedCode = async () => {
+    if (!poll) return;
+
+    const html = buildEmbedIframeHtml({
+      src: `${window.location.origin}${getPollEmbedPath(poll.id)}`,
+      title: poll.title,
+      width: EMBED_DEFAULT_WIDTH,
+      height: DEFAULT_EMBED_OPTIONS.height,
+    });
+
+    try {
+      await navigator.clipboard.writeText(html);
+      toast.success("Embed code copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy embed code");
+    }
   };
 
   if (isLoading) {
@@ -179,6 +384,12 @@ export default function PollPage() {
     );
   }
 
+  const selectionLimits =
+    poll.vote_type === "multiple"
+      ? describeSelectionLimits(poll.min_selections, poll.max_selections)
+      : null;
+  const closeRules = poll.status === "open" ? describeCloseRules(toPoll(poll)) : null;
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-2xl mx-auto">
@@ -194,23 +405,62 @@ export default function PollPage() {
               <Share2 className="h-4 w-4 mr-2" />
               Share
             </Button>
-            <Button variant="outline" size="sm" onClick={showQRCode}>
-              <QrCode className="h-4 w-4 mr-2" />
-              QR Code
+            {/* The QR code and poster load without the session, so drafts have neither */}
+            {poll.status !== "draft" && (
+              <Button variant="outline" size="sm" onClick={() => setIsQRCodeOpen(true)}>
+                <QrCode className="h-4 w-4 mr-2" />
+                QR Code
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleCopyEmbedCode}>
+              <Code className="h-4 w-4 mr-2" />
+              Embed
             </Button>
+            {poll.status !== "draft" && <PollPosterMenu pollId={poll.id} />}
+            {user?.id === poll.created_by && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/polls/${poll.id}/present`}>
+                  <Presentation className="h-4 w-4 mr-2" />
+                  Present
+                </Link>
+              </Button>
+            )}
           </div>
         </div>
 
         {/* Poll Card */}
         <PollCard
-          poll={poll}
+          poll={toPoll(poll)}
           onVote={handleVote}
-          currentUserId={user?.id}
+          onRetract={handleRetract}
           userVotes={userVotes}
+          userScores={userScores}
+          userWriteIn={userWriteIn}
+          userVotedAt={userVotedAt}
+          instantRunoff={instantRunoff}
+          ratingStats={ratingStats}
+          slotAvailability={slotAvailability}
+          answerFeedback={answerFeedback}
           showResults={false}
           isLoading={isVoting}
         />
 
+        {outcome && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Result</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PollOutcomeSummary
+                outcome={outcome}
+                options={poll.poll_options}
+                onPickWinner={user?.id === poll.created_by ? handlePickWinner : undefined}
+                isResolving={isResolvingTie}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Additional Poll Info */}
         <Card className="mt-6">
           <CardHeader>
@@ -220,20 +470,57 @@ export default function PollPage() {
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div>
                 <span className="font-medium">Total Votes:</span>
-                <span className="ml-2">{poll.total_votes}</span>
+                <span className="ml-2">
+                  {poll.results_hidden ? "Hidden" : poll.total_votes}
+                </span>
               </div>
               <div>
                 <span className="font-medium">Vote Type:</span>
                 <span className="ml-2">
-                  {poll.allow_multiple_votes
-                    ? "Multiple Choice"
-                    : "Single Choice"}
+                  {VOTE_TYPE_LABELS[poll.vote_type]}
+                  {selectionLimits && ` (${selectionLimits})`}
+                  {poll.vote_type === "rating" &&
+                    ` (${poll.score_min}-${poll.score_max})`}
+                  {poll.time_zone && ` (planned in ${poll.time_zone})`}
                 </span>
               </div>
               <div>
                 <span className="font-medium">Anonymous:</span>
                 <span className="ml-2">{poll.is_anonymous ? "Yes" : "No"}</span>
               </div>
+              <div>
+                <span className="font-medium">Vote Changes:</span>
+                <span className="ml-2">
+                  {poll.vote_change_policy === "window"
+                    ? `Within ${poll.vote_change_window_minutes} minutes of voting`
+                    : VOTE_CHANGE_POLICY_LABELS[poll.vote_change_policy]}
+                </span>
+              </div>
+              <div>
+                <span className="font-medium">Results:</span>
+                <span className="ml-2">
+                  {RESULTS_VISIBILITY_LABELS[poll.results_visibility]}
+                </span>
+              </div>
+              {poll.quiz_id && (
+                <div>
+                  <span className="font-medium">Quiz:</span>
+                  <Link
+                    href={`/quizzes/${poll.quiz_id}`}
+                    className="ml-2 text-primary hover:underline"
+                  >
+                    Question {poll.quiz_position}
+                  </Link>
+                </div>
+              )}
+              {allowsGuestVoting(poll) && (
+                <div>
+                  <span className="font-medium">Guest Voting:</span>
+                  <span className="ml-2">
+                    {GUEST_VOTE_LIMIT_LABELS[poll.guest_vote_limit]}
+                  </span>
+                </div>
+              )}
               <div>
                 <span className="font-medium">Created:</span>
                 <span className="ml-2">
@@ -242,6 +529,22 @@ export default function PollPage() {
               </div>
             </div>
 
+            {closeRules && (
+              <div className="pt-2 border-t text-sm">
+                <span className="font-medium">Closing Rules:</span>
+                <span className="ml-2">{closeRules}</span>
+              </div>
+            )}
+
+            {poll.starts_at && (
+              <div className="pt-2 border-t">
+                <span className="font-medium text-sm">Opens:</span>
+                <span className="ml-2 text-sm">
+                  {new Date(poll.starts_at).toLocaleString()}
+                </span>
+              </div>
+            )}
+
             {poll.expires_at && (
               <div className="pt-2 border-t">
                 <span className="font-medium text-sm">Expires:</span>
@@ -252,6 +555,35 @@ export default function PollPage() {
             )}
           </CardContent>
         </Card>
+
+        {user?.id === poll.created_by && (
+          <QRSourceStatsCard pollId={poll.id} />
+        )}
+
+        {user?.id === poll.created_by && poll.allow_write_ins && (
+          <WriteInsCard
+            pollId={poll.id}
+            totalVotes={poll.total_votes}
+            onPromoted={() => fetchPoll(false)}
+          />
+        )}
+
+        {user?.id === poll.created_by &&
+          poll.vote_type !== "rating" &&
+          poll.vote_type !== "schedule" &&
+          !poll.quiz_id &&
+          !poll.survey_id && (
+            <FollowUpsCard poll={poll} onSaved={() => fetchPoll(false)} />
+          )}
+
+        <QRCodeDialog
+          pollId={poll.id}
+          pollTitle={poll.title}
+          pollSlug={poll.slug}
+          isOwner={user?.id === poll.created_by}
+          open={isQRCodeOpen}
+          onOpenChange={setIsQRCodeOpen}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,252 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Eye, EyeOff, Lock, Maximize, Minimize, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PresenterResults } from "@/components/polls/presenter-results";
+import { ProtectedRoute } from "@/components/auth/protected-route";
+import { useAuth } from "@/contexts/auth-context";
+import { api } from "@/lib/api-client";
+import { PollWithOptions } from "@/types/database";
+import { PollOption } from "@/types";
+import { canTransitionPollStatus, generatePollUrl } from "@/utils/poll-utils";
+import { getPollQRCodePath } from "@/utils/qr-utils";
+
+const REFRESH_INTERVAL_MS = 3000;
+
+// Scans from the big screen show up as their own source in the QR code stats
+const PRESENTER_SOURCE = "presenter";
+
+function PresentContent() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const pollId = params.id as string;
+
+  const [poll, setPoll] = useState<PollWithOptions | null>(null);
+  const [participantCount, setParticipantCount] = useState(0);
+  const [areResultsHidden, setAreResultsHidden] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+
+  const fetchResults = useCallback(
+    async (isFirstLoad = false) => {
+      try {
+        const { data: pollData } = await api.get<{ data: PollWithOptions }>(
+          `/api/polls/${pollId}`
+        );
+
+        if (pollData.created_by !== user?.id) {
+          toast.error("You can only present your own polls");
+          router.push(`/polls/${pollId}`);
+          return;
+        }
+
+        const { data: statistics } = await api.get<{ data: { uniqueVoters: number } }>(
+          `/api/polls/${pollId}/statistics`
+        );
+
+        setPoll(pollData);
+        setParticipantCount(statistics.uniqueVoters);
+      } catch (err) {
+        if (isFirstLoad) {
+          toast.error(err instanceof Error ? err.message : "Failed to load poll");
+          router.push("/dashboard");
+          return;
+        }
+        // Keep showing the last results, the next refresh will try again
+        console.error("Failed to refresh poll results:", err);
+      }
+    },
+    [pollId, user?.id, router]
+  );
+
+  useEffect(() => {
+    fetchResults(true);
+    const interval = setInterval(() => fetchResults(), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchResults]);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {
+        toast.error("Full screen is not available in this browser");
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () =>
+      setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () =>
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  // Presenter shortcuts: R hides or reveals results, F toggles full screen
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      if (event.key === "r" || event.key === "R") {
+        setAreResultsHidden((hidden) => !hidden);
+      } else if (event.key === "f" || event.key === "F") {
+        toggleFullscreen();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [toggleFullscreen]);
+
+  const handleCloseVoting = async () => {
+    if (!user || !poll) return;
+    if (!confirm("Close voting? Nobody will be able to vote on this poll anymore.")) {
+      return;
+    }
+
+    try {
+      setIsClosing(true);
+      await api.put(`/api/polls/${poll.id}/status`, { status: "closed" });
+      toast.success("Voting closed");
+      await fetchResults();
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to close voting";
+      toast.error(errorMessage);
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  if (!poll) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  const isExpired = Boolean(poll.expires_at && new Date(poll.expires_at) < new Date());
+  const isOpen = poll.status === "open" && !isExpired;
+  const pollUrl = generatePollUrl(poll);
+
+  const options: PollOption[] = poll.poll_options.map((option) => ({
+    id: option.id,
+    text: option.text,
+    votes: option.votes_count,
+    pollId: poll.id,
+  }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-background px-12 py-10">
+      <header className="flex items-start justify-between gap-8">
+        <div className="min-w-0">
+          <h1 className="text-4xl font-bold leading-tight xl:text-5xl">
+            {poll.title}
+          </h1>
+          {poll.description && (
+            <p className="mt-3 line-clamp-2 text-xl text-muted-foreground xl:text-2xl">
+              {poll.description}
+            </p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-4">
+          <Badge variant={isOpen ? "default" : "secondary"} className="px-4 py-1 text-lg">
+            {isOpen ? "Voting open" : "Voting closed"}
+          </Badge>
+          <div className="flex items-center gap-2 text-2xl tabular-nums">
+            <Users className="h-7 w-7 text-muted-foreground" />
+            <span className="font-semibold">{participantCount}</span>
+            <span className="text-muted-foreground">
+              {participantCount === 1 ? "participant" : "participants"}
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <div className="mt-10 grid min-h-0 flex-1 grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-16">
+        <section className="flex min-h-0 flex-col items-center justify-center gap-6">
+          {isOpen ? (
+            <>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={getPollQRCodePath(poll.id, { size: 1024, margin: 2 }, PRESENTER_SOURCE)}
+                alt={`QR code for ${poll.title}`}
+                className="aspect-square max-h-full w-full max-w-[60vh] rounded-xl border bg-white p-4"
+              />
+              <p className="break-all text-center text-2xl font-medium">
+                {pollUrl.replace(/^https?:\/\//, "")}
+              </p>
+            </>
+          ) : (
+            <div className="flex flex-col items-center gap-4 text-muted-foreground">
+              <Lock className="h-20 w-20" />
+              <p className="text-3xl font-medium">Voting has closed</p>
+            </div>
+          )}
+        </section>
+
+        <section className="min-h-0 overflow-hidden">
+          <PresenterResults
+            options={options}
+            totalVotes={poll.total_votes}
+            hidden={areResultsHidden}
+          />
+        </section>
+      </div>
+
+      {/* Presenter controls stay out of the way until hovered */}
+      <div className="absolute bottom-4 right-4 flex gap-2 opacity-30 transition-opacity hover:opacity-100 focus-within:opacity-100">
+        <Button variant="outline" size="sm" onClick={() => setAreResultsHidden(!areResultsHidden)}>
+          {areResultsHidden ? (
+            <Eye className="h-4 w-4 mr-2" />
+          ) : (
+            <EyeOff className="h-4 w-4 mr-2" />
+          )}
+          {areResultsHidden ? "Reveal results" : "Hide results"}
+        </Button>
+        {canTransitionPollStatus(poll.status, "closed") && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCloseVoting}
+            disabled={isClosing}
+          >
+            <Lock className="h-4 w-4 mr-2" />
+            {isClosing ? "Closing..." : "Close voting"}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={toggleFullscreen}
+          aria-label={isFullscreen ? "Exit full screen" : "Full screen"}
+        >
+          {isFullscreen ? (
+            <Minimize className="h-4 w-4" />
+          ) : (
+            <Maximize className="h-4 w-4" />
+          )}
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/polls/${poll.id}`} aria-label="Exit presenter mode">
+            <X className="h-4 w-4" />
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function PresentPollPage() {
+  return (
+    <ProtectedRoute>
+      <PresentContent />
+    </ProtectedRoute>
+  );
+}
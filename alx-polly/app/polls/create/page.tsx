@@ -1,9 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { CreatePollForm } from "@/components/forms/create-poll-form";
-import { CreatePollFormData } from "@/types";
+import { CreatePollFormData, CreateSurveyFormData } from "@/types";
+import { Survey } from "@/types/database";
 import { toast } from "sonner";
 import { ProtectedRoute } from "@/components/auth/protected-route";
 import { api } from "@/lib/api-client";
@@ -11,8 +12,14 @@ import { api } from "@/lib/api-client";
 function CreatePollContent() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>("");
+  const [quizId, setQuizId] = useState<string>();
   const router = useRouter();
 
+  // Linked from a quiz page as /polls/create?quizId=... to add the next question
+  useEffect(() => {
+    setQuizId(new URLSearchParams(window.location.search).get("quizId") ?? undefined);
+  }, []);
+
   const handleCreatePoll = async (data: CreatePollFormData) => {
     setIsLoading(true);
     setError("");
@@ -20,8 +27,13 @@ function CreatePollContent() {
     try {
       // Use the authenticated API client
       const result = await api.post("/api/polls", data);
-      toast.success("Poll created successfully!");
-      router.push("/polls");
+      if (data.isDraft) {
+        toast.success("Draft saved! Publish it from your dashboard.");
+        router.push("/dashboard");
+        return;
+      }
+      toast.success(quizId ? "Question added to the quiz!" : "Poll created successfully!");
+      router.push(quizId ? `/quizzes/${quizId}` : "/polls");
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to create poll";
@@ -32,12 +44,30 @@ function CreatePollContent() {
     }
   };
 
+  const handleCreateSurvey = async (data: CreateSurveyFormData) => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await api.post<{ data: Survey }>("/api/surveys", data);
+      toast.success("Survey created successfully!");
+      router.push(`/surveys/${response.data.id}`);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to create survey";
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-2xl mx-auto">
         <div className="mb-8 text-center">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Create a New Poll
+            {quizId ? "Add a Quiz Question" : "Create a New Poll"}
           </h1>
           <p className="text-gray-600">
             Ask questions, gather opinions, and make decisions together
@@ -48,6 +78,8 @@ function CreatePollContent() {
           onSubmit={handleCreatePoll}
           isLoading={isLoading}
           error={error}
+          quizId={quizId}
+          onSubmitSurvey={handleCreateSurvey}
         />
       </div>
     </div>
@@ -2,13 +2,13 @@
 
 import { useState, useEffect } from 'react';
 import { PollsList } from '@/components/polls/polls-list';
-import { Poll } from '@/types';
+import { Poll, ScoreBallot } from '@/types';
 import { toast } from 'sonner';
+import { api } from '@/lib/api-client';
 
 export default function PollsPage() {
   const [polls, setPolls] = useState<Poll[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [currentUserId, setCurrentUserId] = useState<string>('');
   const [userVotes, setUserVotes] = useState<Record<string, string[]>>({});
 
   useEffect(() => {
@@ -50,25 +50,22 @@ export default function PollsPage() {
     }
   };
 
-  const handleVote = async (pollId: string, optionIds: string[]) => {
+  const handleVote = async (
+    pollId: string,
+    optionIds: string[],
+    scores?: ScoreBallot,
+    writeIn?: string
+  ) => {
     try {
-      // TODO: Replace with actual API call
-      const response = await fetch(`/api/polls/${pollId}/vote`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ optionIds }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to submit vote');
-      }
+      const response = await api.post<{ data: { optionIds: string[] } }>(
+        `/api/polls/${pollId}/vote`,
+        { optionIds, scores, writeIn }
+      );
 
-      // Update local state
+      // Update local state with the ballot the server stored
       setUserVotes(prev => ({
         ...prev,
-        [pollId]: optionIds
+        [pollId]: response.data.optionIds
       }));
       
       // Refresh polls to get updated vote counts
@@ -87,7 +84,6 @@ export default function PollsPage() {
       <PollsList
         polls={polls}
         onVote={handleVote}
-        currentUserId={currentUserId}
         userVotes={userVotes}
         isLoading={isLoading}
         showCreateButton={true}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { QuizLeaderboard } from "@/components/polls/quiz-leaderboard";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { QuizWithQuestions } from "@/types/database";
+import { toast } from "sonner";
+import { ArrowLeft, Plus } from "lucide-react";
+import { optionalAuthApi } from "@/lib/api-client";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  POLL_STATUS_LABELS,
+  VOTE_TYPE_LABELS,
+  getPollPath,
+  getPollStatus,
+  toPoll,
+} from "@/utils/poll-utils";
+
+export default function QuizPage() {
+  const params = useParams();
+  const router = useRouter();
+  const quizId = params.id as string;
+
+  const { user } = useAuth();
+
+  const [quiz, setQuiz] = useState<QuizWithQuestions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    fetchQuiz();
+  }, [quizId]);
+
+  const fetchQuiz = async () => {
+    try {
+      setIsLoading(true);
+      const response = await optionalAuthApi.get<{ data: QuizWithQuestions }>(
+        `/api/quizzes/${quizId}`
+      );
+      setQuiz(response.data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load quiz";
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="space-y-4">
+            <div className="h-8 bg-gray-200 rounded animate-pulse" />
+            <div className="h-64 bg-gray-100 rounded-lg animate-pulse" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !quiz) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="mb-6">
+            <Button variant="ghost" onClick={() => router.back()}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Quiz Not Found</CardTitle>
+              <CardDescription>
+                {error ||
+                  "The quiz you are looking for does not exist or has been removed."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild>
+                <Link href="/polls">Browse Polls</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwner = user?.id === quiz.created_by;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        {/* Navigation */}
+        <div className="mb-6 flex items-center justify-between">
+          <Button variant="ghost" onClick={() => router.back()}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          {isOwner && (
+            <Button size="sm" asChild>
+              <Link href={`/polls/create?quizId=${quiz.id}`}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold">{quiz.title}</CardTitle>
+            {quiz.description && (
+              <CardDescription>{quiz.description}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {quiz.polls.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This quiz has no questions yet.
+              </p>
+            ) : (
+              <ol className="divide-y">
+                {quiz.polls.map((question) => {
+                  const status = getPollStatus(toPoll(question));
+
+                  return (
+                    <li key={question.id} className="flex items-center gap-4 py-3">
+                      <span className="w-6 text-right text-sm text-muted-foreground">
+                        {question.quiz_position}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <Link
+                          href={getPollPath(question)}
+                          className="font-medium hover:underline break-words"
+                        >
+                          {question.title}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          {VOTE_TYPE_LABELS[question.vote_type]} ·{" "}
+                          {question.total_votes}{" "}
+                          {question.total_votes === 1 ? "answer" : "answers"}
+                        </p>
+                      </div>
+                      {status !== "open" && (
+                        <Badge variant="secondary">{POLL_STATUS_LABELS[status]}</Badge>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        {quiz.polls.length > 0 && (
+          <QuizLeaderboard quizId={quiz.id} questionCount={quiz.polls.length} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CreateQuizForm } from "@/components/forms/create-quiz-form";
+import { CreateQuizFormData } from "@/types";
+import { Quiz } from "@/types/database";
+import { toast } from "sonner";
+import { ProtectedRoute } from "@/components/auth/protected-route";
+import { api } from "@/lib/api-client";
+
+function CreateQuizContent() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>("");
+  const router = useRouter();
+
+  const handleCreateQuiz = async (data: CreateQuizFormData) => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await api.post<{ data: Quiz }>("/api/quizzes", data);
+      toast.success("Quiz created! Now add its first question.");
+      router.push(`/polls/create?quizId=${response.data.id}`);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to create quiz";
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Create a New Quiz
+          </h1>
+          <p className="text-gray-600">
+            Group questions with correct answers and see who gets them right fastest
+          </p>
+        </div>
+
+        <CreateQuizForm
+          onSubmit={handleCreateQuiz}
+          isLoading={isLoading}
+          error={error}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function CreateQuizPage() {
+  return (
+    <ProtectedRoute>
+      <CreateQuizContent />
+    </ProtectedRoute>
+  );
+}
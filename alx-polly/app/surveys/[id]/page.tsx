@@ -0,0 +1,342 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { PollCard } from "@/components/polls/poll-card";
+import { SurveyResults } from "@/components/polls/survey-results";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ScoreBallot, SurveyProgress } from "@/types";
+import { SurveyWithQuestions } from "@/types/database";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowRight, CheckCircle2, Share2 } from "lucide-react";
+import { optionalAuthApi } from "@/lib/api-client";
+import { useAuth } from "@/contexts/auth-context";
+import { allowsGuestVoting, generateSurveyUrl, toPoll } from "@/utils/poll-utils";
+
+interface Ballot {
+  optionIds: string[];
+  scores: ScoreBallot | null;
+  writeIn: string | null;
+  votedAt: string | null;
+}
+
+const EMPTY_BALLOT: Ballot = { optionIds: [], scores: null, writeIn: null, votedAt: null };
+
+export default function SurveyPage() {
+  const params = useParams();
+  const router = useRouter();
+  const surveyId = params.id as string;
+
+  const { user } = useAuth();
+
+  const [survey, setSurvey] = useState<SurveyWithQuestions | null>(null);
+  const [progress, setProgress] = useState<SurveyProgress>({ furthestPosition: 0, submitted: false });
+  const [step, setStep] = useState(0);
+  const [ballot, setBallot] = useState<Ballot>(EMPTY_BALLOT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isVoting, setIsVoting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    fetchSurvey();
+  }, [surveyId]);
+
+  const question = survey?.polls[step];
+
+  // Answers are saved as they are given, so going back shows the respondent's earlier ballot
+  useEffect(() => {
+    if (!question) return;
+    let cancelled = false;
+
+    setBallot(EMPTY_BALLOT);
+    optionalAuthApi
+      .get<{ data: Ballot }>(`/api/polls/${question.id}/votes/me`)
+      .then((response) => {
+        if (!cancelled) setBallot(response.data);
+      })
+      .catch((err) => console.error("Failed to fetch user votes:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [question?.id]);
+
+  const fetchSurvey = async (showLoading = true) => {
+    try {
+      if (showLoading) setIsLoading(true);
+      // Respondents resume at the first question they haven't answered
+      const [surveyResponse, progressResponse] = await Promise.all([
+        optionalAuthApi.get<{ data: SurveyWithQuestions }>(`/api/surveys/${surveyId}`),
+        optionalAuthApi.get<{ data: SurveyProgress }>(`/api/surveys/${surveyId}/progress`),
+      ]);
+      setSurvey(surveyResponse.data);
+      setProgress(progressResponse.data);
+      if (showLoading) {
+        const lastStep = Math.max(surveyResponse.data.polls.length - 1, 0);
+        setStep(Math.min(progressResponse.data.furthestPosition, lastStep));
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load survey";
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVote = async (
+    pollId: string,
+    optionIds: string[],
+    scores?: ScoreBallot,
+    writeIn?: string
+  ) => {
+    if (!user && !(question && allowsGuestVoting(question))) {
+      toast.error("Please log in to answer this survey", {
+        action: { label: "Log in", onClick: () => router.push("/auth/login") },
+      });
+      throw new Error("Not logged in");
+    }
+
+    try {
+      setIsVoting(true);
+
+      const response = await optionalAuthApi.post<{ data: Ballot }>(
+        `/api/polls/${pollId}/vote`,
+        { optionIds, scores, writeIn }
+      );
+      setBallot(response.data);
+      setProgress((prev) => ({
+        ...prev,
+        furthestPosition: Math.max(prev.furthestPosition, question?.survey_position ?? 0),
+      }));
+
+      await fetchSurvey(false);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to save answer";
+      toast.error(errorMessage);
+      throw err;
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleRetract = async (pollId: string) => {
+    try {
+      setIsVoting(true);
+      await optionalAuthApi.delete(`/api/polls/${pollId}/vote`);
+      setBallot(EMPTY_BALLOT);
+
+      await fetchSurvey(false);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to retract answer";
+      toast.error(errorMessage);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleSubmitSurvey = async () => {
+    try {
+      setIsSubmitting(true);
+      const response = await optionalAuthApi.post<{ data: SurveyProgress }>(
+        `/api/surveys/${surveyId}/submit`
+      );
+      setProgress(response.data);
+      toast.success("Thanks! Your answers were submitted.");
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to submit survey";
+      toast.error(errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleShare = async () => {
+    const url = generateSurveyUrl(surveyId);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Survey link copied to clipboard!");
+    } catch (err) {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="space-y-4">
+            <div className="h-8 bg-gray-200 rounded animate-pulse" />
+            <div className="h-64 bg-gray-100 rounded-lg animate-pulse" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !survey) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="mb-6">
+            <Button variant="ghost" onClick={() => router.back()}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Survey Not Found</CardTitle>
+              <CardDescription>
+                {error ||
+                  "The survey you are looking for does not exist or has been removed."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild>
+                <Link href="/polls">Browse Polls</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwner = user?.id === survey.created_by;
+  const questionCount = survey.polls.length;
+  const hasAnswered = ballot.optionIds.length > 0 || !!ballot.writeIn;
+  const isLastStep = step === questionCount - 1;
+  const answeredCount = progress.submitted
+    ? questionCount
+    : Math.min(progress.furthestPosition, questionCount);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        {/* Navigation */}
+        <div className="mb-6 flex items-center justify-between">
+          <Button variant="ghost" onClick={() => router.back()}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={handleShare}>
+            <Share2 className="h-4 w-4 mr-2" />
+            Share
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold">{survey.title}</CardTitle>
+            {survey.description && (
+              <CardDescription>{survey.description}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>
+                Question {Math.min(step + 1, questionCount)} of {questionCount}
+              </span>
+              <span>{answeredCount} answered</span>
+            </div>
+            <Progress value={questionCount > 0 ? (answeredCount / questionCount) * 100 : 0} />
+          </CardContent>
+        </Card>
+
+        {progress.submitted && (
+          <Card className="mb-6 border-green-200 bg-green-50">
+            <CardContent className="flex items-center gap-3 py-4 text-sm text-green-800">
+              <CheckCircle2 className="h-5 w-5 shrink-0" />
+              You submitted this survey. Your answers are final, but you can still look
+              back through them.
+            </CardContent>
+          </Card>
+        )}
+
+        {question && (
+          <PollCard
+            key={question.id}
+            poll={toPoll(question)}
+            onVote={progress.submitted ? undefined : handleVote}
+            onRetract={progress.submitted ? undefined : handleRetract}
+            userVotes={ballot.optionIds}
+            userScores={ballot.scores}
+            userWriteIn={ballot.writeIn}
+            userVotedAt={ballot.votedAt}
+            isLoading={isVoting}
+            showShareButton={false}
+          />
+        )}
+
+        <div className="mt-6 flex items-center justify-between gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setStep((prev) => prev - 1)}
+            disabled={step === 0}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Previous
+          </Button>
+
+          {isLastStep && !progress.submitted ? (
+            <Button onClick={handleSubmitSurvey} disabled={!hasAnswered || isSubmitting}>
+              {isSubmitting ? "Submitting..." : "Submit Survey"}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => setStep((prev) => prev + 1)}
+              disabled={isLastStep || (!hasAnswered && !progress.submitted)}
+            >
+              Next
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </div>
+
+        {isOwner && (
+          <>
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="text-lg">Share</CardTitle>
+                <CardDescription>
+                  One link and QR code for the whole survey
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex items-center gap-4">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={`/api/surveys/${survey.id}/qr`}
+                  alt={`QR code for ${survey.title}`}
+                  className="h-32 w-32"
+                />
+                <p className="text-sm break-all text-muted-foreground">
+                  {generateSurveyUrl(survey.id)}
+                </p>
+              </CardContent>
+            </Card>
+
+            <SurveyResults surveyId={survey.id} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
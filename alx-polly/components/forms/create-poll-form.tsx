@@ -1,7 +1,7 @@
 "use client";
 
-import { useState } from "react";
-import { useForm, useFieldArray } from "react-hook-form";
+import { FormEvent, useEffect, useState } from "react";
+import { Controller, useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 
@@ -17,10 +17,49 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { CreatePollFormData } from "@/types";
-import { validatePollOptions } from "@/utils/poll-utils";
-import { Plus, X, Calendar } from "lucide-react";
+import { OptionMediaInput, OptionMediaPreview } from "@/components/forms/option-media-input";
+import { TimeSlotPicker } from "@/components/forms/time-slot-picker";
+import {
+  CreatePollFormData,
+  CreateSurveyFormData,
+  GuestVoteLimit,
+  OptionMedia,
+  RatingScale,
+  SurveyQuestionFormData,
+  ResultsVisibility,
+  TieStrategy,
+  TimeSlot,
+  VoteChangePolicy,
+  VoteType,
+} from "@/types";
+import {
+  DEFAULT_GUEST_VOTE_LIMIT,
+  DEFAULT_RATING_SCALE,
+  DEFAULT_RESULTS_VISIBILITY,
+  DEFAULT_VOTE_CHANGE_POLICY,
+  DEFAULT_VOTE_CHANGE_WINDOW_MINUTES,
+  GUEST_VOTE_LIMITS,
+  GUEST_VOTE_LIMIT_LABELS,
+  MAX_VOTE_CHANGE_WINDOW_MINUTES,
+  RATING_SCALES,
+  RESULTS_VISIBILITIES,
+  RESULTS_VISIBILITY_LABELS,
+  TIE_STRATEGIES,
+  TIE_STRATEGY_LABELS,
+  VOTE_CHANGE_POLICIES,
+  VOTE_CHANGE_POLICY_LABELS,
+  VOTE_TYPES,
+  VOTE_TYPE_LABELS,
+  DEFAULT_TIE_STRATEGY,
+  normalizePollSlug,
+  supportsCloseRules,
+  validatePollOptions,
+  validatePollSlug,
+} from "@/utils/poll-utils";
+import { formatTimeSlot, getLocalTimeZone } from "@/utils/schedule-utils";
+import { Plus, X, Calendar, ListOrdered } from "lucide-react";
 
 const createPollSchema = z.object({
   title: z
@@ -34,19 +73,203 @@ const createPollSchema = z.object({
   options: z
     .array(z.string().min(1, "Option cannot be empty"))
     .min(2, "At least 2 options required"),
+  startsAt: z.string().optional(),
   expiresAt: z.string().optional(),
-  allowMultipleVotes: z.boolean(),
+  voteType: z.enum(VOTE_TYPES),
+  minSelections: z.string().optional(),
+  maxSelections: z.string().optional(),
+  ratingScale: z.enum(RATING_SCALES.map(toRatingScaleKey) as [string, ...string[]]),
+  allowWriteIns: z.boolean(),
+  voteChangePolicy: z.enum(VOTE_CHANGE_POLICIES),
+  voteChangeWindowMinutes: z.string().optional(),
+  resultsVisibility: z.enum(RESULTS_VISIBILITIES),
+  closeAfterVotes: z.string().optional(),
+  closeOnDecisiveLead: z.boolean(),
+  quorum: z.string().optional(),
+  tieStrategy: z.enum(TIE_STRATEGIES),
   isAnonymous: z.boolean(),
+  guestVoteLimit: z.enum(GUEST_VOTE_LIMITS),
+  slug: z
+    .string()
+    .optional()
+    .superRefine((slug, ctx) => {
+      if (!slug?.trim()) return;
+      const result = validatePollSlug(normalizePollSlug(slug));
+      if (!result.isValid) {
+        ctx.addIssue({ code: "custom", message: result.error });
+      }
+    }),
+}).superRefine((data, ctx) => {
+  if (data.voteChangePolicy === "window") {
+    const minutes = Number(data.voteChangeWindowMinutes);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_VOTE_CHANGE_WINDOW_MINUTES) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["voteChangeWindowMinutes"],
+        message: `Enter a whole number of minutes from 1 to ${MAX_VOTE_CHANGE_WINDOW_MINUTES}`,
+      });
+    }
+  }
+
+  if (data.startsAt && data.expiresAt && new Date(data.startsAt) >= new Date(data.expiresAt)) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["startsAt"],
+      message: "The poll must open before it expires",
+    });
+  }
+
+  if (data.resultsVisibility === "after_close" && !data.expiresAt) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["resultsVisibility"],
+      message: "Set an expiration date to show results after the poll closes",
+    });
+  }
+
+  if (supportsCloseRules({ voteType: data.voteType })) {
+    const target = parseCount(data.closeAfterVotes);
+    const quorum = parseCount(data.quorum);
+
+    if (Number.isNaN(target)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["closeAfterVotes"],
+        message: "Enter a whole number of votes of at least 1",
+      });
+    }
+    if (Number.isNaN(quorum)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["quorum"],
+        message: "Enter a whole number of votes of at least 1",
+      });
+    } else if (target && quorum && quorum > target) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["quorum"],
+        message: "The quorum cannot be higher than the vote target",
+      });
+    }
+    if (data.closeOnDecisiveLead && data.voteType !== "ranked" && !target) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["closeAfterVotes"],
+        message: "Set a vote target to close on a decisive lead",
+      });
+    }
+  }
+
+  if (data.voteType !== "multiple") return;
+
+  const min = parseCount(data.minSelections);
+  const max = parseCount(data.maxSelections);
+  const optionCount = data.options.filter((option) => option.trim()).length;
+
+  if (Number.isNaN(min) || Number.isNaN(max)) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["maxSelections"],
+      message: "Selection limits must be whole numbers of at least 1",
+    });
+  } else if (min && max && min > max) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["maxSelections"],
+      message: "Minimum cannot be more than maximum",
+    });
+  } else if (min && min > optionCount) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["maxSelections"],
+      message: `Minimum cannot be more than the ${optionCount} options`,
+    });
+  }
 });
 
+// Used for selection limits and closing rules: empty means none, and anything that isn't a
+// whole number of at least 1 is NaN
+function parseCount(value?: string): number | undefined {
+  if (!value?.trim()) return undefined;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 ? limit : NaN;
+}
+
+// Rating scales are picked from the presets, keyed as "min-max"
+function toRatingScaleKey(scale: RatingScale): string {
+  return `${scale.min}-${scale.max}`;
+}
+
+function parseRatingScaleKey(key: string): RatingScale {
+  const [min, max] = key.split("-").map(Number);
+  return { min, max };
+}
+
 type CreatePollFormFields = z.infer<typeof createPollSchema>;
 
+// A decisive lead only applies with a vote target, and not to ranked polls, whose runoff can
+// still change the winner
+function toCloseRules(
+  data: CreatePollFormFields
+): Pick<CreatePollFormData, "closeAfterVotes" | "closeOnDecisiveLead" | "quorum" | "tieStrategy"> {
+  const closeAfterVotes = parseCount(data.closeAfterVotes);
+  return {
+    closeAfterVotes,
+    closeOnDecisiveLead: !!closeAfterVotes && data.voteType !== "ranked" && data.closeOnDecisiveLead,
+    quorum: parseCount(data.quorum),
+    tieStrategy: data.tieStrategy,
+  };
+}
+
+const VOTE_TYPE_HINTS: Record<VoteType, string> = {
+  single: "Voters pick one option",
+  multiple: "Voters pick as many options as they like",
+  ranked: "Voters rank options by preference; the winner is found by instant runoff",
+  rating: "Voters score every option, e.g. 1-5 stars; results show each option's average",
+  schedule: "Pick candidate meeting times; voters mark each yes, if need be or no",
+};
+
+// Quiz questions are scored on the options picked
+const QUIZ_VOTE_TYPES: readonly VoteType[] = ["single", "multiple"];
+
+// Matches AppConfig.poll.maxSurveyQuestions, which the API enforces
+const MAX_SURVEY_QUESTIONS = 20;
+
+const MAX_OPTIONS = 10;
+
+const VOTE_CHANGE_POLICY_HINTS: Record<VoteChangePolicy, string> = {
+  never: "A cast ballot can't be changed or retracted",
+  until_close: "Voters can change or retract their ballot while the poll is open",
+  window: "Voters can change or retract their ballot for a few minutes after voting",
+};
+
+const RESULTS_VISIBILITY_HINTS: Record<ResultsVisibility, string> = {
+  always: "Anyone who can see the poll sees the running totals",
+  after_vote: "Voters see the totals once they have voted",
+  after_close: "Totals stay hidden until the expiration date",
+  owner_only: "Only you ever see the totals",
+};
+
+const TIE_STRATEGY_HINTS: Record<TieStrategy, string> = {
+  owner_decides: "The result waits for you to pick one of the tied options",
+  random: "One of the tied options is drawn when the poll closes",
+  extend: "Voting reopens once to break the tie; after that you pick",
+};
+
+const GUEST_VOTE_LIMIT_HINTS: Record<GuestVoteLimit, string> = {
+  browser: "Friendliest on shared Wi-Fi, but clearing cookies allows another vote",
+  device: "Also blocks a second vote from the same device and network",
+  network: "Also blocks a second vote from anyone on the same network",
+};
+
 interface CreatePollFormProps {
   onSubmit: (data: CreatePollFormData) => Promise<void>;
   isLoading?: boolean;
   error?: string;
   initialData?: CreatePollFormData;
   isEditing?: boolean;
+  quizId?: string; // Creates the poll as the next question of this quiz
+  onSubmitSurvey?: (data: CreateSurveyFormData) => Promise<void>; // Offers the survey builder mode
 }
 
 export function CreatePollForm({
@@ -55,14 +278,32 @@ export function CreatePollForm({
   error,
   initialData,
   isEditing = false,
+  quizId,
+  onSubmitSurvey,
 }: CreatePollFormProps) {
   const [formError, setFormError] = useState<string>("");
+  // Correct answers of a quiz question, by option field so removing an option keeps them aligned
+  const [correctFieldIds, setCorrectFieldIds] = useState<string[]>([]);
+  // Option images, keyed by option field like the correct answers
+  const [optionMedia, setOptionMedia] = useState<Record<string, OptionMedia>>({});
+  // Candidate times of a scheduling poll, in chronological order
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  // In survey mode the fields edit one question at a time; finished questions queue up here
+  const [isSurvey, setIsSurvey] = useState(false);
+  const [surveyTitle, setSurveyTitle] = useState("");
+  const [surveyDescription, setSurveyDescription] = useState("");
+  const [surveyQuestions, setSurveyQuestions] = useState<SurveyQuestionFormData[]>([]);
+
+  const canBuildSurvey = !!onSubmitSurvey && !isEditing && !quizId;
 
   const {
     register,
     handleSubmit,
     control,
     watch,
+    reset,
+    getValues,
+    setValue,
     formState: { errors },
   } = useForm<CreatePollFormFields>({
     resolver: zodResolver(createPollSchema),
@@ -71,9 +312,26 @@ export function CreatePollForm({
       description: initialData?.description || "",
       options: initialData?.options || ["", ""],
       expiresAt: initialData?.expiresAt,
-      allowMultipleVotes: initialData?.allowMultipleVotes || false,
+      voteType:
+        initialData?.voteType ??
+        (initialData?.allowMultipleVotes ? "multiple" : "single"),
+      minSelections: initialData?.minSelections?.toString() ?? "",
+      maxSelections: initialData?.maxSelections?.toString() ?? "",
+      ratingScale: toRatingScaleKey(initialData?.ratingScale ?? DEFAULT_RATING_SCALE),
+      allowWriteIns: initialData?.allowWriteIns ?? false,
+      voteChangePolicy: initialData?.voteChangePolicy ?? DEFAULT_VOTE_CHANGE_POLICY,
+      voteChangeWindowMinutes: (
+        initialData?.voteChangeWindowMinutes ?? DEFAULT_VOTE_CHANGE_WINDOW_MINUTES
+      ).toString(),
+      resultsVisibility: initialData?.resultsVisibility ?? DEFAULT_RESULTS_VISIBILITY,
+      closeAfterVotes: initialData?.closeAfterVotes?.toString() ?? "",
+      closeOnDecisiveLead: initialData?.closeOnDecisiveLead ?? false,
+      quorum: initialData?.quorum?.toString() ?? "",
+      tieStrategy: initialData?.tieStrategy ?? DEFAULT_TIE_STRATEGY,
       isAnonymous:
         initialData?.isAnonymous !== undefined ? initialData.isAnonymous : true,
+      guestVoteLimit: initialData?.guestVoteLimit ?? DEFAULT_GUEST_VOTE_LIMIT,
+      slug: initialData?.slug || "",
     },
   });
 
@@ -82,30 +340,157 @@ export function CreatePollForm({
     name: "options",
   });
 
-  const watchedOptions = watch("options");
+  const watchedIsAnonymous = watch("isAnonymous");
+  const watchedVoteType = watch("voteType");
+  const watchedVoteChangePolicy = watch("voteChangePolicy");
 
-  const handleFormSubmit = async (data: CreatePollFormFields) => {
+  // Images are shown on the choice ballots; rating and ranked ballots list options as text
+  const canAttachImages = watchedVoteType === "single" || watchedVoteType === "multiple";
+  const isSchedule = watchedVoteType === "schedule" && !isEditing;
+
+  // The options of a scheduling poll are its slots, labelled as the creator sees them
+  useEffect(() => {
+    if (!isSchedule) return;
+    setValue(
+      "options",
+      slots.map((slot) => formatTimeSlot(slot, { showTimeZone: true })),
+      { shouldValidate: slots.length > 0 }
+    );
+  }, [isSchedule, slots, setValue]);
+  const hasOptionImages =
+    canAttachImages && fields.some((field) => optionMedia[field.id] !== undefined);
+
+  const handleOptionMediaChange = (fieldId: string, media: OptionMedia | null) => {
+    setOptionMedia((prev) => {
+      const next = { ...prev };
+      if (media) {
+        next[fieldId] = media;
+      } else {
+        delete next[fieldId];
+      }
+      return next;
+    });
+  };
+
+  // A single-choice question has one correct answer, so marking another replaces it
+  const handleCorrectChange = (fieldId: string, checked: boolean) => {
+    setCorrectFieldIds((prev) => {
+      if (!checked) return prev.filter((id) => id !== fieldId);
+      return watchedVoteType === "single" ? [fieldId] : [...prev, fieldId];
+    });
+  };
+
+  // The per-question fields, shared by a poll and a survey question
+  const toQuestion = (data: CreatePollFormFields): SurveyQuestionFormData | null => {
+    // Filter out empty options, keeping each one's image alongside it
+    const filledOptions = data.options
+      .map((option, index) => ({ option, media: optionMedia[fields[index]?.id] ?? null }))
+      .filter(({ option }) => option.trim());
+    const filteredOptions = filledOptions.map(({ option }) => option);
+    const media = filledOptions.map((filled) =>
+      filled.media
+        ? { imageUrl: filled.media.imageUrl, caption: filled.media.caption?.trim() || undefined }
+        : null
+    );
+
+    // Validate options
+    const validation = validatePollOptions(filteredOptions);
+    if (!validation.isValid) {
+      setFormError(validation.error!);
+      return null;
+    }
+
+    return {
+      title: data.title,
+      description: data.description,
+      options: filteredOptions,
+      allowMultipleVotes: data.voteType === "multiple",
+      voteType: data.voteType,
+      ...(data.voteType === "multiple" && {
+        minSelections: parseCount(data.minSelections),
+        maxSelections: parseCount(data.maxSelections),
+      }),
+      ...(data.voteType === "rating" && {
+        ratingScale: parseRatingScaleKey(data.ratingScale),
+      }),
+      ...(!quizId &&
+        (data.voteType === "single" || data.voteType === "multiple") && {
+          allowWriteIns: data.allowWriteIns,
+        }),
+      ...((data.voteType === "single" || data.voteType === "multiple") &&
+        media.some(Boolean) && { optionMedia: media }),
+      ...(data.voteType === "schedule" && { slots, timeZone: getLocalTimeZone() }),
+    };
+  };
+
+  // Expiry and guest settings apply to every question of the survey
+  const submitSurvey = async (
+    questions: SurveyQuestionFormData[],
+    data: Pick<CreatePollFormFields, "expiresAt" | "isAnonymous" | "guestVoteLimit">
+  ) => {
+    if (!surveyTitle.trim()) {
+      setFormError("Give the survey a title");
+      return;
+    }
+
+    await onSubmitSurvey?.({
+      title: surveyTitle,
+      description: surveyDescription || undefined,
+      questions,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+      isAnonymous: data.isAnonymous,
+      guestVoteLimit: data.guestVoteLimit,
+    });
+  };
+
+  const handleFormSubmit = async (data: CreatePollFormFields, isDraft = false) => {
     try {
       setFormError("");
 
-      // Filter out empty options
-      const filteredOptions = data.options.filter((option) => option.trim());
+      const question = toQuestion(data);
+      if (!question) return;
+
+      if (isSurvey) {
+        await submitSurvey([...surveyQuestions, question], data);
+        return;
+      }
+
+      // Correct answers are sent as positions among the non-empty options
+      const correctOptions = data.options
+        .map((option, index) => ({ option, fieldId: fields[index]?.id }))
+        .filter(({ option }) => option.trim())
+        .flatMap(({ fieldId }, index) => (correctFieldIds.includes(fieldId) ? [index] : []));
 
-      // Validate options
-      const validation = validatePollOptions(filteredOptions);
-      if (!validation.isValid) {
-        setFormError(validation.error!);
+      if (quizId && correctOptions.length === 0) {
+        setFormError("Mark at least one correct answer");
+        return;
+      }
+
+      if (quizId && data.voteType === "single" && correctOptions.length > 1) {
+        setFormError("A single-choice question has exactly one correct answer");
         return;
       }
 
       // Prepare form data
       const formData: CreatePollFormData = {
-        title: data.title,
-        description: data.description,
-        options: filteredOptions,
+        ...question,
+        // Quiz questions open with their quiz instead of on a schedule of their own
+        startsAt: !quizId && data.startsAt ? new Date(data.startsAt) : undefined,
+        isDraft: isDraft || undefined,
         expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
-        allowMultipleVotes: data.allowMultipleVotes,
+        // Quiz answers can't be changed once the voter has seen whether they were right
+        voteChangePolicy: quizId ? "never" : data.voteChangePolicy,
+        ...(!quizId &&
+          data.voteChangePolicy === "window" && {
+            voteChangeWindowMinutes: Number(data.voteChangeWindowMinutes),
+          }),
+        ...(quizId && { quizId, correctOptions }),
+        // Quiz questions reveal the answer right after voting, so they always show results
+        resultsVisibility: quizId ? DEFAULT_RESULTS_VISIBILITY : data.resultsVisibility,
+        ...(!quizId && supportsCloseRules({ voteType: data.voteType }) && toCloseRules(data)),
         isAnonymous: data.isAnonymous,
+        guestVoteLimit: data.guestVoteLimit,
+        slug: data.slug?.trim() ? normalizePollSlug(data.slug) : undefined,
       };
 
       await onSubmit(formData);
@@ -114,8 +499,55 @@ export function CreatePollForm({
     }
   };
 
+  // Queue the question being edited and clear the fields for the next one
+  const handleAddQuestion = handleSubmit((data) => {
+    setFormError("");
+
+    if (surveyQuestions.length >= MAX_SURVEY_QUESTIONS) {
+      setFormError(`A survey cannot have more than ${MAX_SURVEY_QUESTIONS} questions`);
+      return;
+    }
+
+    const question = toQuestion(data);
+    if (!question) return;
+
+    setSurveyQuestions((prev) => [...prev, question]);
+    setOptionMedia({});
+    setSlots([]);
+    reset({
+      ...data,
+      title: "",
+      description: "",
+      options: ["", ""],
+      minSelections: "",
+      maxSelections: "",
+      allowWriteIns: false,
+    });
+  });
+
+  // Drafts stay hidden from everyone else until they are published from the dashboard
+  const handleSaveDraft = handleSubmit((data) => handleFormSubmit(data, true));
+
+  // Once a question is queued, the survey can be created with the last fields left blank
+  const handleSubmitEvent = (event: FormEvent<HTMLFormElement>) => {
+    const values = getValues();
+    const isBlankQuestion =
+      !values.title.trim() && values.options.every((option) => !option.trim());
+
+    if (isSurvey && surveyQuestions.length > 0 && isBlankQuestion) {
+      event.preventDefault();
+      setFormError("");
+      submitSurvey(surveyQuestions, values).catch(() =>
+        setFormError("An unexpected error occurred. Please try again.")
+      );
+      return;
+    }
+
+    return handleSubmit((data) => handleFormSubmit(data))(event);
+  };
+
   const addOption = () => {
-    if (fields.length < 10) {
+    if (fields.length < MAX_OPTIONS) {
       append("");
     }
   };
@@ -129,13 +561,42 @@ export function CreatePollForm({
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
-        <CardTitle className="text-2xl font-bold">Create New Poll</CardTitle>
+        <CardTitle className="text-2xl font-bold">
+          {quizId ? "New Quiz Question" : isSurvey ? "Create New Survey" : "Create New Poll"}
+        </CardTitle>
         <CardDescription>
-          Create a poll to gather opinions and make decisions together
+          {quizId
+            ? "Ask a question and mark the correct answers; voters see right or wrong after answering"
+            : isSurvey
+            ? "Build a list of questions that respondents answer one after another from a single link"
+            : "Create a poll to gather opinions and make decisions together"}
         </CardDescription>
+        {canBuildSurvey && (
+          <div className="flex gap-2 pt-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={isSurvey ? "outline" : "default"}
+              onClick={() => setIsSurvey(false)}
+              disabled={isLoading}
+            >
+              Single poll
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={isSurvey ? "default" : "outline"}
+              onClick={() => setIsSurvey(true)}
+              disabled={isLoading}
+            >
+              <ListOrdered className="h-4 w-4 mr-1" />
+              Survey
+            </Button>
+          </div>
+        )}
       </CardHeader>
 
-      <form onSubmit={handleSubmit(handleFormSubmit)}>
+      <form onSubmit={handleSubmitEvent}>
         <CardContent className="space-y-6">
           {(error || formError) && (
             <Alert variant="destructive">
@@ -143,9 +604,71 @@ export function CreatePollForm({
             </Alert>
           )}
 
+          {isSurvey && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="surveyTitle">Survey Title *</Label>
+                <Input
+                  id="surveyTitle"
+                  placeholder="e.g. Team offsite feedback"
+                  value={surveyTitle}
+                  onChange={(event) => setSurveyTitle(event.target.value)}
+                  maxLength={200}
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="surveyDescription">Survey Description (Optional)</Label>
+                <Textarea
+                  id="surveyDescription"
+                  placeholder="Tell respondents what the survey is about..."
+                  rows={2}
+                  value={surveyDescription}
+                  onChange={(event) => setSurveyDescription(event.target.value)}
+                  maxLength={1000}
+                  disabled={isLoading}
+                />
+              </div>
+
+              {surveyQuestions.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Questions</Label>
+                  <ol className="divide-y rounded-md border text-sm">
+                    {surveyQuestions.map((question, index) => (
+                      <li key={index} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <span className="min-w-0 break-words">
+                          {index + 1}. {question.title}
+                          <span className="text-muted-foreground">
+                            {" "}
+                            · {VOTE_TYPE_LABELS[question.voteType ?? "single"]},{" "}
+                            {question.options.length} options
+                          </span>
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setSurveyQuestions((prev) => prev.filter((_, other) => other !== index))
+                          }
+                          disabled={isLoading}
+                          aria-label={`Remove question ${index + 1}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Title */}
           <div className="space-y-2">
-            <Label htmlFor="title">Poll Title *</Label>
+            <Label htmlFor="title">
+              {isSurvey ? `Question ${surveyQuestions.length + 1} *` : "Poll Title *"}
+            </Label>
             <Input
               id="title"
               placeholder="What's your question?"
@@ -174,66 +697,165 @@ export function CreatePollForm({
             )}
           </div>
 
+          {/* Short link */}
+          {!isEditing && !isSurvey && (
+            <div className="space-y-2">
+              <Label htmlFor="slug">Custom Short Link (Optional)</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">/p/</span>
+                <Input
+                  id="slug"
+                  placeholder="team-lunch"
+                  {...register("slug")}
+                  disabled={isLoading}
+                />
+              </div>
+              {errors.slug ? (
+                <p className="text-sm text-red-500">{errors.slug.message}</p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Leave empty to get a random short link.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Options */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label>Poll Options *</Label>
-              {!isEditing && (
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={addOption}
-                  disabled={fields.length >= 10 || isLoading}
-                >
-                  <Plus className="h-4 w-4 mr-1" />
-                  Add Option
-                </Button>
+          {isSchedule ? (
+            <div className="space-y-4">
+              <Label>Time Slots *</Label>
+              <TimeSlotPicker
+                slots={slots}
+                onChange={setSlots}
+                maxSlots={MAX_OPTIONS}
+                disabled={isLoading}
+              />
+              {errors.options && (
+                <p className="text-sm text-red-500">Pick at least 2 time slots</p>
               )}
             </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label>Poll Options *</Label>
+                {!isEditing && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addOption}
+                    disabled={fields.length >= MAX_OPTIONS || isLoading}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Option
+                  </Button>
+                )}
+              </div>
 
-            {isEditing && (
-              <p className="text-sm text-muted-foreground">
-                Options cannot be modified after poll creation to preserve vote
-                integrity.
-              </p>
-            )}
+              {isEditing && (
+                <p className="text-sm text-muted-foreground">
+                  Options cannot be modified after poll creation to preserve vote
+                  integrity.
+                </p>
+              )}
 
-            <div className="space-y-3">
-              {fields.map((field, index) => (
-                <div key={field.id} className="flex gap-2">
-                  <div className="flex-1">
-                    <Input
-                      placeholder={`Option ${index + 1}`}
-                      {...register(`options.${index}`)}
-                      disabled={isLoading || isEditing}
-                    />
-                    {errors.options?.[index] && (
-                      <p className="text-sm text-red-500 mt-1">
-                        {errors.options[index]?.message}
-                      </p>
+              <div className={hasOptionImages ? "grid grid-cols-2 gap-3" : "space-y-3"}>
+                {fields.map((field, index) => (
+                  <div key={field.id} className="space-y-2">
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <Input
+                          placeholder={`Option ${index + 1}`}
+                          {...register(`options.${index}`)}
+                          disabled={isLoading || isEditing}
+                        />
+                        {errors.options?.[index] && (
+                          <p className="text-sm text-red-500 mt-1">
+                            {errors.options[index]?.message}
+                          </p>
+                        )}
+                      </div>
+
+                      {canAttachImages && !isEditing && (
+                        <OptionMediaInput
+                          optionLabel={`option ${index + 1}`}
+                          value={optionMedia[field.id] ?? null}
+                          onChange={(media) => handleOptionMediaChange(field.id, media)}
+                          disabled={isLoading}
+                        />
+                      )}
+
+                      {quizId && (
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`correct-${field.id}`}
+                            checked={correctFieldIds.includes(field.id)}
+                            onCheckedChange={(checked) =>
+                              handleCorrectChange(field.id, checked === true)
+                            }
+                            disabled={isLoading}
+                          />
+                          <Label htmlFor={`correct-${field.id}`} className="text-sm font-normal">
+                            Correct
+                          </Label>
+                        </div>
+                      )}
+
+                      {fields.length > 2 && !isEditing && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeOption(index)}
+                          disabled={isLoading}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+
+                    {canAttachImages && optionMedia[field.id] && (
+                      <OptionMediaPreview
+                        optionLabel={`option ${index + 1}`}
+                        value={optionMedia[field.id]}
+                        onChange={(media) => handleOptionMediaChange(field.id, media)}
+                        disabled={isLoading}
+                      />
                     )}
                   </div>
+                ))}
+              </div>
 
-                  {fields.length > 2 && !isEditing && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeOption(index)}
-                      disabled={isLoading}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  )}
-                </div>
-              ))}
+              {errors.options && (
+                <p className="text-sm text-red-500">{errors.options.message}</p>
+              )}
             </div>
+          )}
 
-            {errors.options && (
-              <p className="text-sm text-red-500">{errors.options.message}</p>
-            )}
-          </div>
+          {/* Start Date */}
+          {!quizId && !isSurvey && (
+            <div className="space-y-2">
+              <Label htmlFor="startsAt">Start Date (Optional)</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="startsAt"
+                  type="datetime-local"
+                  className="pl-10"
+                  {...register("startsAt")}
+                  disabled={isLoading}
+                  min={new Date().toISOString().slice(0, 16)}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Leave empty to open the poll right away. Scheduled polls are visible but only
+                accept votes from this time.
+              </p>
+              {errors.startsAt && (
+                <p className="text-sm text-red-500">{errors.startsAt.message}</p>
+              )}
+            </div>
+          )}
 
           {/* Expiration Date */}
           <div className="space-y-2">
@@ -256,23 +878,341 @@ export function CreatePollForm({
 
           {/* Settings */}
           <div className="space-y-4">
-            <Label className="text-base font-medium">Poll Settings</Label>
+            <Label className="text-base font-medium">
+              {isSurvey ? "Question Settings" : "Poll Settings"}
+            </Label>
 
             <div className="space-y-3">
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="allowMultipleVotes"
-                  {...register("allowMultipleVotes")}
-                  disabled={isLoading}
+              <Label className="text-sm font-medium">Vote type</Label>
+              <Controller
+                control={control}
+                name="voteType"
+                render={({ field }) => (
+                  <RadioGroup
+                    value={field.value}
+                    onValueChange={(value) => {
+                      // Slot labels make no sense as the options of another poll type
+                      if (field.value === "schedule") setValue("options", ["", ""]);
+                      field.onChange(value);
+                    }}
+                    disabled={isLoading}
+                  >
+                    {(quizId ? QUIZ_VOTE_TYPES : VOTE_TYPES).map((voteType) => (
+                      <div key={voteType} className="flex items-start space-x-2">
+                        <RadioGroupItem
+                          value={voteType}
+                          id={`voteType-${voteType}`}
+                          className="mt-0.5"
+                        />
+                        <Label
+                          htmlFor={`voteType-${voteType}`}
+                          className="flex flex-col items-start gap-1 text-sm font-normal"
+                        >
+                          {VOTE_TYPE_LABELS[voteType]}
+                          <span className="text-muted-foreground">
+                            {VOTE_TYPE_HINTS[voteType]}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+              />
+
+              {/* Approval-style limits, e.g. "pick up to 3" */}
+              {watchedVoteType === "multiple" && (
+                <div className="space-y-2 pl-6">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="minSelections" className="text-sm font-normal">
+                        Minimum selections
+                      </Label>
+                      <Input
+                        id="minSelections"
+                        type="number"
+                        min={1}
+                        placeholder="1"
+                        {...register("minSelections")}
+                        disabled={isLoading}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="maxSelections" className="text-sm font-normal">
+                        Maximum selections
+                      </Label>
+                      <Input
+                        id="maxSelections"
+                        type="number"
+                        min={1}
+                        placeholder="No limit"
+                        {...register("maxSelections")}
+                        disabled={isLoading}
+                      />
+                    </div>
+                  </div>
+                  {errors.maxSelections && (
+                    <p className="text-sm text-red-500">
+                      {errors.maxSelections.message}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {watchedVoteType === "rating" && (
+                <div className="space-y-2 pl-6">
+                  <Label className="text-sm font-normal">Rating scale</Label>
+                  <Controller
+                    control={control}
+                    name="ratingScale"
+                    render={({ field }) => (
+                      <RadioGroup
+                        value={field.value}
+                        onValueChange={field.onChange}
+                        disabled={isLoading}
+                        className="flex gap-4"
+                      >
+                        {RATING_SCALES.map((scale) => {
+                          const key = toRatingScaleKey(scale);
+                          return (
+                            <div key={key} className="flex items-center space-x-2">
+                              <RadioGroupItem value={key} id={`ratingScale-${key}`} />
+                              <Label
+                                htmlFor={`ratingScale-${key}`}
+                                className="text-sm font-normal"
+                              >
+                                {scale.label}
+                              </Label>
+                            </div>
+                          );
+                        })}
+                      </RadioGroup>
+                    )}
+                  />
+                </div>
+              )}
+
+              {/* Free-text "Other" answer next to the regular options */}
+              {!quizId && (watchedVoteType === "single" || watchedVoteType === "multiple") && (
+                <div className="flex items-center space-x-2 pl-6">
+                  <Controller
+                    control={control}
+                    name="allowWriteIns"
+                    render={({ field }) => (
+                      <Checkbox
+                        id="allowWriteIns"
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={isLoading}
+                      />
+                    )}
+                  />
+                  <Label htmlFor="allowWriteIns" className="text-sm font-normal">
+                    Add an &quot;Other (please specify)&quot; choice
+                  </Label>
+                </div>
+              )}
+            </div>
+
+            {/* Survey answers can be changed until the respondent submits */}
+            {!quizId && !isSurvey && (
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Changing votes</Label>
+                <Controller
+                  control={control}
+                  name="voteChangePolicy"
+                  render={({ field }) => (
+                    <RadioGroup
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={isLoading}
+                    >
+                      {VOTE_CHANGE_POLICIES.map((policy) => (
+                        <div key={policy} className="flex items-start space-x-2">
+                          <RadioGroupItem
+                            value={policy}
+                            id={`voteChangePolicy-${policy}`}
+                            className="mt-0.5"
+                          />
+                          <Label
+                            htmlFor={`voteChangePolicy-${policy}`}
+                            className="flex flex-col items-start gap-1 text-sm font-normal"
+                          >
+                            {VOTE_CHANGE_POLICY_LABELS[policy]}
+                            <span className="text-muted-foreground">
+                              {VOTE_CHANGE_POLICY_HINTS[policy]}
+                            </span>
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
                 />
-                <Label
-                  htmlFor="allowMultipleVotes"
-                  className="text-sm font-normal"
-                >
-                  Allow multiple votes per person
-                </Label>
+
+                {watchedVoteChangePolicy === "window" && (
+                  <div className="space-y-1 pl-6">
+                    <Label htmlFor="voteChangeWindowMinutes" className="text-sm font-normal">
+                      Minutes after voting
+                    </Label>
+                    <Input
+                      id="voteChangeWindowMinutes"
+                      type="number"
+                      min={1}
+                      max={MAX_VOTE_CHANGE_WINDOW_MINUTES}
+                      className="w-32"
+                      {...register("voteChangeWindowMinutes")}
+                      disabled={isLoading}
+                    />
+                    {errors.voteChangeWindowMinutes && (
+                      <p className="text-sm text-red-500">
+                        {errors.voteChangeWindowMinutes.message}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!quizId && !isSurvey && (
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Who sees the results</Label>
+                <Controller
+                  control={control}
+                  name="resultsVisibility"
+                  render={({ field }) => (
+                    <RadioGroup
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={isLoading}
+                    >
+                      {RESULTS_VISIBILITIES.map((visibility) => (
+                        <div key={visibility} className="flex items-start space-x-2">
+                          <RadioGroupItem
+                            value={visibility}
+                            id={`resultsVisibility-${visibility}`}
+                            className="mt-0.5"
+                          />
+                          <Label
+                            htmlFor={`resultsVisibility-${visibility}`}
+                            className="flex flex-col items-start gap-1 text-sm font-normal"
+                          >
+                            {RESULTS_VISIBILITY_LABELS[visibility]}
+                            <span className="text-muted-foreground">
+                              {RESULTS_VISIBILITY_HINTS[visibility]}
+                            </span>
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+                />
+                {errors.resultsVisibility && (
+                  <p className="text-sm text-red-500">{errors.resultsVisibility.message}</p>
+                )}
               </div>
+            )}
 
+            {/* Rating and scheduling polls have no winner to declare */}
+            {!quizId && !isSurvey && supportsCloseRules({ voteType: watchedVoteType }) && (
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Closing rules</Label>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="closeAfterVotes" className="text-sm font-normal">
+                      Close after this many votes
+                    </Label>
+                    <Input
+                      id="closeAfterVotes"
+                      type="number"
+                      min={1}
+                      placeholder="No target"
+                      {...register("closeAfterVotes")}
+                      disabled={isLoading}
+                    />
+                    {errors.closeAfterVotes && (
+                      <p className="text-sm text-red-500">{errors.closeAfterVotes.message}</p>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="quorum" className="text-sm font-normal">
+                      Quorum
+                    </Label>
+                    <Input
+                      id="quorum"
+                      type="number"
+                      min={1}
+                      placeholder="No quorum"
+                      {...register("quorum")}
+                      disabled={isLoading}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Fewest votes for the result to count
+                    </p>
+                    {errors.quorum && (
+                      <p className="text-sm text-red-500">{errors.quorum.message}</p>
+                    )}
+                  </div>
+                </div>
+
+                {watchedVoteType !== "ranked" && (
+                  <div className="flex items-center space-x-2">
+                    <Controller
+                      control={control}
+                      name="closeOnDecisiveLead"
+                      render={({ field }) => (
+                        <Checkbox
+                          id="closeOnDecisiveLead"
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          disabled={isLoading}
+                        />
+                      )}
+                    />
+                    <Label htmlFor="closeOnDecisiveLead" className="text-sm font-normal">
+                      Close early once the leader can&apos;t be caught before the target
+                    </Label>
+                  </div>
+                )}
+
+                {/* Instant runoff always ends with a single winner */}
+                {watchedVoteType !== "ranked" && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-normal">If the poll ends in a tie</Label>
+                    <Controller
+                      control={control}
+                      name="tieStrategy"
+                      render={({ field }) => (
+                        <RadioGroup
+                          value={field.value}
+                          onValueChange={field.onChange}
+                          disabled={isLoading}
+                        >
+                          {TIE_STRATEGIES.map((strategy) => (
+                            <div key={strategy} className="flex items-start space-x-2">
+                              <RadioGroupItem
+                                value={strategy}
+                                id={`tieStrategy-${strategy}`}
+                                className="mt-0.5"
+                              />
+                              <Label
+                                htmlFor={`tieStrategy-${strategy}`}
+                                className="flex flex-col items-start gap-1 text-sm font-normal"
+                              >
+                                {TIE_STRATEGY_LABELS[strategy]}
+                                <span className="text-muted-foreground">
+                                  {TIE_STRATEGY_HINTS[strategy]}
+                                </span>
+                              </Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      )}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3">
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="isAnonymous"
@@ -284,12 +1224,67 @@ export function CreatePollForm({
                 </Label>
               </div>
             </div>
+
+            {/* Guests without an account can vote on anonymous polls */}
+            {watchedIsAnonymous && (
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">
+                  Guest vote limit
+                </Label>
+                <Controller
+                  control={control}
+                  name="guestVoteLimit"
+                  render={({ field }) => (
+                    <RadioGroup
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={isLoading}
+                    >
+                      {GUEST_VOTE_LIMITS.map((limit) => (
+                        <div key={limit} className="flex items-start space-x-2">
+                          <RadioGroupItem
+                            value={limit}
+                            id={`guestVoteLimit-${limit}`}
+                            className="mt-0.5"
+                          />
+                          <Label
+                            htmlFor={`guestVoteLimit-${limit}`}
+                            className="flex flex-col items-start gap-1 text-sm font-normal"
+                          >
+                            {GUEST_VOTE_LIMIT_LABELS[limit]}
+                            <span className="text-muted-foreground">
+                              {GUEST_VOTE_LIMIT_HINTS[limit]}
+                            </span>
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+                />
+              </div>
+            )}
           </div>
 
           {/* Submit Button */}
           <div className="flex gap-3 pt-4">
+            {isSurvey && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleAddQuestion}
+                disabled={isLoading || surveyQuestions.length >= MAX_SURVEY_QUESTIONS}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Another Question
+              </Button>
+            )}
+
             <Button type="submit" className="flex-1" disabled={isLoading}>
-              {isLoading
+              {isSurvey
+                ? isLoading
+                  ? "Creating Survey..."
+                  : "Create Survey"
+                : isLoading
                 ? isEditing
                   ? "Updating Poll..."
                   : "Creating Poll..."
@@ -298,6 +1293,17 @@ export function CreatePollForm({
                 : "Create Poll"}
             </Button>
 
+            {!isEditing && !isSurvey && !quizId && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleSaveDraft}
+                disabled={isLoading}
+              >
+                Save as Draft
+              </Button>
+            )}
+
             <Button
               type="button"
               variant="outline"
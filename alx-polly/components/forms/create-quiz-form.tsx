@@ -0,0 +1,124 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CreateQuizFormData } from "@/types";
+
+const createQuizSchema = z.object({
+  title: z
+    .string()
+    .min(1, "Title is required")
+    .max(200, "Title must be less than 200 characters"),
+  description: z
+    .string()
+    .max(1000, "Description must be less than 1000 characters")
+    .optional(),
+});
+
+type CreateQuizFormFields = z.infer<typeof createQuizSchema>;
+
+interface CreateQuizFormProps {
+  onSubmit: (data: CreateQuizFormData) => Promise<void>;
+  isLoading?: boolean;
+  error?: string;
+}
+
+export function CreateQuizForm({ onSubmit, isLoading = false, error }: CreateQuizFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CreateQuizFormFields>({
+    resolver: zodResolver(createQuizSchema),
+    defaultValues: {
+      title: "",
+      description: "",
+    },
+  });
+
+  const handleFormSubmit = async (data: CreateQuizFormFields) => {
+    await onSubmit({
+      title: data.title,
+      description: data.description?.trim() || undefined,
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold">Create New Quiz</CardTitle>
+        <CardDescription>
+          Name your quiz, then add polls with correct answers as its questions
+        </CardDescription>
+      </CardHeader>
+
+      <form onSubmit={handleSubmit(handleFormSubmit)}>
+        <CardContent className="space-y-6">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="title">Quiz Title *</Label>
+            <Input
+              id="title"
+              placeholder="e.g. Friday trivia"
+              {...register("title")}
+              disabled={isLoading}
+            />
+            {errors.title && (
+              <p className="text-sm text-red-500">{errors.title.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description (Optional)</Label>
+            <Textarea
+              id="description"
+              placeholder="What is the quiz about?"
+              rows={3}
+              {...register("description")}
+              disabled={isLoading}
+            />
+            {errors.description && (
+              <p className="text-sm text-red-500">
+                {errors.description.message}
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button type="submit" className="flex-1" disabled={isLoading}>
+              {isLoading ? "Creating Quiz..." : "Create Quiz"}
+            </Button>
+
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isLoading}
+              onClick={() => window.history.back()}
+            >
+              Cancel
+            </Button>
+          </div>
+        </CardContent>
+      </form>
+    </Card>
+  );
+}
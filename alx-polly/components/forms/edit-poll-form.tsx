@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 
@@ -19,8 +19,11 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { EditPollFormData, PollOption } from "@/types";
-import { Calendar, Clock, Users, Eye, EyeOff } from "lucide-react";
+import { EditPollFormData } from "@/types";
+import { POLL_STATUS_LABELS } from "@/utils/poll-utils";
+import { Calendar, Clock, Users, Eye, EyeOff, Plus, X } from "lucide-react";
+
+const MAX_OPTIONS = 10;
 
 const editPollSchema = z.object({
   title: z
@@ -34,7 +37,20 @@ const editPollSchema = z.object({
   expiresAt: z.string().optional(),
   allowMultipleVotes: z.boolean(),
   isAnonymous: z.boolean(),
-  isActive: z.boolean(),
+  // Only sent for drafts; optionId is unset for options added while editing
+  options: z
+    .array(
+      z.object({
+        optionId: z.string().optional(),
+        text: z
+          .string()
+          .trim()
+          .min(1, "Option cannot be empty")
+          .max(200, "Option must be less than 200 characters"),
+      })
+    )
+    .min(2, "At least 2 options are required")
+    .max(MAX_OPTIONS, `Maximum ${MAX_OPTIONS} options allowed`),
 });
 
 type EditPollFormFields = z.infer<typeof editPollSchema>;
@@ -53,12 +69,15 @@ export function EditPollForm({
   error,
 }: EditPollFormProps) {
   const [formError, setFormError] = useState<string>("");
+  // The slots of a scheduling poll are fixed once it is created, even as a draft
+  const canEditOptions = poll.status === "draft" && poll.voteType !== "schedule";
 
   const {
     register,
     handleSubmit,
     watch,
     setValue,
+    control,
     formState: { errors },
   } = useForm<EditPollFormFields>({
     resolver: zodResolver(editPollSchema),
@@ -68,10 +87,15 @@ export function EditPollForm({
       expiresAt: poll.expiresAt ? poll.expiresAt.toISOString().split('T')[0] : "",
       allowMultipleVotes: poll.allowMultipleVotes,
       isAnonymous: poll.isAnonymous,
-      isActive: poll.isActive,
+      options: poll.options.map((option) => ({ optionId: option.id, text: option.text })),
     },
   });
 
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "options",
+  });
+
   const watchedValues = watch();
 
   const handleFormSubmit = async (data: EditPollFormFields) => {
@@ -85,7 +109,14 @@ export function EditPollForm({
         expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
         allowMultipleVotes: data.allowMultipleVotes,
         isAnonymous: data.isAnonymous,
-        isActive: data.isActive,
+        options: canEditOptions
+          ? data.options.map((option) => ({
+              id: option.optionId ?? "",
+              text: option.text,
+              votes: 0,
+              pollId: poll.id,
+            }))
+          : undefined,
       };
 
       await onSubmit(updateData);
@@ -113,7 +144,9 @@ export function EditPollForm({
       <CardHeader>
         <CardTitle className="text-2xl font-bold">Edit Poll</CardTitle>
         <CardDescription>
-          Update your poll settings. Note: Poll options cannot be modified to preserve vote integrity.
+          {poll.status === "draft"
+            ? "Update your draft. It stays hidden from everyone else until you publish it."
+            : "Update your poll settings. Note: Poll options cannot be modified to preserve vote integrity."}
         </CardDescription>
       </CardHeader>
 
@@ -130,6 +163,7 @@ export function EditPollForm({
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Calendar className="h-4 w-4" />
               Created: {formatDate(poll.createdAt)}
+              <Badge variant="outline">{POLL_STATUS_LABELS[poll.status]}</Badge>
             </div>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Users className="h-4 w-4" />
@@ -172,23 +206,73 @@ export function EditPollForm({
             )}
           </div>
 
-          {/* Current Options (Read-only) */}
-          <div className="space-y-2">
-            <Label>Current Poll Options</Label>
-            <p className="text-sm text-muted-foreground">
-              Options cannot be modified after poll creation to preserve vote integrity.
-            </p>
+          {canEditOptions ? (
             <div className="space-y-2">
-              {poll.options.map((option, index) => (
-                <div key={option.id} className="flex items-center justify-between p-3 border rounded-lg bg-muted/30">
-                  <span className="font-medium">{option.text}</span>
-                  <Badge variant="secondary">
-                    {option.votes} vote{option.votes !== 1 ? 's' : ''}
-                  </Badge>
-                </div>
-              ))}
+              <div className="flex items-center justify-between">
+                <Label>Poll Options *</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ text: "" })}
+                  disabled={fields.length >= MAX_OPTIONS || isLoading}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Option
+                </Button>
+              </div>
+              <div className="space-y-3">
+                {fields.map((field, index) => (
+                  <div key={field.id} className="flex gap-2">
+                    <div className="flex-1">
+                      <Input
+                        placeholder={`Option ${index + 1}`}
+                        {...register(`options.${index}.text`)}
+                        disabled={isLoading}
+                      />
+                      {errors.options?.[index]?.text && (
+                        <p className="text-sm text-red-500 mt-1">
+                          {errors.options[index]?.text?.message}
+                        </p>
+                      )}
+                    </div>
+                    {fields.length > 2 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => remove(index)}
+                        disabled={isLoading}
+                        aria-label={`Remove option ${index + 1}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {errors.options?.message && (
+                <p className="text-sm text-red-500">{errors.options.message}</p>
+              )}
             </div>
-          </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Current Poll Options</Label>
+              <p className="text-sm text-muted-foreground">
+                Options cannot be modified after the poll is published to preserve vote integrity.
+              </p>
+              <div className="space-y-2">
+                {poll.options.map((option) => (
+                  <div key={option.id} className="flex items-center justify-between p-3 border rounded-lg bg-muted/30">
+                    <span className="font-medium">{option.text}</span>
+                    <Badge variant="secondary">
+                      {option.votes} vote{option.votes !== 1 ? 's' : ''}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
 
           {/* Expiration Date */}
           <div className="space-y-2">
@@ -233,18 +317,6 @@ export function EditPollForm({
                   Anonymous voting
                 </Label>
               </div>
-
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="isActive"
-                  checked={watchedValues.isActive}
-                  onCheckedChange={(checked) => setValue("isActive", !!checked)}
-                  disabled={isLoading}
-                />
-                <Label htmlFor="isActive" className="text-sm font-normal">
-                  Poll is active (users can vote)
-                </Label>
-              </div>
             </div>
           </div>
 
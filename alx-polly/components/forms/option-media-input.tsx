@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { api } from "@/lib/api-client";
+import { OptionMedia } from "@/types";
+import {
+  OPTION_CAPTION_MAX_LENGTH,
+  OPTION_IMAGE_MAX_BYTES,
+  OPTION_IMAGE_TYPES,
+  formatFileSize,
+  isOptionImageType,
+  validateOptionImageUrl,
+} from "@/utils/media-utils";
+import { toast } from "sonner";
+import { ImagePlus, Upload, X } from "lucide-react";
+
+interface OptionMediaInputProps {
+  optionLabel: string;
+  value: OptionMedia | null;
+  onChange: (media: OptionMedia | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Button that attaches an image to a poll option, by upload or from a URL
+ */
+export function OptionMediaInput({
+  optionLabel,
+  value,
+  onChange,
+  disabled = false,
+}: OptionMediaInputProps) {
+  const [open, setOpen] = useState(false);
+  const [imageUrl, setImageUrl] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) setImageUrl("");
+  };
+
+  // Keep the caption when the image is swapped for another
+  const attach = (url: string) => {
+    onChange({ imageUrl: url, caption: value?.caption });
+    setOpen(false);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    // The server checks the file's contents too; this just saves a wasted upload
+    if (!isOptionImageType(file.type)) {
+      toast.error("Images must be PNG, JPEG, GIF or WebP files");
+      return;
+    }
+    if (file.size > OPTION_IMAGE_MAX_BYTES) {
+      toast.error(`Images must be smaller than ${formatFileSize(OPTION_IMAGE_MAX_BYTES)}`);
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+
+    try {
+      setIsUploading(true);
+      const response = await api.post<{ data: { url: string } }>("/api/uploads", formData);
+      attach(response.data.url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to upload image");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleUseUrl = () => {
+    const result = validateOptionImageUrl(imageUrl);
+    if (!result.isValid) {
+      toast.error(result.error);
+      return;
+    }
+    attach(imageUrl.trim());
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => handleOpenChange(true)}
+        disabled={disabled}
+        aria-label={value ? `Change image for ${optionLabel}` : `Add image to ${optionLabel}`}
+      >
+        <ImagePlus className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{value ? "Change Image" : "Add Image"}</DialogTitle>
+            <DialogDescription>
+              Show an image with {optionLabel}. Upload a PNG, JPEG, GIF or WebP file up
+              to {formatFileSize(OPTION_IMAGE_MAX_BYTES)}, or link to one on the web.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <Button type="button" variant="outline" className="w-full" disabled={isUploading} asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                {isUploading ? "Uploading..." : "Upload Image"}
+                <input
+                  type="file"
+                  accept={Object.keys(OPTION_IMAGE_TYPES).join(",")}
+                  className="hidden"
+                  onChange={handleFileChange}
+                  disabled={isUploading}
+                />
+              </label>
+            </Button>
+
+            <div className="space-y-2">
+              <Label htmlFor="option-image-url">Or image URL</Label>
+              <Input
+                id="option-image-url"
+                placeholder="https://example.com/image.png"
+                value={imageUrl}
+                onChange={(event) => setImageUrl(event.target.value)}
+                disabled={isUploading}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={handleUseUrl}
+              disabled={isUploading || !imageUrl.trim()}
+            >
+              Use URL
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface OptionMediaPreviewProps {
+  optionLabel: string;
+  value: OptionMedia;
+  onChange: (media: OptionMedia | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Thumbnail of an option's image with its caption field
+ */
+export function OptionMediaPreview({
+  optionLabel,
+  value,
+  onChange,
+  disabled = false,
+}: OptionMediaPreviewProps) {
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={value.imageUrl}
+          alt={value.caption || optionLabel}
+          className="h-32 w-full rounded-md border object-cover"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="absolute right-2 top-2 h-7 w-7 p-0"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          aria-label={`Remove image from ${optionLabel}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <Input
+        placeholder="Caption (optional)"
+        value={value.caption ?? ""}
+        maxLength={OPTION_CAPTION_MAX_LENGTH}
+        onChange={(event) => onChange({ ...value, caption: event.target.value })}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { TimeSlot } from "@/types";
+import {
+  DEFAULT_SLOT_DURATION_MINUTES,
+  SLOT_DURATIONS_MINUTES,
+  formatTimeSlot,
+  getLocalTimeZone,
+} from "@/utils/schedule-utils";
+import { ChevronLeft, ChevronRight, Plus, X } from "lucide-react";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+interface TimeSlotPickerProps {
+  slots: TimeSlot[];
+  onChange: (slots: TimeSlot[]) => void;
+  maxSlots: number;
+  disabled?: boolean;
+}
+
+// Days of the month shown for a calendar page, padded to start on a Monday
+function getMonthDays(month: Date): (Date | null)[] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const padding = (first.getDay() + 6) % 7;
+
+  return [
+    ...Array.from({ length: padding }, () => null),
+    ...Array.from(
+      { length: daysInMonth },
+      (_, index) => new Date(month.getFullYear(), month.getMonth(), index + 1)
+    ),
+  ];
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+}
+
+/**
+ * Calendar for picking the candidate times of a scheduling poll
+ *
+ * Times are entered in the creator's time zone; slots are kept in chronological order.
+ */
+export function TimeSlotPicker({
+  slots,
+  onChange,
+  maxSlots,
+  disabled = false,
+}: TimeSlotPickerProps) {
+  const today = new Date();
+  const [month, setMonth] = useState(new Date(today.getFullYear(), today.getMonth(), 1));
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [startTime, setStartTime] = useState("09:00");
+  const [duration, setDuration] = useState(DEFAULT_SLOT_DURATION_MINUTES.toString());
+  const [error, setError] = useState("");
+
+  const isCurrentMonth =
+    month.getFullYear() === today.getFullYear() && month.getMonth() === today.getMonth();
+
+  const changeMonth = (offset: number) => {
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const addSlot = () => {
+    if (!selectedDate) return;
+
+    const [hours, minutes] = startTime.split(":").map(Number);
+    const startsAt = new Date(selectedDate);
+    startsAt.setHours(hours, minutes, 0, 0);
+    const endsAt = new Date(startsAt.getTime() + Number(duration) * 60 * 1000);
+
+    if (Number.isNaN(startsAt.getTime())) {
+      setError("Enter a start time");
+      return;
+    }
+    if (startsAt <= new Date()) {
+      setError("Pick a time in the future");
+      return;
+    }
+    const isListed = slots.some(
+      (slot) =>
+        slot.startsAt.getTime() === startsAt.getTime() && slot.endsAt.getTime() === endsAt.getTime()
+    );
+    if (isListed) {
+      setError("That time slot is already on the list");
+      return;
+    }
+
+    setError("");
+    onChange(
+      [...slots, { startsAt, endsAt }].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+    );
+  };
+
+  const removeSlot = (index: number) => {
+    onChange(slots.filter((_, other) => other !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => changeMonth(-1)}
+              disabled={disabled || isCurrentMonth}
+              aria-label="Previous month"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium">
+              {month.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => changeMonth(1)}
+              disabled={disabled}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+            {WEEKDAYS.map((weekday) => (
+              <span key={weekday} className="py-1 text-muted-foreground">
+                {weekday}
+              </span>
+            ))}
+            {getMonthDays(month).map((day, index) => {
+              if (!day) return <span key={`pad-${index}`} />;
+
+              const isPast = day < new Date(today.getFullYear(), today.getMonth(), today.getDate());
+              const isSelected = !!selectedDate && isSameDay(day, selectedDate);
+              const hasSlots = slots.some((slot) => isSameDay(slot.startsAt, day));
+
+              return (
+                <button
+                  key={day.getDate()}
+                  type="button"
+                  onClick={() => setSelectedDate(day)}
+                  disabled={disabled || isPast}
+                  aria-pressed={isSelected}
+                  aria-label={day.toLocaleDateString(undefined, { dateStyle: "full" })}
+                  className={cn(
+                    "relative rounded-md py-1.5 hover:bg-accent disabled:pointer-events-none disabled:opacity-40",
+                    isSelected && "bg-primary text-primary-foreground hover:bg-primary",
+                    hasSlots && !isSelected && "font-semibold text-primary"
+                  )}
+                >
+                  {day.getDate()}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="slotStartTime" className="text-sm font-normal">
+              Start time
+            </Label>
+            <Input
+              id="slotStartTime"
+              type="time"
+              value={startTime}
+              onChange={(event) => setStartTime(event.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm font-normal">Length</Label>
+            <Select value={duration} onValueChange={setDuration} disabled={disabled}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_DURATIONS_MINUTES.map((minutes) => (
+                  <SelectItem key={minutes} value={minutes.toString()}>
+                    {formatDuration(minutes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={addSlot}
+            disabled={disabled || !selectedDate || slots.length >= maxSlots}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {selectedDate
+              ? `Add ${selectedDate.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`
+              : "Pick a day"}
+          </Button>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+      </div>
+
+      {slots.length > 0 && (
+        <ul className="divide-y rounded-md border text-sm">
+          {slots.map((slot, index) => (
+            <li
+              key={`${slot.startsAt.getTime()}-${slot.endsAt.getTime()}`}
+              className="flex items-center justify-between gap-3 px-3 py-2"
+            >
+              <span>{formatTimeSlot(slot)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeSlot(index)}
+                disabled={disabled}
+                aria-label={`Remove ${formatTimeSlot(slot)}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Times are in your time zone ({getLocalTimeZone()}); voters see them in theirs.
+      </p>
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import { User, Settings, LogOut, Plus, BarChart3, Home } from "lucide-react";
+import { User, Settings, LogOut, Plus, BarChart3, Home, ListChecks } from "lucide-react";
 import { getUserInitials, getUserDisplayName } from "@/utils/auth-utils";
 import { useAuth } from "@/contexts/auth-context";
 
@@ -132,6 +132,13 @@ export function Header() {
                       </Link>
                     </DropdownMenuItem>
 
+                    <DropdownMenuItem asChild>
+                      <Link href="/quizzes/create">
+                        <ListChecks className="mr-2 h-4 w-4" />
+                        Create Quiz
+                      </Link>
+                    </DropdownMenuItem>
+
                     <DropdownMenuSeparator />
 
                     <DropdownMenuItem asChild>
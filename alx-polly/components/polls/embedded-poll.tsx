@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { ExternalLink } from "lucide-react";
+import { PollCard } from "@/components/polls/poll-card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/auth-context";
+import { api } from "@/lib/api-client";
+import { cn } from "@/lib/utils";
+import { EmbedTheme, Poll, ScoreBallot } from "@/types";
+import { getPollPath } from "@/utils/poll-utils";
+
+export interface EmbeddedPollAuthor {
+  name: string;
+  initials: string;
+  avatarUrl?: string | null;
+}
+
+interface EmbeddedPollProps {
+  poll: Poll;
+  author?: EmbeddedPollAuthor | null;
+  theme: EmbedTheme;
+  height: number;
+}
+
+/**
+ * Minimal poll widget rendered inside third-party iframes
+ */
+export function EmbeddedPoll({ poll, author, theme, height }: EmbeddedPollProps) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [prefersDark, setPrefersDark] = useState(false);
+  const pollPath = getPollPath(poll);
+
+  useEffect(() => {
+    if (theme !== "auto") return;
+
+    const query = window.matchMedia("(prefers-color-scheme: dark)");
+    setPrefersDark(query.matches);
+
+    const handleChange = (event: MediaQueryListEvent) => setPrefersDark(event.matches);
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, [theme]);
+
+  const isDark = theme === "dark" || (theme === "auto" && prefersDark);
+
+  const handleVote = async (
+    pollId: string,
+    optionIds: string[],
+    scores?: ScoreBallot,
+    writeIn?: string
+  ) => {
+    // Host pages rarely share our session, so send readers to Polly to sign in
+    if (!user) {
+      toast.error("Log in to vote", {
+        action: {
+          label: "Open Polly",
+          onClick: () => window.open(pollPath, "_blank", "noopener"),
+        },
+      });
+      throw new Error("Not logged in");
+    }
+
+    try {
+      await api.post(`/api/polls/${pollId}/vote`, { optionIds, scores, writeIn });
+      toast.success("Vote submitted successfully!");
+      // Re-render the server component with the updated counts
+      router.refresh();
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to submit vote";
+      toast.error(errorMessage);
+      throw err;
+    }
+  };
+
+  return (
+    <div className={cn("fixed inset-0 z-50 bg-background", isDark && "dark")}>
+      <div
+        className="flex flex-col gap-3 overflow-auto p-3 text-foreground"
+        style={{ height }}
+      >
+        {author && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Avatar className="h-6 w-6">
+              {author.avatarUrl && <AvatarImage src={author.avatarUrl} alt={author.name} />}
+              <AvatarFallback className="text-xs">{author.initials}</AvatarFallback>
+            </Avatar>
+            <span>{author.name}</span>
+          </div>
+        )}
+
+        <PollCard
+          poll={poll}
+          onVote={handleVote}
+          showShareButton={false}
+        />
+
+        <a
+          href={pollPath}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center justify-end gap-1 text-xs text-muted-foreground hover:text-foreground"
+        >
+          Open in Polly
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      </div>
+    </div>
+  );
+}
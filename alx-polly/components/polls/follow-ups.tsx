@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api-client";
+import { PollService } from "@/lib/services/poll-service";
+import { PollFollowUpLink } from "@/types";
+import { PollWithOptions } from "@/types/database";
+import { toast } from "sonner";
+
+// Select value for an option that leads nowhere; Radix reserves the empty string
+const NO_FOLLOW_UP = "none";
+
+interface FollowUpsCardProps {
+  poll: PollWithOptions;
+  onSaved?: () => void;
+}
+
+/**
+ * Owner view for sending voters on to another poll depending on their answer
+ *
+ * Only voters who chose a linked option may vote on the follow-up poll.
+ */
+export function FollowUpsCard({ poll, onSaved }: FollowUpsCardProps) {
+  const [candidates, setCandidates] = useState<PollWithOptions[]>([]);
+  const [followUps, setFollowUps] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const savedKey = JSON.stringify(poll.poll_follow_ups ?? []);
+  useEffect(() => {
+    const saved: NonNullable<PollWithOptions["poll_follow_ups"]> = JSON.parse(savedKey);
+    setFollowUps(Object.fromEntries(saved.map((link) => [link.option_id, link.follow_up_poll_id])));
+  }, [savedKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Quiz and survey questions are answered in sequence, so they can't be follow-ups
+    PollService.getUserPolls(poll.created_by)
+      .then((polls) => {
+        if (cancelled) return;
+        setCandidates(
+          polls.filter(
+            (candidate) => candidate.id !== poll.id && !candidate.quiz_id && !candidate.survey_id
+          )
+        );
+      })
+      .catch((err) => console.error("Failed to load follow-up polls:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [poll.id, poll.created_by]);
+
+  const handleSave = async () => {
+    const links: PollFollowUpLink[] = Object.entries(followUps)
+      .filter(([, followUpPollId]) => followUpPollId !== NO_FOLLOW_UP)
+      .map(([optionId, followUpPollId]) => ({ optionId, followUpPollId }));
+
+    try {
+      setIsSaving(true);
+      await api.put(`/api/polls/${poll.id}/follow-ups`, { followUps: links });
+      toast.success("Follow-up polls saved");
+      onSaved?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save follow-up polls");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Follow-up Polls</CardTitle>
+        <CardDescription>
+          Send voters on to another of your polls depending on their answer. Only voters
+          who gave that answer can vote on the follow-up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {poll.poll_options.map((option) => (
+          <div key={option.id} className="flex items-center justify-between gap-4 text-sm">
+            <span className="min-w-0 break-words font-medium">{option.text}</span>
+            <Select
+              value={followUps[option.id] ?? NO_FOLLOW_UP}
+              onValueChange={(value: string) =>
+                setFollowUps((prev) => ({ ...prev, [option.id]: value }))
+              }
+            >
+              <SelectTrigger className="w-56 shrink-0">
+                <SelectValue placeholder="No follow-up" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_FOLLOW_UP}>No follow-up</SelectItem>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        <div className="flex justify-end pt-2">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Follow-ups"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
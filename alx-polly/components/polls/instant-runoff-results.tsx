@@ -0,0 +1,99 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { InstantRunoffResult, PollOption } from "@/types";
+import { cn } from "@/lib/utils";
+import { Trophy } from "lucide-react";
+
+interface InstantRunoffResultsProps {
+  options: PollOption[];
+  result: InstantRunoffResult;
+  userRanking?: string[]; // The viewer's ballot, most preferred first
+}
+
+/**
+ * Round-by-round instant-runoff count of a ranked poll
+ */
+export function InstantRunoffResults({
+  options,
+  result,
+  userRanking = [],
+}: InstantRunoffResultsProps) {
+  const { winnerId } = result;
+  if (!winnerId) {
+    return (
+      <p className="text-sm text-muted-foreground">No ballots have been cast yet.</p>
+    );
+  }
+
+  const optionText = new Map(options.map((option) => [option.id, option.text]));
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Trophy className="h-4 w-4 text-primary" />
+        <span>
+          {optionText.get(winnerId)} wins after {result.rounds.length}{" "}
+          {result.rounds.length === 1 ? "round" : "rounds"}
+        </span>
+      </div>
+
+      {result.rounds.map((round) => {
+        const countingBallots = result.totalBallots - round.exhaustedBallots;
+        const continuing = options.filter((option) => option.id in round.tallies);
+
+        return (
+          <div key={round.round} className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="font-medium uppercase">Round {round.round}</span>
+              {round.exhaustedBallots > 0 && (
+                <span>{round.exhaustedBallots} exhausted</span>
+              )}
+            </div>
+
+            {continuing.map((option) => {
+              const votes = round.tallies[option.id];
+              const percentage =
+                countingBallots > 0 ? Math.round((votes / countingBallots) * 100) : 0;
+              const userRank = userRanking.indexOf(option.id) + 1;
+
+              return (
+                <div key={option.id} className="space-y-1">
+                  <div className="flex justify-between items-center gap-2 text-sm">
+                    <span
+                      className={cn(
+                        option.id === round.eliminatedId && "text-muted-foreground line-through",
+                        option.id === winnerId && !round.eliminatedId && "font-medium"
+                      )}
+                    >
+                      {option.text}
+                      {userRank > 0 && (
+                        <span className="text-primary ml-1">#{userRank}</span>
+                      )}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {votes} ({percentage}%)
+                    </span>
+                  </div>
+                  <Progress value={percentage} className="h-2" />
+                </div>
+              );
+            })}
+
+            {round.eliminatedId ? (
+              <p className="text-xs text-muted-foreground">
+                {optionText.get(round.eliminatedId)} is eliminated and its ballots move
+                to their next choice.
+              </p>
+            ) : (
+              <Badge variant="secondary">
+                {optionText.get(winnerId)} has a majority
+              </Badge>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { PollOption } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface OptionImageProps {
+  option: Pick<PollOption, "text" | "imageUrl" | "imageCaption">;
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * An option's image with its caption; compact shows a small thumbnail without the caption
+ */
+export function OptionImage({ option, compact = false, className }: OptionImageProps) {
+  if (!option.imageUrl) return null;
+
+  if (compact) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={option.imageUrl}
+        alt={option.imageCaption || option.text}
+        loading="lazy"
+        className={cn("h-8 w-8 shrink-0 rounded object-cover", className)}
+      />
+    );
+  }
+
+  return (
+    <figure className={cn("space-y-1", className)}>
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={option.imageUrl}
+        alt={option.imageCaption || option.text}
+        loading="lazy"
+        className="aspect-[4/3] w-full rounded-md object-cover"
+      />
+      {option.imageCaption && (
+        <figcaption className="text-xs text-muted-foreground">{option.imageCaption}</figcaption>
+      )}
+    </figure>
+  );
+}
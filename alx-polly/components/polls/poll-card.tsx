@@ -1,6 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
 import {
   Card,
   CardContent,
@@ -13,43 +14,155 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Poll, PollOption } from "@/types";
+import { RankedChoiceBallot } from "@/components/polls/ranked-choice-ballot";
+import { InstantRunoffResults } from "@/components/polls/instant-runoff-results";
+import { RatingBallot } from "@/components/polls/rating-ballot";
+import { RatingResults } from "@/components/polls/rating-results";
+import { ScheduleBallot } from "@/components/polls/schedule-ballot";
+import { ScheduleResults } from "@/components/polls/schedule-results";
+import { OptionImage } from "@/components/polls/option-image";
+import {
+  AnswerFeedback,
+  InstantRunoffResult,
+  OptionRatingStats,
+  Poll,
+  ScoreBallot,
+  SlotAvailability,
+} from "@/types";
 import { PollWithOptions } from "@/types/database";
 import {
+  DEFAULT_VOTE_CHANGE_POLICY,
+  POLL_STATUS_LABELS,
+  WRITE_IN_MAX_LENGTH,
   calculateVotePercentage,
+  canChangeVote,
+  countWriteInVotes,
+  describeResultsVisibility,
+  describeSelectionLimits,
+  getFollowUpPollId,
   getPollStatus,
   isPollVotable,
   formatPollDate,
+  generatePollUrl,
+  getPollPath,
   getTimeRemaining,
+  getVoteChangeDeadline,
 } from "@/utils/poll-utils";
-import { Clock, Users, Share2, BarChart3 } from "lucide-react";
+import { Clock, Users, Share2, BarChart3, CheckCircle2, XCircle, EyeOff } from "lucide-react";
+
+// Radio value of the "Other (please specify)" choice, which is not a real option
+const OTHER_CHOICE = "__other__";
 
 interface PollCardProps {
   poll: Poll | PollWithOptions;
-  onVote?: (pollId: string, optionIds: string[]) => Promise<void>;
+  onVote?: (
+    pollId: string,
+    optionIds: string[],
+    scores?: ScoreBallot,
+    writeIn?: string
+  ) => Promise<void>;
+  onRetract?: (pollId: string) => Promise<void>; // Shown when the poll allows changing votes
   showResults?: boolean;
-  currentUserId?: string;
-  userVotes?: string[]; // Option IDs the user has voted for
+  userVotes?: string[]; // Option IDs the user has voted for, in rank order on ranked polls
+  userScores?: ScoreBallot | null; // The user's scores, for rating and scheduling polls
+  userWriteIn?: string | null; // The user's answer to the "Other" choice
+  userVotedAt?: Date | string | null; // When the user first cast their ballot
+  instantRunoff?: InstantRunoffResult; // Round-by-round count, for ranked polls
+  ratingStats?: OptionRatingStats[]; // Per-option score summary, for rating polls
+  slotAvailability?: SlotAvailability[]; // Answers for each slot, for scheduling polls
+  answerFeedback?: AnswerFeedback | null; // Quiz questions: whether the user's answer was right
   isLoading?: boolean;
+  showShareButton?: boolean;
 }
 
 export function PollCard({
   poll,
   onVote,
+  onRetract,
   showResults = false,
-  currentUserId,
   userVotes = [],
+  userScores,
+  userWriteIn,
+  userVotedAt,
+  instantRunoff,
+  ratingStats,
+  slotAvailability,
+  answerFeedback,
+  showShareButton = true,
 }: PollCardProps) {
+  const router = useRouter();
   const [selectedOptions, setSelectedOptions] = useState<string[]>(userVotes);
+  const [scores, setScores] = useState<ScoreBallot>(userScores ?? {});
+  const [isOtherSelected, setIsOtherSelected] = useState(!!userWriteIn);
+  const [writeIn, setWriteIn] = useState(userWriteIn ?? "");
   const [isVoting, setIsVoting] = useState(false);
-  const [hasVoted, setHasVoted] = useState(userVotes.length > 0);
+  const [hasVoted, setHasVoted] = useState(userVotes.length > 0 || !!userWriteIn);
+  const [isChangingVote, setIsChangingVote] = useState(false);
+
+  // Follow the ballot the server has on record, which may load after the first render
+  const userVotesKey = userVotes.join(",");
+  const resetToRecordedBallot = () => {
+    setSelectedOptions(userVotesKey ? userVotesKey.split(",") : []);
+    setIsOtherSelected(!!userWriteIn);
+    setWriteIn(userWriteIn ?? "");
+    setHasVoted(userVotesKey.length > 0 || !!userWriteIn);
+    setIsChangingVote(false);
+  };
+  useEffect(resetToRecordedBallot, [userVotesKey, userWriteIn]);
+
+  const userScoresKey = JSON.stringify(userScores ?? {});
+  useEffect(() => {
+    setScores(JSON.parse(userScoresKey));
+  }, [userScoresKey]);
 
   const pollStatus = getPollStatus(poll);
   const isVotable = isPollVotable(poll) && !hasVoted;
-  const canShowResults = showResults || hasVoted || pollStatus !== "active";
+  // The API blanks the counts when the poll's results visibility hides them from this viewer
+  const resultsHidden = "voteType" in poll && !!poll.resultsHidden;
+  const startsAt = "voteType" in poll ? poll.startsAt : undefined;
+  const canShowResults =
+    !resultsHidden && (showResults || hasVoted || pollStatus !== "open");
+  const isRanked = "voteType" in poll && poll.voteType === "ranked";
+  const ratingScale =
+    "voteType" in poll && poll.voteType === "rating" ? poll.ratingScale : undefined;
+  const isSchedule = "voteType" in poll && poll.voteType === "schedule";
+  // Rating and availability ballots are cast as a score for every option
+  const isScoreBallot = !!ratingScale || isSchedule;
+  const minSelections = "voteType" in poll ? poll.minSelections : undefined;
+  const maxSelections = "voteType" in poll ? poll.maxSelections : undefined;
+  const selectionLimits = describeSelectionLimits(minSelections, maxSelections);
+  const allowWriteIns = "voteType" in poll && !!poll.allowWriteIns;
+  // Options with pictures are laid out as a grid of tiles instead of a list
+  const hasOptionImages = "voteType" in poll && poll.options.some((option) => !!option.imageUrl);
+  const writeInVotes = "voteType" in poll && allowWriteIns ? countWriteInVotes(poll) : 0;
+  // The "Other" choice counts as a selection once the voter has typed an answer
+  const selectionCount = selectedOptions.length + (isOtherSelected ? 1 : 0);
+  const writeInPercentage =
+    "voteType" in poll && poll.totalVotes > 0
+      ? Math.round((writeInVotes / poll.totalVotes) * 100)
+      : 0;
+  // A ballot cast in this session counts as cast just now until the server's time arrives
+  const votedAt = userVotedAt ? new Date(userVotedAt) : hasVoted ? new Date() : null;
+  const voteChangePolicy =
+    ("voteType" in poll && poll.voteChangePolicy) || DEFAULT_VOTE_CHANGE_POLICY;
+  const voteChangeWindow = "voteType" in poll ? poll.voteChangeWindowMinutes : undefined;
+  const canChange =
+    hasVoted &&
+    pollStatus === "open" &&
+    canChangeVote(voteChangePolicy, voteChangeWindow, votedAt);
+  const voteChangeDeadline =
+    canChange && votedAt
+      ? getVoteChangeDeadline(voteChangePolicy, voteChangeWindow, votedAt)
+      : null;
+  const isAtMaxSelections = !!maxSelections && selectionCount >= maxSelections;
+  // Multiple-choice ballots may need a minimum number of options before they can be cast,
+  // and score ballots need an answer for every option
+  const hasEnoughSelections = isScoreBallot
+    ? poll.options.every((option) => scores[option.id] !== undefined)
+    : selectionCount >= (minSelections ?? 1) && (!isOtherSelected || !!writeIn.trim());
 
   const handleOptionChange = (optionId: string, checked: boolean) => {
     if (poll.allowMultipleVotes) {
@@ -61,13 +174,33 @@ export function PollCard({
     }
   };
 
+  // A single-choice ballot has either an option or the write-in
+  const handleSingleChoiceChange = (value: string) => {
+    setIsOtherSelected(value === OTHER_CHOICE);
+    setSelectedOptions(value === OTHER_CHOICE ? [] : [value]);
+  };
+
   const handleVote = async () => {
-    if (!onVote || selectedOptions.length === 0) return;
+    if (!onVote || !hasEnoughSelections) return;
 
     setIsVoting(true);
     try {
-      await onVote(poll.id, selectedOptions);
+      if (isScoreBallot) {
+        await onVote(poll.id, Object.keys(scores), scores);
+      } else if (isOtherSelected) {
+        await onVote(poll.id, selectedOptions, undefined, writeIn.trim());
+      } else {
+        await onVote(poll.id, selectedOptions);
+      }
       setHasVoted(true);
+      setIsChangingVote(false);
+
+      // Some answers lead on to a follow-up poll for just those voters
+      const followUpPollId =
+        "voteType" in poll ? getFollowUpPollId(poll.followUps, selectedOptions) : null;
+      if (followUpPollId) {
+        router.push(getPollPath(followUpPollId));
+      }
     } catch (error) {
       console.error("Voting failed:", error);
     } finally {
@@ -75,8 +208,31 @@ export function PollCard({
     }
   };
 
+  const handleCancelChange = () => {
+    resetToRecordedBallot();
+    setScores(userScores ?? {});
+  };
+
+  const handleRetract = async () => {
+    if (!onRetract) return;
+
+    setIsVoting(true);
+    try {
+      await onRetract(poll.id);
+      setSelectedOptions([]);
+      setScores({});
+      setIsOtherSelected(false);
+      setWriteIn("");
+      setHasVoted(false);
+    } catch (error) {
+      console.error("Retracting vote failed:", error);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
   const handleShare = async () => {
-    const url = `${window.location.origin}/polls/${poll.id}`;
+    const url = generatePollUrl(poll);
     if (navigator.share) {
       await navigator.share({
         title: poll.title,
@@ -91,10 +247,13 @@ export function PollCard({
 
   const getStatusBadgeVariant = () => {
     switch (pollStatus) {
-      case "active":
+      case "open":
         return "default";
-      case "expired":
+      case "closed":
+      case "archived":
         return "secondary";
+      case "scheduled":
+      case "paused":
       case "draft":
         return "outline";
       default:
@@ -117,20 +276,20 @@ export function PollCard({
             )}
           </div>
           <Badge variant={getStatusBadgeVariant()}>
-            {pollStatus.charAt(0).toUpperCase() + pollStatus.slice(1)}
+            {POLL_STATUS_LABELS[pollStatus]}
           </Badge>
         </div>
 
         <div className="flex items-center gap-4 text-sm text-muted-foreground">
           <div className="flex items-center gap-1">
             <Users className="h-4 w-4" />
-            <span>{poll.totalVotes} votes</span>
+            <span>{resultsHidden ? "Votes hidden" : `${poll.totalVotes} votes`}</span>
           </div>
 
-          {poll.expiresAt && pollStatus === "active" && (
+          {((poll.expiresAt && pollStatus === "open") || pollStatus === "scheduled") && (
             <div className="flex items-center gap-1">
               <Clock className="h-4 w-4" />
-              <span>{getTimeRemaining(poll.expiresAt)}</span>
+              <span>{getTimeRemaining(poll.expiresAt, startsAt)}</span>
             </div>
           )}
 
@@ -139,51 +298,169 @@ export function PollCard({
       </CardHeader>
 
       <CardContent className="space-y-4">
+        {hasVoted && answerFeedback && (
+          <div
+            role="status"
+            className={`flex items-center gap-2 rounded-md border px-3 py-2 text-sm font-medium ${
+              answerFeedback.isCorrect
+                ? "border-green-200 bg-green-50 text-green-800"
+                : "border-red-200 bg-red-50 text-red-800"
+            }`}
+          >
+            {answerFeedback.isCorrect ? (
+              <CheckCircle2 className="h-4 w-4" />
+            ) : (
+              <XCircle className="h-4 w-4" />
+            )}
+            {answerFeedback.isCorrect
+              ? "Correct!"
+              : "Not quite. The correct answer is marked below."}
+          </div>
+        )}
+
         {isVotable && !canShowResults ? (
           // Voting interface
           <div className="space-y-3">
-            {poll.allowMultipleVotes ? (
+            {isSchedule ? (
+              <ScheduleBallot
+                options={poll.options}
+                scores={scores}
+                onScoresChange={setScores}
+              />
+            ) : ratingScale ? (
+              <RatingBallot
+                options={poll.options}
+                scale={ratingScale}
+                scores={scores}
+                onScoresChange={setScores}
+              />
+            ) : isRanked ? (
+              <RankedChoiceBallot
+                options={poll.options}
+                ranking={selectedOptions}
+                onRankingChange={setSelectedOptions}
+              />
+            ) : poll.allowMultipleVotes ? (
               <div className="space-y-2">
                 <p className="text-sm text-muted-foreground">
-                  Select one or more options:
+                  {selectionLimits
+                    ? `Select ${selectionLimits}:`
+                    : "Select one or more options:"}
                 </p>
-                {poll.options.map((option) => (
-                  <div key={option.id} className="flex items-center space-x-2">
+                <div className={hasOptionImages ? "grid grid-cols-2 gap-3" : "space-y-2"}>
+                  {poll.options.map((option) => (
+                    <div
+                      key={option.id}
+                      className={hasOptionImages ? "space-y-2 rounded-md border p-2" : undefined}
+                    >
+                      {hasOptionImages && <OptionImage option={option} />}
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={option.id}
+                          checked={selectedOptions.includes(option.id)}
+                          onCheckedChange={(checked) =>
+                            handleOptionChange(option.id, checked as boolean)
+                          }
+                          // Once the limit is reached only ticked boxes can change
+                          disabled={isAtMaxSelections && !selectedOptions.includes(option.id)}
+                        />
+                        <Label
+                          htmlFor={option.id}
+                          className="flex-1 cursor-pointer"
+                        >
+                          {option.text}
+                        </Label>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {allowWriteIns && (
+                  <div className="flex items-center space-x-2">
                     <Checkbox
-                      id={option.id}
-                      checked={selectedOptions.includes(option.id)}
-                      onCheckedChange={(checked) =>
-                        handleOptionChange(option.id, checked as boolean)
-                      }
+                      id={`${poll.id}-other`}
+                      checked={isOtherSelected}
+                      onCheckedChange={(checked) => setIsOtherSelected(checked as boolean)}
+                      disabled={isAtMaxSelections && !isOtherSelected}
                     />
-                    <Label
-                      htmlFor={option.id}
-                      className="flex-1 cursor-pointer"
-                    >
-                      {option.text}
+                    <Label htmlFor={`${poll.id}-other`} className="cursor-pointer">
+                      Other (please specify)
                     </Label>
                   </div>
-                ))}
+                )}
               </div>
             ) : (
               <RadioGroup
-                value={selectedOptions[0] || ""}
-                onValueChange={(value) => setSelectedOptions([value])}
+                value={isOtherSelected ? OTHER_CHOICE : selectedOptions[0] || ""}
+                onValueChange={handleSingleChoiceChange}
+                className={hasOptionImages ? "grid-cols-2" : undefined}
               >
                 {poll.options.map((option) => (
-                  <div key={option.id} className="flex items-center space-x-2">
-                    <RadioGroupItem value={option.id} id={option.id} />
-                    <Label
-                      htmlFor={option.id}
-                      className="flex-1 cursor-pointer"
-                    >
-                      {option.text}
-                    </Label>
+                  <div
+                    key={option.id}
+                    className={hasOptionImages ? "space-y-2 rounded-md border p-2" : undefined}
+                  >
+                    {hasOptionImages && <OptionImage option={option} />}
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value={option.id} id={option.id} />
+                      <Label
+                        htmlFor={option.id}
+                        className="flex-1 cursor-pointer"
+                      >
+                        {option.text}
+                      </Label>
+                    </div>
                   </div>
                 ))}
+                {allowWriteIns && (
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value={OTHER_CHOICE} id={`${poll.id}-other`} />
+                    <Label htmlFor={`${poll.id}-other`} className="cursor-pointer">
+                      Other (please specify)
+                    </Label>
+                  </div>
+                )}
               </RadioGroup>
             )}
+            {allowWriteIns && isOtherSelected && (
+              <Input
+                value={writeIn}
+                onChange={(event) => setWriteIn(event.target.value)}
+                maxLength={WRITE_IN_MAX_LENGTH}
+                placeholder="Your answer"
+                aria-label="Your answer for Other"
+                autoFocus
+              />
+            )}
           </div>
+        ) : resultsHidden ? (
+          <ul className="space-y-2 text-sm">
+            {poll.options.map((option) => (
+              <li key={option.id} className="flex items-center gap-2">
+                <span>{option.text}</span>
+                {userVotes.includes(option.id) && <Badge variant="secondary">Your vote</Badge>}
+              </li>
+            ))}
+          </ul>
+        ) : isRanked && instantRunoff ? (
+          <InstantRunoffResults
+            options={poll.options}
+            result={instantRunoff}
+            userRanking={userVotes}
+          />
+        ) : isSchedule && slotAvailability ? (
+          <ScheduleResults
+            pollId={poll.id}
+            options={poll.options}
+            availability={slotAvailability}
+            userScores={userScores}
+          />
+        ) : ratingScale && ratingStats ? (
+          <RatingResults
+            options={poll.options}
+            scale={ratingScale}
+            stats={ratingStats}
+            userScores={userScores}
+          />
         ) : (
           // Results interface
           <div className="space-y-3">
@@ -193,17 +470,25 @@ export function PollCard({
                 poll.totalVotes
               );
               const isUserVote = userVotes.includes(option.id);
+              const isCorrectAnswer =
+                hasVoted && !!answerFeedback?.correctOptionIds.includes(option.id);
 
               return (
                 <div key={option.id} className="space-y-2">
-                  <div className="flex justify-between items-center">
+                  <div className="flex justify-between items-center gap-2">
+                    {hasOptionImages && <OptionImage option={option} compact />}
                     <span
-                      className={`text-sm ${isUserVote ? "font-medium" : ""}`}
+                      className={`flex-1 text-sm ${isUserVote ? "font-medium" : ""}`}
                     >
                       {option.text}
                       {isUserVote && (
                         <span className="text-primary ml-1">✓</span>
                       )}
+                      {isCorrectAnswer && (
+                        <span className="ml-2 text-xs font-medium text-green-700">
+                          Correct answer
+                        </span>
+                      )}
                     </span>
                     <span className="text-sm text-muted-foreground">
                       {option.votes} ({percentage}%)
@@ -213,8 +498,43 @@ export function PollCard({
                 </div>
               );
             })}
+            {allowWriteIns && (writeInVotes > 0 || userWriteIn) && (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className={`text-sm ${userWriteIn ? "font-medium" : ""}`}>
+                    Other
+                    {userWriteIn && (
+                      <span className="text-primary ml-1">✓ {userWriteIn}</span>
+                    )}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    {writeInVotes} ({writeInPercentage}%)
+                  </span>
+                </div>
+                <Progress value={writeInPercentage} className="h-2" />
+              </div>
+            )}
           </div>
         )}
+
+        {pollStatus === "scheduled" && startsAt && (
+          <p className="text-xs text-muted-foreground">
+            Voting opens {new Date(startsAt).toLocaleString()}
+          </p>
+        )}
+
+        {resultsHidden && "voteType" in poll && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <EyeOff className="h-3 w-3" />
+            {describeResultsVisibility(poll)}
+          </p>
+        )}
+
+        {voteChangeDeadline && (
+          <p className="text-xs text-muted-foreground">
+            You can change your vote until {voteChangeDeadline.toLocaleString()}
+          </p>
+        )}
       </CardContent>
 
       <CardFooter className="flex justify-between">
@@ -222,10 +542,41 @@ export function PollCard({
           {isVotable && (
             <Button
               onClick={handleVote}
-              disabled={selectedOptions.length === 0 || isVoting}
+              disabled={!hasEnoughSelections || isVoting}
               size="sm"
             >
-              {isVoting ? "Voting..." : "Vote"}
+              {isVoting ? "Voting..." : isChangingVote ? "Update vote" : "Vote"}
+            </Button>
+          )}
+
+          {isChangingVote && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCancelChange}
+              disabled={isVoting}
+            >
+              Cancel
+            </Button>
+          )}
+
+          {canChange && onVote && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setIsChangingVote(true);
+                setHasVoted(false);
+              }}
+              disabled={isVoting}
+            >
+              Change vote
+            </Button>
+          )}
+
+          {canChange && onRetract && (
+            <Button variant="ghost" size="sm" onClick={handleRetract} disabled={isVoting}>
+              Retract vote
             </Button>
           )}
 
@@ -237,10 +588,12 @@ export function PollCard({
           )}
         </div>
 
-        <Button variant="ghost" size="sm" onClick={handleShare}>
-          <Share2 className="h-4 w-4 mr-1" />
-          Share
-        </Button>
+        {showShareButton && (
+          <Button variant="ghost" size="sm" onClick={handleShare}>
+            <Share2 className="h-4 w-4 mr-1" />
+            Share
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
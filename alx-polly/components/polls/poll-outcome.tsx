@@ -0,0 +1,97 @@
+import { Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DeclaredOutcome } from "@/types";
+
+interface PollOutcomeSummaryProps {
+  outcome: DeclaredOutcome;
+  options: { id: string; text: string }[];
+  onPickWinner?: (optionId: string) => void; // Offered on ties left to the owner
+  isResolving?: boolean;
+}
+
+function joinOptionNames(optionIds: string[], options: { id: string; text: string }[]): string {
+  const names = optionIds.map(
+    (optionId) => options.find((option) => option.id === optionId)?.text ?? "a removed option"
+  );
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names[0] ?? "";
+}
+
+/**
+ * The result declared when the poll closed
+ *
+ * Ties show the tied options; when the owner decides, they can pick the winner from here.
+ */
+export function PollOutcomeSummary({
+  outcome,
+  options,
+  onPickWinner,
+  isResolving = false,
+}: PollOutcomeSummaryProps) {
+  const tiedNames = joinOptionNames(outcome.tiedOptionIds, options);
+
+  return (
+    <div className="space-y-2 text-sm">
+      {outcome.status === "decided" && (
+        <p className="flex items-center gap-2 font-medium">
+          <Trophy className="h-4 w-4 text-yellow-500" />
+          {outcome.winnerOptionIds.length > 1 ? "Winners" : "Winner"}:{" "}
+          {joinOptionNames(outcome.winnerOptionIds, options)}
+        </p>
+      )}
+      {outcome.status === "decided" && outcome.tieResolution && (
+        <p className="text-muted-foreground">
+          Tie between {tiedNames},{" "}
+          {outcome.tieResolution === "random"
+            ? "drawn at random"
+            : "decided by the poll creator"}
+          .
+        </p>
+      )}
+      {outcome.status === "tied" && (
+        <p className="font-medium">
+          Tie between {tiedNames}, waiting for the poll creator to pick the winner.
+        </p>
+      )}
+      {outcome.status === "extended" && (
+        <p className="font-medium">
+          Tie between {tiedNames}, so voting was extended to break it.
+        </p>
+      )}
+      {outcome.status === "no_quorum" && (
+        <p className="font-medium">
+          No result: only {outcome.totalVotes} of the {outcome.quorum} votes needed were cast.
+        </p>
+      )}
+      {outcome.status === "no_votes" && (
+        <p className="font-medium">No result: nobody voted.</p>
+      )}
+
+      {!!outcome.quorum && outcome.quorumMet && (
+        <p className="text-muted-foreground">
+          Quorum met: {outcome.totalVotes} votes cast, {outcome.quorum} needed.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Declared {outcome.decidedAt.toLocaleString()}
+      </p>
+
+      {outcome.status === "tied" && onPickWinner && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          {outcome.tiedOptionIds.map((optionId) => (
+            <Button
+              key={optionId}
+              variant="outline"
+              size="sm"
+              onClick={() => onPickWinner(optionId)}
+              disabled={isResolving}
+            >
+              Declare {joinOptionNames([optionId], options)}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getPollPosterPath } from "@/utils/poster-utils";
+import { FileText, Printer } from "lucide-react";
+
+interface PollPosterMenuProps {
+  pollId: string;
+}
+
+export function PollPosterMenu({ pollId }: PollPosterMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Printer className="h-4 w-4 mr-2" />
+          Poster
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem asChild>
+          <a href={getPollPosterPath(pollId, "a4")} target="_blank" rel="noopener noreferrer">
+            <FileText className="mr-2 h-4 w-4" />
+            A4 PDF
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={getPollPosterPath(pollId, "letter")} target="_blank" rel="noopener noreferrer">
+            <FileText className="mr-2 h-4 w-4" />
+            US Letter PDF
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
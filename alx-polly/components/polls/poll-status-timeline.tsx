@@ -0,0 +1,37 @@
+import { PollStatusChange } from "@/types";
+import { POLL_STATUS_LABELS } from "@/utils/poll-utils";
+
+interface PollStatusTimelineProps {
+  changes: PollStatusChange[];
+}
+
+/**
+ * A poll's status changes, oldest first
+ *
+ * Changes without an author were made by the schedule sweeper or a vote opening the poll.
+ */
+export function PollStatusTimeline({ changes }: PollStatusTimelineProps) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border-l pl-4 text-sm">
+      {changes.map((change, index) => (
+        <li key={`${change.changedAt.getTime()}-${index}`} className="relative">
+          <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+          <span className="font-medium">
+            {change.fromStatus
+              ? `${POLL_STATUS_LABELS[change.fromStatus]} → ${POLL_STATUS_LABELS[change.toStatus]}`
+              : `Created as ${POLL_STATUS_LABELS[change.toStatus].toLowerCase()}`}
+          </span>
+          <span className="text-muted-foreground">
+            {" "}
+            · {change.changedAt.toLocaleString()}
+            {!change.changedBy && change.fromStatus && " · automatic"}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -12,15 +12,24 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Poll, PollStatus } from "@/types";
-import { filterPollsByStatus, sortPollsByDate } from "@/utils/poll-utils";
+import { Poll, PollStatus, ScoreBallot } from "@/types";
+import {
+  POLL_STATUSES,
+  POLL_STATUS_LABELS,
+  filterPollsByStatus,
+  sortPollsByDate,
+} from "@/utils/poll-utils";
 import { Search, Filter, Plus } from "lucide-react";
 import Link from "next/link";
 
 interface PollsListProps {
   polls: Poll[];
-  onVote?: (pollId: string, optionIds: string[]) => Promise<void>;
-  currentUserId?: string;
+  onVote?: (
+    pollId: string,
+    optionIds: string[],
+    scores?: ScoreBallot,
+    writeIn?: string
+  ) => Promise<void>;
   userVotes?: Record<string, string[]>; // pollId -> optionIds
   showCreateButton?: boolean;
   isLoading?: boolean;
@@ -29,7 +38,6 @@ interface PollsListProps {
 export function PollsList({
   polls,
   onVote,
-  currentUserId,
   userVotes = {},
   showCreateButton = true,
   isLoading = false,
@@ -78,11 +86,11 @@ export function PollsList({
   }, [polls, searchTerm, statusFilter, sortBy]);
 
   const getStatusCounts = () => {
-    const active = filterPollsByStatus(polls, "active").length;
-    const expired = filterPollsByStatus(polls, "expired").length;
-    const draft = filterPollsByStatus(polls, "draft").length;
+    const counts = Object.fromEntries(
+      POLL_STATUSES.map((status) => [status, filterPollsByStatus(polls, status).length])
+    ) as Record<PollStatus, number>;
 
-    return { active, expired, draft, total: polls.length };
+    return { ...counts, total: polls.length };
   };
 
   const statusCounts = getStatusCounts();
@@ -137,15 +145,15 @@ export function PollsList({
 
       {/* Status Overview */}
       <div className="flex gap-4">
-        <Badge variant="default" className="px-3 py-1">
-          Active: {statusCounts.active}
-        </Badge>
-        <Badge variant="secondary" className="px-3 py-1">
-          Expired: {statusCounts.expired}
-        </Badge>
-        <Badge variant="outline" className="px-3 py-1">
-          Draft: {statusCounts.draft}
-        </Badge>
+        {POLL_STATUSES.map((status) => (
+          <Badge
+            key={status}
+            variant={status === "open" ? "default" : status === "closed" ? "secondary" : "outline"}
+            className="px-3 py-1"
+          >
+            {POLL_STATUS_LABELS[status]}: {statusCounts[status]}
+          </Badge>
+        ))}
       </div>
 
       {/* Filters and Search */}
@@ -170,9 +178,11 @@ export function PollsList({
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="active">Active</SelectItem>
-            <SelectItem value="expired">Expired</SelectItem>
-            <SelectItem value="draft">Draft</SelectItem>
+            {POLL_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {POLL_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
@@ -215,7 +225,6 @@ export function PollsList({
               key={poll.id}
               poll={poll}
               onVote={onVote}
-              currentUserId={currentUserId}
               userVotes={userVotes[poll.id] || []}
             />
           ))
@@ -0,0 +1,64 @@
+"use client";
+
+import { PollOption } from "@/types";
+import { calculateVotePercentage } from "@/utils/poll-utils";
+import { cn } from "@/lib/utils";
+import { EyeOff } from "lucide-react";
+
+interface PresenterResultsProps {
+  options: PollOption[];
+  totalVotes: number;
+  hidden?: boolean;
+}
+
+/**
+ * Large horizontal bar chart of poll results, sized for a projector
+ */
+export function PresenterResults({
+  options,
+  totalVotes,
+  hidden = false,
+}: PresenterResultsProps) {
+  if (hidden) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-4 text-muted-foreground">
+        <EyeOff className="h-16 w-16" />
+        <p className="text-3xl font-medium">Results are hidden</p>
+        <p className="text-xl">Scan the code and cast your vote</p>
+      </div>
+    );
+  }
+
+  const leadingVotes = Math.max(0, ...options.map((option) => option.votes));
+
+  return (
+    <div className="flex h-full flex-col justify-center gap-6">
+      {options.map((option) => {
+        const percentage = calculateVotePercentage(option, totalVotes);
+        const isLeading = leadingVotes > 0 && option.votes === leadingVotes;
+
+        return (
+          <div key={option.id} className="space-y-2">
+            <div className="flex items-baseline justify-between gap-6 text-2xl xl:text-3xl">
+              <span className={cn("truncate", isLeading && "font-semibold")}>
+                {option.text}
+              </span>
+              <span className="shrink-0 tabular-nums text-muted-foreground">
+                {option.votes} · {percentage}%
+              </span>
+            </div>
+            <div className="h-8 w-full overflow-hidden rounded-full bg-primary/15 xl:h-10">
+              <div
+                className={cn(
+                  "h-full rounded-full transition-[width] duration-700 ease-out",
+                  isLeading ? "bg-primary" : "bg-primary/60"
+                )}
+                style={{ width: `${percentage}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,485 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api-client";
+import { PollQRCode } from "@/types/database";
+import { generatePollUrl } from "@/utils/poll-utils";
+import {
+  DEFAULT_QR_CODE_OPTIONS,
+  addLogoToQRCodeSvg,
+  getPollQRCodePath,
+  withSourceTag,
+} from "@/utils/qr-utils";
+import { toast } from "sonner";
+import { Download, ImagePlus, Plus, Printer, Trash2, X } from "lucide-react";
+
+const SIZE_CHOICES = [256, 512, 1024];
+const MAX_LOGO_BYTES = 512 * 1024;
+const UNTRACKED = "untracked";
+
+interface QRCodeDialogProps {
+  pollId: string;
+  pollTitle: string;
+  pollSlug?: string | null;
+  isOwner?: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toSvgDataUrl = (svg: string) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const toFileName = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50) || "poll";
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const svgToPngBlob = (svg: string, size: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = size;
+      canvas.height = size;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+      context.drawImage(image, 0, 0, size, size);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to create PNG"))
+      );
+    };
+    image.onerror = () => reject(new Error("Failed to render QR code"));
+    image.src = toSvgDataUrl(svg);
+  });
+
+export function QRCodeDialog({
+  pollId,
+  pollTitle,
+  pollSlug,
+  isOwner = false,
+  open,
+  onOpenChange,
+}: QRCodeDialogProps) {
+  const [size, setSize] = useState(512);
+  const [darkColor, setDarkColor] = useState(DEFAULT_QR_CODE_OPTIONS.darkColor);
+  const [lightColor, setLightColor] = useState(
+    DEFAULT_QR_CODE_OPTIONS.lightColor
+  );
+  const [logo, setLogo] = useState<string | null>(null);
+  const [svg, setSvg] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [qrCodes, setQRCodes] = useState<PollQRCode[]>([]);
+  const [source, setSource] = useState<string | null>(null);
+  const [newCodeName, setNewCodeName] = useState("");
+  const [isSavingCode, setIsSavingCode] = useState(false);
+
+  // A center logo hides part of the code, so it needs the highest error correction
+  const errorCorrectionLevel = logo ? "H" : "M";
+
+  // Named, source-tagged codes are only managed by the poll owner
+  useEffect(() => {
+    if (!open || !isOwner) return;
+
+    let cancelled = false;
+    api
+      .get<{ data: PollQRCode[] }>(`/api/polls/${pollId}/qr-codes`)
+      .then((response) => {
+        if (!cancelled) setQRCodes(response.data);
+      })
+      .catch((err) => console.error("Failed to load QR codes:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isOwner, pollId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    // Debounce so dragging a color picker doesn't fire a request per pixel
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(
+          getPollQRCodePath(pollId, {
+            format: "svg",
+            size,
+            errorCorrectionLevel,
+            darkColor,
+            lightColor,
+          }, source)
+        );
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || "Failed to load QR code");
+        }
+        const markup = await response.text();
+        if (!cancelled) setSvg(markup);
+      } catch (err) {
+        if (!cancelled) {
+          toast.error(
+            err instanceof Error ? err.message : "Failed to load QR code"
+          );
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, pollId, size, errorCorrectionLevel, darkColor, lightColor, source]);
+
+  const brandedSvg = useMemo(
+    () => (svg && logo ? addLogoToQRCodeSvg(svg, logo, lightColor) : svg),
+    [svg, logo, lightColor]
+  );
+
+  const fileName = `${toFileName(pollTitle)}-qr${source ? `-${source}` : ""}`;
+
+  const handleCreateCode = async () => {
+    try {
+      setIsSavingCode(true);
+      const response = await api.post<{ data: PollQRCode }>(
+        `/api/polls/${pollId}/qr-codes`,
+        { name: newCodeName }
+      );
+      setQRCodes((codes) => [...codes, response.data]);
+      setSource(response.data.source);
+      setNewCodeName("");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create QR code");
+    } finally {
+      setIsSavingCode(false);
+    }
+  };
+
+  const handleDeleteCode = async () => {
+    const code = qrCodes.find((qrCode) => qrCode.source === source);
+    if (!code) return;
+
+    try {
+      await api.delete(`/api/polls/${pollId}/qr-codes/${code.id}`);
+      setQRCodes((codes) => codes.filter((qrCode) => qrCode.id !== code.id));
+      setSource(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete QR code");
+    }
+  };
+
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Logo must be an image");
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error("Logo must be smaller than 512 KB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setLogo(reader.result as string);
+    reader.onerror = () => toast.error("Failed to read logo");
+    reader.readAsDataURL(file);
+  };
+
+  const handleDownloadSvg = () => {
+    downloadBlob(
+      new Blob([brandedSvg], { type: "image/svg+xml" }),
+      `${fileName}.svg`
+    );
+  };
+
+  const handleDownloadPng = async () => {
+    try {
+      const blob = await svgToPngBlob(brandedSvg, size);
+      downloadBlob(blob, `${fileName}.png`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create PNG");
+    }
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      toast.error("Allow pop-ups to print the QR code");
+      return;
+    }
+
+    const pollUrl = withSourceTag(
+      generatePollUrl({ id: pollId, slug: pollSlug }),
+      source
+    );
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <title>${escapeHtml(pollTitle)}</title>
+    <style>
+      @page { size: auto; margin: 2cm; }
+      body { font-family: system-ui, sans-serif; text-align: center; color: #111827; }
+      h1 { font-size: 28pt; margin: 0 0 1cm; }
+      img { width: 12cm; height: 12cm; }
+      .cta { font-size: 18pt; font-weight: 600; margin: 1cm 0 0.3cm; }
+      .url { font-size: 12pt; color: #4b5563; word-break: break-all; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(pollTitle)}</h1>
+    <img src="${toSvgDataUrl(brandedSvg)}" alt="QR code" />
+    <p class="cta">Scan to vote</p>
+    <p class="url">${escapeHtml(pollUrl)}</p>
+  </body>
+</html>`);
+    printWindow.document.close();
+    printWindow.onload = () => {
+      printWindow.focus();
+      printWindow.print();
+    };
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Share with QR Code</DialogTitle>
+          <DialogDescription>
+            Customize, download or print a QR code that opens this poll.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 sm:grid-cols-2">
+          {/* Preview */}
+          <div
+            className="flex aspect-square items-center justify-center rounded-lg border p-2"
+            style={{ backgroundColor: lightColor }}
+          >
+            {brandedSvg && !isLoading ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={toSvgDataUrl(brandedSvg)}
+                alt={`QR code for ${pollTitle}`}
+                className="h-full w-full"
+              />
+            ) : (
+              <div className="h-full w-full rounded bg-gray-100 animate-pulse" />
+            )}
+          </div>
+
+          {/* Options */}
+          <div className="space-y-4">
+            {isOwner && (
+              <div className="space-y-2">
+                <Label>Placement</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={source ?? UNTRACKED}
+                    onValueChange={(value) =>
+                      setSource(value === UNTRACKED ? null : value)
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNTRACKED}>Untracked</SelectItem>
+                      {qrCodes.map((code) => (
+                        <SelectItem key={code.id} value={code.source}>
+                          {code.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {source && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={handleDeleteCode}
+                      aria-label="Delete QR code"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="e.g. Lobby poster"
+                    value={newCodeName}
+                    maxLength={100}
+                    onChange={(e) => setNewCodeName(e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={handleCreateCode}
+                    disabled={!newCodeName.trim() || isSavingCode}
+                    aria-label="Add QR code"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Scans and votes from each named code are tracked separately.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <Select
+                value={String(size)}
+                onValueChange={(value) => setSize(Number(value))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SIZE_CHOICES.map((choice) => (
+                    <SelectItem key={choice} value={String(choice)}>
+                      {choice} × {choice} px
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="qr-dark-color">Foreground</Label>
+                <Input
+                  id="qr-dark-color"
+                  type="color"
+                  className="h-9 p-1"
+                  value={darkColor}
+                  onChange={(e) => setDarkColor(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="qr-light-color">Background</Label>
+                <Input
+                  id="qr-light-color"
+                  type="color"
+                  className="h-9 p-1"
+                  value={lightColor}
+                  onChange={(e) => setLightColor(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="qr-logo">Center logo (optional)</Label>
+              {logo ? (
+                <div className="flex items-center gap-2">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={logo} alt="Logo" className="h-9 w-9 rounded border object-contain" />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLogo(null)}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <Button type="button" variant="outline" size="sm" asChild>
+                  <label htmlFor="qr-logo" className="cursor-pointer">
+                    <ImagePlus className="h-4 w-4 mr-1" />
+                    Upload logo
+                  </label>
+                </Button>
+              )}
+              <input
+                id="qr-logo"
+                type="file"
+                accept="image/png,image/jpeg,image/svg+xml"
+                className="hidden"
+                onChange={handleLogoChange}
+              />
+              {logo && (
+                <p className="text-xs text-muted-foreground">
+                  High error correction is used so the code still scans with
+                  the logo in place.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handlePrint}
+            disabled={!brandedSvg || isLoading}
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleDownloadSvg}
+            disabled={!brandedSvg || isLoading}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            SVG
+          </Button>
+          <Button
+            onClick={handleDownloadPng}
+            disabled={!brandedSvg || isLoading}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            PNG
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { api } from "@/lib/api-client";
+import { QRSourceStats } from "@/types";
+
+interface QRSourceStatsCardProps {
+  pollId: string;
+}
+
+export function QRSourceStatsCard({ pollId }: QRSourceStatsCardProps) {
+  const [sourceStats, setSourceStats] = useState<QRSourceStats[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api
+      .get<{ data: { sourceStats?: QRSourceStats[] } }>(
+        `/api/polls/${pollId}/statistics`
+      )
+      .then((response) => {
+        if (!cancelled) setSourceStats(response.data.sourceStats ?? []);
+      })
+      .catch((err) => console.error("Failed to load source statistics:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pollId]);
+
+  if (!sourceStats || sourceStats.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">QR Code Performance</CardTitle>
+        <CardDescription>
+          Scans, votes and conversion rate for each placement
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 font-medium">Source</th>
+              <th className="py-2 text-right font-medium">Scans</th>
+              <th className="py-2 text-right font-medium">Votes</th>
+              <th className="py-2 text-right font-medium">Conversion</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sourceStats.map((stats) => (
+              <tr key={stats.source ?? "direct"} className="border-b last:border-0">
+                <td className="py-2">{stats.name}</td>
+                <td className="py-2 text-right">{stats.scans}</td>
+                <td className="py-2 text-right">{stats.votes}</td>
+                <td className="py-2 text-right">{stats.conversionRate}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { optionalAuthApi } from "@/lib/api-client";
+import { QuizLeaderboardEntry } from "@/types";
+
+interface QuizLeaderboardProps {
+  quizId: string;
+  questionCount: number;
+}
+
+// Time behind the first answers, e.g. "+1m 05s"
+function formatTimeBehind(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `+${seconds}s`;
+  return `+${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+/**
+ * Quiz participants ranked by correct answers, ties broken by answer speed
+ */
+export function QuizLeaderboard({ quizId, questionCount }: QuizLeaderboardProps) {
+  const [entries, setEntries] = useState<QuizLeaderboardEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Guests are matched to their entry by the voter cookie
+    optionalAuthApi
+      .get<{ data: QuizLeaderboardEntry[] }>(`/api/quizzes/${quizId}/leaderboard`)
+      .then((response) => {
+        if (!cancelled) setEntries(response.data);
+      })
+      .catch((err) => console.error("Failed to load leaderboard:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quizId]);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Leaderboard</CardTitle>
+        <CardDescription>
+          Ranked by correct answers, then by how soon after the first answer to each
+          question they came in
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!entries ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No answers yet.</p>
+        ) : (
+          <ol className="divide-y text-sm">
+            {entries.map((entry) => (
+              <li
+                key={entry.participantId}
+                className={`flex items-center gap-4 py-2 ${
+                  entry.isViewer ? "font-medium" : ""
+                }`}
+              >
+                <span className="w-6 text-right text-muted-foreground">{entry.rank}</span>
+                <span className="flex-1 min-w-0 truncate">
+                  {entry.name ?? "Anonymous"}
+                  {entry.isViewer && (
+                    <Badge variant="secondary" className="ml-2">
+                      You
+                    </Badge>
+                  )}
+                </span>
+                <span>
+                  {entry.score}/{questionCount}
+                </span>
+                <span className="w-20 text-right text-muted-foreground">
+                  {entry.score > 0 ? formatTimeBehind(entry.answerTimeMs) : "–"}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { PollOption } from "@/types";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, GripVertical, Plus, X } from "lucide-react";
+
+interface RankedChoiceBallotProps {
+  options: PollOption[];
+  ranking: string[]; // Option IDs, most preferred first
+  onRankingChange: (ranking: string[]) => void;
+}
+
+/**
+ * Ballot for ranked polls
+ *
+ * Voters drag options into their order of preference, or use the buttons to do the
+ * same from the keyboard. Options left out of the ranking are simply not preferred.
+ */
+export function RankedChoiceBallot({
+  options,
+  ranking,
+  onRankingChange,
+}: RankedChoiceBallotProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const optionText = new Map(options.map((option) => [option.id, option.text]));
+  const unranked = options.filter((option) => !ranking.includes(option.id));
+
+  // Place an option at a position in the ranking, moving it if it is already ranked
+  const rankAt = (optionId: string, index: number) => {
+    const rest = ranking.filter((id) => id !== optionId);
+    const position = Math.min(index, rest.length);
+    onRankingChange([...rest.slice(0, position), optionId, ...rest.slice(position)]);
+  };
+
+  const unrank = (optionId: string) => {
+    onRankingChange(ranking.filter((id) => id !== optionId));
+  };
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (draggedId) rankAt(draggedId, index);
+    setDraggedId(null);
+  };
+
+  const handleUnrankDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    if (draggedId) unrank(draggedId);
+    setDraggedId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Drag options into your order of preference. You don&apos;t have to rank
+        them all.
+      </p>
+
+      <ol
+        className="space-y-2 rounded-md border border-dashed p-2 min-h-12"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => handleDrop(event, ranking.length)}
+      >
+        {ranking.length === 0 && (
+          <li className="py-2 text-center text-sm text-muted-foreground">
+            Drop your first choice here
+          </li>
+        )}
+        {ranking.map((optionId, index) => (
+          <li
+            key={optionId}
+            draggable
+            onDragStart={() => setDraggedId(optionId)}
+            onDragEnd={() => setDraggedId(null)}
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={(event) => handleDrop(event, index)}
+            className={cn(
+              "flex items-center gap-2 rounded-md border bg-background px-2 py-1.5 text-sm cursor-grab",
+              draggedId === optionId && "opacity-50"
+            )}
+          >
+            <GripVertical className="h-4 w-4 text-muted-foreground" />
+            <span className="w-6 font-medium text-primary">{index + 1}.</span>
+            <span className="flex-1">{optionText.get(optionId)}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={index === 0}
+              onClick={() => rankAt(optionId, index - 1)}
+              aria-label={`Move ${optionText.get(optionId)} up`}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              disabled={index === ranking.length - 1}
+              onClick={() => rankAt(optionId, index + 1)}
+              aria-label={`Move ${optionText.get(optionId)} down`}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => unrank(optionId)}
+              aria-label={`Remove ${optionText.get(optionId)} from your ranking`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+
+      {unranked.length > 0 && (
+        <div
+          className="space-y-2"
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={handleUnrankDrop}
+        >
+          <p className="text-xs font-medium uppercase text-muted-foreground">
+            Not ranked
+          </p>
+          {unranked.map((option) => (
+            <div
+              key={option.id}
+              draggable
+              onDragStart={() => setDraggedId(option.id)}
+              onDragEnd={() => setDraggedId(null)}
+              className="flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm text-muted-foreground cursor-grab"
+            >
+              <GripVertical className="h-4 w-4" />
+              <span className="flex-1">{option.text}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => rankAt(option.id, ranking.length)}
+                aria-label={`Rank ${option.text}`}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { PollOption, RatingScale, ScoreBallot } from "@/types";
+import { cn } from "@/lib/utils";
+import { isStarScale } from "@/utils/poll-utils";
+import { Star } from "lucide-react";
+
+interface RatingBallotProps {
+  options: PollOption[];
+  scale: RatingScale;
+  scores: ScoreBallot;
+  onScoresChange: (scores: ScoreBallot) => void;
+}
+
+/**
+ * Ballot for rating polls
+ *
+ * Every option gets a score on the poll's scale, shown as stars for 1-5 and as
+ * numbered buttons otherwise.
+ */
+export function RatingBallot({
+  options,
+  scale,
+  scores,
+  onScoresChange,
+}: RatingBallotProps) {
+  const stars = isStarScale(scale);
+  const values = Array.from(
+    { length: scale.max - scale.min + 1 },
+    (_, index) => scale.min + index
+  );
+
+  const rate = (optionId: string, score: number) => {
+    onScoresChange({ ...scores, [optionId]: score });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Rate every option from {scale.min} to {scale.max}:
+      </p>
+
+      {options.map((option) => {
+        const score = scores[option.id];
+
+        return (
+          <div key={option.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span>{option.text}</span>
+              {score !== undefined && (
+                <span className="text-muted-foreground">{score}</span>
+              )}
+            </div>
+            <div
+              role="radiogroup"
+              aria-label={`Rate ${option.text}`}
+              className="flex flex-wrap gap-1"
+            >
+              {values.map((value) =>
+                stars ? (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={score === value}
+                    aria-label={`${value} ${value === 1 ? "star" : "stars"}`}
+                    onClick={() => rate(option.id, value)}
+                    className="rounded-sm p-0.5 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  >
+                    <Star
+                      className={cn(
+                        "h-5 w-5 text-muted-foreground",
+                        score !== undefined && value <= score && "fill-primary text-primary"
+                      )}
+                    />
+                  </button>
+                ) : (
+                  <Button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={score === value}
+                    variant={score === value ? "default" : "outline"}
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => rate(option.id, value)}
+                  >
+                    {value}
+                  </Button>
+                )
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
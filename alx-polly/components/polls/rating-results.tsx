@@ -0,0 +1,81 @@
+"use client";
+
+import { OptionRatingStats, PollOption, RatingScale, ScoreBallot } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface RatingResultsProps {
+  options: PollOption[];
+  scale: RatingScale;
+  stats: OptionRatingStats[];
+  userScores?: ScoreBallot | null; // The viewer's ballot, if they voted
+}
+
+/**
+ * Average, median, raters and score distribution for each option of a rating poll
+ */
+export function RatingResults({
+  options,
+  scale,
+  stats,
+  userScores,
+}: RatingResultsProps) {
+  const statsByOption = new Map(stats.map((optionStats) => [optionStats.optionId, optionStats]));
+
+  return (
+    <div className="space-y-5">
+      {options.map((option) => {
+        const optionStats = statsByOption.get(option.id);
+        if (!optionStats) return null;
+
+        const { raters, average, median, distribution } = optionStats;
+        const busiest = Math.max(...distribution, 1);
+        const userScore = userScores?.[option.id];
+
+        return (
+          <div key={option.id} className="space-y-2">
+            <div className="flex justify-between items-baseline gap-2 text-sm">
+              <span className={cn(userScore !== undefined && "font-medium")}>
+                {option.text}
+                {userScore !== undefined && (
+                  <span className="text-primary ml-1">({userScore})</span>
+                )}
+              </span>
+              <span className="text-muted-foreground">
+                {average === null ? "No ratings" : `${average.toFixed(1)} avg`}
+              </span>
+            </div>
+
+            <div className="flex h-12 items-end gap-1" aria-hidden>
+              {distribution.map((count, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "flex-1 rounded-t-sm bg-primary/20",
+                    count > 0 && "bg-primary",
+                    userScore === scale.min + index && "ring-2 ring-primary ring-offset-1"
+                  )}
+                  style={{ height: `${Math.max((count / busiest) * 100, 4)}%` }}
+                  title={`${scale.min + index}: ${count}`}
+                />
+              ))}
+            </div>
+            <div className="flex gap-1 text-[10px] text-muted-foreground">
+              {distribution.map((_, index) => (
+                <span key={index} className="flex-1 text-center">
+                  {scale.min + index}
+                </span>
+              ))}
+            </div>
+
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span>Median: {median ?? "–"}</span>
+              <span>
+                {raters} {raters === 1 ? "rater" : "raters"}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { PollOption, ScoreBallot } from "@/types";
+import {
+  AVAILABILITIES,
+  AVAILABILITY_LABELS,
+  AVAILABILITY_SCORES,
+  getLocalTimeZone,
+  getSlotLabel,
+  toAvailability,
+} from "@/utils/schedule-utils";
+
+interface ScheduleBallotProps {
+  options: PollOption[];
+  scores: ScoreBallot;
+  onScoresChange: (scores: ScoreBallot) => void;
+}
+
+/**
+ * Availability grid for scheduling polls
+ *
+ * Every slot is marked yes, if need be or no, and slots are shown in the voter's own
+ * time zone.
+ */
+export function ScheduleBallot({ options, scores, onScoresChange }: ScheduleBallotProps) {
+  const mark = (optionId: string, score: number) => {
+    onScoresChange({ ...scores, [optionId]: score });
+  };
+
+  const markAll = (score: number) => {
+    onScoresChange(Object.fromEntries(options.map((option) => [option.id, score])));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Mark when you can make it. Times are in your time zone ({getLocalTimeZone()}).
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => markAll(AVAILABILITY_SCORES.yes)}
+        >
+          All yes
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="py-1 pr-2 font-normal">Time</th>
+              {AVAILABILITIES.map((availability) => (
+                <th key={availability} className="px-1 py-1 text-center font-normal">
+                  {AVAILABILITY_LABELS[availability]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {options.map((option) => {
+              const label = getSlotLabel(option);
+              const answer = toAvailability(scores[option.id]);
+
+              return (
+                <tr key={option.id} role="radiogroup" aria-label={label} className="border-t">
+                  <td className="py-2 pr-2">{label}</td>
+                  {AVAILABILITIES.map((availability) => (
+                    <td key={availability} className="px-1 py-2 text-center">
+                      <Button
+                        type="button"
+                        role="radio"
+                        aria-checked={answer === availability}
+                        aria-label={AVAILABILITY_LABELS[availability]}
+                        variant={answer === availability ? "default" : "outline"}
+                        size="sm"
+                        className="h-8 w-full min-w-16"
+                        onClick={() => mark(option.id, AVAILABILITY_SCORES[availability])}
+                      >
+                        {availability === "yes" ? "✓" : availability === "no" ? "✕" : "?"}
+                      </Button>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
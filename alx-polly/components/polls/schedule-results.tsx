@@ -0,0 +1,96 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { PollOption, ScoreBallot, SlotAvailability } from "@/types";
+import { cn } from "@/lib/utils";
+import {
+  AVAILABILITY_LABELS,
+  findBestSlot,
+  getLocalTimeZone,
+  getSlotLabel,
+  toAvailability,
+} from "@/utils/schedule-utils";
+import { CalendarPlus } from "lucide-react";
+
+interface ScheduleResultsProps {
+  pollId: string;
+  options: PollOption[];
+  availability: SlotAvailability[];
+  userScores?: ScoreBallot | null; // The viewer's ballot, if they voted
+}
+
+/**
+ * Who can make each slot of a scheduling poll, with the best slot highlighted
+ *
+ * The best slot can be downloaded as a calendar file.
+ */
+export function ScheduleResults({
+  pollId,
+  options,
+  availability,
+  userScores,
+}: ScheduleResultsProps) {
+  const availabilityByOption = new Map(availability.map((slot) => [slot.optionId, slot]));
+  const bestSlotId = findBestSlot(availability);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Times are in your time zone ({getLocalTimeZone()}).
+      </p>
+
+      {options.map((option) => {
+        const slot = availabilityByOption.get(option.id);
+        if (!slot) return null;
+
+        const answers = slot.yes + slot.ifNeedBe + slot.no;
+        const isBest = option.id === bestSlotId;
+        const userAnswer = toAvailability(userScores?.[option.id]);
+
+        return (
+          <div
+            key={option.id}
+            className={cn("space-y-2 rounded-md p-2", isBest && "bg-primary/10 ring-1 ring-primary")}
+          >
+            <div className="flex justify-between items-baseline gap-2 text-sm">
+              <span className={cn(isBest && "font-medium")}>
+                {getSlotLabel(option)}
+                {userAnswer && (
+                  <span className="text-primary ml-1">({AVAILABILITY_LABELS[userAnswer]})</span>
+                )}
+              </span>
+              {isBest && <span className="text-xs font-medium text-primary">Best time</span>}
+            </div>
+
+            <div className="flex h-2 overflow-hidden rounded-full bg-muted" aria-hidden>
+              {answers > 0 && (
+                <>
+                  <div className="bg-primary" style={{ width: `${(slot.yes / answers) * 100}%` }} />
+                  <div
+                    className="bg-primary/40"
+                    style={{ width: `${(slot.ifNeedBe / answers) * 100}%` }}
+                  />
+                </>
+              )}
+            </div>
+
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span>{AVAILABILITY_LABELS.yes}: {slot.yes}</span>
+              <span>{AVAILABILITY_LABELS.if_need_be}: {slot.ifNeedBe}</span>
+              <span>{AVAILABILITY_LABELS.no}: {slot.no}</span>
+            </div>
+          </div>
+        );
+      })}
+
+      {bestSlotId && (
+        <Button asChild variant="outline" size="sm">
+          <a href={`/api/polls/${pollId}/ics?optionId=${bestSlotId}`} download>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Add to calendar
+          </a>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { PollCard } from "@/components/polls/poll-card";
+import { api } from "@/lib/api-client";
+import { SurveyFunnel } from "@/types";
+import { SurveyWithQuestions } from "@/types/database";
+import { getPollPath, toPoll } from "@/utils/poll-utils";
+
+interface SurveyResultsProps {
+  surveyId: string;
+}
+
+/**
+ * Owner view of a survey: how many respondents finished, where the others stopped,
+ * and the results of each question
+ */
+export function SurveyResults({ surveyId }: SurveyResultsProps) {
+  const [results, setResults] = useState<{
+    survey: SurveyWithQuestions;
+    funnel: SurveyFunnel;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api
+      .get<{ data: { survey: SurveyWithQuestions; funnel: SurveyFunnel } }>(
+        `/api/surveys/${surveyId}/results`
+      )
+      .then((response) => {
+        if (!cancelled) setResults(response.data);
+      })
+      .catch((err) => console.error("Failed to load survey results:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [surveyId]);
+
+  if (!results) {
+    return <div className="mt-6 h-48 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  const { survey, funnel } = results;
+  const funnelByPoll = new Map(funnel.questions.map((question) => [question.pollId, question]));
+
+  return (
+    <div className="mt-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Responses</CardTitle>
+          <CardDescription>
+            {funnel.completed} of {funnel.started}{" "}
+            {funnel.started === 1 ? "respondent" : "respondents"} submitted the survey
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>Completion rate</span>
+              <span className="font-medium">{funnel.completionRate}%</span>
+            </div>
+            <Progress value={funnel.completionRate} />
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 font-normal">Question</th>
+                <th className="py-1 font-normal text-right">Answered</th>
+                <th className="py-1 font-normal text-right">Stopped here</th>
+                <th className="py-1 font-normal text-right">Drop-off</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {funnel.questions.map((question) => (
+                <tr key={question.pollId}>
+                  <td className="py-2">Question {question.position}</td>
+                  <td className="py-2 text-right">{question.reached}</td>
+                  <td className="py-2 text-right">{question.droppedOff}</td>
+                  <td className="py-2 text-right">{question.dropOffRate}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground">
+            A respondent stopped at a question when they answered it, went no further and
+            never submitted.
+          </p>
+        </CardContent>
+      </Card>
+
+      {survey.polls.map((question) => (
+        <div key={question.id} className="space-y-2">
+          <div className="flex items-baseline justify-between text-sm">
+            <span className="font-medium">Question {question.survey_position}</span>
+            <Link href={getPollPath(question)} className="text-muted-foreground hover:underline">
+              {funnelByPoll.get(question.id)?.reached ?? 0} answered · Details
+            </Link>
+          </div>
+          <PollCard poll={toPoll(question)} showResults showShareButton={false} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api-client";
+import { WriteInGroup } from "@/types";
+import { toast } from "sonner";
+
+interface WriteInsCardProps {
+  pollId: string;
+  totalVotes: number; // Reloads the write-ins whenever the poll gets new votes
+  onPromoted?: () => void;
+}
+
+/**
+ * Owner view of the "Other" answers, grouped by normalized text
+ *
+ * Promoting a group turns it into a real option and moves its votes over.
+ */
+export function WriteInsCard({ pollId, totalVotes, onPromoted }: WriteInsCardProps) {
+  const [writeIns, setWriteIns] = useState<WriteInGroup[] | null>(null);
+  const [promotingKey, setPromotingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api
+      .get<{ data: { writeIns?: WriteInGroup[] } }>(`/api/polls/${pollId}/statistics`)
+      .then((response) => {
+        if (!cancelled) setWriteIns(response.data.writeIns ?? []);
+      })
+      .catch((err) => console.error("Failed to load write-ins:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pollId, totalVotes]);
+
+  const handlePromote = async (group: WriteInGroup) => {
+    try {
+      setPromotingKey(group.key);
+      await api.post(`/api/polls/${pollId}/write-ins`, { text: group.text });
+      setWriteIns((prev) => prev?.filter((other) => other.key !== group.key) ?? null);
+      toast.success(`"${group.text}" is now an option`);
+      onPromoted?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to promote write-in");
+    } finally {
+      setPromotingKey(null);
+    }
+  };
+
+  if (!writeIns || writeIns.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Write-in Answers</CardTitle>
+        <CardDescription>
+          What voters typed under &quot;Other&quot;, most frequent first
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y text-sm">
+          {writeIns.map((group) => (
+            <li key={group.key} className="flex items-center justify-between gap-4 py-2">
+              <div className="min-w-0">
+                <p className="font-medium break-words">{group.text}</p>
+                {group.variants.length > 1 && (
+                  <p className="text-xs text-muted-foreground break-words">
+                    Also written as{" "}
+                    {group.variants.filter((variant) => variant !== group.text).join(", ")}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-3">
+                <span className="text-muted-foreground">
+                  {group.count} {group.count === 1 ? "vote" : "votes"}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePromote(group)}
+                  disabled={promotingKey !== null}
+                >
+                  {promotingKey === group.key ? "Promoting..." : "Make option"}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ interface ApiRequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   body?: any;
   headers?: Record<string, string>;
+  requireAuth?: boolean; // When false, send the request without a token if logged out
 }
 
 /**
@@ -13,19 +14,23 @@ export async function authenticatedFetch(
   url: string, 
   options: ApiRequestOptions = {}
 ): Promise<Response> {
+  const { method = 'GET', body, headers = {}, requireAuth = true } = options;
+
   // Get the current session
   const { data: { session }, error } = await supabase.auth.getSession();
+  const accessToken = error ? undefined : session?.access_token;
   
-  if (error || !session?.access_token) {
+  if (!accessToken && requireAuth) {
     throw new Error('Authentication required');
   }
 
-  const { method = 'GET', body, headers = {} } = options;
+  // Form data sets its own multipart Content-Type, boundary included
+  const isFormData = body instanceof FormData;
 
   // Prepare headers
   const requestHeaders: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${session.access_token}`,
+    ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+    ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
     ...headers,
   };
 
@@ -37,7 +42,7 @@ export async function authenticatedFetch(
 
   // Add body for non-GET requests
   if (body && method !== 'GET') {
-    requestOptions.body = JSON.stringify(body);
+    requestOptions.body = isFormData ? body : JSON.stringify(body);
   }
 
   return fetch(url, requestOptions);
@@ -54,7 +59,10 @@ export async function authenticatedRequest<T = any>(
   
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    // Layered API routes nest the message as { error: { code, message } }
+    const message =
+      typeof errorData.error === 'string' ? errorData.error : errorData.error?.message;
+    throw new Error(message || `HTTP ${response.status}: ${response.statusText}`);
   }
 
   return response.json();
@@ -79,3 +87,18 @@ export const api = {
   delete: <T = any>(url: string, headers?: Record<string, string>) =>
     authenticatedRequest<T>(url, { method: 'DELETE', headers }),
 };
+
+/**
+ * Requests to routes that also serve logged-out visitors, such as voting on anonymous
+ * polls; the token is sent when there is a session
+ */
+export const optionalAuthApi = {
+  get: <T = any>(url: string, headers?: Record<string, string>) =>
+    authenticatedRequest<T>(url, { method: 'GET', headers, requireAuth: false }),
+    
+  post: <T = any>(url: string, body?: any, headers?: Record<string, string>) =>
+    authenticatedRequest<T>(url, { method: 'POST', body, headers, requireAuth: false }),
+    
+  delete: <T = any>(url: string, headers?: Record<string, string>) =>
+    authenticatedRequest<T>(url, { method: 'DELETE', headers, requireAuth: false }),
+};
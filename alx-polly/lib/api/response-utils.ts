@@ -5,7 +5,7 @@
 import { NextResponse } from 'next/server';
 import { Logger } from '../utils/logger';
 import { createSuccessResponse, createErrorResponse, handleApiError } from '../errors/error-handler';
-import type { ApiResponse } from '../errors/error-handler';
+import type { ApiResponse as ApiResponseBody } from '../errors/error-handler';
 
 export interface PaginationMeta {
   page: number;
@@ -36,7 +36,7 @@ export class ApiResponse {
     data: T,
     message?: string,
     requestId?: string
-  ): NextResponse<ApiResponse<T>> {
+  ): NextResponse<ApiResponseBody<T>> {
     const response = createSuccessResponse(data, message, requestId);
     
     Logger.debug('API Success Response', {
@@ -61,7 +61,7 @@ export class ApiResponse {
     data: T,
     message?: string,
     requestId?: string
-  ): NextResponse<ApiResponse<T>> {
+  ): NextResponse<ApiResponseBody<T>> {
     const response = createSuccessResponse(data, message, requestId);
     
     Logger.info('API Created Response', {
@@ -231,9 +231,8 @@ export function withJsonBody<T = any>(handler: (request: NextRequest & { body: T
     try {
       const body = await request.json() as T;
       
-      // Add parsed body to request
-      const requestWithBody = request as NextRequest & { body: T };
-      requestWithBody.body = body;
+      // Add parsed body to request, shadowing the getter for the raw stream
+      const requestWithBody = Object.defineProperty(request, 'body', { value: body }) as NextRequest & { body: T };
       
       return await handler(requestWithBody, context);
     } catch (error) {
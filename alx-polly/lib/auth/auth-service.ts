@@ -11,7 +11,7 @@ import {
   InvalidCredentialsError,
   UserNotFoundError,
 } from '../errors/custom-errors';
-import type { User } from '@supabase/supabase-js';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
 
 export interface AuthUser {
   id: string;
@@ -31,7 +31,7 @@ export interface LoginCredentials {
 export interface RegisterData {
   email: string;
   password: string;
-  username?: string;
+  username: string;
   firstName?: string;
   lastName?: string;
 }
@@ -81,8 +81,8 @@ export class AuthService {
         id: user.id,
         email: user.email!,
         username: profile?.username,
-        firstName: profile?.first_name,
-        lastName: profile?.last_name,
+        firstName: profile?.first_name ?? undefined,
+        lastName: profile?.last_name ?? undefined,
         createdAt: profile?.created_at || user.created_at,
         updatedAt: profile?.updated_at || user.updated_at || user.created_at,
       };
@@ -155,8 +155,8 @@ export class AuthService {
         id: user.id,
         email: user.email!,
         username: profile?.username,
-        firstName: profile?.first_name,
-        lastName: profile?.last_name,
+        firstName: profile?.first_name ?? undefined,
+        lastName: profile?.last_name ?? undefined,
         createdAt: profile?.created_at || user.created_at,
         updatedAt: profile?.updated_at || user.updated_at || user.created_at,
       };
@@ -217,8 +217,8 @@ export class AuthService {
         id: data.user.id,
         email: data.user.email!,
         username: profile?.username,
-        firstName: profile?.first_name,
-        lastName: profile?.last_name,
+        firstName: profile?.first_name ?? undefined,
+        lastName: profile?.last_name ?? undefined,
         createdAt: profile?.created_at || data.user.created_at,
         updatedAt: profile?.updated_at || data.user.updated_at || data.user.created_at,
       };
@@ -378,7 +378,8 @@ export class AuthService {
     resourceId: string
   ): Promise<boolean> {
     try {
-      const { data, error } = await supabase
+      // The resource table is only known by name, so this goes through the untyped client
+      const { data, error } = await (supabase as SupabaseClient)
         .from(resourceType)
         .select('created_by')
         .eq('id', resourceId)
@@ -0,0 +1,25 @@
+/**
+ * Authentication for scheduled jobs such as the poll schedule sweeper
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { EnvConfig } from '../config/app-config';
+
+/**
+ * Check that a request comes from the job scheduler
+ *
+ * The scheduler sends CRON_SECRET as a bearer token, as Vercel Cron does. Without a
+ * configured secret every request is refused.
+ */
+export function isCronRequest(
+  request: NextRequest,
+  secret: string | undefined = EnvConfig.cron.secret
+): boolean {
+  const authorization = request.headers.get('authorization');
+  if (!secret || !authorization?.startsWith('Bearer ')) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(authorization.slice('Bearer '.length));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,102 @@
+/**
+ * Guest voter identity for logged-out voting on anonymous polls
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+import type { NextRequest, NextResponse } from 'next/server';
+import { AppConfig, EnvConfig } from '../config/app-config';
+import { InternalServerError } from '../errors/custom-errors';
+
+export interface GuestVoter {
+  voterToken: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+const DEVELOPMENT_SECRET = 'polly-development-guest-voter-secret';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getSecret(): string {
+  if (EnvConfig.guestVoting.secret) {
+    return EnvConfig.guestVoting.secret;
+  }
+
+  // A known secret would let anyone forge voter cookies, so production must set one
+  if (EnvConfig.isProduction) {
+    throw new InternalServerError('GUEST_VOTER_SECRET is not configured');
+  }
+
+  return DEVELOPMENT_SECRET;
+}
+
+function sign(voterToken: string): string {
+  return createHmac('sha256', getSecret()).update(voterToken).digest('base64url');
+}
+
+/**
+ * Create the signed cookie value for a voter token
+ */
+export function signVoterToken(voterToken: string): string {
+  return `${voterToken}.${sign(voterToken)}`;
+}
+
+/**
+ * Read the voter token from a signed cookie value
+ *
+ * Returns null when the value is missing, malformed or was not signed by us.
+ */
+export function verifyVoterToken(cookieValue: string | null | undefined): string | null {
+  if (!cookieValue) return null;
+
+  const [voterToken, signature, ...rest] = cookieValue.split('.');
+  if (rest.length > 0 || !voterToken || !signature || !UUID_PATTERN.test(voterToken)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(voterToken));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return voterToken;
+}
+
+/**
+ * Get the voter token from the request's cookie, if it carries a valid one
+ */
+export function readGuestVoterToken(request: NextRequest): string | null {
+  return verifyVoterToken(request.cookies.get(AppConfig.guestVoting.cookieName)?.value);
+}
+
+/**
+ * Identify a logged-out voter by cookie, IP address and user agent
+ *
+ * Visitors without a valid cookie get a fresh token, which the caller stores with
+ * setGuestVoterCookie once the vote is accepted.
+ */
+export function getGuestVoter(request: NextRequest): GuestVoter {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  const ipAddress = forwardedFor || request.headers.get('x-real-ip');
+
+  return {
+    voterToken: readGuestVoterToken(request) ?? randomUUID(),
+    // The address is stored as INET, so drop anything a proxy passed that isn't one
+    ipAddress: ipAddress && isIP(ipAddress) ? ipAddress : null,
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Remember the voter token in a signed, HTTP-only cookie
+ */
+export function setGuestVoterCookie(response: NextResponse, voterToken: string): void {
+  response.cookies.set(AppConfig.guestVoting.cookieName, signVoterToken(voterToken), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: EnvConfig.isProduction,
+    path: '/',
+    maxAge: AppConfig.guestVoting.cookieMaxAge,
+  });
+}
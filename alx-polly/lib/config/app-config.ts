@@ -9,6 +9,13 @@ export const AppConfig = {
     maxTitleLength: 200,
     maxDescriptionLength: 1000,
     defaultExpirationDays: 30,
+    maxQRCodeNameLength: 100,
+    maxQRCodesPerPoll: 20,
+    maxSurveyQuestions: 20,
+  },
+  guestVoting: {
+    cookieName: 'polly_voter',
+    cookieMaxAge: 365 * 24 * 60 * 60, // 1 year in seconds
   },
   auth: {
     sessionTimeout: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
@@ -77,6 +84,19 @@ export const EnvConfig = {
     serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
   },
   
+  guestVoting: {
+    secret: process.env.GUEST_VOTER_SECRET,
+  },
+  
+  cron: {
+    secret: process.env.CRON_SECRET,
+  },
+  
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'local',
+    localDir: process.env.LOCAL_UPLOADS_DIR || '.uploads',
+  },
+  
   app: {
     url: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
     name: process.env.NEXT_PUBLIC_APP_NAME || 'Alx-Polly',
@@ -79,6 +79,18 @@ export class UserNotFoundError extends NotFoundError {
   }
 }
 
+export class QuizNotFoundError extends NotFoundError {
+  constructor(quizId: string, context?: Record<string, any>) {
+    super('Quiz', quizId, context);
+  }
+}
+
+export class SurveyNotFoundError extends NotFoundError {
+  constructor(surveyId: string, context?: Record<string, any>) {
+    super('Survey', surveyId, context);
+  }
+}
+
 // Validation Errors
 export class ValidationError extends BaseError {
   readonly code = 'VALIDATION_ERROR';
@@ -112,8 +124,8 @@ export class InvalidInputError extends BaseError {
 
 // Business Logic Errors
 export class BusinessLogicError extends BaseError {
-  readonly code = 'BUSINESS_LOGIC_ERROR';
-  readonly statusCode = 422;
+  readonly code: string = 'BUSINESS_LOGIC_ERROR';
+  readonly statusCode: number = 422;
   
   constructor(message: string, context?: Record<string, any>) {
     super(message, context);
@@ -121,6 +133,9 @@ export class BusinessLogicError extends BaseError {
 }
 
 export class PollExpiredError extends BusinessLogicError {
+  readonly code = 'POLL_EXPIRED';
+  readonly statusCode = 410;
+  
   constructor(pollId: string, expirationDate: Date, context?: Record<string, any>) {
     super(`Poll ${pollId} expired on ${expirationDate.toISOString()}`, {
       pollId,
@@ -130,13 +145,55 @@ export class PollExpiredError extends BusinessLogicError {
   }
 }
 
+export class PollNotStartedError extends BusinessLogicError {
+  readonly code = 'POLL_NOT_STARTED';
+  readonly statusCode = 409;
+  
+  constructor(pollId: string, startDate: Date, context?: Record<string, any>) {
+    super(`Poll ${pollId} opens on ${startDate.toISOString()}`, {
+      pollId,
+      startDate: startDate.toISOString(),
+      ...context
+    });
+  }
+}
+
 export class PollInactiveError extends BusinessLogicError {
+  readonly code = 'POLL_INACTIVE';
+  readonly statusCode = 409;
+  
   constructor(pollId: string, context?: Record<string, any>) {
     super(`Poll ${pollId} is not active`, { pollId, ...context });
   }
 }
 
+export class InvalidStatusTransitionError extends BusinessLogicError {
+  readonly code = 'INVALID_STATUS_TRANSITION';
+  readonly statusCode = 409;
+
+  constructor(pollId: string, fromStatus: string, toStatus: string, context?: Record<string, any>) {
+    super(`Poll ${pollId} cannot move from ${fromStatus} to ${toStatus}`, {
+      pollId,
+      fromStatus,
+      toStatus,
+      ...context
+    });
+  }
+}
+
+export class OutcomeAlreadyDeclaredError extends BusinessLogicError {
+  readonly code = 'OUTCOME_ALREADY_DECLARED';
+  readonly statusCode = 409;
+
+  constructor(pollId: string, context?: Record<string, any>) {
+    super(`The outcome of poll ${pollId} was already declared`, { pollId, ...context });
+  }
+}
+
 export class DuplicateVoteError extends BusinessLogicError {
+  readonly code = 'DUPLICATE_VOTE';
+  readonly statusCode = 409;
+  
   constructor(pollId: string, userId: string, context?: Record<string, any>) {
     super(`User ${userId} has already voted on poll ${pollId}`, {
       pollId,
@@ -146,7 +203,22 @@ export class DuplicateVoteError extends BusinessLogicError {
   }
 }
 
+export class GuestVoteLimitError extends BusinessLogicError {
+  readonly code = 'GUEST_VOTE_LIMIT';
+  readonly statusCode = 409;
+  
+  constructor(pollId: string, context?: Record<string, any>) {
+    super(`A guest vote from this device or network was already counted on poll ${pollId}`, {
+      pollId,
+      ...context
+    });
+  }
+}
+
 export class MultipleVotesNotAllowedError extends BusinessLogicError {
+  readonly code = 'MULTIPLE_VOTES_NOT_ALLOWED';
+  readonly statusCode = 400;
+  
   constructor(pollId: string, context?: Record<string, any>) {
     super(`Poll ${pollId} does not allow multiple votes per user`, {
       pollId,
@@ -155,6 +227,113 @@ export class MultipleVotesNotAllowedError extends BusinessLogicError {
   }
 }
 
+export class SelectionLimitError extends BusinessLogicError {
+  readonly code = 'SELECTION_LIMIT';
+  readonly statusCode = 400;
+  
+  constructor(
+    pollId: string,
+    minSelections: number | null,
+    maxSelections: number | null,
+    context?: Record<string, any>
+  ) {
+    const range = maxSelections
+      ? `${minSelections ?? 1}-${maxSelections}`
+      : `${minSelections ?? 1} or more`;
+    super(`Poll ${pollId} accepts ${range} selections per ballot`, {
+      pollId,
+      minSelections,
+      maxSelections,
+      ...context
+    });
+  }
+}
+
+export class VoteChangeNotAllowedError extends BusinessLogicError {
+  readonly code = 'VOTE_CHANGE_NOT_ALLOWED';
+  readonly statusCode = 409;
+  
+  constructor(pollId: string, windowMinutes: number | null, context?: Record<string, any>) {
+    const message = windowMinutes
+      ? `Votes on poll ${pollId} can only be changed within ${windowMinutes} minutes of voting`
+      : `Votes on poll ${pollId} are final and cannot be changed`;
+    super(message, { pollId, windowMinutes, ...context });
+  }
+}
+
+export class SurveyAlreadySubmittedError extends BusinessLogicError {
+  readonly code = 'SURVEY_ALREADY_SUBMITTED';
+  readonly statusCode = 409;
+  
+  // Raised from a vote on one of the survey's questions too, so the context carries whichever ID is known
+  constructor(context?: Record<string, any>) {
+    super('This survey was already submitted and its answers are final', context);
+  }
+}
+
+export class SurveyIncompleteError extends BusinessLogicError {
+  readonly code = 'SURVEY_INCOMPLETE';
+  readonly statusCode = 409;
+  
+  constructor(surveyId: string, firstUnansweredPosition: number | null, context?: Record<string, any>) {
+    const message = firstUnansweredPosition
+      ? `Answer question ${firstUnansweredPosition} of survey ${surveyId} before submitting`
+      : `Answer every question of survey ${surveyId} before submitting`;
+    super(message, { surveyId, firstUnansweredPosition, ...context });
+  }
+}
+
+export class FollowUpCycleError extends BusinessLogicError {
+  readonly code = 'FOLLOW_UP_CYCLE';
+  readonly statusCode = 409;
+  
+  // The cycle is the polls along the loop, when known, starting and ending with the same poll
+  constructor(pollId: string, cycle: string[] = [], context?: Record<string, any>) {
+    super(`These follow-ups would lead voters from poll ${pollId} back to a poll they already answered`, {
+      pollId,
+      cycle,
+      ...context
+    });
+  }
+}
+
+export class FollowUpNotEligibleError extends BusinessLogicError {
+  readonly code = 'FOLLOW_UP_NOT_ELIGIBLE';
+  readonly statusCode = 403;
+  
+  constructor(pollId: string, context?: Record<string, any>) {
+    super(`Poll ${pollId} is a follow-up for voters who gave a particular answer to an earlier poll`, {
+      pollId,
+      ...context
+    });
+  }
+}
+
+export class PollSlugTakenError extends BusinessLogicError {
+  constructor(slug: string, context?: Record<string, any>) {
+    super(`The short link "${slug}" is already taken`, { slug, ...context });
+  }
+}
+
+// Upload Errors
+export class FileTooLargeError extends BaseError {
+  readonly code = 'FILE_TOO_LARGE';
+  readonly statusCode = 413;
+  
+  constructor(maxSize: string, context?: Record<string, any>) {
+    super(`File is too large; the limit is ${maxSize}`, context);
+  }
+}
+
+export class UnsupportedMediaTypeError extends BaseError {
+  readonly code = 'UNSUPPORTED_MEDIA_TYPE';
+  readonly statusCode = 415;
+  
+  constructor(message: string = 'Unsupported file type', context?: Record<string, any>) {
+    super(message, context);
+  }
+}
+
 // Database Errors
 export class DatabaseError extends BaseError {
   readonly code = 'DATABASE_ERROR';
@@ -270,3 +449,31 @@ export function getErrorStatusCode(error: unknown): number {
   
   return 500;
 }
+
+/**
+ * Convert Supabase error to custom error
+ */
+export function convertSupabaseError(error: any): BaseError {
+  if (!error) {
+    return new InternalServerError('Unknown database error');
+  }
+  
+  const message = error.message || 'Database operation failed';
+  const code = error.code;
+  
+  // Map common Supabase error codes to custom errors
+  switch (code) {
+    case 'PGRST116': // Not found
+      return new NotFoundError('Resource');
+    case 'PGRST301': // Unauthorized
+      return new UnauthorizedError('database operation');
+    case '23505': // Unique violation
+      return new ValidationError('Duplicate entry detected');
+    case '23503': // Foreign key violation
+      return new ValidationError('Referenced resource does not exist');
+    case '23502': // Not null violation
+      return new ValidationError('Required field is missing');
+    default:
+      return new DatabaseError(message, error);
+  }
+}
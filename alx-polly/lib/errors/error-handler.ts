@@ -13,10 +13,7 @@ import {
   ValidationError,
   DatabaseError,
   AuthenticationError,
-  UnauthorizedError,
-  NotFoundError,
   RateLimitError,
-  InternalServerError,
 } from './custom-errors';
 
 export interface ErrorResponse {
@@ -177,34 +174,6 @@ export function withServerActionErrorHandling<T extends any[], R>(
   };
 }
 
-/**
- * Convert Supabase error to custom error
- */
-export function convertSupabaseError(error: any): BaseError {
-  if (!error) {
-    return new InternalServerError('Unknown database error');
-  }
-  
-  const message = error.message || 'Database operation failed';
-  const code = error.code;
-  
-  // Map common Supabase error codes to custom errors
-  switch (code) {
-    case 'PGRST116': // Not found
-      return new NotFoundError('Resource');
-    case 'PGRST301': // Unauthorized
-      return new UnauthorizedError('database operation');
-    case '23505': // Unique violation
-      return new ValidationError('Duplicate entry detected');
-    case '23503': // Foreign key violation
-      return new ValidationError('Referenced resource does not exist');
-    case '23502': // Not null violation
-      return new ValidationError('Required field is missing');
-    default:
-      return new DatabaseError(message, error);
-  }
-}
-
 /**
  * Error boundary for React components
  */
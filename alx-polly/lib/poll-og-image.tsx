@@ -0,0 +1,134 @@
+import { ImageResponse } from "next/og";
+import { PollOption } from "@/types";
+import { calculateVotePercentage } from "@/utils/poll-utils";
+
+export interface PollOgImageContent {
+  title: string;
+  options: PollOption[];
+  totalVotes: number;
+  isOpen: boolean;
+  showResults: boolean; // Off when the viewer may not see the vote counts
+}
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+const MAX_OG_OPTIONS = 5;
+
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#6b7280";
+const BAR_COLOR = "#111827";
+const BAR_TRACK_COLOR = "#e5e7eb";
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Render a 1200x630 link preview image for a poll as a PNG
+ *
+ * Satori only supports flexbox layouts, so every element with more than one child
+ * sets display: flex explicitly.
+ */
+export function renderPollOgImage(content: PollOgImageContent): ImageResponse {
+  const visibleOptions = content.options.slice(0, MAX_OG_OPTIONS);
+  const hiddenCount = content.options.length - visibleOptions.length;
+  const leadingVotes = Math.max(0, ...visibleOptions.map((option) => option.votes));
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          padding: "56px 72px",
+          backgroundColor: "#ffffff",
+          color: TEXT_COLOR,
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 56, fontWeight: 700, lineHeight: 1.15 }}>
+          {truncate(content.title, 90)}
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            flexGrow: 1,
+            justifyContent: "center",
+            gap: 20,
+            marginTop: 32,
+          }}
+        >
+          {visibleOptions.map((option) => {
+            const percentage = calculateVotePercentage(option, content.totalVotes);
+
+            return (
+              <div key={option.id} style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    fontSize: 30,
+                  }}
+                >
+                  <span>{truncate(option.text, 60)}</span>
+                  {content.showResults && (
+                    <span style={{ color: MUTED_COLOR }}>{`${percentage}%`}</span>
+                  )}
+                </div>
+                {content.showResults && (
+                  <div
+                    style={{
+                      display: "flex",
+                      height: 16,
+                      borderRadius: 8,
+                      backgroundColor: BAR_TRACK_COLOR,
+                    }}
+                  >
+                    <div
+                      style={{
+                        width: `${percentage}%`,
+                        height: 16,
+                        borderRadius: 8,
+                        backgroundColor: BAR_COLOR,
+                        opacity: leadingVotes > 0 && option.votes === leadingVotes ? 1 : 0.55,
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {hiddenCount > 0 && (
+            <div style={{ display: "flex", fontSize: 24, color: MUTED_COLOR }}>
+              {`+ ${hiddenCount} more ${hiddenCount === 1 ? "option" : "options"}`}
+            </div>
+          )}
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            fontSize: 26,
+            color: MUTED_COLOR,
+          }}
+        >
+          <span style={{ fontWeight: 700, color: TEXT_COLOR }}>Polly</span>
+          <span>
+            {content.showResults
+              ? `${content.totalVotes} ${content.totalVotes === 1 ? "vote" : "votes"}`
+              : content.isOpen
+                ? "Vote now"
+                : "Voting closed"}
+          </span>
+        </div>
+      </div>
+    ),
+    { width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT }
+  );
+}
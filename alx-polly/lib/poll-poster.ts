@@ -0,0 +1,200 @@
+import { PDFDocument, PDFFont, PDFPage, PageSizes, StandardFonts, rgb } from 'pdf-lib';
+import QRCode from 'qrcode';
+import { PosterPageSize } from '@/types';
+import { formatPollDate } from '@/utils/poll-utils';
+
+export interface PollPosterContent {
+  title: string;
+  description?: string | null;
+  options: string[];
+  expiresAt?: Date | null;
+  pollUrl: string;
+}
+
+const PAGE_DIMENSIONS: Record<PosterPageSize, [number, number]> = {
+  a4: PageSizes.A4,
+  letter: PageSizes.Letter,
+};
+
+const MARGIN = 56;
+const QR_CODE_SIZE = 220;
+const MAX_POSTER_OPTIONS = 6;
+
+const TEXT_COLOR = rgb(0.07, 0.09, 0.15);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+
+/**
+ * Replace characters the standard PDF fonts cannot encode (emoji, CJK, ...)
+ */
+function toEncodableText(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\s+/g, ' ').trim())
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+}
+
+/**
+ * Greedily wrap text into lines that fit within maxWidth, breaking overlong words
+ */
+export function wrapText(text: string, font: PDFFont, fontSize: number, maxWidth: number): string[] {
+  const fits = (value: string) => font.widthOfTextAtSize(value, fontSize) <= maxWidth;
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ').filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) lines.push(current);
+    current = '';
+
+    let remainder = word;
+    while (!fits(remainder)) {
+      let end = remainder.length - 1;
+      while (end > 1 && !fits(remainder.slice(0, end))) end--;
+      lines.push(remainder.slice(0, end));
+      remainder = remainder.slice(end);
+    }
+    current = remainder;
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Shorten a line with an ellipsis so it fits within maxWidth
+ */
+function truncateToWidth(line: string, font: PDFFont, fontSize: number, maxWidth: number): string {
+  let truncated = line;
+  while (truncated && font.widthOfTextAtSize(`${truncated}...`, fontSize) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}...`;
+}
+
+/**
+ * Draw a QR code as vector modules, so it stays sharp at any print size
+ */
+function drawQRCode(page: PDFPage, text: string, x: number, y: number, size: number) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleSize = size / modules.size;
+
+  for (let row = 0; row < modules.size; row++) {
+    // Merge horizontal runs of dark modules into a single rectangle
+    let runStart = -1;
+    for (let col = 0; col <= modules.size; col++) {
+      const isDark = col < modules.size && modules.get(row, col);
+      if (isDark && runStart === -1) {
+        runStart = col;
+      } else if (!isDark && runStart !== -1) {
+        page.drawRectangle({
+          x: x + runStart * moduleSize,
+          y: y + size - (row + 1) * moduleSize,
+          width: (col - runStart) * moduleSize,
+          height: moduleSize,
+          color: TEXT_COLOR,
+        });
+        runStart = -1;
+      }
+    }
+  }
+}
+
+/**
+ * Render a printable one-page poster for a poll as a PDF
+ */
+export async function renderPollPoster(
+  content: PollPosterContent,
+  pageSize: PosterPageSize
+): Promise<Uint8Array<ArrayBuffer>> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(content.title);
+  pdf.setCreator('ALX Polly');
+
+  const [width, height] = PAGE_DIMENSIONS[pageSize];
+  const page = pdf.addPage([width, height]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const contentWidth = width - MARGIN * 2;
+
+  let y = height - MARGIN;
+
+  // Line limits keep long titles and descriptions from pushing the QR code off the page
+  const drawCentered = (
+    text: string,
+    font: PDFFont,
+    size: number,
+    { color = TEXT_COLOR, maxLines = 1 } = {}
+  ) => {
+    const lines = wrapText(toEncodableText(text, font), font, size, contentWidth);
+    if (lines.length > maxLines) {
+      lines.length = maxLines;
+      lines[maxLines - 1] = truncateToWidth(lines[maxLines - 1], font, size, contentWidth);
+    }
+
+    for (const line of lines) {
+      y -= size;
+      page.drawText(line, {
+        x: (width - font.widthOfTextAtSize(line, size)) / 2,
+        y,
+        size,
+        font,
+        color,
+      });
+      y -= size * 0.35;
+    }
+  };
+
+  drawCentered(content.title, bold, 30, { maxLines: 3 });
+
+  if (content.description) {
+    y -= 8;
+    drawCentered(content.description, regular, 14, { color: MUTED_COLOR, maxLines: 4 });
+  }
+
+  // Options, centered as a list under the title
+  y -= 24;
+  const visibleOptions = content.options.slice(0, MAX_POSTER_OPTIONS);
+  visibleOptions.forEach((option, index) => {
+    drawCentered(`${index + 1}. ${option}`, regular, 14);
+  });
+  if (content.options.length > visibleOptions.length) {
+    drawCentered(
+      `+ ${content.options.length - visibleOptions.length} more options`,
+      regular,
+      12,
+      { color: MUTED_COLOR }
+    );
+  }
+
+  // QR code, with room around it for the quiet zone scanners need
+  y -= 32 + QR_CODE_SIZE;
+  drawQRCode(page, content.pollUrl, (width - QR_CODE_SIZE) / 2, y, QR_CODE_SIZE);
+
+  y -= 28;
+  drawCentered('Scan to vote', bold, 22);
+  drawCentered(content.pollUrl, regular, 12, { color: MUTED_COLOR, maxLines: 2 });
+
+  if (content.expiresAt) {
+    const expiresAt = new Date(content.expiresAt);
+    const notice =
+      expiresAt.getTime() > Date.now()
+        ? `Voting closes ${formatPollDate(expiresAt)}`
+        : `Voting closed ${formatPollDate(expiresAt)}`;
+    const size = 12;
+    page.drawText(notice, {
+      x: (width - bold.widthOfTextAtSize(notice, size)) / 2,
+      y: MARGIN / 2,
+      size,
+      font: bold,
+      color: MUTED_COLOR,
+    });
+  }
+
+  const bytes = await pdf.save();
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,33 @@
+import QRCode from 'qrcode';
+import { QRCodeOptions } from '@/types';
+
+export interface RenderedQRCode {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+}
+
+/**
+ * Render a QR code for the given text on the server, without any third-party service
+ */
+export async function renderQRCode(
+  text: string,
+  options: QRCodeOptions
+): Promise<RenderedQRCode> {
+  const renderOptions = {
+    width: options.size,
+    margin: options.margin,
+    errorCorrectionLevel: options.errorCorrectionLevel,
+    color: {
+      dark: options.darkColor,
+      light: options.lightColor,
+    },
+  };
+
+  if (options.format === 'png') {
+    const buffer = await QRCode.toBuffer(text, { ...renderOptions, type: 'png' });
+    return { body: new Uint8Array(buffer), contentType: 'image/png' };
+  }
+
+  const body = await QRCode.toString(text, { ...renderOptions, type: 'svg' });
+  return { body, contentType: 'image/svg+xml' };
+}
@@ -2,6 +2,7 @@
  * Base repository class with common database operations
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../supabase';
 import { Logger } from '../utils/logger';
 import { DatabaseError, NotFoundError, convertSupabaseError } from '../errors/custom-errors';
@@ -36,9 +37,11 @@ export abstract class BaseRepository<T = any> {
   
   /**
    * Get table reference
+   *
+   * The table is only known by name here, so the generic operations go through the untyped client.
    */
   protected get table() {
-    return supabase.from(this.tableName);
+    return (supabase as SupabaseClient).from(this.tableName);
   }
   
   /**
@@ -330,7 +333,7 @@ export abstract class BaseRepository<T = any> {
    */
   @measurePerformance('repository.upsert')
   async upsert(data: Partial<T>, conflictColumns?: string[]): Promise<T> {
-    let query = this.table
+    const query = this.table
       .upsert(data, { 
         onConflict: conflictColumns?.join(','),
         ignoreDuplicates: false 
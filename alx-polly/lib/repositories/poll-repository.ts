@@ -0,0 +1,1428 @@
+/**
+ * Poll repository for database operations
+ */
+
+import { BaseRepository } from './base-repository';
+import { supabase } from '../supabase';
+import { getSupabaseAdmin } from '../supabase-admin';
+import {
+  AuthenticationError,
+  BusinessLogicError,
+  DatabaseError,
+  FollowUpCycleError,
+  GuestVoteLimitError,
+  InvalidInputError,
+  InvalidStatusTransitionError,
+  MultipleVotesNotAllowedError,
+  NotFoundError,
+  OutcomeAlreadyDeclaredError,
+  PollExpiredError,
+  PollInactiveError,
+  PollNotFoundError,
+  PollNotStartedError,
+  SelectionLimitError,
+  SurveyAlreadySubmittedError,
+  SurveyIncompleteError,
+  UnauthorizedError,
+  VoteChangeNotAllowedError,
+} from '../errors/custom-errors';
+import { measurePerformance } from '../utils/logger';
+import { Logger } from '../utils/logger';
+import { calculateSourceStats } from '../../utils/qr-utils';
+import { calculateSlotAvailability } from '../../utils/schedule-utils';
+import {
+  calculateInstantRunoff,
+  calculateRatingStats,
+  groupRankedBallots,
+  groupWriteIns,
+} from '../../utils/poll-utils';
+import type {
+  PollWithOptions,
+  Poll,
+  PollOption,
+  Vote,
+  PollView,
+  PollQRCode,
+  PollFollowUp,
+  PollStatusEvent,
+  PollOutcome,
+  Quiz,
+  QuizWithQuestions,
+  Survey,
+  SurveyResponse,
+  SurveyWithQuestions,
+} from '../../types/database';
+import type {
+  GuestVoteLimit,
+  InstantRunoffResult,
+  OptionRatingStats,
+  PollStatus,
+  QRSourceStats,
+  ResultsVisibility,
+  ScoreBallot,
+  SlotAvailability,
+  TieStrategy,
+  VoteChangePolicy,
+  VoteType,
+  WriteInGroup,
+} from '../../types';
+
+export interface CreatePollData {
+  id?: string;
+  title: string;
+  description?: string | null;
+  slug?: string;
+  created_by: string;
+  expires_at?: string | null;
+  starts_at?: string | null;
+  allow_multiple_votes: boolean;
+  vote_type?: VoteType;
+  min_selections?: number | null;
+  max_selections?: number | null;
+  score_min?: number | null;
+  score_max?: number | null;
+  time_zone?: string | null;
+  allow_write_ins?: boolean;
+  vote_change_policy?: VoteChangePolicy;
+  vote_change_window_minutes?: number | null;
+  results_visibility?: ResultsVisibility;
+  close_after_votes?: number | null;
+  close_on_decisive_lead?: boolean;
+  quorum?: number | null;
+  tie_strategy?: TieStrategy;
+  quiz_id?: string | null;
+  quiz_position?: number | null;
+  survey_id?: string | null;
+  survey_position?: number | null;
+  is_anonymous: boolean;
+  guest_vote_limit?: GuestVoteLimit;
+  status: PollStatus;
+  qr_code_url?: string | null;
+}
+
+export interface CreatePollOptionData {
+  poll_id: string;
+  text: string;
+  position: number;
+  is_correct?: boolean;
+  image_url?: string | null;
+  image_caption?: string | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+}
+
+export interface CreateQuizData {
+  title: string;
+  description?: string;
+  created_by: string;
+}
+
+export interface CreateSurveyData {
+  title: string;
+  description?: string | null;
+  created_by: string;
+}
+
+// Exactly one of the two identifies a survey respondent
+export interface SurveyRespondent {
+  user_id?: string | null;
+  voter_token?: string | null;
+}
+
+// A quiz answer row, with the voter's username when they were signed in
+export type QuizAnswerVote = Pick<Vote, 'poll_id' | 'option_id' | 'user_id' | 'voter_token' | 'created_at'> & {
+  profiles: { username: string } | null;
+};
+
+export interface RecordPollViewData {
+  poll_id: string;
+  user_id?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  source?: string | null;
+}
+
+export interface GuestVoterData {
+  voter_token: string;
+  ip_address?: string | null;
+  user_agent?: string | null;
+}
+
+export interface PollFilters {
+  createdBy?: string;
+  status?: PollStatus;
+  isExpired?: boolean;
+  search?: string;
+}
+
+// Ranked ballots come back in preference order; unranked votes keep their order
+function byRank(a: Vote, b: Vote): number {
+  return (a.rank ?? 0) - (b.rank ?? 0);
+}
+
+// The vote functions take a rating ballot as a score array parallel to option_uuids
+function toOptionScores(optionIds: string[], scores: ScoreBallot | null) {
+  return scores ? { option_scores: optionIds.map(optionId => scores[optionId]) } : {};
+}
+
+/**
+ * Poll repository class
+ */
+export class PollRepository extends BaseRepository<Poll> {
+  protected tableName = 'polls';
+  protected defaultSelect = `
+    *,
+    poll_options (
+      id,
+      text,
+      position,
+      votes_count,
+      image_url,
+      image_caption,
+      starts_at,
+      ends_at
+    ),
+    poll_follow_ups!poll_follow_ups_poll_id_fkey (
+      option_id,
+      follow_up_poll_id
+    ),
+    profiles (
+      id,
+      username,
+      first_name,
+      last_name,
+      avatar_url
+    )
+  `;
+  
+  /**
+   * Create poll with options
+   */
+  @measurePerformance('pollRepository.createWithOptions')
+  async createWithOptions(
+    pollData: CreatePollData,
+    optionsData: CreatePollOptionData[]
+  ): Promise<PollWithOptions> {
+    try {
+      // Start transaction-like operation
+      // Create poll first
+      const poll = await this.create(pollData);
+      
+      // Create options
+      const optionsWithPollId = optionsData.map(option => ({
+        ...option,
+        poll_id: poll.id,
+      }));
+      
+      const options = await this.createOptions(optionsWithPollId);
+      
+      Logger.info('Poll created with options', {
+        pollId: poll.id,
+        optionsCount: options.length,
+        createdBy: pollData.created_by,
+      });
+      
+      return {
+        ...poll,
+        poll_options: options,
+      } as PollWithOptions;
+    } catch (error) {
+      Logger.error('Failed to create poll with options', error as Error, {
+        pollData: { ...pollData, created_by: '[REDACTED]' },
+        optionsCount: optionsData.length,
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Find poll with options by ID
+   */
+  @measurePerformance('pollRepository.findWithOptions')
+  async findWithOptions(id: string): Promise<PollWithOptions | null> {
+    const query = this.table
+      .select(this.defaultSelect)
+      .eq('id', id)
+      .order('position', { referencedTable: 'poll_options' });
+    
+    try {
+      const result = await this.executeQuery<PollWithOptions>(query, 'findWithOptions', true);
+      return result;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('PGRST116')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Find poll with options by short slug
+   */
+  @measurePerformance('pollRepository.findBySlugWithOptions')
+  async findBySlugWithOptions(slug: string): Promise<PollWithOptions | null> {
+    const query = this.table
+      .select(this.defaultSelect)
+      .eq('slug', slug)
+      .order('position', { referencedTable: 'poll_options' });
+    
+    try {
+      return await this.executeQuery<PollWithOptions>(query, 'findBySlugWithOptions', true);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('PGRST116')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Check if a short slug is already used by another poll
+   */
+  async isSlugTaken(slug: string): Promise<boolean> {
+    return this.existsBy('slug', slug);
+  }
+  
+  /**
+   * Find polls by user with options
+   */
+  @measurePerformance('pollRepository.findByUserWithOptions')
+  async findByUserWithOptions(
+    userId: string,
+    filters: PollFilters = {},
+    pagination?: { page: number; limit: number }
+  ): Promise<PollWithOptions[]> {
+    let query = this.table
+      .select(this.defaultSelect)
+      .order('position', { referencedTable: 'poll_options' });
+    
+    // Apply user filter
+    query = query.eq('created_by', userId);
+    
+    // Apply additional filters
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    
+    if (filters.isExpired !== undefined) {
+      const now = new Date().toISOString();
+      if (filters.isExpired) {
+        query = query.lt('expires_at', now);
+      } else {
+        query = query.or(`expires_at.is.null,expires_at.gt.${now}`);
+      }
+    }
+    
+    if (filters.search) {
+      query = query.ilike('title', `%${filters.search}%`);
+    }
+    
+    // Apply ordering
+    query = query.order('created_at', { ascending: false });
+    
+    // Apply pagination
+    if (pagination) {
+      const offset = (pagination.page - 1) * pagination.limit;
+      query = query.range(offset, offset + pagination.limit - 1);
+    }
+    
+    return this.executeQuery<PollWithOptions[]>(query, 'findByUserWithOptions');
+  }
+  
+  /**
+   * Find open polls with options
+   */
+  @measurePerformance('pollRepository.findActiveWithOptions')
+  async findActiveWithOptions(
+    filters: Omit<PollFilters, 'status'> = {},
+    pagination?: { page: number; limit: number }
+  ): Promise<PollWithOptions[]> {
+    let query = this.table
+      .select(this.defaultSelect)
+      .order('position', { referencedTable: 'poll_options' });
+    
+    // Only open polls
+    query = query.eq('status', 'open');
+    
+    // Only non-expired polls
+    const now = new Date().toISOString();
+    query = query.or(`expires_at.is.null,expires_at.gt.${now}`);
+    
+    // Apply additional filters
+    if (filters.search) {
+      query = query.ilike('title', `%${filters.search}%`);
+    }
+    
+    // Apply ordering
+    query = query.order('created_at', { ascending: false });
+    
+    // Apply pagination
+    if (pagination) {
+      const offset = (pagination.page - 1) * pagination.limit;
+      query = query.range(offset, offset + pagination.limit - 1);
+    }
+    
+    return this.executeQuery<PollWithOptions[]>(query, 'findActiveWithOptions');
+  }
+  
+  /**
+   * Move a poll to another lifecycle status
+   *
+   * Runs transition_poll_status, which checks ownership and the transition table under a
+   * row lock and records the change on the poll's timeline. It trusts the owner ID it is
+   * given, so it only runs with the service role.
+   */
+  @measurePerformance('pollRepository.transitionStatus')
+  async transitionStatus(id: string, ownerId: string, status: PollStatus): Promise<Poll> {
+    const { data, error } = await getSupabaseAdmin().rpc('transition_poll_status', {
+      poll_uuid: id,
+      owner_uuid: ownerId,
+      new_status: status,
+    });
+    
+    if (error) {
+      Logger.error('Failed to change poll status', error, { pollId: id, ownerId, status });
+      
+      switch (error.message) {
+        case 'POLL_NOT_FOUND':
+          throw new PollNotFoundError(id);
+        case 'NOT_POLL_OWNER':
+          throw new UnauthorizedError('change the status of this poll', { pollId: id, ownerId });
+        case 'INVALID_STATUS_TRANSITION': {
+          const [fromStatus = 'unknown'] = (error.details ?? '').split(',');
+          throw new InvalidStatusTransitionError(id, fromStatus, status);
+        }
+        case 'START_TIME_PASSED':
+          throw new InvalidInputError('startsAt', error.details || null, 'a scheduled poll needs a start time in the future', {
+            pollId: id,
+          });
+        case 'POLL_EXPIRED':
+          throw new PollExpiredError(id, new Date(error.details ?? Date.now()));
+        default:
+          throw new DatabaseError(
+            `Changing poll status failed on ${this.tableName}`,
+            new Error(error.message),
+            { pollId: id }
+          );
+      }
+    }
+    
+    return data as Poll;
+  }
+  
+  /**
+   * Replace the options of a draft poll
+   *
+   * Options are listed in the order given. Those that keep their ID are updated in place, so
+   * follow-up links on them survive; options left out are deleted. Only safe before the poll
+   * has any votes.
+   */
+  @measurePerformance('pollRepository.replaceOptions')
+  async replaceOptions(
+    pollId: string,
+    options: Array<{ id?: string; text: string }>
+  ): Promise<void> {
+    const { data: existing, error: findError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId);
+    
+    if (findError) {
+      this.handleError(findError, 'replaceOptions');
+    }
+    
+    const keptIds = new Set(options.flatMap(option => (option.id ? [option.id] : [])));
+    const removedIds = ((existing || []) as Pick<PollOption, 'id'>[])
+      .map(option => option.id)
+      .filter(id => !keptIds.has(id));
+    
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from('poll_options')
+        .delete()
+        .in('id', removedIds);
+      
+      if (error) {
+        this.handleError(error, 'replaceOptions');
+      }
+    }
+    
+    for (const [index, option] of options.entries()) {
+      if (!option.id) continue;
+      
+      const { error } = await supabase
+        .from('poll_options')
+        .update({ text: option.text, position: index })
+        .eq('id', option.id)
+        .eq('poll_id', pollId);
+      
+      if (error) {
+        this.handleError(error, 'replaceOptions');
+      }
+    }
+    
+    const added = options.flatMap((option, index) =>
+      option.id ? [] : [{ poll_id: pollId, text: option.text, position: index }]
+    );
+    if (added.length > 0) {
+      await this.createOptions(added);
+    }
+  }
+  
+  /**
+   * Open scheduled polls whose start time has passed and close polls that have expired
+   *
+   * Runs sweep_poll_schedules, which only applies transitions that are already due, and
+   * returns the IDs of the polls it closed along with the counts. Only the service role may
+   * run it, so a sweep can't be set off from a browser.
+   */
+  @measurePerformance('pollRepository.sweepSchedules')
+  async sweepSchedules(): Promise<{ opened: number; closed: number; closedPollIds: string[] }> {
+    const { data, error } = await getSupabaseAdmin().rpc('sweep_poll_schedules');
+    
+    if (error) {
+      Logger.error('Failed to sweep poll schedules', error);
+      throw new DatabaseError(
+        `Poll schedule sweep failed on ${this.tableName}`,
+        new Error(error.message)
+      );
+    }
+    
+    const [counts] = (data ?? []) as Array<{
+      opened_count: number;
+      closed_count: number;
+      closed_poll_ids: string[] | null;
+    }>;
+    return {
+      opened: counts?.opened_count ?? 0,
+      closed: counts?.closed_count ?? 0,
+      closedPollIds: counts?.closed_poll_ids ?? [],
+    };
+  }
+  
+  /**
+   * Check if user owns poll
+   */
+  async isOwner(pollId: string, userId: string): Promise<boolean> {
+    const poll = await this.findById(pollId, 'created_by');
+    return poll?.created_by === userId;
+  }
+  
+  /**
+   * Get the correct option IDs of each quiz question
+   *
+   * Client roles cannot read is_correct, so this goes through the service role.
+   */
+  @measurePerformance('pollRepository.findCorrectOptionIds')
+  async findCorrectOptionIds(pollIds: string[]): Promise<Record<string, string[]>> {
+    const answerKey: Record<string, string[]> = Object.fromEntries(pollIds.map(pollId => [pollId, []]));
+    if (pollIds.length === 0) return answerKey;
+    
+    const { data, error } = await getSupabaseAdmin()
+      .from('poll_options')
+      .select('id, poll_id')
+      .in('poll_id', pollIds)
+      .eq('is_correct', true);
+    
+    if (error) {
+      this.handleError(error, 'findCorrectOptionIds');
+    }
+    
+    ((data || []) as Pick<PollOption, 'id' | 'poll_id'>[]).forEach(option =>
+      answerKey[option.poll_id]?.push(option.id)
+    );
+    return answerKey;
+  }
+  
+  /**
+   * Get the question number the next poll added to a quiz should take
+   */
+  async getNextQuizPosition(quizId: string): Promise<number> {
+    const [last] = await this.findBy('quiz_id', quizId, {
+      select: 'quiz_position',
+      orderBy: [{ column: 'quiz_position', ascending: false }],
+      limit: 1,
+    });
+    return (last?.quiz_position ?? 0) + 1;
+  }
+  
+  /**
+   * Get the question number the next poll added to a survey should take
+   */
+  async getNextSurveyPosition(surveyId: string): Promise<number> {
+    const [last] = await this.findBy('survey_id', surveyId, {
+      select: 'survey_position',
+      orderBy: [{ column: 'survey_position', ascending: false }],
+      limit: 1,
+    });
+    return (last?.survey_position ?? 0) + 1;
+  }
+  
+  /**
+   * Get poll statistics
+   */
+  @measurePerformance('pollRepository.getStatistics')
+  async getStatistics(pollId: string): Promise<{
+    totalVotes: number;
+    uniqueVoters: number;
+    optionStats: Array<{
+      optionId: string;
+      text: string;
+      votes: number;
+      percentage: number;
+    }>;
+    sourceStats: QRSourceStats[];
+    writeInVotes: number;
+    writeIns: WriteInGroup[]; // Grouped by normalized text, most frequent first
+    instantRunoff?: InstantRunoffResult; // Ranked polls only
+    ratingStats?: OptionRatingStats[]; // Rating polls only
+    slotAvailability?: SlotAvailability[]; // Scheduling polls only
+  }> {
+    // Get poll with options
+    const poll = await this.findWithOptions(pollId);
+    if (!poll) {
+      throw new Error('Poll not found');
+    }
+    
+    // Ballots, scans and QR codes are only visible to the poll's owner under RLS, and the
+    // service has already checked that the caller may see the results
+    const admin = getSupabaseAdmin();
+    
+    // Get vote statistics
+    const { data: voteStats } = await admin
+      .from('votes')
+      .select('id, option_id, user_id, voter_token, rank, score, write_in, source')
+      .eq('poll_id', pollId);
+    
+    // Scans and named QR codes for the per-source breakdown
+    const { data: viewStats } = await admin
+      .from('poll_views')
+      .select('source')
+      .eq('poll_id', pollId);
+    
+    const { data: qrCodes } = await admin
+      .from('poll_qr_codes')
+      .select('name, source')
+      .eq('poll_id', pollId)
+      .order('created_at', { ascending: true });
+    
+    // Like the vote count trigger, only count first choices on ranked ballots
+    const countedVotes = voteStats?.filter(vote => vote.rank === null || vote.rank === 1);
+    // Guests are grouped by voter token; votes without either can't be grouped into ballots
+    const uniqueVoters = new Set(voteStats?.map(vote => vote.user_id ?? vote.voter_token ?? vote.id)).size;
+    // Rating and availability ballots have a row for every option, so those polls count ballots instead
+    const scoresEveryOption = poll.vote_type === 'rating' || poll.vote_type === 'schedule';
+    const totalVotes = scoresEveryOption ? uniqueVoters : countedVotes?.length || 0;
+    
+    // Calculate option statistics
+    const optionVoteCounts = countedVotes?.reduce((acc, vote) => {
+      if (vote.option_id) {
+        acc[vote.option_id] = (acc[vote.option_id] || 0) + 1;
+      }
+      return acc;
+    }, {} as Record<string, number>) || {};
+    
+    const optionStats = poll.poll_options.map(option => ({
+      optionId: option.id,
+      text: option.text,
+      votes: optionVoteCounts[option.id] || 0,
+      percentage: totalVotes > 0 ? ((optionVoteCounts[option.id] || 0) / totalVotes) * 100 : 0,
+    }));
+    
+    const sourceStats = calculateSourceStats(qrCodes || [], viewStats || [], voteStats || []);
+    const writeIns = groupWriteIns(voteStats || []);
+    const writeInVotes = writeIns.reduce((sum, group) => sum + group.count, 0);
+    
+    if (poll.vote_type === 'ranked') {
+      const instantRunoff = calculateInstantRunoff(
+        poll.poll_options.map(option => option.id),
+        groupRankedBallots(voteStats || [])
+      );
+      return {
+        totalVotes,
+        uniqueVoters,
+        optionStats,
+        sourceStats,
+        writeInVotes,
+        writeIns,
+        instantRunoff,
+      };
+    }
+    
+    if (poll.vote_type === 'rating' && poll.score_min !== null && poll.score_max !== null) {
+      const ratingStats = calculateRatingStats(
+        poll.poll_options.map(option => option.id),
+        { min: poll.score_min, max: poll.score_max },
+        voteStats || []
+      );
+      return {
+        totalVotes,
+        uniqueVoters,
+        optionStats,
+        sourceStats,
+        writeInVotes,
+        writeIns,
+        ratingStats,
+      };
+    }
+    
+    if (poll.vote_type === 'schedule') {
+      const slotAvailability = calculateSlotAvailability(
+        poll.poll_options.map(option => option.id),
+        voteStats || []
+      );
+      return {
+        totalVotes,
+        uniqueVoters,
+        optionStats,
+        sourceStats,
+        writeInVotes,
+        writeIns,
+        slotAvailability,
+      };
+    }
+    
+    return {
+      totalVotes,
+      uniqueVoters,
+      optionStats,
+      sourceStats,
+      writeInVotes,
+      writeIns,
+    };
+  }
+  
+  /**
+   * Create poll options
+   */
+  private async createOptions(optionsData: CreatePollOptionData[]): Promise<PollOption[]> {
+    // is_correct is write-only for clients, so the returned columns are listed
+    const { data, error } = await supabase
+      .from('poll_options')
+      .insert(optionsData)
+      .select('id, poll_id, text, position, votes_count, image_url, image_caption, starts_at, ends_at, created_at');
+    
+    if (error) {
+      this.handleError(error, 'createOptions');
+    }
+    
+    return data as PollOption[];
+  }
+}
+
+/**
+ * Vote repository class
+ */
+export class VoteRepository extends BaseRepository<Vote> {
+  protected tableName = 'votes';
+  
+  /**
+   * Replace the user's ballot on a poll
+   *
+   * Runs the replace_user_votes database function, which swaps only this user's
+   * votes on this poll in a single transaction and re-checks the poll state under
+   * a row lock, so concurrent voters never clobber each other's ballots or counts.
+   * Scores are only sent for rating and scheduling polls, lined up with the option IDs.
+   * The function trusts the user ID it is given, so it only runs with the service role.
+   */
+  @measurePerformance('voteRepository.submitVotes')
+  async submitVotes(
+    pollId: string,
+    userId: string,
+    optionIds: string[],
+    source: string | null = null,
+    scores: ScoreBallot | null = null,
+    writeIn: string | null = null
+  ): Promise<Vote[]> {
+    const { data, error } = await getSupabaseAdmin().rpc('replace_user_votes', {
+      poll_uuid: pollId,
+      user_uuid: userId,
+      option_uuids: optionIds,
+      vote_source: source,
+      ...toOptionScores(optionIds, scores),
+      ...(writeIn !== null ? { write_in_text: writeIn } : {}),
+    });
+    
+    if (error) {
+      Logger.error('Failed to submit votes', error, {
+        pollId,
+        userId,
+        optionIds,
+      });
+      throw this.toVoteError(error, pollId, optionIds, { userId });
+    }
+    
+    Logger.info('Votes submitted', {
+      pollId,
+      userId,
+      optionCount: optionIds.length,
+      source,
+    });
+    
+    return (data ?? []) as Vote[];
+  }
+  
+  /**
+   * Replace a logged-out voter's ballot on an anonymous poll
+   *
+   * Same transaction and locking as submitVotes, via replace_guest_votes, which also
+   * applies the poll's guest vote limit to the IP address and user agent. The voter
+   * details come from the request, so the function only runs with the service role.
+   */
+  @measurePerformance('voteRepository.submitGuestVotes')
+  async submitGuestVotes(
+    pollId: string,
+    voter: GuestVoterData,
+    optionIds: string[],
+    source: string | null = null,
+    scores: ScoreBallot | null = null,
+    writeIn: string | null = null
+  ): Promise<Vote[]> {
+    const { data, error } = await getSupabaseAdmin().rpc('replace_guest_votes', {
+      poll_uuid: pollId,
+      voter_uuid: voter.voter_token,
+      option_uuids: optionIds,
+      vote_source: source,
+      voter_ip: voter.ip_address ?? null,
+      voter_user_agent: voter.user_agent ?? null,
+      ...toOptionScores(optionIds, scores),
+      ...(writeIn !== null ? { write_in_text: writeIn } : {}),
+    });
+    
+    if (error) {
+      Logger.error('Failed to submit guest votes', error, {
+        pollId,
+        optionIds,
+      });
+      throw this.toVoteError(error, pollId, optionIds, { guest: true });
+    }
+    
+    Logger.info('Guest votes submitted', {
+      pollId,
+      optionCount: optionIds.length,
+      source,
+    });
+    
+    return (data ?? []) as Vote[];
+  }
+  
+  /**
+   * Remove a user's ballot from a poll
+   *
+   * Runs retract_user_votes, which takes the same poll lock as a ballot replacement and
+   * applies the poll's vote change policy. Resolves to the number of vote rows removed.
+   * Like submitVotes, it only runs with the service role.
+   */
+  @measurePerformance('voteRepository.retractVotes')
+  async retractVotes(pollId: string, userId: string): Promise<number> {
+    const { data, error } = await getSupabaseAdmin().rpc('retract_user_votes', {
+      poll_uuid: pollId,
+      user_uuid: userId,
+    });
+    
+    if (error) {
+      Logger.error('Failed to retract votes', error, { pollId, userId });
+      throw this.toVoteError(error, pollId, [], { userId });
+    }
+    
+    Logger.info('Votes retracted', { pollId, userId, removed: data });
+    
+    return (data ?? 0) as number;
+  }
+  
+  /**
+   * Remove a logged-out voter's ballot, via retract_guest_votes
+   */
+  @measurePerformance('voteRepository.retractGuestVotes')
+  async retractGuestVotes(pollId: string, voterToken: string): Promise<number> {
+    const { data, error } = await getSupabaseAdmin().rpc('retract_guest_votes', {
+      poll_uuid: pollId,
+      voter_uuid: voterToken,
+    });
+    
+    if (error) {
+      Logger.error('Failed to retract guest votes', error, { pollId });
+      throw this.toVoteError(error, pollId, [], { guest: true });
+    }
+    
+    Logger.info('Guest votes retracted', { pollId, removed: data });
+    
+    return (data ?? 0) as number;
+  }
+  
+  /**
+   * Turn every write-in matching the text into a vote for a real option
+   *
+   * Runs promote_write_in, which creates the option (or reuses one with the same text)
+   * and moves the votes and their count under the poll lock. It trusts the owner ID it
+   * is given, so it only runs with the service role.
+   */
+  @measurePerformance('voteRepository.promoteWriteIn')
+  async promoteWriteIn(pollId: string, ownerId: string, text: string): Promise<PollOption> {
+    const { data, error } = await getSupabaseAdmin().rpc('promote_write_in', {
+      poll_uuid: pollId,
+      owner_uuid: ownerId,
+      write_in_text: text,
+    });
+    
+    if (error) {
+      Logger.error('Failed to promote write-in', error, { pollId, ownerId });
+      throw this.toVoteError(error, pollId, [], { ownerId });
+    }
+    
+    return data as PollOption;
+  }
+  
+  /**
+   * Get user's votes for a poll
+   */
+  async getUserVotes(pollId: string, userId: string): Promise<Vote[]> {
+    return this.findBy('poll_id', pollId).then(votes =>
+      votes.filter(vote => vote.user_id === userId).sort(byRank)
+    );
+  }
+  
+  /**
+   * Get a logged-out voter's votes for a poll
+   */
+  async getGuestVotes(pollId: string, voterToken: string): Promise<Vote[]> {
+    return this.findBy('poll_id', pollId).then(votes =>
+      votes.filter(vote => vote.voter_token === voterToken).sort(byRank)
+    );
+  }
+  
+  /**
+   * Get the votes on a quiz's questions, for its leaderboard
+   */
+  @measurePerformance('voteRepository.findQuizAnswers')
+  async findQuizAnswers(pollIds: string[]): Promise<QuizAnswerVote[]> {
+    if (pollIds.length === 0) return [];
+    
+    const query = this.table
+      .select('poll_id, option_id, user_id, voter_token, created_at, profiles(username)')
+      .in('poll_id', pollIds);
+    
+    return this.executeQuery<QuizAnswerVote[]>(query, 'findQuizAnswers');
+  }
+  
+  /**
+   * Check if user has voted on poll
+   */
+  async hasUserVoted(pollId: string, userId: string): Promise<boolean> {
+    const votes = await this.getUserVotes(pollId, userId);
+    return votes.length > 0;
+  }
+  
+  /**
+   * Get vote count for poll
+   */
+  async getVoteCount(pollId: string): Promise<number> {
+    return this.count('poll_id', pollId);
+  }
+  
+  /**
+   * Get unique voter count for poll
+   */
+  async getUniqueVoterCount(pollId: string): Promise<number> {
+    // Only the poll's owner can read its votes under RLS
+    const { data } = await getSupabaseAdmin()
+      .from('votes')
+      .select('user_id')
+      .eq('poll_id', pollId);
+    
+    const uniqueVoters = new Set(data?.map(vote => vote.user_id) || []);
+    return uniqueVoters.size;
+  }
+  
+  /**
+   * Map an error raised by the vote replacement functions to the matching domain error
+   */
+  private toVoteError(
+    error: { message: string; details?: string | null },
+    pollId: string,
+    optionIds: string[],
+    context: Record<string, any>
+  ): Error {
+    switch (error.message) {
+      case 'POLL_NOT_FOUND':
+        return new PollNotFoundError(pollId);
+      case 'POLL_NOT_STARTED':
+        return new PollNotStartedError(pollId, new Date(error.details ?? Date.now()));
+      case 'POLL_INACTIVE':
+        return new PollInactiveError(pollId);
+      case 'POLL_EXPIRED':
+        return new PollExpiredError(pollId, new Date(error.details ?? Date.now()));
+      case 'EMPTY_BALLOT':
+        return new InvalidInputError('optionIds', optionIds, 'at least one option is required');
+      case 'MULTIPLE_VOTES_NOT_ALLOWED':
+        return new MultipleVotesNotAllowedError(pollId);
+      case 'SELECTION_LIMIT': {
+        const [min, max] = (error.details ?? ',').split(',').map(limit => (limit ? Number(limit) : null));
+        return new SelectionLimitError(pollId, min ?? null, max ?? null);
+      }
+      case 'INVALID_OPTION':
+        return new BusinessLogicError(`Invalid option IDs: ${error.details}`, { pollId });
+      case 'INVALID_SCORE':
+        return new InvalidInputError(
+          'scores',
+          optionIds,
+          `every option must be scored from ${error.details?.replace('-', ' to ')}`,
+          { pollId }
+        );
+      case 'VOTER_MISMATCH':
+        return new UnauthorizedError('vote on behalf of another user', { pollId, ...context });
+      case 'GUEST_VOTING_DISABLED':
+        return new AuthenticationError('Log in to vote on this poll', { pollId });
+      case 'GUEST_VOTE_LIMIT':
+        return new GuestVoteLimitError(pollId);
+      case 'WRITE_INS_NOT_ALLOWED':
+        return new InvalidInputError('writeIn', null, 'this poll does not accept write-ins', { pollId });
+      case 'WRITE_IN_TOO_LONG':
+        return new InvalidInputError('writeIn', null, 'write-in is too long', { pollId });
+      case 'VOTE_CHANGE_NOT_ALLOWED':
+        return new VoteChangeNotAllowedError(pollId, error.details ? Number(error.details) : null);
+      case 'NOT_POLL_OWNER':
+        return new UnauthorizedError('promote write-ins on this poll', { pollId, ...context });
+      case 'WRITE_IN_NOT_FOUND':
+        return new NotFoundError('Write-in', undefined, { pollId });
+      case 'SURVEY_ALREADY_SUBMITTED':
+        return new SurveyAlreadySubmittedError({ pollId });
+      default:
+        return new DatabaseError(
+          `Vote submission failed on ${this.tableName}`,
+          new Error(error.message),
+          { pollId, ...context }
+        );
+    }
+  }
+}
+
+/**
+ * Poll view repository class
+ */
+export class PollViewRepository extends BaseRepository<PollView> {
+  protected tableName = 'poll_views';
+  
+  /**
+   * Record a poll view, tagged with the QR code source it came from
+   */
+  @measurePerformance('pollViewRepository.recordView')
+  async recordView(data: RecordPollViewData): Promise<PollView> {
+    return this.create({
+      ...data,
+      viewed_at: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Poll status event repository class
+ *
+ * Events are written by the status functions, so this only reads a poll's timeline.
+ */
+export class PollStatusEventRepository extends BaseRepository<PollStatusEvent> {
+  protected tableName = 'poll_status_events';
+  
+  /**
+   * Get a poll's status changes, oldest first
+   */
+  async findByPoll(pollId: string): Promise<PollStatusEvent[]> {
+    return this.findBy('poll_id', pollId, {
+      orderBy: [{ column: 'created_at', ascending: true }],
+    });
+  }
+}
+
+/**
+ * Poll outcome repository class
+ *
+ * Outcomes are written through record_poll_outcome and resolve_poll_tie, which work them out
+ * from the poll under its row lock. Both only run with the service role.
+ */
+export class PollOutcomeRepository extends BaseRepository<PollOutcome> {
+  protected tableName = 'poll_outcomes';
+  
+  /**
+   * Get the outcome declared for a poll, if any
+   */
+  async findByPoll(pollId: string): Promise<PollOutcome | null> {
+    return this.findOneBy('poll_id', pollId);
+  }
+  
+  /**
+   * Declare the outcome of a closed poll
+   *
+   * The database works the outcome out from the poll's counts; an 'extended' outcome also
+   * reopens the poll for another TIE_EXTENSION_HOURS.
+   */
+  @measurePerformance('pollOutcomeRepository.record')
+  async record(pollId: string): Promise<PollOutcome> {
+    const { data, error } = await getSupabaseAdmin().rpc('record_poll_outcome', {
+      poll_uuid: pollId,
+    });
+    
+    if (error) {
+      Logger.error('Failed to record poll outcome', error, { pollId });
+      throw this.toOutcomeError(error, pollId, {});
+    }
+    
+    return data as PollOutcome;
+  }
+  
+  /**
+   * Settle a tie left to the poll's owner by picking the winner
+   *
+   * It trusts the owner ID it is given, so it only runs with the service role.
+   */
+  @measurePerformance('pollOutcomeRepository.resolveTie')
+  async resolveTie(pollId: string, ownerId: string, optionId: string): Promise<PollOutcome> {
+    const { data, error } = await getSupabaseAdmin().rpc('resolve_poll_tie', {
+      poll_uuid: pollId,
+      owner_uuid: ownerId,
+      option_uuid: optionId,
+    });
+    
+    if (error) {
+      Logger.error('Failed to resolve poll tie', error, { pollId, ownerId, optionId });
+      throw this.toOutcomeError(error, pollId, { ownerId, optionId });
+    }
+    
+    return data as PollOutcome;
+  }
+  
+  private toOutcomeError(
+    error: { message: string; details?: string | null },
+    pollId: string,
+    context: Record<string, any>
+  ): Error {
+    switch (error.message) {
+      case 'POLL_NOT_FOUND':
+        return new PollNotFoundError(pollId);
+      case 'NOT_POLL_OWNER':
+        return new UnauthorizedError('decide the outcome of this poll', { pollId, ...context });
+      case 'POLL_NOT_CLOSED':
+        return new BusinessLogicError(`Poll ${pollId} has not closed yet`, { pollId, status: error.details });
+      case 'OUTCOME_NOT_SUPPORTED':
+        return new BusinessLogicError(`Poll ${pollId} has no winner to declare`, { pollId, voteType: error.details });
+      case 'OUTCOME_ALREADY_DECLARED':
+        return new OutcomeAlreadyDeclaredError(pollId);
+      case 'NO_TIE_TO_RESOLVE':
+        return new BusinessLogicError(`Poll ${pollId} has no tie waiting for its owner to decide`, { pollId });
+      case 'INVALID_OPTION':
+        return new InvalidInputError('optionId', context.optionId ?? null, 'pick one of the tied options', { pollId });
+      default:
+        return new DatabaseError(
+          `Declaring the poll outcome failed on ${this.tableName}`,
+          new Error(error.message),
+          { pollId, ...context }
+        );
+    }
+  }
+}
+
+/**
+ * Poll QR code repository class
+ */
+export class PollQRCodeRepository extends BaseRepository<PollQRCode> {
+  protected tableName = 'poll_qr_codes';
+  
+  /**
+   * Get a poll's named QR codes, oldest first
+   */
+  async findByPoll(pollId: string): Promise<PollQRCode[]> {
+    return this.findBy('poll_id', pollId, {
+      orderBy: [{ column: 'created_at', ascending: true }],
+    });
+  }
+}
+
+/**
+ * Poll follow-up repository class
+ *
+ * A link sends voters who chose one of a poll's options on to a follow-up poll.
+ */
+export class PollFollowUpRepository extends BaseRepository<PollFollowUp> {
+  protected tableName = 'poll_follow_ups';
+  
+  /**
+   * Get the links leading to a poll, which voters must meet one of to vote on it
+   */
+  async findByFollowUpPoll(pollId: string): Promise<PollFollowUp[]> {
+    return this.findBy('follow_up_poll_id', pollId);
+  }
+  
+  /**
+   * Get the links leaving any of the given polls
+   */
+  @measurePerformance('pollFollowUpRepository.findByPolls')
+  async findByPolls(pollIds: string[]): Promise<PollFollowUp[]> {
+    if (pollIds.length === 0) return [];
+    
+    const query = this.table.select('*').in('poll_id', pollIds);
+    return this.executeQuery<PollFollowUp[]>(query, 'findByPolls');
+  }
+  
+  /**
+   * Replace the links leaving a poll
+   *
+   * Runs replace_poll_follow_ups, which checks both polls and rejects cycles under a
+   * per-owner lock. It trusts the owner ID it is given, so it only runs with the service role.
+   */
+  @measurePerformance('pollFollowUpRepository.replaceForPoll')
+  async replaceForPoll(
+    pollId: string,
+    ownerId: string,
+    links: Array<Pick<PollFollowUp, 'option_id' | 'follow_up_poll_id'>>
+  ): Promise<PollFollowUp[]> {
+    const { data, error } = await getSupabaseAdmin().rpc('replace_poll_follow_ups', {
+      poll_uuid: pollId,
+      owner_uuid: ownerId,
+      option_uuids: links.map(link => link.option_id),
+      follow_up_uuids: links.map(link => link.follow_up_poll_id),
+    });
+    
+    if (error) {
+      Logger.error('Failed to save follow-up polls', error, { pollId, ownerId });
+      
+      switch (error.message) {
+        case 'POLL_NOT_FOUND':
+          throw new PollNotFoundError(pollId);
+        case 'NOT_POLL_OWNER':
+          throw new UnauthorizedError('link follow-ups to this poll', { pollId, ownerId });
+        case 'INVALID_FOLLOW_UP':
+          throw new InvalidInputError('followUps', links, error.details ?? 'invalid follow-up', { pollId });
+        case 'FOLLOW_UP_CYCLE':
+          throw new FollowUpCycleError(pollId);
+        default:
+          throw new DatabaseError(
+            `Saving follow-ups failed on ${this.tableName}`,
+            new Error(error.message),
+            { pollId }
+          );
+      }
+    }
+    
+    return data as PollFollowUp[];
+  }
+}
+
+/**
+ * Quiz repository class
+ */
+export class QuizRepository extends BaseRepository<Quiz> {
+  protected tableName = 'quizzes';
+  
+  /**
+   * Find a quiz with its questions in order
+   *
+   * Questions carry the same option columns as polls do, so answer keys stay out.
+   */
+  @measurePerformance('quizRepository.findWithQuestions')
+  async findWithQuestions(id: string): Promise<QuizWithQuestions | null> {
+    const query = this.table
+      .select(`
+        *,
+        polls (
+          *,
+          poll_options (
+            id,
+            text,
+            position,
+            votes_count,
+            image_url,
+            image_caption,
+            starts_at,
+            ends_at
+          ),
+          profiles (
+            id,
+            username,
+            first_name,
+            last_name,
+            avatar_url
+          )
+        )
+      `)
+      .eq('id', id)
+      .order('position', { referencedTable: 'polls.poll_options' });
+    
+    try {
+      const quiz = await this.executeQuery<QuizWithQuestions>(query, 'findWithQuestions', true);
+      quiz.polls.sort((a, b) => (a.quiz_position ?? 0) - (b.quiz_position ?? 0));
+      return quiz;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('PGRST116')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Get a user's quizzes, newest first
+   */
+  async findByUser(userId: string): Promise<Quiz[]> {
+    return this.findBy('created_by', userId, {
+      orderBy: [{ column: 'created_at', ascending: false }],
+    });
+  }
+  
+  /**
+   * Check if user owns quiz
+   */
+  async isOwner(quizId: string, userId: string): Promise<boolean> {
+    const quiz = await this.findById(quizId, 'created_by');
+    return quiz?.created_by === userId;
+  }
+}
+
+/**
+ * Survey repository class
+ */
+export class SurveyRepository extends BaseRepository<Survey> {
+  protected tableName = 'surveys';
+  
+  /**
+   * Find a survey with its questions in order
+   */
+  @measurePerformance('surveyRepository.findWithQuestions')
+  async findWithQuestions(id: string): Promise<SurveyWithQuestions | null> {
+    const query = this.table
+      .select(`
+        *,
+        polls (
+          *,
+          poll_options (
+            id,
+            text,
+            position,
+            votes_count,
+            image_url,
+            image_caption,
+            starts_at,
+            ends_at
+          ),
+          profiles (
+            id,
+            username,
+            first_name,
+            last_name,
+            avatar_url
+          )
+        )
+      `)
+      .eq('id', id)
+      .order('position', { referencedTable: 'polls.poll_options' });
+    
+    try {
+      const survey = await this.executeQuery<SurveyWithQuestions>(query, 'findWithQuestions', true);
+      survey.polls.sort((a, b) => (a.survey_position ?? 0) - (b.survey_position ?? 0));
+      return survey;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('PGRST116')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Get a user's surveys, newest first
+   */
+  async findByUser(userId: string): Promise<Survey[]> {
+    return this.findBy('created_by', userId, {
+      orderBy: [{ column: 'created_at', ascending: false }],
+    });
+  }
+}
+
+/**
+ * Survey response repository class
+ *
+ * Responses are started and advanced by the vote functions as respondents answer
+ * questions, so the only write here is the submission.
+ */
+export class SurveyResponseRepository extends BaseRepository<SurveyResponse> {
+  protected tableName = 'survey_responses';
+  
+  /**
+   * Get one respondent's response to a survey, null before their first answer
+   */
+  async findByRespondent(
+    surveyId: string,
+    respondent: SurveyRespondent
+  ): Promise<SurveyResponse | null> {
+    const [column, value] = respondent.user_id
+      ? ['user_id', respondent.user_id]
+      : ['voter_token', respondent.voter_token ?? ''];
+    const query = this.table.select('*').eq('survey_id', surveyId).eq(column, value);
+    
+    try {
+      return await this.executeQuery<SurveyResponse>(query, 'findByRespondent', true);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('PGRST116')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Get every response to a survey, for its completion and drop-off rates
+   */
+  async findBySurvey(surveyId: string): Promise<SurveyResponse[]> {
+    return this.findBy('survey_id', surveyId, {
+      select: 'id, survey_id, furthest_position, started_at, updated_at, submitted_at',
+    });
+  }
+  
+  /**
+   * Submit a respondent's response
+   *
+   * Runs submit_survey_response, which checks under a row lock that every question has
+   * an answer and that the response wasn't submitted already. It trusts the respondent
+   * it is given, so it only runs with the service role.
+   */
+  @measurePerformance('surveyResponseRepository.submit')
+  async submit(surveyId: string, respondent: SurveyRespondent): Promise<SurveyResponse> {
+    const { data, error } = await getSupabaseAdmin().rpc('submit_survey_response', {
+      survey_uuid: surveyId,
+      user_uuid: respondent.user_id ?? null,
+      voter_uuid: respondent.voter_token ?? null,
+    });
+    
+    if (error) {
+      Logger.error('Failed to submit survey response', error, { surveyId });
+      switch (error.message) {
+        case 'SURVEY_NOT_STARTED':
+          throw new SurveyIncompleteError(surveyId, 1);
+        case 'SURVEY_INCOMPLETE':
+          throw new SurveyIncompleteError(surveyId, error.details ? Number(error.details) : null);
+        case 'SURVEY_ALREADY_SUBMITTED':
+          throw new SurveyAlreadySubmittedError({ surveyId });
+        case 'VOTER_MISMATCH':
+          throw new UnauthorizedError('submit a survey on behalf of another user', { surveyId });
+        default:
+          throw new DatabaseError(
+            `Survey submission failed on ${this.tableName}`,
+            new Error(error.message),
+            { surveyId }
+          );
+      }
+    }
+    
+    return data as SurveyResponse;
+  }
+}
+
+// Export singleton instances
+export const pollRepository = new PollRepository();
+export const voteRepository = new VoteRepository();
+export const pollViewRepository = new PollViewRepository();
+export const pollStatusEventRepository = new PollStatusEventRepository();
+export const pollOutcomeRepository = new PollOutcomeRepository();
+export const pollQRCodeRepository = new PollQRCodeRepository();
+export const pollFollowUpRepository = new PollFollowUpRepository();
+export const quizRepository = new QuizRepository();
+export const surveyRepository = new SurveyRepository();
+export const surveyResponseRepository = new SurveyResponseRepository();
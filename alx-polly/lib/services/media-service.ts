@@ -0,0 +1,99 @@
+/**
+ * Media service for images attached to poll options
+ */
+
+import { randomUUID } from 'crypto';
+import { getStorageAdapter } from '../storage/storage-adapter';
+import { Logger, measurePerformance } from '../utils/logger';
+import {
+  FileTooLargeError,
+  InvalidInputError,
+  NotFoundError,
+  UnsupportedMediaTypeError,
+} from '../errors/custom-errors';
+import {
+  OPTION_IMAGE_MAX_BYTES,
+  OPTION_IMAGE_TYPES,
+  detectImageType,
+  formatFileSize,
+  getUploadUrl,
+  isOptionImageType,
+  isValidUploadKey,
+} from '../../utils/media-utils';
+
+export interface UploadedImage {
+  key: string;
+  url: string;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * Media service class
+ */
+export class MediaService {
+  /**
+   * Store an uploaded option image after checking its size and type
+   *
+   * The type is taken from the file's contents; a declared type that doesn't match is rejected.
+   */
+  @measurePerformance('mediaService.uploadOptionImage')
+  static async uploadOptionImage(
+    file: { data: Buffer; contentType: string },
+    userId: string
+  ): Promise<UploadedImage> {
+    if (file.data.length === 0) {
+      throw new InvalidInputError('file', null, 'file is empty');
+    }
+
+    if (file.data.length > OPTION_IMAGE_MAX_BYTES) {
+      throw new FileTooLargeError(formatFileSize(OPTION_IMAGE_MAX_BYTES), {
+        size: file.data.length,
+      });
+    }
+
+    const detectedType = detectImageType(file.data);
+    if (!detectedType || !isOptionImageType(file.contentType) || detectedType !== file.contentType) {
+      throw new UnsupportedMediaTypeError('Option images must be PNG, JPEG, GIF or WebP files', {
+        declaredType: file.contentType,
+        detectedType,
+      });
+    }
+
+    const key = `option-images/${userId}/${randomUUID()}.${OPTION_IMAGE_TYPES[detectedType]}`;
+
+    try {
+      const stored = await getStorageAdapter().save(key, file.data, detectedType);
+
+      Logger.info('Option image uploaded', {
+        userId,
+        key,
+        size: stored.size,
+      });
+
+      return { ...stored, url: getUploadUrl(key) };
+    } catch (error) {
+      Logger.error('Failed to store option image', error as Error, {
+        userId,
+        key,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Read an uploaded file back for serving
+   */
+  static async readUpload(key: string): Promise<{ data: Buffer; contentType: string }> {
+    if (!isValidUploadKey(key)) {
+      throw new NotFoundError('Upload');
+    }
+
+    const file = await getStorageAdapter().read(key);
+    if (!file) {
+      throw new NotFoundError('Upload');
+    }
+
+    return file;
+  }
+}
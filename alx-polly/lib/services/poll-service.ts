@@ -1,239 +1,1874 @@
-import { supabase } from '@/lib/supabase';
-import { Database, InsertPoll, InsertPollOption, Poll, PollWithOptions } from '@/types/database';
-import { CreatePollFormData } from '@/types';
+/**
+ * Poll service layer with business logic
+ */
 
+import {
+  pollRepository,
+  voteRepository,
+  pollViewRepository,
+  pollStatusEventRepository,
+  pollOutcomeRepository,
+  pollQRCodeRepository,
+  pollFollowUpRepository,
+  quizRepository,
+  surveyRepository,
+  surveyResponseRepository,
+} from '../repositories/poll-repository';
+import type { CreatePollData, SurveyRespondent } from '../repositories/poll-repository';
+import {
+  validateAndThrowPoll,
+  validateAndThrowEditPoll,
+  validateAndThrowQuiz,
+  validateAndThrowSurvey,
+  validateAndThrowVote,
+  validateAndThrowRatingBallot,
+  validateAndThrowAvailabilityBallot,
+  validateAndThrowWriteIn,
+  validateAndThrowQRCodeName,
+  validateAndThrowSourceTag,
+  validateAndThrowFollowUps,
+} from '../validators/poll-validators';
+import { AppConfig } from '../config/app-config';
+import { Logger } from '../utils/logger';
+import { measurePerformance } from '../utils/logger';
+import {
+  AuthenticationError,
+  NotFoundError,
+  PollNotFoundError,
+  QuizNotFoundError,
+  SurveyNotFoundError,
+  SurveyAlreadySubmittedError,
+  SurveyIncompleteError,
+  UnauthorizedError,
+  PollExpiredError,
+  PollInactiveError,
+  PollNotStartedError,
+  PollSlugTakenError,
+  FollowUpCycleError,
+  FollowUpNotEligibleError,
+  MultipleVotesNotAllowedError,
+  SelectionLimitError,
+  BusinessLogicError,
+  InvalidInputError,
+  InvalidStatusTransitionError,
+  OutcomeAlreadyDeclaredError,
+  VoteChangeNotAllowedError,
+} from '../errors/custom-errors';
+import { createSourceTag, getPollQRCodePath } from '../../utils/qr-utils';
+import { AVAILABILITY_SCALE, findBestSlot } from '../../utils/schedule-utils';
+import {
+  DEFAULT_GUEST_VOTE_LIMIT,
+  DEFAULT_RESULTS_VISIBILITY,
+  DEFAULT_TIE_STRATEGY,
+  DEFAULT_VOTE_CHANGE_POLICY,
+  GENERATED_SLUG_LENGTH,
+  allowsGuestVoting,
+  calculateQuizLeaderboard,
+  calculateSurveyFunnel,
+  canChangeVote,
+  canTransitionPollStatus,
+  canViewPollResults,
+  findFollowUpCycle,
+  generatePollSlug,
+  getBallotCastAt,
+  isQuizAnswerCorrect,
+  isWithinSelectionLimits,
+  meetsFollowUpCondition,
+  normalizePollSlug,
+  supportsCloseRules,
+  toPoll,
+  toQuizParticipantId,
+  toScoreBallot,
+  toSurveyProgress,
+  withholdPollResults,
+} from '../../utils/poll-utils';
+import type {
+  AnswerFeedback,
+  CreatePollFormData,
+  CreateQuizFormData,
+  CreateSurveyFormData,
+  DeclaredOutcome,
+  EditPollFormData,
+  PollFollowUpLink,
+  PollStatus,
+  PollStatusChange,
+  QuizLeaderboardEntry,
+  ScoreBallot,
+  SurveyFunnel,
+  SurveyProgress,
+} from '../../types';
+import type {
+  PollWithOptions,
+  Poll,
+  PollOption,
+  PollOutcome,
+  PollQRCode,
+  PollFollowUp,
+  Quiz,
+  QuizWithQuestions,
+  Survey,
+  SurveyWithQuestions,
+  Vote,
+} from '../../types/database';
+
+export interface PollServiceResult<T = any> {
+  success: true;
+  data: T;
+}
+
+export interface PollServiceError {
+  success: false;
+  error: string;
+  code?: string;
+}
+
+export type PollServiceResponse<T = any> = PollServiceResult<T> | PollServiceError;
+
+/**
+ * Poll service class
+ */
 export class PollService {
   /**
-   * Create a new poll with options
+   * Create a new poll
    */
-  static async createPoll(pollData: CreatePollFormData, userId: string): Promise<PollWithOptions> {
+  @measurePerformance('pollService.createPoll')
+  static async createPoll(
+    formData: CreatePollFormData,
+    userId: string
+  ): Promise<PollWithOptions> {
+    // Validate input data
+    validateAndThrowPoll(formData);
+    
+    // Generate the ID up front so the QR code URL can be stored with the poll
+    const pollId = crypto.randomUUID();
+    const slug = await this.resolveSlug(formData.slug);
+    const voteType = formData.voteType ?? (formData.allowMultipleVotes ? 'multiple' : 'single');
+    // Availability is scored like a rating, on a fixed scale
+    const scoreScale =
+      voteType === 'rating' ? formData.ratingScale : voteType === 'schedule' ? AVAILABILITY_SCALE : undefined;
+    
+    // Quiz questions are numbered in the order they are added
+    let quizPosition: number | null = null;
+    if (formData.quizId) {
+      await this.requireOwnedQuiz(formData.quizId, userId, 'add questions to this quiz');
+      quizPosition = await pollRepository.getNextQuizPosition(formData.quizId);
+    }
+    
+    let surveyPosition: number | null = null;
+    if (formData.surveyId) {
+      await this.requireOwnedSurvey(formData.surveyId, userId, 'add questions to this survey');
+      surveyPosition = await pollRepository.getNextSurveyPosition(formData.surveyId);
+    }
+    
+    // Prepare poll data
+    const pollData: CreatePollData = {
+      id: pollId,
+      title: formData.title.trim(),
+      description: formData.description?.trim() || null,
+      slug,
+      created_by: userId,
+      expires_at: formData.expiresAt ? formData.expiresAt.toISOString() : null,
+      starts_at: formData.startsAt ? formData.startsAt.toISOString() : null,
+      allow_multiple_votes: voteType === 'multiple',
+      vote_type: voteType,
+      min_selections: voteType === 'multiple' ? formData.minSelections ?? null : null,
+      max_selections: voteType === 'multiple' ? formData.maxSelections ?? null : null,
+      score_min: scoreScale?.min ?? null,
+      score_max: scoreScale?.max ?? null,
+      time_zone: voteType === 'schedule' ? formData.timeZone ?? null : null,
+      allow_write_ins: (voteType === 'single' || voteType === 'multiple') && !!formData.allowWriteIns,
+      // Quiz answers are final once the participant has seen whether they were right
+      vote_change_policy: formData.quizId
+        ? 'never'
+        : formData.voteChangePolicy ?? DEFAULT_VOTE_CHANGE_POLICY,
+      vote_change_window_minutes:
+        formData.voteChangePolicy === 'window' ? formData.voteChangeWindowMinutes ?? null : null,
+      results_visibility: formData.resultsVisibility ?? DEFAULT_RESULTS_VISIBILITY,
+      close_after_votes: formData.closeAfterVotes ?? null,
+      close_on_decisive_lead: !!formData.closeOnDecisiveLead,
+      quorum: formData.quorum ?? null,
+      tie_strategy: formData.tieStrategy ?? DEFAULT_TIE_STRATEGY,
+      quiz_id: formData.quizId ?? null,
+      quiz_position: quizPosition,
+      survey_id: formData.surveyId ?? null,
+      survey_position: surveyPosition,
+      is_anonymous: formData.isAnonymous || false,
+      guest_vote_limit: formData.guestVoteLimit ?? DEFAULT_GUEST_VOTE_LIMIT,
+      // Scheduled polls wait for the sweeper to open them
+      status: formData.isDraft ? 'draft' : formData.startsAt ? 'scheduled' : 'open',
+      qr_code_url: getPollQRCodePath(pollId),
+    };
+    
+    // Prepare options data
+    const optionsData = formData.options.map((option, index) => ({
+      poll_id: '', // Will be set by repository
+      text: option.trim(),
+      position: index,
+      is_correct: !!formData.correctOptions?.includes(index),
+      image_url: formData.optionMedia?.[index]?.imageUrl.trim() || null,
+      image_caption: formData.optionMedia?.[index]?.caption?.trim() || null,
+      starts_at: voteType === 'schedule' ? formData.slots?.[index]?.startsAt.toISOString() ?? null : null,
+      ends_at: voteType === 'schedule' ? formData.slots?.[index]?.endsAt.toISOString() ?? null : null,
+    }));
+    
     try {
-      // Start a transaction by creating the poll first
-      const { data: poll, error: pollError } = await supabase
-        .from('polls')
-        .insert({
-          title: pollData.title,
-          description: pollData.description || null,
-          created_by: userId,
-          expires_at: pollData.expiresAt ? pollData.expiresAt.toISOString() : null,
-          allow_multiple_votes: pollData.allowMultipleVotes,
-          is_anonymous: pollData.isAnonymous,
-          is_active: true,
-        } satisfies InsertPoll)
-        .select()
-        .single();
-
-      if (pollError) {
-        console.error('Error creating poll:', pollError);
-        throw new Error(`Failed to create poll: ${pollError.message}`);
+      const poll = await pollRepository.createWithOptions(pollData, optionsData);
+      
+      Logger.info('Poll created successfully', {
+        pollId: poll.id,
+        userId,
+        title: poll.title,
+        slug: poll.slug,
+        optionsCount: poll.poll_options.length,
+      });
+      
+      return poll;
+    } catch (error) {
+      Logger.error('Failed to create poll', error as Error, {
+        userId,
+        title: formData.title,
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Get poll by ID
+   */
+  @measurePerformance('pollService.getPoll')
+  static async getPoll(pollId: string): Promise<PollWithOptions> {
+    const poll = await pollRepository.findWithOptions(pollId);
+    
+    if (!poll) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    return poll;
+  }
+  
+  /**
+   * Get a poll as a viewer sees it, with the vote counts blanked while its results are hidden from them
+   */
+  @measurePerformance('pollService.getPollForViewer')
+  static async getPollForViewer(
+    pollId: string,
+    viewer: { userId?: string | null; voterToken?: string | null } = {}
+  ): Promise<PollWithOptions> {
+    const poll = await this.getVisiblePoll(pollId, viewer.userId);
+    
+    return (await this.canViewResults(poll, viewer)) ? poll : withholdPollResults(poll);
+  }
+  
+  /**
+   * Get a poll unless it is a draft of somebody other than the viewer
+   */
+  private static async getVisiblePoll(
+    pollId: string,
+    viewerId?: string | null
+  ): Promise<PollWithOptions> {
+    const poll = await this.getPoll(pollId);
+    
+    if (poll.status === 'draft' && poll.created_by !== viewerId) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    return poll;
+  }
+  
+  /**
+   * Get poll by short slug, unless it is a draft of somebody other than the viewer
+   */
+  @measurePerformance('pollService.getPollBySlug')
+  static async getPollBySlug(slug: string, viewerId?: string | null): Promise<PollWithOptions> {
+    const poll = await pollRepository.findBySlugWithOptions(normalizePollSlug(slug));
+    
+    if (!poll || (poll.status === 'draft' && poll.created_by !== viewerId)) {
+      throw new NotFoundError('Poll', slug);
+    }
+    
+    return poll;
+  }
+  
+  /**
+   * Update poll
+   */
+  @measurePerformance('pollService.updatePoll')
+  static async updatePoll(
+    pollId: string,
+    formData: Partial<EditPollFormData>,
+    userId: string
+  ): Promise<Poll> {
+    // Check if poll exists and user owns it
+    const existingPoll = await pollRepository.findById(pollId);
+    if (!existingPoll) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    if (existingPoll.created_by !== userId) {
+      throw new UnauthorizedError('edit this poll');
+    }
+    
+    // Validate input data
+    validateAndThrowEditPoll(formData);
+    
+    // Quiz questions keep the shape their answer key was written for
+    if (existingPoll.quiz_id) {
+      const voteType =
+        formData.voteType ??
+        (formData.allowMultipleVotes === undefined
+          ? existingPoll.vote_type
+          : formData.allowMultipleVotes ? 'multiple' : 'single');
+      
+      if (voteType !== existingPoll.vote_type) {
+        throw new InvalidInputError('voteType', voteType, 'quiz questions cannot change vote type', {
+          pollId,
+        });
       }
-
-      // Create poll options
-      const optionsToInsert: InsertPollOption[] = pollData.options.map((optionText) => ({
-        poll_id: poll.id,
-        text: optionText,
-      }));
-
-      const { data: options, error: optionsError } = await supabase
-        .from('poll_options')
-        .insert(optionsToInsert)
-        .select();
-
-      if (optionsError) {
-        console.error('Error creating poll options:', optionsError);
-        // Clean up the poll if options creation failed
-        await supabase.from('polls').delete().eq('id', poll.id);
-        throw new Error(`Failed to create poll options: ${optionsError.message}`);
+      
+      if (formData.allowWriteIns) {
+        throw new InvalidInputError('allowWriteIns', true, 'quiz questions cannot accept write-ins', {
+          pollId,
+        });
       }
-
-      // Get the user profile for the response
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
-
-      return {
-        ...poll,
-        poll_options: options || [],
-        profiles: profile!,
-      };
+      
+      if (formData.voteChangePolicy !== undefined && formData.voteChangePolicy !== 'never') {
+        throw new InvalidInputError('voteChangePolicy', formData.voteChangePolicy, 'quiz answers cannot be changed', {
+          pollId,
+        });
+      }
+    }
+    
+    // The slots are the options of a scheduling poll, so it stays one
+    if (existingPoll.vote_type === 'schedule') {
+      const changesVoteType =
+        (formData.voteType !== undefined && formData.voteType !== 'schedule') ||
+        formData.allowMultipleVotes !== undefined;
+      
+      if (changesVoteType) {
+        throw new InvalidInputError(
+          'voteType',
+          formData.voteType ?? formData.allowMultipleVotes,
+          'scheduling polls cannot change vote type',
+          { pollId }
+        );
+      }
+    }
+    
+    // Results shown after close need a poll that closes
+    const resultsVisibility = formData.resultsVisibility ?? existingPoll.results_visibility;
+    const expiresAt =
+      formData.expiresAt !== undefined ? formData.expiresAt : existingPoll.expires_at;
+    if (resultsVisibility === 'after_close' && !expiresAt) {
+      throw new InvalidInputError(
+        'resultsVisibility',
+        resultsVisibility,
+        'set an expiration date to show results after the poll closes',
+        { pollId }
+      );
+    }
+    
+    if (
+      formData.expiresAt &&
+      existingPoll.starts_at &&
+      formData.expiresAt <= new Date(existingPoll.starts_at)
+    ) {
+      throw new InvalidInputError(
+        'expiresAt',
+        formData.expiresAt.toISOString(),
+        'the poll must expire after it starts',
+        { pollId, startsAt: existingPoll.starts_at }
+      );
+    }
+    
+    if (
+      (existingPoll.quiz_id || existingPoll.survey_id) &&
+      formData.resultsVisibility !== undefined &&
+      formData.resultsVisibility !== 'always'
+    ) {
+      throw new InvalidInputError(
+        'resultsVisibility',
+        formData.resultsVisibility,
+        'quiz and survey questions always show their results',
+        { pollId }
+      );
+    }
+    
+    if (
+      existingPoll.survey_id &&
+      formData.voteChangePolicy !== undefined &&
+      formData.voteChangePolicy !== 'until_close'
+    ) {
+      throw new InvalidInputError(
+        'voteChangePolicy',
+        formData.voteChangePolicy,
+        'survey answers can be changed until the survey is submitted',
+        { pollId }
+      );
+    }
+    
+    // Drafts have no votes yet, so their options can still be reworded, added or removed
+    if (formData.options !== undefined) {
+      if (existingPoll.status !== 'draft') {
+        throw new InvalidInputError('options', formData.options, 'options can only be edited while the poll is a draft', {
+          pollId,
+        });
+      }
+      
+      if (existingPoll.vote_type === 'schedule' || existingPoll.quiz_id || existingPoll.survey_id) {
+        throw new InvalidInputError(
+          'options',
+          formData.options,
+          'the options of scheduling polls, quiz and survey questions are set when they are created',
+          { pollId }
+        );
+      }
+    }
+    
+    // Prepare update data
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+    
+    if (formData.title !== undefined) {
+      updateData.title = formData.title.trim();
+    }
+    
+    if (formData.description !== undefined) {
+      updateData.description = formData.description?.trim() || null;
+    }
+    
+    if (formData.expiresAt !== undefined) {
+      updateData.expires_at = formData.expiresAt ? formData.expiresAt.toISOString() : null;
+    }
+    
+    // allow_multiple_votes mirrors vote_type, so keep the two in step
+    if (formData.voteType !== undefined) {
+      updateData.vote_type = formData.voteType;
+      updateData.allow_multiple_votes = formData.voteType === 'multiple';
+      // Write-ins only exist on single and multiple-choice polls
+      if (formData.voteType !== 'single' && formData.voteType !== 'multiple') {
+        updateData.allow_write_ins = false;
+      }
+    } else if (formData.allowMultipleVotes !== undefined) {
+      updateData.vote_type = formData.allowMultipleVotes ? 'multiple' : 'single';
+      updateData.allow_multiple_votes = formData.allowMultipleVotes;
+    }
+    
+    if (formData.minSelections !== undefined) {
+      updateData.min_selections = formData.minSelections;
+    }
+    
+    if (formData.maxSelections !== undefined) {
+      updateData.max_selections = formData.maxSelections;
+    }
+    
+    if (formData.allowWriteIns !== undefined && updateData.allow_write_ins === undefined) {
+      updateData.allow_write_ins = formData.allowWriteIns;
+    }
+    
+    // The window length only means something for the 'window' policy
+    if (formData.voteChangePolicy !== undefined) {
+      updateData.vote_change_policy = formData.voteChangePolicy;
+      updateData.vote_change_window_minutes =
+        formData.voteChangePolicy === 'window' ? formData.voteChangeWindowMinutes ?? null : null;
+    }
+    
+    if (formData.resultsVisibility !== undefined) {
+      updateData.results_visibility = formData.resultsVisibility;
+    }
+    
+    if (formData.isAnonymous !== undefined) {
+      updateData.is_anonymous = formData.isAnonymous;
+    }
+    
+    if (formData.guestVoteLimit !== undefined) {
+      updateData.guest_vote_limit = formData.guestVoteLimit;
+    }
+    
+    try {
+      if (formData.options !== undefined) {
+        await pollRepository.replaceOptions(
+          pollId,
+          formData.options.map(option => ({ id: option.id || undefined, text: option.text.trim() }))
+        );
+      }
+      
+      const updatedPoll = await pollRepository.update(pollId, updateData);
+      
+      Logger.info('Poll updated successfully', {
+        pollId,
+        userId,
+        updatedFields: Object.keys(updateData),
+      });
+      
+      return updatedPoll;
     } catch (error) {
-      console.error('Error in createPoll:', error);
+      Logger.error('Failed to update poll', error as Error, {
+        pollId,
+        userId,
+      });
       throw error;
     }
   }
-
+  
   /**
-   * Get all active polls with their options
+   * Delete poll
    */
-  static async getActivePolls(): Promise<PollWithOptions[]> {
+  @measurePerformance('pollService.deletePoll')
+  static async deletePoll(pollId: string, userId: string): Promise<void> {
+    // Check if poll exists and user owns it
+    const existingPoll = await pollRepository.findById(pollId);
+    if (!existingPoll) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    if (existingPoll.created_by !== userId) {
+      throw new UnauthorizedError('delete this poll');
+    }
+    
     try {
-      const { data, error } = await supabase
-        .from('polls')
-        .select(`
-          *,
-          poll_options (*),
-          profiles (*)
-        `)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching polls:', error);
-        throw new Error(`Failed to fetch polls: ${error.message}`);
+      await pollRepository.delete(pollId);
+      
+      Logger.info('Poll deleted successfully', {
+        pollId,
+        userId,
+        title: existingPoll.title,
+      });
+    } catch (error) {
+      Logger.error('Failed to delete poll', error as Error, {
+        pollId,
+        userId,
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Move a poll to another lifecycle status
+   *
+   * The move must be listed in POLL_STATUS_TRANSITIONS; the database checks it again under
+   * the poll lock and records it on the poll's timeline.
+   */
+  @measurePerformance('pollService.transitionPollStatus')
+  static async transitionPollStatus(
+    pollId: string,
+    userId: string,
+    status: PollStatus
+  ): Promise<Poll> {
+    // Check if poll exists and user owns it
+    const existingPoll = await pollRepository.findById(pollId);
+    if (!existingPoll) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    if (existingPoll.created_by !== userId) {
+      throw new UnauthorizedError('modify this poll');
+    }
+    
+    if (!canTransitionPollStatus(existingPoll.status, status)) {
+      throw new InvalidStatusTransitionError(pollId, existingPoll.status, status);
+    }
+    
+    try {
+      const updatedPoll = await pollRepository.transitionStatus(pollId, userId, status);
+      
+      Logger.info('Poll status changed', {
+        pollId,
+        userId,
+        oldStatus: existingPoll.status,
+        newStatus: status,
+      });
+      
+      if (status === 'closed') {
+        await this.declareOutcomeQuietly(pollId);
       }
-
-      return data || [];
+      
+      return updatedPoll;
     } catch (error) {
-      console.error('Error in getActivePolls:', error);
+      Logger.error('Failed to change poll status', error as Error, {
+        pollId,
+        userId,
+        status,
+      });
       throw error;
     }
   }
-
+  
+  /**
+   * Toggle poll status
+   *
+   * Pauses an open poll or resumes a paused one; other statuses need transitionPollStatus.
+   */
+  @measurePerformance('pollService.togglePollStatus')
+  static async togglePollStatus(
+    pollId: string,
+    userId: string
+  ): Promise<{ poll: Poll; isActive: boolean }> {
+    const existingPoll = await pollRepository.findById(pollId);
+    if (!existingPoll) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    const poll = await this.transitionPollStatus(
+      pollId,
+      userId,
+      existingPoll.status === 'paused' ? 'open' : 'paused'
+    );
+    
+    return {
+      poll,
+      isActive: poll.status === 'open',
+    };
+  }
+  
+  /**
+   * Get the status changes of a poll, oldest first
+   *
+   * Only the poll creator sees the timeline.
+   */
+  @measurePerformance('pollService.getPollTimeline')
+  static async getPollTimeline(pollId: string, userId: string): Promise<PollStatusChange[]> {
+    const existingPoll = await pollRepository.findById(pollId);
+    if (!existingPoll) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    if (existingPoll.created_by !== userId) {
+      throw new UnauthorizedError('view the status history of this poll');
+    }
+    
+    const events = await pollStatusEventRepository.findByPoll(pollId);
+    return events.map(event => ({
+      fromStatus: event.from_status,
+      toStatus: event.to_status,
+      changedBy: event.changed_by ?? undefined,
+      changedAt: new Date(event.created_at),
+    }));
+  }
+  
   /**
-   * Get a specific poll by ID with options
+   * Declare the official outcome of a poll that has closed
+   *
+   * The database works the outcome out from the poll's counts and stores it once per close, so
+   * calling this again returns the outcome already declared. A tie under the 'extend' strategy
+   * reopens the poll for another TIE_EXTENSION_HOURS instead. Returns null for polls that are not
+   * closed or have no winner to declare.
    */
-  static async getPollById(pollId: string): Promise<PollWithOptions | null> {
+  @measurePerformance('pollService.declarePollOutcome')
+  static async declarePollOutcome(pollId: string): Promise<DeclaredOutcome | null> {
+    const poll = await this.getPoll(pollId);
+    if (poll.status !== 'closed' || !supportsCloseRules(toPoll(poll))) {
+      return null;
+    }
+    
+    const previous = await pollOutcomeRepository.findByPoll(pollId);
+    if (previous && poll.closed_at && new Date(previous.decided_at) >= new Date(poll.closed_at)) {
+      return this.toDeclaredOutcome(previous);
+    }
+    
     try {
-      const { data, error } = await supabase
-        .from('polls')
-        .select(`
-          *,
-          poll_options (*),
-          profiles (*)
-        `)
-        .eq('id', pollId)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // Poll not found
-          return null;
-        }
-        console.error('Error fetching poll:', error);
-        throw new Error(`Failed to fetch poll: ${error.message}`);
+      const outcome = await pollOutcomeRepository.record(pollId);
+      
+      Logger.info('Poll outcome declared', {
+        pollId,
+        status: outcome.status,
+        winnerOptionIds: outcome.winner_option_ids,
+      });
+      
+      return this.toDeclaredOutcome(outcome);
+    } catch (error) {
+      // A concurrent request declared it between our read and write
+      if (error instanceof OutcomeAlreadyDeclaredError) {
+        const declared = await pollOutcomeRepository.findByPoll(pollId);
+        return declared ? this.toDeclaredOutcome(declared) : null;
       }
-
-      return data;
+      throw error;
+    }
+  }
+  
+  /**
+   * Get the declared outcome of a poll, as a viewer may see it
+   *
+   * A closed poll without an outcome yet, e.g. one the database sweeper closed, has it declared
+   * here. An extension is shown while the extra round runs; other outcomes once the poll is
+   * closed or archived. Null when there is nothing to show or the results are hidden from the viewer.
+   */
+  @measurePerformance('pollService.getPollOutcome')
+  static async getPollOutcome(
+    pollId: string,
+    viewer: { userId?: string | null; voterToken?: string | null } = {}
+  ): Promise<DeclaredOutcome | null> {
+    const poll = await this.getVisiblePoll(pollId, viewer.userId);
+    if (!supportsCloseRules(toPoll(poll)) || !(await this.canViewResults(poll, viewer))) {
+      return null;
+    }
+    
+    if (poll.status === 'closed') {
+      return this.declarePollOutcome(pollId);
+    }
+    
+    const outcome = await pollOutcomeRepository.findByPoll(pollId);
+    if (!outcome) return null;
+    
+    const isCurrent = outcome.status === 'extended' ? poll.status === 'open' : poll.status === 'archived';
+    return isCurrent ? this.toDeclaredOutcome(outcome) : null;
+  }
+  
+  /**
+   * Settle a tie left to the poll's owner by picking one of the tied options as the winner
+   */
+  @measurePerformance('pollService.resolvePollTie')
+  static async resolvePollTie(
+    pollId: string,
+    userId: string,
+    optionId: string
+  ): Promise<DeclaredOutcome> {
+    await this.requireOwnedPoll(pollId, userId, 'decide the outcome of this poll');
+    
+    const outcome = await pollOutcomeRepository.resolveTie(pollId, userId, optionId);
+    
+    Logger.info('Poll tie resolved', { pollId, userId, optionId });
+    
+    return this.toDeclaredOutcome(outcome);
+  }
+  
+  /**
+   * Submit vote
+   *
+   * Rating polls also take the voter's score for each option, and polls with write-ins
+   * the voter's own answer to the "Other" choice.
+   */
+  @measurePerformance('pollService.submitVote')
+  static async submitVote(
+    pollId: string,
+    optionIds: string[],
+    userId: string,
+    source: string | null = null,
+    scores: ScoreBallot | null = null,
+    writeIn: string | null = null
+  ): Promise<void> {
+    const poll = await this.getPoll(pollId);
+    this.assertVotable(poll, optionIds, source, scores, writeIn);
+    await this.assertSurveyResponseOpen(poll, { user_id: userId });
+    await this.assertFollowUpEligible(poll, earlierPollId =>
+      voteRepository.getUserVotes(earlierPollId, userId)
+    );
+    
+    // Voting again replaces the existing ballot, which the poll may not allow
+    const existingVotes = await voteRepository.getUserVotes(pollId, userId);
+    if (existingVotes.length > 0) {
+      this.assertBallotChangeable(poll, existingVotes);
+      Logger.info('Replacing existing vote', { pollId, userId });
+    }
+    
+    try {
+      await voteRepository.submitVotes(pollId, userId, optionIds, source, scores, writeIn);
+      
+      Logger.info('Vote submitted successfully', {
+        pollId,
+        userId,
+        optionIds,
+        optionCount: optionIds.length,
+        source,
+      });
     } catch (error) {
-      console.error('Error in getPollById:', error);
+      Logger.error('Failed to submit vote', error as Error, {
+        pollId,
+        userId,
+        optionIds,
+      });
       throw error;
     }
+    
+    await this.declareOutcomeIfVoteClosed(poll);
   }
-
+  
   /**
-   * Get polls created by a specific user
+   * Submit a vote from a logged-out visitor
+   *
+   * Only anonymous polls accept guest votes. The voter token comes from the signed
+   * voter cookie, so a returning browser replaces its earlier ballot.
    */
-  static async getUserPolls(userId: string): Promise<PollWithOptions[]> {
+  @measurePerformance('pollService.submitGuestVote')
+  static async submitGuestVote(
+    pollId: string,
+    optionIds: string[],
+    voter: {
+      voterToken: string;
+      ipAddress?: string | null;
+      userAgent?: string | null;
+    },
+    source: string | null = null,
+    scores: ScoreBallot | null = null,
+    writeIn: string | null = null
+  ): Promise<void> {
+    const poll = await this.getPoll(pollId);
+    
+    if (!allowsGuestVoting(poll)) {
+      throw new AuthenticationError('Log in to vote on this poll', { pollId });
+    }
+    
+    this.assertVotable(poll, optionIds, source, scores, writeIn);
+    this.assertBallotChangeable(poll, await voteRepository.getGuestVotes(pollId, voter.voterToken));
+    await this.assertSurveyResponseOpen(poll, { voter_token: voter.voterToken });
+    await this.assertFollowUpEligible(poll, earlierPollId =>
+      voteRepository.getGuestVotes(earlierPollId, voter.voterToken)
+    );
+    
+    await voteRepository.submitGuestVotes(
+      pollId,
+      {
+        voter_token: voter.voterToken,
+        ip_address: voter.ipAddress ?? null,
+        user_agent: voter.userAgent ?? null,
+      },
+      optionIds,
+      source,
+      scores,
+      writeIn
+    );
+    
+    Logger.info('Guest vote submitted successfully', {
+      pollId,
+      optionIds,
+      optionCount: optionIds.length,
+      source,
+    });
+    
+    await this.declareOutcomeIfVoteClosed(poll);
+  }
+  
+  /**
+   * Retract the user's ballot on a poll
+   *
+   * Allowed while the poll is open, as long as its vote change policy permits changes.
+   */
+  @measurePerformance('pollService.retractVote')
+  static async retractVote(pollId: string, userId: string): Promise<void> {
+    const poll = await this.getPoll(pollId);
+    this.assertPollOpen(poll);
+    
+    const votes = await voteRepository.getUserVotes(pollId, userId);
+    if (votes.length === 0) {
+      throw new NotFoundError('Vote', undefined, { pollId });
+    }
+    
+    this.assertBallotChangeable(poll, votes);
+    await this.assertSurveyResponseOpen(poll, { user_id: userId });
+    await voteRepository.retractVotes(pollId, userId);
+    
+    Logger.info('Vote retracted successfully', { pollId, userId });
+  }
+  
+  /**
+   * Retract a logged-out visitor's ballot, identified by their voter token
+   */
+  @measurePerformance('pollService.retractGuestVote')
+  static async retractGuestVote(pollId: string, voterToken: string): Promise<void> {
+    const poll = await this.getPoll(pollId);
+    this.assertPollOpen(poll);
+    
+    const votes = await voteRepository.getGuestVotes(pollId, voterToken);
+    if (votes.length === 0) {
+      throw new NotFoundError('Vote', undefined, { pollId });
+    }
+    
+    this.assertBallotChangeable(poll, votes);
+    await this.assertSurveyResponseOpen(poll, { voter_token: voterToken });
+    await voteRepository.retractGuestVotes(pollId, voterToken);
+    
+    Logger.info('Guest vote retracted successfully', { pollId });
+  }
+  
+  /**
+   * Get user's polls
+   */
+  @measurePerformance('pollService.getUserPolls')
+  static async getUserPolls(
+    userId: string,
+    filters: {
+      status?: PollStatus;
+      search?: string;
+    } = {},
+    pagination: { page: number; limit: number } = { page: 1, limit: 20 }
+  ): Promise<PollWithOptions[]> {
     try {
-      const { data, error } = await supabase
-        .from('polls')
-        .select(`
-          *,
-          poll_options (*),
-          profiles (*)
-        `)
-        .eq('created_by', userId)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching user polls:', error);
-        throw new Error(`Failed to fetch user polls: ${error.message}`);
+      const polls = await pollRepository.findByUserWithOptions(
+        userId,
+        filters,
+        pagination
+      );
+      
+      Logger.debug('Retrieved user polls', {
+        userId,
+        count: polls.length,
+        filters,
+        pagination,
+      });
+      
+      return polls;
+    } catch (error) {
+      Logger.error('Failed to get user polls', error as Error, {
+        userId,
+        filters,
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Get active polls
+   */
+  @measurePerformance('pollService.getActivePolls')
+  static async getActivePolls(
+    filters: { search?: string } = {},
+    pagination: { page: number; limit: number } = { page: 1, limit: 20 }
+  ): Promise<PollWithOptions[]> {
+    try {
+      const polls = await pollRepository.findActiveWithOptions(filters, pagination);
+      
+      Logger.debug('Retrieved active polls', {
+        count: polls.length,
+        filters,
+        pagination,
+      });
+      
+      return polls;
+    } catch (error) {
+      Logger.error('Failed to get active polls', error as Error, {
+        filters,
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Open scheduled polls that are due and close expired ones
+   *
+   * Run periodically by the background sweeper; only transitions that are already due are applied.
+   */
+  @measurePerformance('pollService.sweepPollSchedules')
+  static async sweepPollSchedules(): Promise<{ opened: number; closed: number }> {
+    const { closedPollIds, ...counts } = await pollRepository.sweepSchedules();
+    
+    if (counts.opened > 0 || counts.closed > 0) {
+      Logger.info('Swept poll schedules', counts);
+    }
+    
+    for (const pollId of closedPollIds) {
+      await this.declareOutcomeQuietly(pollId);
+    }
+    
+    return counts;
+  }
+  
+  /**
+   * Get poll statistics
+   */
+  @measurePerformance('pollService.getPollStatistics')
+  static async getPollStatistics(
+    pollId: string,
+    viewer: { userId?: string | null; voterToken?: string | null } = {}
+  ) {
+    const poll = await this.getVisiblePoll(pollId, viewer.userId);
+    const userId = viewer.userId ?? undefined;
+    
+    // Check if the viewer can see the results under the poll's visibility setting
+    if (!(await this.canViewResults(poll, viewer))) {
+      throw new UnauthorizedError('view statistics for this poll');
+    }
+    
+    try {
+      const stats = await pollRepository.getStatistics(pollId);
+      
+      Logger.debug('Retrieved poll statistics', {
+        pollId,
+        userId,
+        totalVotes: stats.totalVotes,
+        uniqueVoters: stats.uniqueVoters,
+      });
+      
+      // Placement analytics and the write-in texts are only for the poll owner
+      if (poll.created_by !== userId) {
+        const publicStats = {
+          totalVotes: stats.totalVotes,
+          uniqueVoters: stats.uniqueVoters,
+          optionStats: stats.optionStats,
+          writeInVotes: stats.writeInVotes,
+          instantRunoff: stats.instantRunoff,
+          ratingStats: stats.ratingStats,
+          slotAvailability: stats.slotAvailability,
+        };
+        return {
+          poll,
+          statistics: publicStats,
+        };
       }
-
-      return data || [];
+      
+      return {
+        poll,
+        statistics: stats,
+      };
     } catch (error) {
-      console.error('Error in getUserPolls:', error);
+      Logger.error('Failed to get poll statistics', error as Error, {
+        pollId,
+        userId,
+      });
       throw error;
     }
   }
-
+  
   /**
-   * Update a poll (only by the creator)
+   * Get the slot of a scheduling poll to put in a calendar
+   *
+   * Without an option ID this is the best slot so far, which needs access to the results.
    */
-  static async updatePoll(
-    pollId: string, 
-    updates: Partial<InsertPoll>, 
+  @measurePerformance('pollService.getMeetingSlot')
+  static async getMeetingSlot(
+    pollId: string,
+    optionId: string | null,
+    viewer: { userId?: string | null; voterToken?: string | null } = {}
+  ) {
+    const poll = await this.getVisiblePoll(pollId, viewer.userId);
+    
+    if (poll.vote_type !== 'schedule') {
+      throw new BusinessLogicError('Only scheduling polls can be added to a calendar', { pollId });
+    }
+    
+    let slotId = optionId;
+    if (!slotId) {
+      const { statistics } = await this.getPollStatistics(pollId, viewer);
+      slotId = findBestSlot(statistics.slotAvailability ?? []);
+      if (!slotId) {
+        throw new BusinessLogicError('Nobody is available for any of the time slots yet', { pollId });
+      }
+    }
+    
+    const option = poll.poll_options.find(candidate => candidate.id === slotId);
+    if (!option?.starts_at || !option.ends_at) {
+      throw new NotFoundError('Time slot', slotId);
+    }
+    
+    return {
+      poll,
+      option,
+      slot: { startsAt: new Date(option.starts_at), endsAt: new Date(option.ends_at) },
+    };
+  }
+  
+  /**
+   * Record a poll view, attributed to the QR code source it came from
+   */
+  @measurePerformance('pollService.recordView')
+  static async recordView(
+    pollId: string,
+    visitor: {
+      userId?: string | null;
+      ipAddress?: string | null;
+      userAgent?: string | null;
+      source?: string | null;
+    } = {}
+  ): Promise<void> {
+    validateAndThrowSourceTag(visitor.source);
+    
+    // Drafts only count views from their owner, like getVisiblePoll()
+    const poll = await pollRepository.findById(pollId, 'id, status, created_by');
+    if (!poll || (poll.status === 'draft' && poll.created_by !== visitor.userId)) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    await pollViewRepository.recordView({
+      poll_id: pollId,
+      user_id: visitor.userId ?? null,
+      ip_address: visitor.ipAddress ?? null,
+      user_agent: visitor.userAgent ?? null,
+      source: visitor.source ?? null,
+    });
+  }
+  
+  /**
+   * Get the named QR codes of a poll
+   */
+  static async getQRCodes(pollId: string, userId: string): Promise<PollQRCode[]> {
+    await this.requireOwnedPoll(pollId, userId, 'view QR codes for this poll');
+    
+    return pollQRCodeRepository.findByPoll(pollId);
+  }
+  
+  /**
+   * Create a named QR code with its own source tag
+   */
+  @measurePerformance('pollService.createQRCode')
+  static async createQRCode(
+    pollId: string,
+    name: string,
     userId: string
-  ): Promise<Poll> {
+  ): Promise<PollQRCode> {
+    await this.requireOwnedPoll(pollId, userId, 'create QR codes for this poll');
+    validateAndThrowQRCodeName(name);
+    
+    const existingCodes = await pollQRCodeRepository.findByPoll(pollId);
+    if (existingCodes.length >= AppConfig.poll.maxQRCodesPerPoll) {
+      throw new BusinessLogicError(
+        `A poll cannot have more than ${AppConfig.poll.maxQRCodesPerPoll} QR codes`
+      );
+    }
+    
     try {
-      const { data, error } = await supabase
-        .from('polls')
-        .update(updates)
-        .eq('id', pollId)
-        .eq('created_by', userId) // Ensure only creator can update
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error updating poll:', error);
-        throw new Error(`Failed to update poll: ${error.message}`);
-      }
-
-      return data;
+      const qrCode = await pollQRCodeRepository.create({
+        poll_id: pollId,
+        name: name.trim(),
+        source: createSourceTag(name, existingCodes.map(code => code.source)),
+      });
+      
+      Logger.info('QR code created', {
+        pollId,
+        userId,
+        source: qrCode.source,
+      });
+      
+      return qrCode;
     } catch (error) {
-      console.error('Error in updatePoll:', error);
+      Logger.error('Failed to create QR code', error as Error, {
+        pollId,
+        userId,
+      });
       throw error;
     }
   }
-
+  
   /**
-   * Delete a poll (only by the creator)
+   * Delete a named QR code; scans and votes keep their source tag
    */
-  static async deletePoll(pollId: string, userId: string): Promise<void> {
+  @measurePerformance('pollService.deleteQRCode')
+  static async deleteQRCode(
+    pollId: string,
+    qrCodeId: string,
+    userId: string
+  ): Promise<void> {
+    await this.requireOwnedPoll(pollId, userId, 'delete QR codes for this poll');
+    
+    const qrCode = await pollQRCodeRepository.findById(qrCodeId);
+    if (!qrCode || qrCode.poll_id !== pollId) {
+      throw new NotFoundError('QR code', qrCodeId);
+    }
+    
+    await pollQRCodeRepository.delete(qrCodeId);
+    
+    Logger.info('QR code deleted', {
+      pollId,
+      userId,
+      source: qrCode.source,
+    });
+  }
+  
+  /**
+   * Turn a write-in into a real option of the poll, carrying its votes over
+   *
+   * Every write-in matching the text (ignoring case and extra spaces) moves to the option.
+   */
+  @measurePerformance('pollService.promoteWriteIn')
+  static async promoteWriteIn(
+    pollId: string,
+    text: string,
+    userId: string
+  ): Promise<PollOption> {
+    await this.requireOwnedPoll(pollId, userId, 'promote write-ins on this poll');
+    validateAndThrowWriteIn(text);
+    
+    const option = await voteRepository.promoteWriteIn(pollId, userId, text);
+    
+    Logger.info('Write-in promoted to option', {
+      pollId,
+      userId,
+      optionId: option.id,
+      votes: option.votes_count,
+    });
+    
+    return option;
+  }
+  
+  /**
+   * Replace the follow-up polls a poll sends its voters on to
+   *
+   * Both polls must be the user's own standalone polls, and the links must not lead voters
+   * back to a poll they already answered. replace_poll_follow_ups repeats these checks
+   * under a per-owner lock.
+   */
+  @measurePerformance('pollService.setFollowUps')
+  static async setFollowUps(
+    pollId: string,
+    followUps: PollFollowUpLink[],
+    userId: string
+  ): Promise<PollFollowUp[]> {
+    validateAndThrowFollowUps(followUps);
+    
+    const poll = await this.getPoll(pollId);
+    if (poll.created_by !== userId) {
+      throw new UnauthorizedError('link follow-ups to this poll');
+    }
+    
+    if (followUps.length > 0 && (poll.quiz_id || poll.survey_id)) {
+      throw new BusinessLogicError('Quiz and survey questions cannot lead to follow-up polls', { pollId });
+    }
+    
+    // Every option of a rating or scheduling poll gets a score, so no answer singles voters out
+    if (followUps.length > 0 && (poll.vote_type === 'rating' || poll.vote_type === 'schedule')) {
+      throw new BusinessLogicError('Rating and scheduling polls cannot lead to follow-up polls', {
+        pollId,
+      });
+    }
+    
+    const validOptionIds = poll.poll_options.map(option => option.id);
+    const invalidOptions = followUps.filter(followUp => !validOptionIds.includes(followUp.optionId));
+    if (invalidOptions.length > 0) {
+      throw new BusinessLogicError(
+        `Invalid option IDs: ${invalidOptions.map(followUp => followUp.optionId).join(', ')}`
+      );
+    }
+    
+    for (const followUpPollId of new Set(followUps.map(followUp => followUp.followUpPollId))) {
+      if (followUpPollId === pollId) {
+        throw new InvalidInputError('followUps', followUpPollId, 'a poll cannot be its own follow-up', {
+          pollId,
+        });
+      }
+      
+      const followUpPoll = await this.requireOwnedPoll(followUpPollId, userId, 'use this poll as a follow-up');
+      if (followUpPoll.quiz_id || followUpPoll.survey_id) {
+        throw new BusinessLogicError('Quiz and survey questions cannot be follow-up polls', {
+          pollId,
+          followUpPollId,
+        });
+      }
+    }
+    
+    const links = followUps.map(followUp => ({
+      poll_id: pollId,
+      option_id: followUp.optionId,
+      follow_up_poll_id: followUp.followUpPollId,
+    }));
+    const cycle = findFollowUpCycle([
+      ...(await this.findReachableFollowUps(links.map(link => link.follow_up_poll_id), pollId)),
+      ...links,
+    ]);
+    if (cycle) {
+      throw new FollowUpCycleError(pollId, cycle);
+    }
+    
+    const saved = await pollFollowUpRepository.replaceForPoll(pollId, userId, links);
+    
+    Logger.info('Follow-up polls saved', { pollId, userId, followUps: saved.length });
+    
+    return saved;
+  }
+  
+  /**
+   * Create a quiz, which its creator then fills with polls as questions
+   */
+  @measurePerformance('pollService.createQuiz')
+  static async createQuiz(formData: CreateQuizFormData, userId: string): Promise<Quiz> {
+    validateAndThrowQuiz(formData);
+    
+    const quiz = await quizRepository.create({
+      title: formData.title.trim(),
+      description: formData.description?.trim() || null,
+      created_by: userId,
+    });
+    
+    Logger.info('Quiz created successfully', {
+      quizId: quiz.id,
+      userId,
+    });
+    
+    return quiz;
+  }
+  
+  /**
+   * Get a quiz with its questions in order
+   */
+  @measurePerformance('pollService.getQuiz')
+  static async getQuiz(quizId: string): Promise<QuizWithQuestions> {
+    const quiz = await quizRepository.findWithQuestions(quizId);
+    
+    if (!quiz) {
+      throw new QuizNotFoundError(quizId);
+    }
+    
+    return quiz;
+  }
+  
+  /**
+   * Get user's quizzes
+   */
+  static async getUserQuizzes(userId: string): Promise<Quiz[]> {
+    return quizRepository.findByUser(userId);
+  }
+  
+  /**
+   * Rank a quiz's participants by score, then answer speed
+   *
+   * Participant IDs are replaced with positions so user IDs and voter tokens stay private;
+   * the viewer's own entry is flagged instead. Usernames only show for signed-in answers
+   * to questions that aren't anonymous.
+   */
+  @measurePerformance('pollService.getQuizLeaderboard')
+  static async getQuizLeaderboard(
+    quizId: string,
+    viewer: { userId?: string | null; voterToken?: string | null } = {}
+  ): Promise<QuizLeaderboardEntry[]> {
+    const quiz = await this.getQuiz(quizId);
+    const pollIds = quiz.polls.map(poll => poll.id);
+    
+    const [answerKey, votes] = await Promise.all([
+      pollRepository.findCorrectOptionIds(pollIds),
+      voteRepository.findQuizAnswers(pollIds),
+    ]);
+    
+    const anonymousPollIds = new Set(quiz.polls.filter(poll => poll.is_anonymous).map(poll => poll.id));
+    const leaderboard = calculateQuizLeaderboard(
+      answerKey,
+      votes.map(vote => ({
+        ...vote,
+        name: anonymousPollIds.has(vote.poll_id) ? null : vote.profiles?.username ?? null,
+      }))
+    );
+    
+    const viewerIds = [
+      toQuizParticipantId({ user_id: viewer.userId ?? null, voter_token: null }),
+      toQuizParticipantId({ user_id: null, voter_token: viewer.voterToken ?? null }),
+    ].filter(Boolean);
+    
+    return leaderboard.map((entry, index) => ({
+      ...entry,
+      participantId: String(index + 1),
+      isViewer: viewerIds.includes(entry.participantId),
+    }));
+  }
+  
+  /**
+   * Tell a quiz participant whether their answer was right, and which options were
+   *
+   * Returns null for polls outside a quiz and for voters who haven't answered.
+   */
+  static async getAnswerFeedback(
+    pollId: string,
+    optionIds: string[]
+  ): Promise<AnswerFeedback | null> {
+    if (optionIds.length === 0) return null;
+    
+    const poll = await pollRepository.findById(pollId, 'id, quiz_id');
+    if (!poll?.quiz_id) return null;
+    
+    const answerKey = await pollRepository.findCorrectOptionIds([pollId]);
+    const correctOptionIds = answerKey[pollId] ?? [];
+    
+    return {
+      isCorrect: isQuizAnswerCorrect(optionIds, correctOptionIds),
+      correctOptionIds,
+    };
+  }
+  
+  /**
+   * Create a survey with all of its questions
+   *
+   * Questions become polls numbered in the order given and share the survey's expiry and
+   * guest settings. If a question fails to save, the survey and the questions saved so far
+   * are deleted again.
+   */
+  @measurePerformance('pollService.createSurvey')
+  static async createSurvey(
+    formData: CreateSurveyFormData,
+    userId: string
+  ): Promise<SurveyWithQuestions> {
+    validateAndThrowSurvey(formData);
+    
+    const survey = await surveyRepository.create({
+      title: formData.title.trim(),
+      description: formData.description?.trim() || null,
+      created_by: userId,
+    });
+    
     try {
-      const { error } = await supabase
-        .from('polls')
-        .delete()
-        .eq('id', pollId)
-        .eq('created_by', userId); // Ensure only creator can delete
-
-      if (error) {
-        console.error('Error deleting poll:', error);
-        throw new Error(`Failed to delete poll: ${error.message}`);
+      // One at a time, so each question takes the next position
+      for (const question of formData.questions) {
+        await this.createPoll(
+          {
+            ...question,
+            expiresAt: formData.expiresAt,
+            isAnonymous: formData.isAnonymous,
+            guestVoteLimit: formData.guestVoteLimit,
+            surveyId: survey.id,
+          },
+          userId
+        );
       }
     } catch (error) {
-      console.error('Error in deletePoll:', error);
+      Logger.error('Failed to create survey questions', error as Error, {
+        surveyId: survey.id,
+        userId,
+      });
+      await surveyRepository.delete(survey.id);
       throw error;
     }
+    
+    Logger.info('Survey created successfully', {
+      surveyId: survey.id,
+      userId,
+      questionsCount: formData.questions.length,
+    });
+    
+    return this.getSurvey(survey.id);
   }
-
+  
   /**
-   * Toggle poll active status
+   * Get a survey with its questions in order
    */
-  static async togglePollStatus(pollId: string, userId: string): Promise<Poll> {
+  @measurePerformance('pollService.getSurvey')
+  static async getSurvey(surveyId: string): Promise<SurveyWithQuestions> {
+    const survey = await surveyRepository.findWithQuestions(surveyId);
+    
+    if (!survey) {
+      throw new SurveyNotFoundError(surveyId);
+    }
+    
+    return survey;
+  }
+  
+  /**
+   * Get user's surveys
+   */
+  static async getUserSurveys(userId: string): Promise<Survey[]> {
+    return surveyRepository.findByUser(userId);
+  }
+  
+  /**
+   * Get how far a respondent got through a survey
+   *
+   * Progress is saved as they answer, so a respondent who comes back resumes where they left off.
+   */
+  static async getSurveyProgress(
+    surveyId: string,
+    respondent: { userId?: string | null; voterToken?: string | null }
+  ): Promise<SurveyProgress> {
+    const key = this.toSurveyRespondent(respondent);
+    if (!key) return toSurveyProgress(null);
+    
+    return toSurveyProgress(await surveyResponseRepository.findByRespondent(surveyId, key));
+  }
+  
+  /**
+   * Submit a respondent's answers; every question must be answered, and answers are final afterwards
+   */
+  @measurePerformance('pollService.submitSurveyResponse')
+  static async submitSurveyResponse(
+    surveyId: string,
+    respondent: { userId?: string | null; voterToken?: string | null }
+  ): Promise<SurveyProgress> {
+    const survey = await this.getSurvey(surveyId);
+    
+    // Without a user or voter cookie there are no answers to submit
+    const key = this.toSurveyRespondent(respondent);
+    if (!key) {
+      throw new SurveyIncompleteError(surveyId, survey.polls[0]?.survey_position ?? null);
+    }
+    
+    const response = await surveyResponseRepository.submit(surveyId, key);
+    
+    Logger.info('Survey response submitted', {
+      surveyId,
+      userId: respondent.userId ?? undefined,
+    });
+    
+    return toSurveyProgress(response);
+  }
+  
+  /**
+   * Get a survey's per-question results with its completion and drop-off rates, for its owner
+   */
+  @measurePerformance('pollService.getSurveyResults')
+  static async getSurveyResults(
+    surveyId: string,
+    userId: string
+  ): Promise<{ survey: SurveyWithQuestions; funnel: SurveyFunnel }> {
+    const survey = await this.getSurvey(surveyId);
+    
+    if (survey.created_by !== userId) {
+      throw new UnauthorizedError('view results for this survey');
+    }
+    
+    const responses = await surveyResponseRepository.findBySurvey(surveyId);
+    
+    return {
+      survey,
+      funnel: calculateSurveyFunnel(survey.polls, responses),
+    };
+  }
+  
+  /**
+   * Get user's vote for a poll
+   */
+  static async getUserVote(pollId: string, userId: string) {
     try {
-      // First get the current status
-      const { data: currentPoll, error: fetchError } = await supabase
-        .from('polls')
-        .select('is_active')
-        .eq('id', pollId)
-        .eq('created_by', userId)
-        .single();
-
-      if (fetchError) {
-        throw new Error(`Failed to fetch poll: ${fetchError.message}`);
+      const votes = await voteRepository.getUserVotes(pollId, userId);
+      
+      return {
+        hasVoted: votes.length > 0,
+        votes,
+        optionIds: votes.flatMap(vote => (vote.option_id ? [vote.option_id] : [])),
+        scores: toScoreBallot(votes),
+        writeIn: votes.find(vote => vote.write_in)?.write_in ?? null,
+        votedAt: getBallotCastAt(votes),
+      };
+    } catch (error) {
+      Logger.error('Failed to get user vote', error as Error, {
+        pollId,
+        userId,
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Get a logged-out voter's ballot for a poll
+   */
+  static async getGuestVote(pollId: string, voterToken: string) {
+    const votes = await voteRepository.getGuestVotes(pollId, voterToken);
+    
+    return {
+      hasVoted: votes.length > 0,
+      votes,
+      optionIds: votes.flatMap(vote => (vote.option_id ? [vote.option_id] : [])),
+      scores: toScoreBallot(votes),
+      writeIn: votes.find(vote => vote.write_in)?.write_in ?? null,
+      votedAt: getBallotCastAt(votes),
+    };
+  }
+  
+  /**
+   * Check that a poll is open and that the ballot fits it
+   *
+   * The vote replacement functions repeat these checks under the poll lock; doing
+   * them here first gives clearer validation errors.
+   */
+  private static assertVotable(
+    poll: PollWithOptions,
+    optionIds: string[],
+    source: string | null,
+    scores: ScoreBallot | null,
+    writeIn: string | null
+  ): void {
+    this.assertPollOpen(poll);
+    
+    if (writeIn !== null && !poll.allow_write_ins) {
+      throw new InvalidInputError('writeIn', writeIn, 'this poll does not accept write-ins', {
+        pollId: poll.id,
+      });
+    }
+    
+    // A write-in is one more selection on top of the chosen options
+    const selections = (Array.isArray(optionIds) ? optionIds.length : 0) + (writeIn !== null ? 1 : 0);
+    
+    if (poll.vote_type === 'single' && selections > 1) {
+      throw new MultipleVotesNotAllowedError(poll.id);
+    }
+    
+    if (
+      poll.vote_type === 'multiple' &&
+      selections > 0 &&
+      !isWithinSelectionLimits(selections, poll.min_selections, poll.max_selections)
+    ) {
+      throw new SelectionLimitError(poll.id, poll.min_selections, poll.max_selections);
+    }
+    
+    validateAndThrowVote(
+      optionIds,
+      poll.vote_type,
+      { minSelections: poll.min_selections, maxSelections: poll.max_selections },
+      writeIn
+    );
+    validateAndThrowSourceTag(source);
+    
+    if (poll.vote_type === 'rating' && poll.score_min !== null && poll.score_max !== null) {
+      validateAndThrowRatingBallot(
+        scores,
+        poll.poll_options.map(option => option.id),
+        { min: poll.score_min, max: poll.score_max }
+      );
+    }
+    
+    if (poll.vote_type === 'schedule') {
+      validateAndThrowAvailabilityBallot(
+        scores,
+        poll.poll_options.map(option => option.id)
+      );
+    }
+    
+    // Validate that all option IDs belong to this poll
+    const validOptionIds = poll.poll_options.map(option => option.id);
+    const invalidOptions = optionIds.filter(id => !validOptionIds.includes(id));
+    
+    if (invalidOptions.length > 0) {
+      throw new BusinessLogicError(
+        `Invalid option IDs: ${invalidOptions.join(', ')}`
+      );
+    }
+  }
+  
+  /**
+   * Check that a poll still accepts and changes ballots
+   *
+   * A scheduled poll accepts ballots from its start time on, even before the sweeper opens it;
+   * the vote functions open it then.
+   */
+  private static assertPollOpen(poll: PollWithOptions): void {
+    if (poll.status === 'scheduled' && poll.starts_at && new Date(poll.starts_at) > new Date()) {
+      throw new PollNotStartedError(poll.id, new Date(poll.starts_at));
+    }
+    
+    if (poll.status !== 'open' && poll.status !== 'scheduled') {
+      throw new PollInactiveError(poll.id, { status: poll.status });
+    }
+    
+    if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
+      throw new PollExpiredError(poll.id, new Date(poll.expires_at));
+    }
+  }
+  
+  /**
+   * Check that the poll's vote change policy lets a voter replace or retract their ballot
+   *
+   * Voters without a ballot pass. The database functions repeat this under the poll lock.
+   */
+  private static assertBallotChangeable(poll: PollWithOptions, votes: Vote[]): void {
+    const votedAt = getBallotCastAt(votes);
+    
+    if (!canChangeVote(poll.vote_change_policy, poll.vote_change_window_minutes, votedAt)) {
+      throw new VoteChangeNotAllowedError(poll.id, poll.vote_change_window_minutes, {
+        votedAt: votedAt?.toISOString(),
+      });
+    }
+  }
+  
+  /**
+   * Check that a survey question's respondent hasn't submitted the survey yet
+   *
+   * Polls outside a survey pass. The vote functions repeat this in the same transaction.
+   */
+  private static async assertSurveyResponseOpen(
+    poll: PollWithOptions,
+    respondent: SurveyRespondent
+  ): Promise<void> {
+    if (!poll.survey_id) return;
+    
+    const response = await surveyResponseRepository.findByRespondent(poll.survey_id, respondent);
+    if (response?.submitted_at) {
+      throw new SurveyAlreadySubmittedError({ surveyId: poll.survey_id, pollId: poll.id });
+    }
+  }
+  
+  /**
+   * Check that the voter chose an answer leading to this poll, when it is a follow-up
+   *
+   * @param getVotes - Loads the voter's votes on one of the earlier polls
+   */
+  private static async assertFollowUpEligible(
+    poll: PollWithOptions,
+    getVotes: (pollId: string) => Promise<Vote[]>
+  ): Promise<void> {
+    const conditions = await pollFollowUpRepository.findByFollowUpPoll(poll.id);
+    if (conditions.length === 0) return;
+    
+    const earlierPollIds = [...new Set(conditions.map(condition => condition.poll_id))];
+    const votes = (await Promise.all(earlierPollIds.map(getVotes))).flat();
+    
+    if (!meetsFollowUpCondition(conditions, votes)) {
+      throw new FollowUpNotEligibleError(poll.id);
+    }
+  }
+  
+  /**
+   * Load every follow-up link reachable from the given polls
+   *
+   * Links leaving the poll being edited are skipped, since they are about to be replaced.
+   */
+  private static async findReachableFollowUps(
+    pollIds: string[],
+    editedPollId: string
+  ): Promise<PollFollowUp[]> {
+    const links: PollFollowUp[] = [];
+    const visited = new Set([editedPollId]);
+    let frontier = [...new Set(pollIds)].filter(pollId => !visited.has(pollId));
+    
+    while (frontier.length > 0) {
+      frontier.forEach(pollId => visited.add(pollId));
+      
+      const found = await pollFollowUpRepository.findByPolls(frontier);
+      links.push(...found);
+      frontier = [...new Set(found.map(link => link.follow_up_poll_id))].filter(
+        pollId => !visited.has(pollId)
+      );
+    }
+    
+    return links;
+  }
+  
+  /**
+   * Check whether a viewer may see a poll's results under its visibility setting
+   *
+   * Only the after-vote setting depends on the viewer's own ballot, so votes are looked up just for it.
+   */
+  private static async canViewResults(
+    poll: PollWithOptions,
+    viewer: { userId?: string | null; voterToken?: string | null }
+  ): Promise<boolean> {
+    if (canViewPollResults(poll, viewer.userId)) return true;
+    if (poll.results_visibility !== 'after_vote' || poll.status === 'draft' || poll.status === 'paused') {
+      return false;
+    }
+    
+    const votes = viewer.userId
+      ? await voteRepository.getUserVotes(poll.id, viewer.userId)
+      : viewer.voterToken
+        ? await voteRepository.getGuestVotes(poll.id, viewer.voterToken)
+        : [];
+    return canViewPollResults(poll, viewer.userId, votes.length > 0);
+  }
+  
+  /**
+   * Identify a survey respondent by user, or by voter token for guests
+   */
+  private static toSurveyRespondent(respondent: {
+    userId?: string | null;
+    voterToken?: string | null;
+  }): SurveyRespondent | null {
+    if (respondent.userId) return { user_id: respondent.userId };
+    return respondent.voterToken ? { voter_token: respondent.voterToken } : null;
+  }
+  
+  /**
+   * Use the requested vanity slug, or generate a random one that isn't taken yet
+   *
+   * The unique constraint on polls.slug still guards against a concurrent insert.
+   */
+  private static async resolveSlug(vanitySlug?: string): Promise<string> {
+    if (vanitySlug && vanitySlug.trim()) {
+      const slug = normalizePollSlug(vanitySlug);
+      if (await pollRepository.isSlugTaken(slug)) {
+        throw new PollSlugTakenError(slug);
       }
-
-      // Toggle the status
-      const { data, error } = await supabase
-        .from('polls')
-        .update({ is_active: !currentPoll.is_active })
-        .eq('id', pollId)
-        .eq('created_by', userId)
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error toggling poll status:', error);
-        throw new Error(`Failed to toggle poll status: ${error.message}`);
+      return slug;
+    }
+    
+    // Grow the slug after a few collisions rather than retrying forever
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const slug = generatePollSlug(GENERATED_SLUG_LENGTH + Math.floor(attempt / 2));
+      if (!(await pollRepository.isSlugTaken(slug))) {
+        return slug;
       }
-
-      return data;
+    }
+    
+    throw new BusinessLogicError('Could not generate a unique short link, please try again');
+  }
+  
+  /**
+   * Ensure a quiz exists and belongs to the user
+   */
+  private static async requireOwnedQuiz(
+    quizId: string,
+    userId: string,
+    action: string
+  ): Promise<Quiz> {
+    const quiz = await quizRepository.findById(quizId);
+    if (!quiz) {
+      throw new QuizNotFoundError(quizId);
+    }
+    
+    if (quiz.created_by !== userId) {
+      throw new UnauthorizedError(action);
+    }
+    
+    return quiz;
+  }
+  
+  /**
+   * Ensure a survey exists and belongs to the user
+   */
+  private static async requireOwnedSurvey(
+    surveyId: string,
+    userId: string,
+    action: string
+  ): Promise<Survey> {
+    const survey = await surveyRepository.findById(surveyId);
+    if (!survey) {
+      throw new SurveyNotFoundError(surveyId);
+    }
+    
+    if (survey.created_by !== userId) {
+      throw new UnauthorizedError(action);
+    }
+    
+    return survey;
+  }
+  
+  /**
+   * Declare the outcome of a poll that was just closed without failing the close itself
+   *
+   * An outcome that can't be declared now is declared the next time someone reads it.
+   */
+  private static async declareOutcomeQuietly(pollId: string): Promise<void> {
+    try {
+      await this.declarePollOutcome(pollId);
     } catch (error) {
-      console.error('Error in togglePollStatus:', error);
-      throw error;
+      Logger.error('Failed to declare poll outcome', error as Error, { pollId });
+    }
+  }
+  
+  /**
+   * Declare the outcome when a ballot took a poll with a vote target to its closing rules
+   *
+   * The vote functions close the poll in the same transaction as the ballot.
+   */
+  private static async declareOutcomeIfVoteClosed(poll: PollWithOptions): Promise<void> {
+    if (!poll.close_after_votes) return;
+    
+    const current = await pollRepository.findById(poll.id);
+    if (current?.status === 'closed') {
+      Logger.info('Poll closed by its closing rules', { pollId: poll.id, totalVotes: current.total_votes });
+      await this.declareOutcomeQuietly(poll.id);
+    }
+  }
+  
+  private static toDeclaredOutcome(outcome: PollOutcome): DeclaredOutcome {
+    return {
+      status: outcome.status,
+      winnerOptionIds: outcome.winner_option_ids,
+      tiedOptionIds: outcome.tied_option_ids,
+      tieResolution: outcome.tie_resolution ?? undefined,
+      totalVotes: outcome.total_votes,
+      quorum: outcome.quorum ?? undefined,
+      quorumMet: outcome.quorum_met,
+      decidedAt: new Date(outcome.decided_at),
+    };
+  }
+  
+  /**
+   * Ensure a poll exists and belongs to the user
+   */
+  private static async requireOwnedPoll(
+    pollId: string,
+    userId: string,
+    action: string
+  ): Promise<Poll> {
+    const poll = await pollRepository.findById(pollId);
+    if (!poll) {
+      throw new PollNotFoundError(pollId);
+    }
+    
+    if (poll.created_by !== userId) {
+      throw new UnauthorizedError(action);
     }
+    
+    return poll;
   }
 }
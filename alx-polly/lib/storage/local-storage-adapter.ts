@@ -0,0 +1,48 @@
+/**
+ * Storage adapter that keeps uploads on the local filesystem
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { getUploadContentType, isValidUploadKey } from '../../utils/media-utils';
+import { InvalidInputError } from '../errors/custom-errors';
+import type { StorageAdapter, StoredFile } from './storage-adapter';
+
+export class LocalStorageAdapter implements StorageAdapter {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async save(key: string, data: Buffer, contentType: string): Promise<StoredFile> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // 'wx' fails rather than replacing a file someone else already uploaded
+    await writeFile(filePath, data, { flag: 'wx' });
+    return { key, contentType, size: data.length };
+  }
+
+  async read(key: string): Promise<{ data: Buffer; contentType: string } | null> {
+    try {
+      const data = await readFile(this.resolve(key));
+      return { data, contentType: getUploadContentType(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // The key pattern already rules out "..", but check the result stays inside the root too
+    if (!isValidUploadKey(key) || !filePath.startsWith(this.rootDir + path.sep)) {
+      throw new InvalidInputError('key', key, 'not a stored upload');
+    }
+    return filePath;
+  }
+}
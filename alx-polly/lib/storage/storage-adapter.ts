@@ -0,0 +1,53 @@
+/**
+ * Pluggable storage for uploaded files
+ */
+
+import { EnvConfig } from '../config/app-config';
+import { InternalServerError } from '../errors/custom-errors';
+import { LocalStorageAdapter } from './local-storage-adapter';
+
+export interface StoredFile {
+  key: string;
+  contentType: string;
+  size: number;
+}
+
+export interface StorageAdapter {
+  /**
+   * Store a file under a key; keys are never overwritten
+   */
+  save(key: string, data: Buffer, contentType: string): Promise<StoredFile>;
+
+  /**
+   * Read a stored file, or null if there is none under the key
+   */
+  read(key: string): Promise<{ data: Buffer; contentType: string } | null>;
+
+  delete(key: string): Promise<void>;
+}
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * Get the storage adapter chosen by STORAGE_DRIVER
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (adapter) return adapter;
+
+  switch (EnvConfig.storage.driver) {
+    case 'local':
+      adapter = new LocalStorageAdapter(EnvConfig.storage.localDir);
+      break;
+    default:
+      throw new InternalServerError(`Unknown STORAGE_DRIVER "${EnvConfig.storage.driver}"`);
+  }
+
+  return adapter;
+}
+
+/**
+ * Replace the storage adapter, e.g. with one backed by a hosted bucket
+ */
+export function setStorageAdapter(storageAdapter: StorageAdapter): void {
+  adapter = storageAdapter;
+}
@@ -0,0 +1,34 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "@/types/database";
+import { EnvConfig } from "./config/app-config";
+import { InternalServerError } from "./errors/custom-errors";
+
+let supabaseAdmin: SupabaseClient<Database> | null = null;
+
+/**
+ * Supabase client authenticated with the service role key
+ *
+ * Only server code may use it: it calls the database functions that act for a
+ * voter or poll owner passed as an argument, which browsers are not allowed to run,
+ * so the caller must have verified who that is first.
+ */
+export function getSupabaseAdmin(): SupabaseClient<Database> {
+  if (!supabaseAdmin) {
+    if (!EnvConfig.supabase.serviceRoleKey) {
+      throw new InternalServerError("SUPABASE_SERVICE_ROLE_KEY is not configured");
+    }
+
+    supabaseAdmin = createClient<Database>(
+      EnvConfig.supabase.url,
+      EnvConfig.supabase.serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+  }
+
+  return supabaseAdmin;
+}
@@ -0,0 +1,1292 @@
+/**
+ * Poll validation utilities
+ */
+
+import { AppConfig } from '../config/app-config';
+import { ValidationError, InvalidInputError } from '../errors/custom-errors';
+import { isValidSourceTag } from '../../utils/qr-utils';
+import { OPTION_CAPTION_MAX_LENGTH, validateOptionImageUrl } from '../../utils/media-utils';
+import { AVAILABILITY_SCALE, isValidTimeZone, validateTimeSlots } from '../../utils/schedule-utils';
+import {
+  GUEST_VOTE_LIMITS,
+  MAX_VOTE_CHANGE_WINDOW_MINUTES,
+  RATING_SCALE_MAX,
+  RATING_SCALE_MIN,
+  RESULTS_VISIBILITIES,
+  TIE_STRATEGIES,
+  VOTE_CHANGE_POLICIES,
+  VOTE_TYPES,
+  WRITE_IN_MAX_LENGTH,
+  describeSelectionLimits,
+  isGuestVoteLimit,
+  isResultsVisibility,
+  isTieStrategy,
+  isVoteChangePolicy,
+  isVoteType,
+  isWithinSelectionLimits,
+  normalizePollSlug,
+  supportsCloseRules,
+  validatePollSlug,
+} from '../../utils/poll-utils';
+import type {
+  CreatePollFormData,
+  CreateQuizFormData,
+  CreateSurveyFormData,
+  EditPollFormData,
+  PollFollowUpLink,
+  RatingScale,
+  ResultsVisibility,
+  ScoreBallot,
+  VoteChangePolicy,
+  VoteType,
+} from '../../types';
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: Record<string, string[]>;
+}
+
+export interface FieldValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface SelectionLimits {
+  minSelections?: number | null;
+  maxSelections?: number | null;
+}
+
+/**
+ * Base validator class
+ */
+export abstract class BaseValidator {
+  protected errors: Record<string, string[]> = {};
+  
+  protected addError(field: string, message: string) {
+    if (!this.errors[field]) {
+      this.errors[field] = [];
+    }
+    this.errors[field].push(message);
+  }
+  
+  protected hasErrors(): boolean {
+    return Object.keys(this.errors).length > 0;
+  }
+  
+  protected getResult(): ValidationResult {
+    return {
+      isValid: !this.hasErrors(),
+      errors: this.errors,
+    };
+  }
+  
+  protected reset() {
+    this.errors = {};
+  }
+}
+
+/**
+ * Poll validators
+ */
+export class PollValidators extends BaseValidator {
+  /**
+   * Validate poll title
+   */
+  static validateTitle(title: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!title) {
+      errors.push('Title is required');
+    } else {
+      const trimmed = title.trim();
+      if (!trimmed) {
+        errors.push('Title cannot be empty');
+      } else if (trimmed.length > AppConfig.poll.maxTitleLength) {
+        errors.push(`Title cannot exceed ${AppConfig.poll.maxTitleLength} characters`);
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate poll description
+   */
+  static validateDescription(description: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (description && description.trim().length > AppConfig.poll.maxDescriptionLength) {
+      errors.push(`Description cannot exceed ${AppConfig.poll.maxDescriptionLength} characters`);
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate poll options
+   */
+  static validateOptions(options: string[] | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!options || !Array.isArray(options)) {
+      errors.push('Options are required');
+      return { isValid: false, errors };
+    }
+    
+    // Filter out empty options
+    const validOptions = options.filter(option => option && option.trim());
+    
+    if (validOptions.length < AppConfig.poll.minOptions) {
+      errors.push(`At least ${AppConfig.poll.minOptions} options are required`);
+    }
+    
+    if (validOptions.length > AppConfig.poll.maxOptions) {
+      errors.push(`Maximum ${AppConfig.poll.maxOptions} options allowed`);
+    }
+    
+    // Check for duplicate options
+    const uniqueOptions = new Set(validOptions.map(option => option.trim().toLowerCase()));
+    if (uniqueOptions.size !== validOptions.length) {
+      errors.push('Duplicate options are not allowed');
+    }
+    
+    // Validate individual options
+    validOptions.forEach((option, index) => {
+      const trimmed = option.trim();
+      if (trimmed.length === 0) {
+        errors.push(`Option ${index + 1} cannot be empty`);
+      } else if (trimmed.length > 200) {
+        errors.push(`Option ${index + 1} cannot exceed 200 characters`);
+      }
+    });
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate expiration date
+   */
+  static validateExpirationDate(expiresAt: Date | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (expiresAt) {
+      const now = new Date();
+      if (expiresAt <= now) {
+        errors.push('Expiration date must be in the future');
+      }
+      
+      // Check if expiration is too far in the future (e.g., more than 1 year)
+      const oneYearFromNow = new Date();
+      oneYearFromNow.setFullYear(oneYearFromNow.getFullYear() + 1);
+      
+      if (expiresAt > oneYearFromNow) {
+        errors.push('Expiration date cannot be more than 1 year in the future');
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate the optional start time of a scheduled poll
+   *
+   * The poll must open in the future, within a year, and before it expires.
+   */
+  static validateStartDate(
+    startsAt: Date | undefined,
+    expiresAt: Date | undefined
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (startsAt) {
+      const oneYearFromNow = new Date();
+      oneYearFromNow.setFullYear(oneYearFromNow.getFullYear() + 1);
+      
+      if (Number.isNaN(startsAt.getTime())) {
+        errors.push('Start date must be a valid date');
+      } else if (startsAt <= new Date()) {
+        errors.push('Start date must be in the future');
+      } else if (startsAt > oneYearFromNow) {
+        errors.push('Start date cannot be more than 1 year in the future');
+      } else if (expiresAt && expiresAt <= startsAt) {
+        errors.push('Expiration date must be after the start date');
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate create poll form data
+   */
+  static validateCreatePoll(data: CreatePollFormData): ValidationResult {
+    const validator = new PollValidators();
+    validator.reset();
+    
+    // Validate title
+    const titleResult = this.validateTitle(data.title);
+    if (!titleResult.isValid) {
+      titleResult.errors.forEach(error => validator.addError('title', error));
+    }
+    
+    // Validate description
+    const descriptionResult = this.validateDescription(data.description);
+    if (!descriptionResult.isValid) {
+      descriptionResult.errors.forEach(error => validator.addError('description', error));
+    }
+    
+    // Validate options
+    const optionsResult = this.validateOptions(data.options);
+    if (!optionsResult.isValid) {
+      optionsResult.errors.forEach(error => validator.addError('options', error));
+    }
+    
+    // Validate option images
+    const mediaResult = this.validateOptionMedia(data.optionMedia, data.options?.length ?? 0);
+    if (!mediaResult.isValid) {
+      mediaResult.errors.forEach(error => validator.addError('optionMedia', error));
+    }
+    
+    // Validate expiration date
+    const expirationResult = this.validateExpirationDate(data.expiresAt);
+    if (!expirationResult.isValid) {
+      expirationResult.errors.forEach(error => validator.addError('expiresAt', error));
+    }
+    
+    const startResult = this.validateStartDate(data.startsAt, data.expiresAt);
+    if (!startResult.isValid) {
+      startResult.errors.forEach(error => validator.addError('startsAt', error));
+    }
+    
+    // Quiz and survey questions open together with the rest of their quiz or survey
+    if (data.startsAt && (data.quizId || data.surveyId)) {
+      validator.addError('startsAt', 'Quiz and survey questions cannot be scheduled on their own');
+    }
+
+    if (data.isDraft && (data.quizId || data.surveyId)) {
+      validator.addError('isDraft', 'Quiz and survey questions cannot be saved as drafts on their own');
+    }
+
+    // Validate vanity slug
+    const slugResult = this.validateSlug(data.slug);
+    if (!slugResult.isValid) {
+      slugResult.errors.forEach(error => validator.addError('slug', error));
+    }
+    
+    // Validate guest vote limit
+    const guestVoteLimitResult = this.validateGuestVoteLimit(data.guestVoteLimit);
+    if (!guestVoteLimitResult.isValid) {
+      guestVoteLimitResult.errors.forEach(error => validator.addError('guestVoteLimit', error));
+    }
+    
+    // Validate vote type
+    const voteTypeResult = this.validateVoteType(data.voteType);
+    if (!voteTypeResult.isValid) {
+      voteTypeResult.errors.forEach(error => validator.addError('voteType', error));
+    }
+    
+    // Validate selection limits, which only make sense when several options can be picked
+    const voteType = data.voteType ?? (data.allowMultipleVotes ? 'multiple' : 'single');
+    const hasSelectionLimits = data.minSelections !== undefined || data.maxSelections !== undefined;
+    if (hasSelectionLimits && voteType !== 'multiple') {
+      validator.addError('maxSelections', 'Selection limits only apply to multiple-choice polls');
+    } else {
+      const limitsResult = this.validateSelectionLimits(data, data.options?.length);
+      if (!limitsResult.isValid) {
+        limitsResult.errors.forEach(error => validator.addError('maxSelections', error));
+      }
+    }
+    
+    // Validate the rating scale, which rating polls need and no other poll type uses
+    if (voteType === 'rating') {
+      const scaleResult = this.validateRatingScale(data.ratingScale);
+      if (!scaleResult.isValid) {
+        scaleResult.errors.forEach(error => validator.addError('ratingScale', error));
+      }
+    } else if (data.ratingScale !== undefined) {
+      validator.addError('ratingScale', 'A rating scale only applies to rating polls');
+    }
+    
+    // Validate the candidate slots, which scheduling polls need and no other poll type uses
+    if (voteType === 'schedule') {
+      const slotsResult = this.validateScheduleSlots(data);
+      if (!slotsResult.isValid) {
+        slotsResult.errors.forEach(error => validator.addError('slots', error));
+      }
+    } else if (data.slots !== undefined || data.timeZone !== undefined) {
+      validator.addError('slots', 'Time slots only apply to scheduling polls');
+    }
+    
+    if (data.allowWriteIns && voteType !== 'single' && voteType !== 'multiple') {
+      validator.addError('allowWriteIns', 'Write-ins only apply to single and multiple-choice polls');
+    }
+    
+    const voteChangeResult = this.validateVoteChangePolicy(
+      data.voteChangePolicy,
+      data.voteChangeWindowMinutes
+    );
+    if (!voteChangeResult.isValid) {
+      voteChangeResult.errors.forEach(error => validator.addError('voteChangePolicy', error));
+    }
+    
+    const visibilityResult = this.validateResultsVisibility(data.resultsVisibility, data.expiresAt);
+    if (!visibilityResult.isValid) {
+      visibilityResult.errors.forEach(error => validator.addError('resultsVisibility', error));
+    }
+    
+    // Quizzes and surveys list their questions' answer counts together
+    if (
+      (data.quizId || data.surveyId) &&
+      data.resultsVisibility !== undefined &&
+      data.resultsVisibility !== 'always'
+    ) {
+      validator.addError('resultsVisibility', 'Quiz and survey questions always show their results');
+    }
+    
+    const closeRulesResult = this.validateCloseRules(data, voteType);
+    if (!closeRulesResult.isValid) {
+      closeRulesResult.errors.forEach(error => validator.addError('closeAfterVotes', error));
+    }
+    
+    const quizResult = this.validateQuizQuestion(data, voteType);
+    if (!quizResult.isValid) {
+      quizResult.errors.forEach(error => validator.addError('correctOptions', error));
+    }
+    
+    // Survey answers stay editable until the respondent submits the whole survey
+    if (data.surveyId) {
+      if (data.quizId) {
+        validator.addError('surveyId', 'A poll can be a quiz question or a survey question, not both');
+      }
+      if (data.voteChangePolicy !== undefined && data.voteChangePolicy !== 'until_close') {
+        validator.addError('voteChangePolicy', 'Survey answers can be changed until the survey is submitted');
+      }
+    }
+    
+    return validator.getResult();
+  }
+  
+  /**
+   * Validate the images attached to poll options
+   *
+   * The list lines up with the options; options without an image are null or left out.
+   */
+  static validateOptionMedia(
+    optionMedia: CreatePollFormData['optionMedia'],
+    optionsCount: number
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (optionMedia === undefined) {
+      return { isValid: true, errors };
+    }
+    
+    if (!Array.isArray(optionMedia) || optionMedia.length > optionsCount) {
+      errors.push('Option images must line up with the options');
+      return { isValid: false, errors };
+    }
+    
+    optionMedia.forEach((media, index) => {
+      if (!media) return;
+      
+      const urlResult = validateOptionImageUrl(typeof media.imageUrl === 'string' ? media.imageUrl : '');
+      if (!urlResult.isValid) {
+        errors.push(`Option ${index + 1}: ${urlResult.error}`);
+      }
+      
+      if (media.caption !== undefined && typeof media.caption !== 'string') {
+        errors.push(`Option ${index + 1}: Caption must be text`);
+      } else if (media.caption && media.caption.trim().length > OPTION_CAPTION_MAX_LENGTH) {
+        errors.push(
+          `Option ${index + 1}: Caption cannot exceed ${OPTION_CAPTION_MAX_LENGTH} characters`
+        );
+      }
+    });
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate the candidate time slots of a scheduling poll
+   *
+   * The slots line up with the options, whose text is the slot as the creator sees it,
+   * and the creator's time zone is kept so the poll can say which zone it was planned in.
+   */
+  static validateScheduleSlots(
+    data: Pick<CreatePollFormData, 'slots' | 'timeZone' | 'options'>
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!Array.isArray(data.slots) || data.slots.length === 0) {
+      errors.push('Scheduling polls need time slots');
+    } else if (data.slots.length !== (data.options?.length ?? 0)) {
+      errors.push('Time slots must line up with the options');
+    } else {
+      const slotsResult = validateTimeSlots(data.slots);
+      if (!slotsResult.isValid) {
+        errors.push(slotsResult.error!);
+      }
+    }
+    
+    if (typeof data.timeZone !== 'string' || !isValidTimeZone(data.timeZone)) {
+      errors.push('Scheduling polls need a valid time zone');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate the answer key of a poll added to a quiz
+   *
+   * Questions are scored on the options picked, so they must be single or multiple-choice
+   * without write-ins, and answers can't be changed once the voter has seen the feedback.
+   */
+  static validateQuizQuestion(
+    data: Pick<
+      CreatePollFormData,
+      'quizId' | 'correctOptions' | 'options' | 'allowWriteIns' | 'voteChangePolicy' | 'maxSelections'
+    >,
+    voteType: VoteType
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    const correctOptions = data.correctOptions ?? [];
+    
+    if (!data.quizId) {
+      if (correctOptions.length > 0) {
+        errors.push('Correct answers only apply to quiz questions');
+      }
+      return {
+        isValid: errors.length === 0,
+        errors,
+      };
+    }
+    
+    if (voteType !== 'single' && voteType !== 'multiple') {
+      errors.push('Quiz questions must be single or multiple-choice');
+    }
+    
+    if (data.allowWriteIns) {
+      errors.push('Quiz questions cannot accept write-ins');
+    }
+    
+    if (data.voteChangePolicy !== undefined && data.voteChangePolicy !== 'never') {
+      errors.push('Answers to quiz questions cannot be changed');
+    }
+    
+    const optionCount = data.options?.length ?? 0;
+    if (correctOptions.length === 0) {
+      errors.push('Mark at least one correct answer');
+    } else if (
+      new Set(correctOptions).size !== correctOptions.length ||
+      correctOptions.some(index => !Number.isInteger(index) || index < 0 || index >= optionCount)
+    ) {
+      errors.push('Correct answers must be distinct options of the poll');
+    } else if (voteType === 'single' && correctOptions.length > 1) {
+      errors.push('A single-choice question has exactly one correct answer');
+    } else if (data.maxSelections !== undefined && correctOptions.length > data.maxSelections) {
+      errors.push('There are more correct answers than a ballot can pick');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate create quiz form data
+   */
+  static validateCreateQuiz(data: CreateQuizFormData): ValidationResult {
+    const validator = new PollValidators();
+    validator.reset();
+    
+    const titleResult = this.validateTitle(data.title);
+    if (!titleResult.isValid) {
+      titleResult.errors.forEach(error => validator.addError('title', error));
+    }
+    
+    const descriptionResult = this.validateDescription(data.description);
+    if (!descriptionResult.isValid) {
+      descriptionResult.errors.forEach(error => validator.addError('description', error));
+    }
+    
+    return validator.getResult();
+  }
+  
+  /**
+   * Validate create survey form data
+   *
+   * Each question is checked as the poll it becomes, with the survey's shared settings;
+   * its errors are keyed as questions.<index>.<field>.
+   */
+  static validateCreateSurvey(data: CreateSurveyFormData): ValidationResult {
+    const validator = new PollValidators();
+    validator.reset();
+    
+    const titleResult = this.validateTitle(data.title);
+    if (!titleResult.isValid) {
+      titleResult.errors.forEach(error => validator.addError('title', error));
+    }
+    
+    const descriptionResult = this.validateDescription(data.description);
+    if (!descriptionResult.isValid) {
+      descriptionResult.errors.forEach(error => validator.addError('description', error));
+    }
+    
+    const questions = Array.isArray(data.questions) ? data.questions : [];
+    if (questions.length === 0) {
+      validator.addError('questions', 'A survey needs at least one question');
+    } else if (questions.length > AppConfig.poll.maxSurveyQuestions) {
+      validator.addError(
+        'questions',
+        `A survey cannot have more than ${AppConfig.poll.maxSurveyQuestions} questions`
+      );
+    }
+    
+    questions.forEach((question, index) => {
+      const questionResult = this.validateCreatePoll({
+        ...question,
+        expiresAt: data.expiresAt,
+        isAnonymous: data.isAnonymous,
+        guestVoteLimit: data.guestVoteLimit,
+      });
+      Object.entries(questionResult.errors).forEach(([field, errors]) =>
+        errors.forEach(error => validator.addError(`questions.${index}.${field}`, error))
+      );
+    });
+    
+    return validator.getResult();
+  }
+  
+  /**
+   * Validate optional vanity slug
+   */
+  static validateSlug(slug: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (slug && slug.trim()) {
+      const result = validatePollSlug(normalizePollSlug(slug));
+      if (!result.isValid && result.error) {
+        errors.push(result.error);
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate optional guest vote limit
+   */
+  static validateGuestVoteLimit(limit: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (limit !== undefined && !isGuestVoteLimit(limit)) {
+      errors.push(`Guest vote limit must be one of: ${GUEST_VOTE_LIMITS.join(', ')}`);
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate optional vote change policy and, for the 'window' policy, its length
+   */
+  static validateVoteChangePolicy(
+    policy: VoteChangePolicy | undefined,
+    windowMinutes: number | null | undefined
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (policy !== undefined && !isVoteChangePolicy(policy)) {
+      errors.push(`Vote change policy must be one of: ${VOTE_CHANGE_POLICIES.join(', ')}`);
+    } else if (policy === 'window') {
+      if (
+        windowMinutes === undefined ||
+        windowMinutes === null ||
+        !Number.isInteger(windowMinutes) ||
+        windowMinutes < 1 ||
+        windowMinutes > MAX_VOTE_CHANGE_WINDOW_MINUTES
+      ) {
+        errors.push(
+          `Vote change window must be a whole number of minutes from 1 to ${MAX_VOTE_CHANGE_WINDOW_MINUTES}`
+        );
+      }
+    } else if (windowMinutes !== undefined && windowMinutes !== null) {
+      errors.push('A vote change window only applies to the window policy');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate optional results visibility
+   *
+   * Results shown after close need the poll to close, so it must have an expiration date.
+   */
+  static validateResultsVisibility(
+    visibility: ResultsVisibility | undefined,
+    expiresAt: Date | null | undefined
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (visibility !== undefined && !isResultsVisibility(visibility)) {
+      errors.push(`Results visibility must be one of: ${RESULTS_VISIBILITIES.join(', ')}`);
+    } else if (visibility === 'after_close' && !expiresAt) {
+      errors.push('Set an expiration date to show results after the poll closes');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate a poll's closing rules and tie strategy
+   *
+   * Targets are whole ballot counts. A decisive lead is measured against the vote target and
+   * can't be told from first preferences alone on ranked polls.
+   */
+  static validateCloseRules(
+    data: Pick<
+      CreatePollFormData,
+      'closeAfterVotes' | 'closeOnDecisiveLead' | 'quorum' | 'tieStrategy' | 'quizId' | 'surveyId'
+    >,
+    voteType: VoteType
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    const hasRules =
+      data.closeAfterVotes !== undefined || !!data.closeOnDecisiveLead || data.quorum !== undefined;
+    
+    if (data.tieStrategy !== undefined && !isTieStrategy(data.tieStrategy)) {
+      errors.push(`Tie strategy must be one of: ${TIE_STRATEGIES.join(', ')}`);
+    }
+    
+    if (!hasRules) {
+      return { isValid: errors.length === 0, errors };
+    }
+    
+    if (!supportsCloseRules({ voteType, quizId: data.quizId, surveyId: data.surveyId })) {
+      errors.push('Closing rules only apply to standalone single, multiple-choice and ranked polls');
+    }
+    
+    for (const [label, value] of [
+      ['Vote target', data.closeAfterVotes],
+      ['Quorum', data.quorum],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > 1000000)) {
+        errors.push(`${label} must be a whole number of votes between 1 and 1,000,000`);
+      }
+    }
+    
+    if (data.closeOnDecisiveLead) {
+      if (data.closeAfterVotes === undefined) {
+        errors.push('Closing on a decisive lead needs a vote target');
+      }
+      if (voteType === 'ranked') {
+        errors.push('Ranked polls cannot close on a decisive lead, since the runoff can still change the winner');
+      }
+    }
+    
+    if (
+      data.quorum !== undefined &&
+      data.closeAfterVotes !== undefined &&
+      data.quorum > data.closeAfterVotes
+    ) {
+      errors.push('The quorum cannot be higher than the vote target');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate optional vote type
+   */
+  static validateVoteType(voteType: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (voteType !== undefined && !isVoteType(voteType)) {
+      errors.push(`Vote type must be one of: ${VOTE_TYPES.join(', ')}`);
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate optional selection limits of a multiple-choice poll
+   *
+   * @param optionCount - Number of options on the poll, when known
+   */
+  static validateSelectionLimits(
+    { minSelections, maxSelections }: SelectionLimits,
+    optionCount?: number
+  ): FieldValidationResult {
+    const errors: string[] = [];
+    
+    const isLimit = (limit: number | null | undefined) =>
+      limit === undefined || limit === null || (Number.isInteger(limit) && limit >= 1);
+    
+    if (!isLimit(minSelections)) {
+      errors.push('Minimum selections must be a whole number of at least 1');
+    }
+    
+    if (!isLimit(maxSelections)) {
+      errors.push('Maximum selections must be a whole number of at least 1');
+    }
+    
+    if (minSelections && maxSelections && minSelections > maxSelections) {
+      errors.push('Minimum selections cannot be more than maximum selections');
+    }
+    
+    if (optionCount !== undefined && minSelections && minSelections > optionCount) {
+      errors.push(`Minimum selections cannot be more than the ${optionCount} options`);
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate the score range of a rating poll, e.g. 1-5 stars or 0-10
+   */
+  static validateRatingScale(scale: RatingScale | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!scale) {
+      errors.push('Rating polls need a rating scale');
+    } else if (!Number.isInteger(scale.min) || !Number.isInteger(scale.max)) {
+      errors.push('Rating scale bounds must be whole numbers');
+    } else {
+      if (scale.min < RATING_SCALE_MIN || scale.max > RATING_SCALE_MAX) {
+        errors.push(`Rating scale must stay within ${RATING_SCALE_MIN}-${RATING_SCALE_MAX}`);
+      }
+      
+      if (scale.max <= scale.min) {
+        errors.push('Rating scale maximum must be above its minimum');
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate edit poll form data
+   */
+  static validateEditPoll(data: Partial<EditPollFormData>): ValidationResult {
+    const validator = new PollValidators();
+    validator.reset();
+    
+    // Only validate fields that are present
+    if (data.title !== undefined) {
+      const titleResult = this.validateTitle(data.title);
+      if (!titleResult.isValid) {
+        titleResult.errors.forEach(error => validator.addError('title', error));
+      }
+    }
+    
+    if (data.description !== undefined) {
+      const descriptionResult = this.validateDescription(data.description);
+      if (!descriptionResult.isValid) {
+        descriptionResult.errors.forEach(error => validator.addError('description', error));
+      }
+    }
+    
+    if (data.expiresAt !== undefined) {
+      const expirationResult = this.validateExpirationDate(data.expiresAt);
+      if (!expirationResult.isValid) {
+        expirationResult.errors.forEach(error => validator.addError('expiresAt', error));
+      }
+    }
+    
+    if (data.guestVoteLimit !== undefined) {
+      const guestVoteLimitResult = this.validateGuestVoteLimit(data.guestVoteLimit);
+      if (!guestVoteLimitResult.isValid) {
+        guestVoteLimitResult.errors.forEach(error => validator.addError('guestVoteLimit', error));
+      }
+    }
+
+    // Whether the options may change at all depends on the poll's status, checked by the service
+    if (data.options !== undefined) {
+      const optionsResult = this.validateOptions(
+        Array.isArray(data.options) ? data.options.map(option => option?.text) : undefined
+      );
+      if (!optionsResult.isValid) {
+        optionsResult.errors.forEach(error => validator.addError('options', error));
+      }
+    }
+
+    if (data.voteType !== undefined) {
+      const voteTypeResult = this.validateVoteType(data.voteType);
+      if (!voteTypeResult.isValid) {
+        voteTypeResult.errors.forEach(error => validator.addError('voteType', error));
+      }
+      
+      // Editing can't set a rating scale or time slots, and existing votes carry no scores
+      if (data.voteType === 'rating' || data.voteType === 'schedule') {
+        validator.addError('voteType', 'Only new polls can be rating or scheduling polls');
+      }
+      
+      if (data.allowWriteIns && data.voteType !== 'single' && data.voteType !== 'multiple') {
+        validator.addError('allowWriteIns', 'Write-ins only apply to single and multiple-choice polls');
+      }
+    }
+    
+    if (data.minSelections !== undefined || data.maxSelections !== undefined) {
+      const limitsResult = this.validateSelectionLimits(data, data.options?.length);
+      if (!limitsResult.isValid) {
+        limitsResult.errors.forEach(error => validator.addError('maxSelections', error));
+      }
+    }
+    
+    // The window is stored with the policy, so it can't change on its own
+    if (data.voteChangePolicy !== undefined) {
+      const voteChangeResult = this.validateVoteChangePolicy(
+        data.voteChangePolicy,
+        data.voteChangeWindowMinutes
+      );
+      if (!voteChangeResult.isValid) {
+        voteChangeResult.errors.forEach(error => validator.addError('voteChangePolicy', error));
+      }
+    } else if (data.voteChangeWindowMinutes !== undefined) {
+      validator.addError('voteChangePolicy', 'Set the vote change policy along with its window');
+    }
+    
+    // The expiry may already be on the poll, so only the value itself is checked here
+    if (data.resultsVisibility !== undefined && !isResultsVisibility(data.resultsVisibility)) {
+      validator.addError(
+        'resultsVisibility',
+        `Results visibility must be one of: ${RESULTS_VISIBILITIES.join(', ')}`
+      );
+    }
+    
+    return validator.getResult();
+  }
+  
+  /**
+   * Validate a write-in answer to a poll's "Other" choice
+   */
+  static validateWriteIn(writeIn: string | null | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (writeIn !== undefined && writeIn !== null) {
+      if (typeof writeIn !== 'string' || !writeIn.trim()) {
+        errors.push('Write-in cannot be empty');
+      } else if (writeIn.trim().length > WRITE_IN_MAX_LENGTH) {
+        errors.push(`Write-in must be less than ${WRITE_IN_MAX_LENGTH} characters`);
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate vote submission
+   *
+   * Ranked ballots list option IDs in preference order and may leave options unranked.
+   * Multiple-choice ballots must respect the poll's selection limits. A write-in counts
+   * as one more selection, so a ballot may consist of the write-in alone.
+   */
+  static validateVoteSubmission(
+    optionIds: string[],
+    voteType: VoteType,
+    selectionLimits: SelectionLimits = {},
+    writeIn: string | null = null
+  ): ValidationResult {
+    const validator = new PollValidators();
+    validator.reset();
+    
+    const writeInResult = this.validateWriteIn(writeIn);
+    if (!writeInResult.isValid) {
+      writeInResult.errors.forEach(error => validator.addError('writeIn', error));
+    }
+    
+    const hasWriteIn = writeInResult.isValid && writeIn !== null;
+    if (!Array.isArray(optionIds) || (optionIds.length === 0 && !hasWriteIn)) {
+      validator.addError('optionIds', 'At least one option must be selected');
+    } else {
+      const selections = optionIds.length + (hasWriteIn ? 1 : 0);
+      
+      // Check for duplicate option IDs
+      const uniqueOptions = new Set(optionIds);
+      if (uniqueOptions.size !== optionIds.length) {
+        validator.addError(
+          'optionIds',
+          voteType === 'ranked'
+            ? 'Each option can only be ranked once'
+            : 'Duplicate option selections are not allowed'
+        );
+      }
+      
+      // Check multiple votes constraint
+      if (voteType === 'single' && selections > 1) {
+        validator.addError('optionIds', 'This poll only allows one vote per user');
+      }
+      
+      const { minSelections, maxSelections } = selectionLimits;
+      if (
+        voteType === 'multiple' &&
+        !isWithinSelectionLimits(selections, minSelections, maxSelections)
+      ) {
+        validator.addError(
+          'optionIds',
+          `Select ${describeSelectionLimits(minSelections, maxSelections)}`
+        );
+      }
+      
+      // Validate option ID format (assuming UUIDs)
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      optionIds.forEach((optionId, index) => {
+        if (!optionId || typeof optionId !== 'string') {
+          validator.addError('optionIds', `Option ${index + 1} ID is invalid`);
+        } else if (!uuidRegex.test(optionId)) {
+          validator.addError('optionIds', `Option ${index + 1} ID format is invalid`);
+        }
+      });
+    }
+    
+    return validator.getResult();
+  }
+  
+  /**
+   * Validate a rating ballot, which must score every option of the poll within its scale
+   *
+   * @param optionIds - IDs of all the poll's options
+   */
+  static validateRatingBallot(
+    scores: ScoreBallot | null | undefined,
+    optionIds: string[],
+    scale: RatingScale
+  ): ValidationResult {
+    const validator = new PollValidators();
+    validator.reset();
+    
+    if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+      validator.addError('scores', 'Every option must be scored');
+      return validator.getResult();
+    }
+    
+    const unscored = optionIds.filter(optionId => !(optionId in scores));
+    if (unscored.length > 0) {
+      validator.addError('scores', 'Every option must be scored');
+    }
+    
+    const unknown = Object.keys(scores).filter(optionId => !optionIds.includes(optionId));
+    if (unknown.length > 0) {
+      validator.addError('scores', `Unknown option IDs: ${unknown.join(', ')}`);
+    }
+    
+    const outOfScale = Object.values(scores).some(
+      score => !Number.isInteger(score) || score < scale.min || score > scale.max
+    );
+    if (outOfScale) {
+      validator.addError('scores', `Scores must be whole numbers from ${scale.min} to ${scale.max}`);
+    }
+    
+    return validator.getResult();
+  }
+  
+  /**
+   * Validate an availability ballot, which must answer yes, if need be or no for every slot
+   *
+   * Answers arrive as scores on the fixed availability scale.
+   *
+   * @param optionIds - IDs of all the poll's slots
+   */
+  static validateAvailabilityBallot(
+    scores: ScoreBallot | null | undefined,
+    optionIds: string[]
+  ): ValidationResult {
+    const validator = new PollValidators();
+    validator.reset();
+    
+    if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+      validator.addError('scores', 'Mark every time slot yes, if need be or no');
+      return validator.getResult();
+    }
+    
+    const unanswered = optionIds.filter(optionId => !(optionId in scores));
+    if (unanswered.length > 0) {
+      validator.addError('scores', 'Mark every time slot yes, if need be or no');
+    }
+    
+    const unknown = Object.keys(scores).filter(optionId => !optionIds.includes(optionId));
+    if (unknown.length > 0) {
+      validator.addError('scores', `Unknown option IDs: ${unknown.join(', ')}`);
+    }
+    
+    const invalid = Object.values(scores).some(
+      score =>
+        !Number.isInteger(score) || score < AVAILABILITY_SCALE.min || score > AVAILABILITY_SCALE.max
+    );
+    if (invalid) {
+      validator.addError('scores', 'Availability must be yes, if need be or no');
+    }
+    
+    return validator.getResult();
+  }
+  
+  /**
+   * Validate QR code name
+   */
+  static validateQRCodeName(name: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!name || !name.trim()) {
+      errors.push('QR code name is required');
+    } else if (name.trim().length > AppConfig.poll.maxQRCodeNameLength) {
+      errors.push(`QR code name cannot exceed ${AppConfig.poll.maxQRCodeNameLength} characters`);
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate QR code source tag
+   */
+  static validateSourceTag(source: string | null | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (source && !isValidSourceTag(source)) {
+      errors.push('Source must be a lowercase slug such as lobby-poster');
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate the follow-up links leaving a poll
+   *
+   * Each option leads to at most one follow-up. Ownership and cycles are checked by the
+   * service, which can see the other polls.
+   */
+  static validateFollowUps(followUps: PollFollowUpLink[] | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!Array.isArray(followUps)) {
+      errors.push('Follow-ups must be a list');
+    } else {
+      const optionIds = new Set<string>();
+      
+      followUps.forEach((followUp, index) => {
+        if (!followUp?.optionId || typeof followUp.optionId !== 'string') {
+          errors.push(`Follow-up ${index + 1} needs an option`);
+        } else if (optionIds.has(followUp.optionId)) {
+          errors.push('An option can only lead to one follow-up poll');
+        } else {
+          optionIds.add(followUp.optionId);
+        }
+        
+        if (!this.validatePollId(followUp?.followUpPollId).isValid) {
+          errors.push(`Follow-up ${index + 1} needs a valid follow-up poll`);
+        }
+      });
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate poll ID
+   */
+  static validatePollId(pollId: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!pollId) {
+      errors.push('Poll ID is required');
+    } else {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(pollId)) {
+        errors.push('Invalid poll ID format');
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+  
+  /**
+   * Validate user ID
+   */
+  static validateUserId(userId: string | undefined): FieldValidationResult {
+    const errors: string[] = [];
+    
+    if (!userId) {
+      errors.push('User ID is required');
+    } else {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(userId)) {
+        errors.push('Invalid user ID format');
+      }
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+}
+
+/**
+ * Validation helper functions
+ */
+export function validateAndThrowPoll(data: CreatePollFormData): void {
+  const result = PollValidators.validateCreatePoll(data);
+  if (!result.isValid) {
+    throw ValidationError.fromFieldErrors(result.errors);
+  }
+}
+
+export function validateAndThrowEditPoll(data: Partial<EditPollFormData>): void {
+  const result = PollValidators.validateEditPoll(data);
+  if (!result.isValid) {
+    throw ValidationError.fromFieldErrors(result.errors);
+  }
+}
+
+export function validateAndThrowQuiz(data: CreateQuizFormData): void {
+  const result = PollValidators.validateCreateQuiz(data);
+  if (!result.isValid) {
+    throw ValidationError.fromFieldErrors(result.errors);
+  }
+}
+
+export function validateAndThrowSurvey(data: CreateSurveyFormData): void {
+  const result = PollValidators.validateCreateSurvey(data);
+  if (!result.isValid) {
+    throw ValidationError.fromFieldErrors(result.errors);
+  }
+}
+
+export function validateAndThrowVote(
+  optionIds: string[],
+  voteType: VoteType,
+  selectionLimits: SelectionLimits = {},
+  writeIn: string | null = null
+): void {
+  const result = PollValidators.validateVoteSubmission(
+    optionIds,
+    voteType,
+    selectionLimits,
+    writeIn
+  );
+  if (!result.isValid) {
+    throw ValidationError.fromFieldErrors(result.errors);
+  }
+}
+
+export function validateAndThrowRatingBallot(
+  scores: ScoreBallot | null | undefined,
+  optionIds: string[],
+  scale: RatingScale
+): void {
+  const result = PollValidators.validateRatingBallot(scores, optionIds, scale);
+  if (!result.isValid) {
+    throw ValidationError.fromFieldErrors(result.errors);
+  }
+}
+
+export function validateAndThrowAvailabilityBallot(
+  scores: ScoreBallot | null | undefined,
+  optionIds: string[]
+): void {
+  const result = PollValidators.validateAvailabilityBallot(scores, optionIds);
+  if (!result.isValid) {
+    throw ValidationError.fromFieldErrors(result.errors);
+  }
+}
+
+export function validateAndThrowWriteIn(writeIn: string | null | undefined): void {
+  const result = PollValidators.validateWriteIn(writeIn ?? '');
+  if (!result.isValid) {
+    throw new InvalidInputError('writeIn', writeIn, result.errors.join(', '));
+  }
+}
+
+export function validateAndThrowFollowUps(followUps: PollFollowUpLink[] | undefined): void {
+  const result = PollValidators.validateFollowUps(followUps);
+  if (!result.isValid) {
+    throw new InvalidInputError('followUps', followUps, result.errors.join(', '));
+  }
+}
+
+export function validateAndThrowPollId(pollId: string | undefined): void {
+  const result = PollValidators.validatePollId(pollId);
+  if (!result.isValid) {
+    throw new InvalidInputError('pollId', pollId, result.errors.join(', '));
+  }
+}
+
+export function validateAndThrowQRCodeName(name: string | undefined): void {
+  const result = PollValidators.validateQRCodeName(name);
+  if (!result.isValid) {
+    throw new InvalidInputError('name', name, result.errors.join(', '));
+  }
+}
+
+export function validateAndThrowSourceTag(source: string | null | undefined): void {
+  const result = PollValidators.validateSourceTag(source);
+  if (!result.isValid) {
+    throw new InvalidInputError('source', source, result.errors.join(', '));
+  }
+}
+
+export function validateAndThrowUserId(userId: string | undefined): void {
+  const result = PollValidators.validateUserId(userId);
+  if (!result.isValid) {
+    throw new InvalidInputError('userId', userId, result.errors.join(', '));
+  }
+}
@@ -4,6 +4,34 @@ import { NextResponse } from 'next/server'
 
 import type { NextRequest } from 'next/server'
 
+// Paths served to visitors without a session
+const PUBLIC_PATH_PATTERNS = [
+  // Sign-in and sign-up pages
+  /^\/auth/,
+  // Embed widget and oEmbed endpoint loaded by third-party sites
+  /^\/embed\//,
+  /^\/api\/oembed/,
+  // Poll pages and short links that link unfurlers fetch
+  /^\/polls\/(?!create$)[^/]+$/,
+  /^\/p\/[^/]+$/,
+  // Poll APIs for preview images, calendar files and guest voting; routes check who may vote
+  /^\/api\/polls\/(?!me$)[^/]+(\/(og|ics|vote|votes\/me|views|statistics))?$/,
+  // Quiz pages and leaderboards
+  /^\/quizzes\/(?!create$)[^/]+$/,
+  /^\/api\/quizzes\/[^/]+(\/leaderboard)?$/,
+  // Survey pages and the progress and submit APIs guest respondents use
+  /^\/surveys\/(?!create$)[^/]+$/,
+  /^\/api\/surveys\/[^/]+(\/(progress|submit))?$/,
+  // Uploaded option images
+  /^\/api\/uploads\/.+$/,
+  // Scheduled jobs, which check the scheduler's secret themselves
+  /^\/api\/cron\/[^/]+$/,
+]
+
+function isPublicPath(pathname: string) {
+  return PUBLIC_PATH_PATTERNS.some((pattern) => pattern.test(pathname))
+}
+
 export async function middleware(req: NextRequest) {
   const res = NextResponse.next()
   const supabase = createMiddlewareClient({ req, res })
@@ -11,7 +39,7 @@ export async function middleware(req: NextRequest) {
     data: { session },
   } = await supabase.auth.getSession()
 
-  if (!session && !req.nextUrl.pathname.startsWith('/auth')) {
+  if (!session && !isPublicPath(req.nextUrl.pathname)) {
     const redirectUrl = req.nextUrl.clone()
     redirectUrl.pathname = '/auth/login'
     return NextResponse.redirect(redirectUrl)
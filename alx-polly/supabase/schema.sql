@@ -16,6 +16,34 @@ CREATE TABLE public.profiles (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Quizzes table: a quiz groups polls as numbered questions with correct answers
+CREATE TABLE public.quizzes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT quizzes_title_length CHECK (char_length(title) >= 1 AND char_length(title) <= 200),
+    CONSTRAINT quizzes_description_length CHECK (char_length(description) <= 1000)
+);
+
+-- Surveys table: a survey groups polls as ordered questions answered in one sitting
+CREATE TABLE public.surveys (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT surveys_title_length CHECK (char_length(title) >= 1 AND char_length(title) <= 200),
+    CONSTRAINT surveys_description_length CHECK (char_length(description) <= 1000)
+);
+
 -- Polls table
 CREATE TABLE public.polls (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -25,41 +53,158 @@ CREATE TABLE public.polls (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     expires_at TIMESTAMP WITH TIME ZONE,
-    is_active BOOLEAN DEFAULT true,
+    starts_at TIMESTAMP WITH TIME ZONE, -- When a scheduled poll opens for voting, NULL to open right away
+    opened_at TIMESTAMP WITH TIME ZONE, -- When the poll first opened, by the sweeper, a vote or its owner
+    closed_at TIMESTAMP WITH TIME ZONE, -- When the poll was last closed, NULL while it is open again
+    status VARCHAR(10) DEFAULT 'open' NOT NULL, -- 'draft', 'scheduled', 'open', 'paused', 'closed' or 'archived'; changes along poll_status_transitions
     allow_multiple_votes BOOLEAN DEFAULT false,
+    vote_type VARCHAR(10) DEFAULT 'single' NOT NULL, -- 'single', 'multiple', 'ranked', 'rating' or 'schedule'; allow_multiple_votes mirrors 'multiple'
+    min_selections SMALLINT, -- Fewest options a multiple-choice ballot may pick, NULL for one
+    max_selections SMALLINT, -- Most options a multiple-choice ballot may pick, NULL for no limit
+    score_min SMALLINT, -- Lowest score on a rating poll, e.g. 1 for 1-5 stars
+    score_max SMALLINT, -- Highest score on a rating poll
+    time_zone VARCHAR(64), -- IANA time zone a scheduling poll's slots were picked in, e.g. 'Europe/Berlin'
+    allow_write_ins BOOLEAN DEFAULT false NOT NULL, -- Offer an "Other (please specify)" choice
+    vote_change_policy VARCHAR(12) DEFAULT 'until_close' NOT NULL, -- 'never', 'until_close' or 'window': when voters may change or retract a ballot
+    vote_change_window_minutes INTEGER, -- How long a ballot stays changeable under 'window', counted from the first vote
+    results_visibility VARCHAR(12) DEFAULT 'always' NOT NULL, -- 'always', 'after_vote', 'after_close' or 'owner_only': when others may see the vote counts
+    close_after_votes INTEGER, -- Vote target: the poll closes once this many ballots are in, NULL for no target
+    close_on_decisive_lead BOOLEAN DEFAULT false NOT NULL, -- Also close once the ballots left before the vote target can't change the leader
+    quorum INTEGER, -- Fewest ballots for the declared result to count, NULL for no quorum
+    tie_strategy VARCHAR(13) DEFAULT 'owner_decides' NOT NULL, -- 'owner_decides', 'random' or 'extend': how a tie for first place is settled at close
+    quiz_id UUID REFERENCES public.quizzes(id) ON DELETE SET NULL, -- Quiz the poll is a question of, if any
+    quiz_position SMALLINT, -- Question number within the quiz
+    survey_id UUID REFERENCES public.surveys(id) ON DELETE CASCADE, -- Survey the poll is a question of, if any
+    survey_position SMALLINT, -- Question number within the survey
     is_anonymous BOOLEAN DEFAULT true,
+    guest_vote_limit VARCHAR(10) DEFAULT 'device' NOT NULL, -- How strictly logged-out votes on anonymous polls are deduplicated
     qr_code_url TEXT,
+    slug VARCHAR(40) UNIQUE, -- Short link used at /p/[slug]
     total_votes INTEGER DEFAULT 0,
     
     -- Constraints
     CONSTRAINT polls_title_length CHECK (char_length(title) >= 1 AND char_length(title) <= 200),
     CONSTRAINT polls_description_length CHECK (char_length(description) <= 1000),
-    CONSTRAINT polls_expires_at_future CHECK (expires_at IS NULL OR expires_at > created_at)
+    CONSTRAINT polls_expires_at_future CHECK (expires_at IS NULL OR expires_at > created_at),
+    CONSTRAINT polls_starts_before_expiry CHECK (starts_at IS NULL OR expires_at IS NULL OR expires_at > starts_at),
+    CONSTRAINT polls_status_valid CHECK (status IN ('draft', 'scheduled', 'open', 'paused', 'closed', 'archived')),
+    CONSTRAINT polls_scheduled_has_start CHECK (status <> 'scheduled' OR starts_at IS NOT NULL),
+    CONSTRAINT polls_slug_format CHECK (slug IS NULL OR (char_length(slug) >= 3 AND slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$')),
+    CONSTRAINT polls_guest_vote_limit_valid CHECK (guest_vote_limit IN ('browser', 'device', 'network')),
+    CONSTRAINT polls_vote_type_valid CHECK (vote_type IN ('single', 'multiple', 'ranked', 'rating', 'schedule')),
+    CONSTRAINT polls_selection_limits_valid CHECK (
+        (min_selections IS NULL OR min_selections >= 1)
+        AND (max_selections IS NULL OR max_selections >= COALESCE(min_selections, 1))
+    ),
+    CONSTRAINT polls_score_scale_valid CHECK (
+        vote_type <> 'rating' OR (score_min >= 0 AND score_max > score_min AND score_max <= 10)
+    ),
+    -- Availability is stored as a score: 0 = no, 1 = if need be, 2 = yes
+    CONSTRAINT polls_schedule_valid CHECK (
+        (vote_type = 'schedule') = (time_zone IS NOT NULL)
+        AND (vote_type <> 'schedule' OR (score_min = 0 AND score_max = 2))
+    ),
+    CONSTRAINT polls_write_ins_valid CHECK (NOT allow_write_ins OR vote_type IN ('single', 'multiple')),
+    CONSTRAINT polls_vote_change_policy_valid CHECK (
+        vote_change_policy IN ('never', 'until_close', 'window')
+        AND (vote_change_policy = 'window') = (vote_change_window_minutes IS NOT NULL)
+        AND (vote_change_window_minutes IS NULL OR vote_change_window_minutes >= 1)
+    ),
+    -- A poll without an expiry never closes, so its results would never be shown
+    CONSTRAINT polls_results_visibility_valid CHECK (
+        results_visibility IN ('always', 'after_vote', 'after_close', 'owner_only')
+        AND (results_visibility <> 'after_close' OR expires_at IS NOT NULL)
+    ),
+    -- Closing rules only apply to standalone polls with a winner: single, multiple-choice and ranked.
+    -- A decisive lead needs a vote target to measure the remaining ballots against, and first
+    -- preferences of a ranked ballot can still move in the runoff, so ranked polls can't use it
+    CONSTRAINT polls_close_rules_valid CHECK (
+        (close_after_votes IS NULL OR close_after_votes >= 1)
+        AND (quorum IS NULL OR quorum >= 1)
+        AND tie_strategy IN ('owner_decides', 'random', 'extend')
+        AND (NOT close_on_decisive_lead OR (close_after_votes IS NOT NULL AND vote_type IN ('single', 'multiple')))
+        AND (
+            (close_after_votes IS NULL AND quorum IS NULL)
+            OR (vote_type IN ('single', 'multiple', 'ranked') AND quiz_id IS NULL AND survey_id IS NULL)
+        )
+    ),
+    CONSTRAINT polls_quiz_question_valid CHECK (
+        quiz_id IS NULL OR (vote_type IN ('single', 'multiple') AND NOT allow_write_ins AND quiz_position >= 1)
+    ),
+    CONSTRAINT polls_survey_question_valid CHECK (
+        survey_id IS NULL OR (quiz_id IS NULL AND survey_position >= 1)
+    )
 );
 
+-- Lifecycle transitions a poll may take: publishing and scheduling drafts, opening,
+-- pausing, closing and reopening, and archiving closed polls. Status changes only follow these
+CREATE TABLE public.poll_status_transitions (
+    from_status VARCHAR(10) NOT NULL,
+    to_status VARCHAR(10) NOT NULL,
+    
+    PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.poll_status_transitions (from_status, to_status) VALUES
+    ('draft', 'scheduled'),
+    ('draft', 'open'),
+    ('scheduled', 'draft'),
+    ('scheduled', 'open'),
+    ('scheduled', 'closed'),
+    ('open', 'paused'),
+    ('open', 'closed'),
+    ('paused', 'open'),
+    ('paused', 'closed'),
+    ('closed', 'open'),
+    ('closed', 'archived'),
+    ('archived', 'closed');
+
 -- Poll options table
 CREATE TABLE public.poll_options (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
     text VARCHAR(500) NOT NULL,
+    position SMALLINT NOT NULL, -- Place in the poll's list of options, from 0
     votes_count INTEGER DEFAULT 0,
+    is_correct BOOLEAN DEFAULT false NOT NULL, -- Right answer to a quiz question
+    image_url TEXT, -- Uploaded or linked image shown with the option
+    image_caption VARCHAR(200), -- Only set alongside an image
+    starts_at TIMESTAMP WITH TIME ZONE, -- Time slot of a scheduling poll option
+    ends_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     -- Constraints
     CONSTRAINT poll_options_text_length CHECK (char_length(text) >= 1 AND char_length(text) <= 500),
-    CONSTRAINT poll_options_votes_count_positive CHECK (votes_count >= 0)
+    CONSTRAINT poll_options_votes_count_positive CHECK (votes_count >= 0),
+    CONSTRAINT poll_options_position_valid CHECK (position >= 0),
+    CONSTRAINT poll_options_image_url_length CHECK (char_length(image_url) <= 2048),
+    CONSTRAINT poll_options_image_caption_valid CHECK (
+        image_caption IS NULL OR (image_url IS NOT NULL AND char_length(image_caption) <= 200)
+    ),
+    CONSTRAINT poll_options_slot_valid CHECK (
+        (starts_at IS NULL) = (ends_at IS NULL) AND (ends_at IS NULL OR ends_at > starts_at)
+    )
 );
 
 -- Votes table
 CREATE TABLE public.votes (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
-    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE, -- NULL for a write-in
     user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
     ip_address INET,
     user_agent TEXT,
+    source VARCHAR(50), -- QR code source tag the voter arrived through
+    voter_token UUID, -- Signed cookie ID of a logged-out voter
+    rank SMALLINT, -- Preference on a ranked ballot (1 = first choice), NULL for other vote types
+    score SMALLINT, -- Score given to the option on a rating poll, NULL for other vote types
+    write_in VARCHAR(200), -- Voter's own answer to the "Other" choice, NULL for option votes
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
+    CONSTRAINT votes_rank_positive CHECK (rank IS NULL OR rank >= 1),
+    CONSTRAINT votes_option_or_write_in CHECK ((option_id IS NULL) <> (write_in IS NULL)),
+    CONSTRAINT votes_write_in_length CHECK (write_in IS NULL OR char_length(write_in) BETWEEN 1 AND 200),
+    
     -- Unique constraint to prevent duplicate votes (when not allowing multiple votes)
     UNIQUE(poll_id, user_id, option_id)
 );
@@ -71,16 +216,100 @@ CREATE TABLE public.poll_views (
     user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
     ip_address INET,
     user_agent TEXT,
+    source VARCHAR(50), -- QR code source tag, NULL for direct visits
     viewed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Status changes of a poll, oldest first, starting with the status it was created in
+CREATE TABLE public.poll_status_events (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    from_status VARCHAR(10), -- NULL for the status the poll was created in
+    to_status VARCHAR(10) NOT NULL,
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL, -- NULL when the sweeper or a vote made the change
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Official result of a poll, declared when it closes and replaced if it is reopened and closed again
+-- A tie left to the owner stays 'tied' until they pick the winner; 'extended' means the tie
+-- reopened the poll until its new expiry, and no_quorum results have no winners
+CREATE TABLE public.poll_outcomes (
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE PRIMARY KEY,
+    status VARCHAR(9) NOT NULL, -- 'decided', 'tied', 'extended', 'no_quorum' or 'no_votes'
+    winner_option_ids UUID[] DEFAULT '{}' NOT NULL,
+    tied_option_ids UUID[] DEFAULT '{}' NOT NULL, -- Options that shared first place, also kept once the tie is settled
+    tie_resolution VARCHAR(6), -- 'random' or 'owner' when a tie was settled, NULL otherwise
+    total_votes INTEGER NOT NULL, -- Ballots counted for the result
+    quorum INTEGER, -- The poll's quorum when the result was declared
+    quorum_met BOOLEAN NOT NULL,
+    decided_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT poll_outcomes_status_valid CHECK (status IN ('decided', 'tied', 'extended', 'no_quorum', 'no_votes')),
+    CONSTRAINT poll_outcomes_tie_resolution_valid CHECK (
+        tie_resolution IS NULL OR (tie_resolution IN ('random', 'owner') AND status = 'decided')
+    ),
+    CONSTRAINT poll_outcomes_winners_valid CHECK ((status = 'decided') = (cardinality(winner_option_ids) > 0))
+);
+
+-- Named QR codes for a poll (e.g. "Lobby poster"), each tagging scans and votes with its source
+CREATE TABLE public.poll_qr_codes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    source VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT poll_qr_codes_name_length CHECK (char_length(name) >= 1 AND char_length(name) <= 100),
+    CONSTRAINT poll_qr_codes_source_format CHECK (source ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    UNIQUE(poll_id, source)
+);
+
+-- Follow-up links: voters who chose option_id in poll_id are sent on to follow_up_poll_id,
+-- and only voters who chose a linked option may vote on it
+CREATE TABLE public.poll_follow_ups (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE NOT NULL,
+    follow_up_poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT poll_follow_ups_not_self CHECK (poll_id <> follow_up_poll_id),
+    UNIQUE(option_id) -- An answer leads to at most one follow-up
+);
+
+-- Survey responses: one row per respondent who has answered at least one question of a survey
+CREATE TABLE public.survey_responses (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    survey_id UUID REFERENCES public.surveys(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    voter_token UUID, -- Signed cookie ID of a logged-out respondent
+    furthest_position SMALLINT NOT NULL, -- Highest question number answered so far
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    submitted_at TIMESTAMP WITH TIME ZONE, -- Set once the respondent submits; answers are final from then on
+    
+    CONSTRAINT survey_responses_respondent CHECK ((user_id IS NULL) <> (voter_token IS NULL)),
+    UNIQUE(survey_id, user_id),
+    UNIQUE(survey_id, voter_token)
+);
+
 -- Indexes for better performance
 CREATE INDEX idx_polls_created_by ON public.polls(created_by);
 CREATE INDEX idx_polls_created_at ON public.polls(created_at DESC);
-CREATE INDEX idx_polls_is_active ON public.polls(is_active);
+CREATE INDEX idx_polls_status ON public.polls(status);
 CREATE INDEX idx_polls_expires_at ON public.polls(expires_at);
+CREATE INDEX idx_polls_starts_at ON public.polls(starts_at) WHERE status = 'scheduled';
+CREATE INDEX idx_polls_quiz_id ON public.polls(quiz_id, quiz_position) WHERE quiz_id IS NOT NULL;
+
+CREATE INDEX idx_polls_survey_id ON public.polls(survey_id, survey_position) WHERE survey_id IS NOT NULL;
 
-CREATE INDEX idx_poll_options_poll_id ON public.poll_options(poll_id);
+CREATE INDEX idx_quizzes_created_by ON public.quizzes(created_by);
+CREATE INDEX idx_surveys_created_by ON public.surveys(created_by);
+
+CREATE INDEX idx_poll_options_poll_id ON public.poll_options(poll_id, position);
 CREATE INDEX idx_poll_options_votes_count ON public.poll_options(votes_count DESC);
 
 CREATE INDEX idx_votes_poll_id ON public.votes(poll_id);
@@ -90,6 +319,20 @@ CREATE INDEX idx_votes_created_at ON public.votes(created_at DESC);
 
 CREATE INDEX idx_poll_views_poll_id ON public.poll_views(poll_id);
 CREATE INDEX idx_poll_views_viewed_at ON public.poll_views(viewed_at DESC);
+CREATE INDEX idx_poll_views_source ON public.poll_views(poll_id, source);
+CREATE INDEX idx_votes_source ON public.votes(poll_id, source);
+CREATE INDEX idx_votes_voter_token ON public.votes(poll_id, voter_token);
+CREATE INDEX idx_votes_ip_address ON public.votes(poll_id, ip_address);
+CREATE INDEX idx_votes_write_in ON public.votes(poll_id) WHERE write_in IS NOT NULL;
+
+CREATE INDEX idx_poll_status_events_poll_id ON public.poll_status_events(poll_id, created_at);
+
+CREATE INDEX idx_poll_qr_codes_poll_id ON public.poll_qr_codes(poll_id);
+
+CREATE INDEX idx_poll_follow_ups_poll_id ON public.poll_follow_ups(poll_id);
+CREATE INDEX idx_poll_follow_ups_follow_up_poll_id ON public.poll_follow_ups(follow_up_poll_id);
+
+CREATE INDEX idx_survey_responses_survey_id ON public.survey_responses(survey_id);
 
 -- Functions and triggers for updating timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -112,40 +355,128 @@ CREATE TRIGGER update_profiles_updated_at
     FOR EACH ROW 
     EXECUTE FUNCTION update_updated_at_column();
 
+-- Trigger for quizzes updated_at
+CREATE TRIGGER update_quizzes_updated_at 
+    BEFORE UPDATE ON public.quizzes 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger for surveys updated_at
+CREATE TRIGGER update_surveys_updated_at 
+    BEFORE UPDATE ON public.surveys 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to start a poll's timeline with the status it was created in
+CREATE OR REPLACE FUNCTION record_initial_poll_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.poll_status_events (poll_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, NEW.created_by);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger for the first entry of a poll's status timeline
+CREATE TRIGGER record_poll_initial_status
+    AFTER INSERT ON public.polls
+    FOR EACH ROW
+    EXECUTE FUNCTION record_initial_poll_status();
+
+-- Function to check every later status change of a poll and record it
+-- The change must be listed in poll_status_transitions, scheduling needs a start time that is
+-- still ahead, and an expired poll can't be opened. opened_at keeps when the poll first opened;
+-- closed_at is set when it closes and cleared when it reopens. The change is credited to the
+-- actor apply_poll_status names, or to the signed-in user for a direct update
+CREATE OR REPLACE FUNCTION check_poll_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor TEXT := current_setting('polly.status_actor', true);
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.poll_status_transitions
+        WHERE from_status = OLD.status AND to_status = NEW.status
+    ) THEN
+        RAISE EXCEPTION 'INVALID_STATUS_TRANSITION' USING DETAIL = OLD.status || ',' || NEW.status;
+    END IF;
+
+    IF NEW.status = 'scheduled' AND (NEW.starts_at IS NULL OR NEW.starts_at <= NOW()) THEN
+        RAISE EXCEPTION 'START_TIME_PASSED' USING DETAIL = COALESCE(NEW.starts_at::TEXT, '');
+    END IF;
+
+    IF NEW.status = 'open' AND NEW.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'POLL_EXPIRED' USING DETAIL = NEW.expires_at::TEXT;
+    END IF;
+
+    NEW.opened_at := CASE WHEN NEW.status = 'open' THEN COALESCE(OLD.opened_at, NOW()) ELSE OLD.opened_at END;
+    NEW.closed_at := CASE
+        WHEN NEW.status = 'open' THEN NULL
+        WHEN NEW.status = 'closed' THEN COALESCE(OLD.closed_at, NOW())
+        ELSE OLD.closed_at
+    END;
+
+    INSERT INTO public.poll_status_events (poll_id, from_status, to_status, changed_by)
+    VALUES (
+        NEW.id, OLD.status, NEW.status,
+        CASE WHEN COALESCE(actor, '') = '' THEN auth.uid() ELSE NULLIF(actor, 'none')::UUID END
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger that keeps status changes, direct updates included, within the poll lifecycle
+CREATE TRIGGER check_poll_status_change
+    BEFORE UPDATE OF status ON public.polls
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION check_poll_status_change();
+
+-- First option of a poll, which every rated ballot scores exactly once
+CREATE OR REPLACE FUNCTION first_poll_option(poll_uuid UUID)
+RETURNS UUID AS $$
+    SELECT id FROM public.poll_options
+    WHERE poll_id = poll_uuid
+    ORDER BY position, id
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
 -- Function to update poll total_votes when votes are added/removed
 CREATE OR REPLACE FUNCTION update_poll_vote_counts()
 RETURNS TRIGGER AS $$
 BEGIN
     IF TG_OP = 'INSERT' THEN
-        -- Update option votes count
-        UPDATE public.poll_options 
-        SET votes_count = votes_count + 1 
-        WHERE id = NEW.option_id;
+        -- A ranked ballot has a row per ranked option; only first choices are counted,
+        -- so option counts are first-preference tallies and total_votes counts ballots
+        IF NEW.rank IS NULL OR NEW.rank = 1 THEN
+            -- Update option votes count
+            UPDATE public.poll_options 
+            SET votes_count = votes_count + 1 
+            WHERE id = NEW.option_id;
         
-        -- Update poll total votes
-        UPDATE public.polls 
-        SET total_votes = (
-            SELECT COUNT(*) 
-            FROM public.votes 
-            WHERE poll_id = NEW.poll_id
-        )
-        WHERE id = NEW.poll_id;
+            -- A rated ballot scores every option; its score for the first option stands for the ballot
+            IF NEW.score IS NULL OR NEW.option_id = first_poll_option(NEW.poll_id) THEN
+                -- Update poll total votes (incremental, so concurrent inserts never overwrite each other)
+                UPDATE public.polls 
+                SET total_votes = total_votes + 1
+                WHERE id = NEW.poll_id;
+            END IF;
+        END IF;
         
         RETURN NEW;
     ELSIF TG_OP = 'DELETE' THEN
-        -- Update option votes count
-        UPDATE public.poll_options 
-        SET votes_count = votes_count - 1 
-        WHERE id = OLD.option_id;
+        IF OLD.rank IS NULL OR OLD.rank = 1 THEN
+            -- Update option votes count
+            UPDATE public.poll_options 
+            SET votes_count = votes_count - 1 
+            WHERE id = OLD.option_id;
         
-        -- Update poll total votes
-        UPDATE public.polls 
-        SET total_votes = (
-            SELECT COUNT(*) 
-            FROM public.votes 
-            WHERE poll_id = OLD.poll_id
-        )
-        WHERE id = OLD.poll_id;
+            IF OLD.score IS NULL OR OLD.option_id = first_poll_option(OLD.poll_id) THEN
+                -- Update poll total votes
+                UPDATE public.polls 
+                SET total_votes = total_votes - 1
+                WHERE id = OLD.poll_id;
+            END IF;
+        END IF;
         
         RETURN OLD;
     END IF;
@@ -167,6 +498,14 @@ ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.poll_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_status_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_outcomes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_qr_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_follow_ups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.surveys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.survey_responses ENABLE ROW LEVEL SECURITY;
 
 -- Profiles policies
 CREATE POLICY "Users can view all profiles" ON public.profiles
@@ -179,11 +518,16 @@ CREATE POLICY "Users can insert own profile" ON public.profiles
     FOR INSERT WITH CHECK (auth.uid() = id);
 
 -- Polls policies
-CREATE POLICY "Anyone can view active polls" ON public.polls
-    FOR SELECT USING (is_active = true OR created_by = auth.uid());
+-- Drafts are only visible to their creator until they are published
+CREATE POLICY "Anyone can view published polls" ON public.polls
+    FOR SELECT USING (status <> 'draft' OR created_by = auth.uid());
 
+-- New polls start as drafts, scheduled or open; later changes are checked by check_poll_status_change
 CREATE POLICY "Users can create polls" ON public.polls
-    FOR INSERT WITH CHECK (auth.uid() = created_by);
+    FOR INSERT WITH CHECK (
+        auth.uid() = created_by
+        AND status IN ('draft', 'scheduled', 'open')
+    );
 
 CREATE POLICY "Users can update own polls" ON public.polls
     FOR UPDATE USING (auth.uid() = created_by);
@@ -197,7 +541,7 @@ CREATE POLICY "Anyone can view poll options" ON public.poll_options
         EXISTS (
             SELECT 1 FROM public.polls
             WHERE polls.id = poll_options.poll_id
-            AND (polls.is_active = true OR polls.created_by = auth.uid())
+            AND (polls.status <> 'draft' OR polls.created_by = auth.uid())
         )
     );
 
@@ -210,6 +554,11 @@ CREATE POLICY "Poll creators can manage options" ON public.poll_options
         )
     );
 
+-- Quiz answer keys stay on the server, which reads is_correct with the service role
+REVOKE SELECT ON public.poll_options FROM anon, authenticated;
+GRANT SELECT (id, poll_id, text, position, votes_count, image_url, image_caption, starts_at, ends_at, created_at)
+    ON public.poll_options TO anon, authenticated;
+
 -- Votes policies
 CREATE POLICY "Users can view votes for polls they created" ON public.votes
     FOR SELECT USING (
@@ -221,18 +570,8 @@ CREATE POLICY "Users can view votes for polls they created" ON public.votes
         OR user_id = auth.uid()
     );
 
-CREATE POLICY "Users can vote on active polls" ON public.votes
-    FOR INSERT WITH CHECK (
-        EXISTS (
-            SELECT 1 FROM public.polls
-            WHERE polls.id = poll_id
-            AND polls.is_active = true
-            AND (polls.expires_at IS NULL OR polls.expires_at > NOW())
-        )
-    );
-
-CREATE POLICY "Users can delete own votes" ON public.votes
-    FOR DELETE USING (auth.uid() = user_id);
+-- Clients have no insert or delete policy: ballots are only written by replace_user_votes,
+-- replace_guest_votes and the retract functions, which apply the poll's voting rules
 
 -- Poll views policies
 CREATE POLICY "Anyone can record poll views" ON public.poll_views
@@ -247,6 +586,80 @@ CREATE POLICY "Poll creators can view analytics" ON public.poll_views
         )
     );
 
+-- Poll status policies (status changes are recorded by transition_poll_status and the sweeper)
+CREATE POLICY "Anyone can view poll status transitions" ON public.poll_status_transitions
+    FOR SELECT USING (true);
+
+CREATE POLICY "Poll creators can view status timelines" ON public.poll_status_events
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE polls.id = poll_status_events.poll_id
+            AND polls.created_by = auth.uid()
+        )
+    );
+
+-- Poll outcome policies (outcomes are written by record_poll_outcome and resolve_poll_tie)
+CREATE POLICY "Anyone can view outcomes of published polls" ON public.poll_outcomes
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE polls.id = poll_outcomes.poll_id
+            AND (polls.status <> 'draft' OR polls.created_by = auth.uid())
+        )
+    );
+
+-- Poll QR codes policies
+CREATE POLICY "Poll creators can manage QR codes" ON public.poll_qr_codes
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE polls.id = poll_qr_codes.poll_id
+            AND polls.created_by = auth.uid()
+        )
+    );
+
+-- Poll follow-ups policies (links are replaced through replace_poll_follow_ups)
+CREATE POLICY "Anyone can view poll follow-ups" ON public.poll_follow_ups
+    FOR SELECT USING (true);
+
+-- Quizzes policies
+CREATE POLICY "Anyone can view quizzes" ON public.quizzes
+    FOR SELECT USING (true);
+
+CREATE POLICY "Users can create quizzes" ON public.quizzes
+    FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update own quizzes" ON public.quizzes
+    FOR UPDATE USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete own quizzes" ON public.quizzes
+    FOR DELETE USING (auth.uid() = created_by);
+
+-- Surveys policies
+CREATE POLICY "Anyone can view surveys" ON public.surveys
+    FOR SELECT USING (true);
+
+CREATE POLICY "Users can create surveys" ON public.surveys
+    FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update own surveys" ON public.surveys
+    FOR UPDATE USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete own surveys" ON public.surveys
+    FOR DELETE USING (auth.uid() = created_by);
+
+-- Survey responses policies (rows are written by the vote and submit functions)
+CREATE POLICY "Users can view responses to surveys they created" ON public.survey_responses
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.surveys
+            WHERE surveys.id = survey_responses.survey_id
+            AND surveys.created_by = auth.uid()
+        )
+        OR user_id = auth.uid()
+    );
+
 -- Helper Functions
 
 -- Function to get poll results with percentages
@@ -295,3 +708,1081 @@ BEGIN
     WHERE v.poll_id = poll_uuid AND v.user_id = user_uuid;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to move a locked poll to another lifecycle status
+-- check_poll_status_change validates and records the change, crediting actor_uuid, which is
+-- NULL for changes made by the sweeper or a vote. Returns the updated poll row
+CREATE OR REPLACE FUNCTION apply_poll_status(target_poll public.polls, new_status VARCHAR(10), actor_uuid UUID)
+RETURNS public.polls AS $$
+DECLARE
+    updated_poll public.polls%ROWTYPE;
+BEGIN
+    PERFORM set_config('polly.status_actor', COALESCE(actor_uuid::TEXT, 'none'), true);
+
+    UPDATE public.polls
+    SET status = new_status
+    WHERE id = target_poll.id
+    RETURNING * INTO updated_poll;
+
+    PERFORM set_config('polly.status_actor', '', true);
+
+    RETURN updated_poll;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_poll_status(public.polls, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function for a poll's owner to move it to another lifecycle status
+-- Only the server runs it, for the owner whose session it checked. Returns the updated poll row
+CREATE OR REPLACE FUNCTION transition_poll_status(poll_uuid UUID, owner_uuid UUID, new_status VARCHAR(10))
+RETURNS public.polls AS $$
+DECLARE
+    target_poll public.polls%ROWTYPE;
+BEGIN
+    SELECT * INTO target_poll
+    FROM public.polls
+    WHERE id = poll_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'POLL_NOT_FOUND' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF owner_uuid IS NULL OR target_poll.created_by <> owner_uuid THEN
+        RAISE EXCEPTION 'NOT_POLL_OWNER' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN apply_poll_status(target_poll, new_status, owner_uuid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION transition_poll_status(UUID, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transition_poll_status(UUID, UUID, VARCHAR) TO service_role;
+
+-- Function to lock a poll before its ballots change and check that it is open
+-- A scheduled poll the sweeper hasn't reached yet is opened here once its start time has passed.
+-- Returns the locked poll row
+CREATE OR REPLACE FUNCTION lock_open_poll(poll_uuid UUID)
+RETURNS public.polls AS $$
+DECLARE
+    target_poll public.polls%ROWTYPE;
+BEGIN
+    SELECT * INTO target_poll
+    FROM public.polls
+    WHERE id = poll_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'POLL_NOT_FOUND' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF target_poll.status = 'scheduled' AND target_poll.starts_at > NOW() THEN
+        RAISE EXCEPTION 'POLL_NOT_STARTED' USING DETAIL = target_poll.starts_at::TEXT;
+    END IF;
+
+    IF target_poll.status = 'scheduled'
+        AND (target_poll.expires_at IS NULL OR target_poll.expires_at > NOW()) THEN
+        target_poll := apply_poll_status(target_poll, 'open', NULL);
+    END IF;
+
+    -- Drafts, paused, closed and archived polls take no ballots
+    IF target_poll.status <> 'open' THEN
+        RAISE EXCEPTION 'POLL_INACTIVE';
+    END IF;
+
+    IF target_poll.expires_at IS NOT NULL AND target_poll.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'POLL_EXPIRED' USING DETAIL = target_poll.expires_at::TEXT;
+    END IF;
+
+    RETURN target_poll;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION lock_open_poll(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to close an open poll once its closing rules are met
+-- The vote target counts ballots; a decisive lead means the runner-up could not catch the
+-- leader even with every ballot left before the target. Polls extended to break a tie are left
+-- open until they expire. Returns whether the poll was closed
+CREATE OR REPLACE FUNCTION close_poll_if_rules_met(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    target_poll public.polls%ROWTYPE;
+    leading_votes INTEGER;
+    runner_up_votes INTEGER;
+BEGIN
+    SELECT * INTO target_poll
+    FROM public.polls
+    WHERE id = poll_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR target_poll.status <> 'open' OR target_poll.close_after_votes IS NULL THEN
+        RETURN false;
+    END IF;
+
+    -- A poll reopened to break a tie runs until its new expiry
+    IF EXISTS (SELECT 1 FROM public.poll_outcomes WHERE poll_id = poll_uuid AND status = 'extended') THEN
+        RETURN false;
+    END IF;
+
+    IF target_poll.total_votes < target_poll.close_after_votes AND target_poll.close_on_decisive_lead THEN
+        SELECT COALESCE(MAX(votes_count), 0) INTO leading_votes
+        FROM public.poll_options
+        WHERE poll_id = poll_uuid;
+
+        SELECT COALESCE(votes_count, 0) INTO runner_up_votes
+        FROM public.poll_options
+        WHERE poll_id = poll_uuid
+        ORDER BY votes_count DESC
+        OFFSET 1 LIMIT 1;
+
+        IF leading_votes - COALESCE(runner_up_votes, 0) <= target_poll.close_after_votes - target_poll.total_votes THEN
+            RETURN false;
+        END IF;
+    ELSIF target_poll.total_votes < target_poll.close_after_votes THEN
+        RETURN false;
+    END IF;
+
+    PERFORM apply_poll_status(target_poll, 'closed', NULL);
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION close_poll_if_rules_met(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to run the instant-runoff count of a ranked poll, matching calculateInstantRunoff()
+-- Each round counts every ballot for its highest-ranked option still in the race. An option with
+-- more than half of the ballots that still count wins; otherwise the option with the fewest votes
+-- is eliminated and the count repeats. Ties for last place go to the option that had fewer votes
+-- in the latest earlier round where they differed, and failing that to the option listed last.
+-- Returns the winner, or NULL when no ballot names an option of the poll
+CREATE OR REPLACE FUNCTION ranked_poll_winner(poll_uuid UUID)
+RETURNS UUID AS $$
+DECLARE
+    continuing UUID[];
+    earlier_rounds JSONB[] := '{}';
+    tallies JSONB;
+    counting_ballots INTEGER;
+    leader UUID;
+    fewest INTEGER;
+    tied UUID[];
+    round_index INTEGER;
+BEGIN
+    SELECT array_agg(id ORDER BY position, id) INTO continuing
+    FROM public.poll_options
+    WHERE poll_id = poll_uuid;
+
+    IF continuing IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    LOOP
+        -- A ballot is a voter's rows, read in rank order
+        SELECT jsonb_object_agg(candidate.option_id, COALESCE(counted.ballots, 0))
+        INTO tallies
+        FROM unnest(continuing) AS candidate(option_id)
+        LEFT JOIN (
+            SELECT choice.option_id, COUNT(*)::INTEGER AS ballots
+            FROM (
+                SELECT DISTINCT ON (COALESCE(v.user_id::TEXT, v.voter_token::TEXT, v.id::TEXT)) v.option_id
+                FROM public.votes v
+                WHERE v.poll_id = poll_uuid AND v.option_id = ANY(continuing)
+                ORDER BY COALESCE(v.user_id::TEXT, v.voter_token::TEXT, v.id::TEXT), v.rank NULLS LAST
+            ) AS choice
+            GROUP BY choice.option_id
+        ) AS counted ON counted.option_id = candidate.option_id;
+
+        SELECT COALESCE(SUM(value::INTEGER), 0) INTO counting_ballots
+        FROM jsonb_each_text(tallies);
+
+        IF counting_ballots = 0 AND cardinality(earlier_rounds) = 0 THEN
+            RETURN NULL;
+        END IF;
+
+        SELECT candidate.option_id INTO leader
+        FROM unnest(continuing) WITH ORDINALITY AS candidate(option_id, place)
+        ORDER BY (tallies ->> candidate.option_id::TEXT)::INTEGER DESC, candidate.place
+        LIMIT 1;
+
+        IF cardinality(continuing) = 1 OR (tallies ->> leader::TEXT)::INTEGER * 2 > counting_ballots THEN
+            RETURN leader;
+        END IF;
+
+        SELECT MIN((tallies ->> option_id::TEXT)::INTEGER) INTO fewest
+        FROM unnest(continuing) AS option_id;
+
+        tied := ARRAY(
+            SELECT candidate.option_id
+            FROM unnest(continuing) WITH ORDINALITY AS candidate(option_id, place)
+            WHERE (tallies ->> candidate.option_id::TEXT)::INTEGER = fewest
+            ORDER BY candidate.place
+        );
+
+        round_index := cardinality(earlier_rounds);
+        WHILE round_index >= 1 AND cardinality(tied) > 1 LOOP
+            SELECT MIN((earlier_rounds[round_index] ->> option_id::TEXT)::INTEGER) INTO fewest
+            FROM unnest(tied) AS option_id;
+
+            tied := ARRAY(
+                SELECT candidate.option_id
+                FROM unnest(tied) WITH ORDINALITY AS candidate(option_id, place)
+                WHERE (earlier_rounds[round_index] ->> candidate.option_id::TEXT)::INTEGER = fewest
+                ORDER BY candidate.place
+            );
+            round_index := round_index - 1;
+        END LOOP;
+
+        earlier_rounds := array_append(earlier_rounds, tallies);
+        continuing := array_remove(continuing, tied[cardinality(tied)]);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION ranked_poll_winner(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to declare the official result of a closed poll, matching decidePollOutcome()
+-- A poll below its quorum has no winner. Otherwise ranked polls are won by ranked_poll_winner()
+-- and other polls by the options with the most votes, and a tie for first place is settled by
+-- the poll's tie strategy. The result can only be declared once per close, so a later call
+-- doesn't overwrite it until the poll is reopened and closed again. An 'extend' tie reopens the
+-- poll for 24 more hours (TIE_EXTENSION_HOURS), once per close. Returns the stored result
+CREATE OR REPLACE FUNCTION record_poll_outcome(poll_uuid UUID)
+RETURNS public.poll_outcomes AS $$
+DECLARE
+    target_poll public.polls%ROWTYPE;
+    existing public.poll_outcomes%ROWTYPE;
+    recorded public.poll_outcomes%ROWTYPE;
+    leaders UUID[] := '{}';
+    ranked_winner UUID;
+    outcome_status VARCHAR(9);
+    winner_uuids UUID[] := '{}';
+    tied_uuids UUID[] := '{}';
+    resolution VARCHAR(6);
+BEGIN
+    SELECT * INTO target_poll
+    FROM public.polls
+    WHERE id = poll_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'POLL_NOT_FOUND' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF target_poll.status <> 'closed' THEN
+        RAISE EXCEPTION 'POLL_NOT_CLOSED' USING DETAIL = target_poll.status;
+    END IF;
+
+    -- Rating and scheduling polls, quizzes and surveys have no winner to declare
+    IF target_poll.vote_type NOT IN ('single', 'multiple', 'ranked')
+        OR target_poll.quiz_id IS NOT NULL
+        OR target_poll.survey_id IS NOT NULL THEN
+        RAISE EXCEPTION 'OUTCOME_NOT_SUPPORTED' USING DETAIL = target_poll.vote_type;
+    END IF;
+
+    SELECT * INTO existing
+    FROM public.poll_outcomes
+    WHERE poll_id = poll_uuid;
+
+    IF FOUND AND existing.decided_at >= target_poll.closed_at THEN
+        RAISE EXCEPTION 'OUTCOME_ALREADY_DECLARED';
+    END IF;
+
+    IF target_poll.total_votes = 0 THEN
+        outcome_status := 'no_votes';
+    ELSIF target_poll.total_votes < COALESCE(target_poll.quorum, 0) THEN
+        outcome_status := 'no_quorum';
+    ELSE
+        IF target_poll.vote_type = 'ranked' THEN
+            ranked_winner := ranked_poll_winner(poll_uuid);
+            IF ranked_winner IS NOT NULL THEN
+                leaders := ARRAY[ranked_winner];
+            END IF;
+        ELSE
+            -- Options nobody voted for don't share first place when every ballot was a write-in
+            leaders := ARRAY(
+                SELECT id
+                FROM public.poll_options
+                WHERE poll_id = poll_uuid
+                    AND votes_count > 0
+                    AND votes_count = (SELECT MAX(votes_count) FROM public.poll_options WHERE poll_id = poll_uuid)
+                ORDER BY position, id
+            );
+        END IF;
+
+        IF cardinality(leaders) = 0 THEN
+            outcome_status := 'no_votes';
+        ELSIF cardinality(leaders) = 1 THEN
+            outcome_status := 'decided';
+            winner_uuids := leaders;
+        ELSE
+            tied_uuids := leaders;
+            IF target_poll.tie_strategy = 'random' THEN
+                outcome_status := 'decided';
+                winner_uuids := ARRAY[leaders[1 + floor(random() * cardinality(leaders))::INTEGER]];
+                resolution := 'random';
+            -- A tie extends the poll only once; the next close leaves it to the owner
+            ELSIF target_poll.tie_strategy = 'extend' AND COALESCE(existing.status, '') <> 'extended' THEN
+                outcome_status := 'extended';
+            ELSE
+                outcome_status := 'tied';
+            END IF;
+        END IF;
+    END IF;
+
+    INSERT INTO public.poll_outcomes (
+        poll_id, status, winner_option_ids, tied_option_ids, tie_resolution,
+        total_votes, quorum, quorum_met, decided_at
+    )
+    VALUES (
+        poll_uuid, outcome_status, winner_uuids, tied_uuids, resolution,
+        target_poll.total_votes, target_poll.quorum,
+        target_poll.total_votes >= COALESCE(target_poll.quorum, 0), NOW()
+    )
+    ON CONFLICT (poll_id) DO UPDATE
+    SET status = EXCLUDED.status,
+        winner_option_ids = EXCLUDED.winner_option_ids,
+        tied_option_ids = EXCLUDED.tied_option_ids,
+        tie_resolution = EXCLUDED.tie_resolution,
+        total_votes = EXCLUDED.total_votes,
+        quorum = EXCLUDED.quorum,
+        quorum_met = EXCLUDED.quorum_met,
+        decided_at = EXCLUDED.decided_at
+    RETURNING * INTO recorded;
+
+    IF outcome_status = 'extended' THEN
+        UPDATE public.polls
+        SET expires_at = NOW() + INTERVAL '24 hours'
+        WHERE id = poll_uuid
+        RETURNING * INTO target_poll;
+
+        PERFORM apply_poll_status(target_poll, 'open', NULL);
+    END IF;
+
+    RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_poll_outcome(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_poll_outcome(UUID) TO service_role;
+
+-- Function for a poll's owner to settle a tie left to them by picking one of the tied options
+-- Returns the updated result
+CREATE OR REPLACE FUNCTION resolve_poll_tie(poll_uuid UUID, owner_uuid UUID, option_uuid UUID)
+RETURNS public.poll_outcomes AS $$
+DECLARE
+    target_poll public.polls%ROWTYPE;
+    current_outcome public.poll_outcomes%ROWTYPE;
+    resolved public.poll_outcomes%ROWTYPE;
+BEGIN
+    SELECT * INTO target_poll
+    FROM public.polls
+    WHERE id = poll_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'POLL_NOT_FOUND' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF owner_uuid IS NULL OR target_poll.created_by <> owner_uuid THEN
+        RAISE EXCEPTION 'NOT_POLL_OWNER' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO current_outcome
+    FROM public.poll_outcomes
+    WHERE poll_id = poll_uuid;
+
+    IF NOT FOUND OR current_outcome.status <> 'tied' THEN
+        RAISE EXCEPTION 'NO_TIE_TO_RESOLVE';
+    END IF;
+
+    IF option_uuid IS NULL OR NOT option_uuid = ANY(current_outcome.tied_option_ids) THEN
+        RAISE EXCEPTION 'INVALID_OPTION' USING DETAIL = COALESCE(option_uuid::TEXT, '');
+    END IF;
+
+    UPDATE public.poll_outcomes
+    SET status = 'decided',
+        winner_option_ids = ARRAY[option_uuid],
+        tie_resolution = 'owner',
+        decided_at = NOW()
+    WHERE poll_id = poll_uuid
+    RETURNING * INTO resolved;
+
+    RETURN resolved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_poll_tie(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_poll_tie(UUID, UUID, UUID) TO service_role;
+
+-- Function for the background sweeper to open scheduled polls and close expired ones
+-- Only transitions that are already due are applied, so running it early or twice is harmless.
+-- Polls another transaction holds are left for the next run. Returns how many polls were opened
+-- and closed, and the IDs of the closed ones so their results can be declared
+CREATE OR REPLACE FUNCTION sweep_poll_schedules()
+RETURNS TABLE (opened_count INTEGER, closed_count INTEGER, closed_poll_ids UUID[]) AS $$
+DECLARE
+    due_poll public.polls%ROWTYPE;
+    opened INTEGER := 0;
+    closed INTEGER := 0;
+    closed_ids UUID[] := '{}';
+BEGIN
+    FOR due_poll IN
+        SELECT * FROM public.polls
+        WHERE status = 'scheduled'
+        AND starts_at <= NOW()
+        AND (expires_at IS NULL OR expires_at > NOW())
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        PERFORM apply_poll_status(due_poll, 'open', NULL);
+        opened := opened + 1;
+    END LOOP;
+
+    -- Paused polls and scheduled polls that expired before they opened are closed too
+    FOR due_poll IN
+        SELECT * FROM public.polls
+        WHERE status IN ('scheduled', 'open', 'paused')
+        AND expires_at <= NOW()
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        PERFORM apply_poll_status(due_poll, 'closed', NULL);
+        closed := closed + 1;
+        closed_ids := array_append(closed_ids, due_poll.id);
+    END LOOP;
+
+    RETURN QUERY SELECT opened, closed, closed_ids;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sweep_poll_schedules() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sweep_poll_schedules() TO service_role;
+
+-- Function to check that a voter may still change or retract their ballot
+-- first_cast_at is when the ballot was first cast, NULL when the voter has none yet.
+-- The detail carries the poll's change window in minutes, empty when changes are off.
+CREATE OR REPLACE FUNCTION assert_ballot_changeable(poll_uuid UUID, first_cast_at TIMESTAMPTZ)
+RETURNS VOID AS $$
+DECLARE
+    change_policy VARCHAR(12);
+    window_minutes INTEGER;
+BEGIN
+    IF first_cast_at IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT vote_change_policy, vote_change_window_minutes INTO change_policy, window_minutes
+    FROM public.polls
+    WHERE id = poll_uuid;
+
+    IF change_policy = 'never' OR (
+        change_policy = 'window'
+        AND first_cast_at + make_interval(mins => window_minutes) <= NOW()
+    ) THEN
+        RAISE EXCEPTION 'VOTE_CHANGE_NOT_ALLOWED' USING DETAIL = COALESCE(window_minutes::TEXT, '');
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION assert_ballot_changeable(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Function to check that a respondent has not submitted the survey a poll belongs to
+-- Exactly one of user_uuid and voter_uuid identifies the respondent. Polls outside a
+-- survey always pass.
+CREATE OR REPLACE FUNCTION assert_survey_response_open(poll_uuid UUID, user_uuid UUID, voter_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.survey_responses sr
+        JOIN public.polls p ON p.survey_id = sr.survey_id
+        WHERE p.id = poll_uuid
+        AND sr.submitted_at IS NOT NULL
+        AND (sr.user_id = user_uuid OR sr.voter_token = voter_uuid)
+    ) THEN
+        RAISE EXCEPTION 'SURVEY_ALREADY_SUBMITTED';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION assert_survey_response_open(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to save a respondent's progress when they answer a survey question
+-- Starts their response on the first answer and keeps the furthest question reached,
+-- so going back to change an earlier answer does not move it.
+CREATE OR REPLACE FUNCTION record_survey_progress(poll_uuid UUID, user_uuid UUID, voter_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+    question public.polls%ROWTYPE;
+BEGIN
+    SELECT * INTO question
+    FROM public.polls
+    WHERE id = poll_uuid;
+
+    IF question.survey_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    PERFORM assert_survey_response_open(poll_uuid, user_uuid, voter_uuid);
+
+    IF user_uuid IS NOT NULL THEN
+        INSERT INTO public.survey_responses (survey_id, user_id, furthest_position)
+        VALUES (question.survey_id, user_uuid, question.survey_position)
+        ON CONFLICT (survey_id, user_id) DO UPDATE
+        SET furthest_position = GREATEST(survey_responses.furthest_position, EXCLUDED.furthest_position),
+            updated_at = NOW();
+    ELSE
+        INSERT INTO public.survey_responses (survey_id, voter_token, furthest_position)
+        VALUES (question.survey_id, voter_uuid, question.survey_position)
+        ON CONFLICT (survey_id, voter_token) DO UPDATE
+        SET furthest_position = GREATEST(survey_responses.furthest_position, EXCLUDED.furthest_position),
+            updated_at = NOW();
+    END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_survey_progress(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to lock a poll and check a ballot against it
+-- option_scores lines up with option_uuids and is only used by rating and scheduling polls; a write-in
+-- counts as one more selection on polls that allow them.
+-- Returns the de-duplicated option IDs in ballot order; the poll row stays locked until the caller's
+-- transaction ends, so concurrent submissions on the same poll run one at a time
+CREATE OR REPLACE FUNCTION prepare_ballot(
+    poll_uuid UUID,
+    option_uuids UUID[],
+    option_scores SMALLINT[] DEFAULT NULL,
+    write_in_text TEXT DEFAULT NULL
+)
+RETURNS UUID[] AS $$
+DECLARE
+    target_poll public.polls%ROWTYPE;
+    ballot UUID[];
+    selections INTEGER;
+    unknown_options UUID[];
+BEGIN
+    target_poll := lock_open_poll(poll_uuid);
+
+    -- Keep each option at its first position, since ranked ballots list preferences in order
+    SELECT COALESCE(array_agg(option_uuid ORDER BY first_position), '{}')
+    INTO ballot
+    FROM (
+        SELECT option_uuid, MIN(position) AS first_position
+        FROM unnest(option_uuids) WITH ORDINALITY AS choice(option_uuid, position)
+        WHERE option_uuid IS NOT NULL
+        GROUP BY option_uuid
+    ) AS choices;
+
+    IF write_in_text IS NOT NULL AND NOT target_poll.allow_write_ins THEN
+        RAISE EXCEPTION 'WRITE_INS_NOT_ALLOWED';
+    END IF;
+
+    IF char_length(write_in_text) > 200 THEN
+        RAISE EXCEPTION 'WRITE_IN_TOO_LONG';
+    END IF;
+
+    selections := cardinality(ballot) + CASE WHEN write_in_text IS NULL THEN 0 ELSE 1 END;
+
+    IF selections = 0 THEN
+        RAISE EXCEPTION 'EMPTY_BALLOT';
+    END IF;
+
+    IF selections > 1 AND target_poll.vote_type = 'single' THEN
+        RAISE EXCEPTION 'MULTIPLE_VOTES_NOT_ALLOWED';
+    END IF;
+
+    -- The detail carries the limits as "min,max", either of which may be empty
+    IF target_poll.vote_type = 'multiple' AND (
+        selections < COALESCE(target_poll.min_selections, 1)
+        OR selections > COALESCE(target_poll.max_selections, selections)
+    ) THEN
+        RAISE EXCEPTION 'SELECTION_LIMIT'
+            USING DETAIL = COALESCE(target_poll.min_selections::TEXT, '') || ',' || COALESCE(target_poll.max_selections::TEXT, '');
+    END IF;
+
+    SELECT array_agg(option_uuid)
+    INTO unknown_options
+    FROM unnest(ballot) AS option_uuid
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.poll_options po
+        WHERE po.id = option_uuid AND po.poll_id = poll_uuid
+    );
+
+    IF unknown_options IS NOT NULL THEN
+        RAISE EXCEPTION 'INVALID_OPTION' USING DETAIL = array_to_string(unknown_options, ', ');
+    END IF;
+
+    -- Rated and scheduling ballots score every option, each within the poll's scale
+    IF target_poll.vote_type IN ('rating', 'schedule') AND (
+        option_scores IS NULL
+        OR cardinality(option_scores) <> cardinality(option_uuids)
+        OR cardinality(ballot) <> (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = poll_uuid)
+        OR EXISTS (
+            SELECT 1 FROM unnest(option_scores) AS score
+            WHERE score IS NULL OR score < target_poll.score_min OR score > target_poll.score_max
+        )
+    ) THEN
+        RAISE EXCEPTION 'INVALID_SCORE'
+            USING DETAIL = target_poll.score_min::TEXT || '-' || target_poll.score_max::TEXT;
+    END IF;
+
+    RETURN ballot;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION prepare_ballot(UUID, UUID[], SMALLINT[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function to replace a user's ballot on a poll in one transaction
+-- Only this user's votes on this poll are touched, and vote counts stay consistent
+-- because prepare_ballot serializes submissions on the poll. The user is whoever the
+-- caller says, so only the server runs it, after checking the user's session.
+CREATE OR REPLACE FUNCTION replace_user_votes(
+    poll_uuid UUID,
+    user_uuid UUID,
+    option_uuids UUID[],
+    vote_source VARCHAR(50) DEFAULT NULL,
+    option_scores SMALLINT[] DEFAULT NULL,
+    write_in_text TEXT DEFAULT NULL
+)
+RETURNS SETOF public.votes AS $$
+DECLARE
+    ballot UUID[];
+    ballot_type VARCHAR(10);
+    first_cast_at TIMESTAMPTZ;
+BEGIN
+    IF user_uuid IS NULL THEN
+        RAISE EXCEPTION 'VOTER_MISMATCH' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    write_in_text := NULLIF(btrim(write_in_text), '');
+    ballot := prepare_ballot(poll_uuid, option_uuids, option_scores, write_in_text);
+
+    SELECT MIN(created_at) INTO first_cast_at
+    FROM public.votes
+    WHERE poll_id = poll_uuid AND user_id = user_uuid;
+
+    PERFORM assert_ballot_changeable(poll_uuid, first_cast_at);
+    PERFORM record_survey_progress(poll_uuid, user_uuid, NULL);
+
+    SELECT vote_type INTO ballot_type
+    FROM public.polls
+    WHERE id = poll_uuid;
+
+    DELETE FROM public.votes
+    WHERE poll_id = poll_uuid AND user_id = user_uuid;
+
+    -- A changed ballot keeps its original cast time, so a change window runs from the first vote
+    RETURN QUERY
+    INSERT INTO public.votes (poll_id, option_id, user_id, source, rank, score, created_at)
+    SELECT poll_uuid, option_uuid, user_uuid, vote_source,
+        CASE WHEN ballot_type = 'ranked' THEN position END,
+        CASE WHEN ballot_type IN ('rating', 'schedule') THEN option_scores[array_position(option_uuids, option_uuid)] END,
+        COALESCE(first_cast_at, NOW())
+    FROM unnest(ballot) WITH ORDINALITY AS choice(option_uuid, position)
+    RETURNING *;
+
+    IF write_in_text IS NOT NULL THEN
+        RETURN QUERY
+        INSERT INTO public.votes (poll_id, write_in, user_id, source, created_at)
+        VALUES (poll_uuid, write_in_text, user_uuid, vote_source, COALESCE(first_cast_at, NOW()))
+        RETURNING *;
+    END IF;
+
+    -- Reaching the vote target closes the poll before the next ballot takes the lock
+    PERFORM close_poll_if_rules_met(poll_uuid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION replace_user_votes(UUID, UUID, UUID[], VARCHAR, SMALLINT[], TEXT)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_user_votes(UUID, UUID, UUID[], VARCHAR, SMALLINT[], TEXT) TO service_role;
+
+-- Function to replace a logged-out voter's ballot on an anonymous poll
+-- The voter is identified by the token in their signed cookie. A browser without a
+-- ballot yet is refused when another guest ballot came from the same device
+-- (IP address and user agent) or network (IP address), depending on the poll's
+-- guest_vote_limit; 'browser' relies on the cookie alone. The token, address and
+-- user agent are only trustworthy once the server has read them from the request,
+-- so only the server runs it.
+CREATE OR REPLACE FUNCTION replace_guest_votes(
+    poll_uuid UUID,
+    voter_uuid UUID,
+    option_uuids UUID[],
+    vote_source VARCHAR(50) DEFAULT NULL,
+    voter_ip INET DEFAULT NULL,
+    voter_user_agent TEXT DEFAULT NULL,
+    option_scores SMALLINT[] DEFAULT NULL,
+    write_in_text TEXT DEFAULT NULL
+)
+RETURNS SETOF public.votes AS $$
+DECLARE
+    ballot UUID[];
+    ballot_type VARCHAR(10);
+    vote_limit VARCHAR(10);
+    first_cast_at TIMESTAMPTZ;
+BEGIN
+    IF voter_uuid IS NULL THEN
+        RAISE EXCEPTION 'VOTER_MISMATCH' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    write_in_text := NULLIF(btrim(write_in_text), '');
+    ballot := prepare_ballot(poll_uuid, option_uuids, option_scores, write_in_text);
+
+    SELECT guest_vote_limit, vote_type INTO vote_limit, ballot_type
+    FROM public.polls
+    WHERE id = poll_uuid AND is_anonymous;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'GUEST_VOTING_DISABLED';
+    END IF;
+
+    SELECT MIN(created_at) INTO first_cast_at
+    FROM public.votes
+    WHERE poll_id = poll_uuid AND voter_token = voter_uuid;
+
+    PERFORM assert_ballot_changeable(poll_uuid, first_cast_at);
+
+    IF first_cast_at IS NULL AND EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+        AND v.user_id IS NULL
+        AND (
+            (vote_limit = 'device' AND v.ip_address = voter_ip AND v.user_agent = voter_user_agent)
+            OR (vote_limit = 'network' AND v.ip_address = voter_ip)
+        )
+    ) THEN
+        RAISE EXCEPTION 'GUEST_VOTE_LIMIT';
+    END IF;
+
+    PERFORM record_survey_progress(poll_uuid, NULL, voter_uuid);
+
+    DELETE FROM public.votes
+    WHERE poll_id = poll_uuid AND voter_token = voter_uuid;
+
+    RETURN QUERY
+    INSERT INTO public.votes (poll_id, option_id, voter_token, ip_address, user_agent, source, rank, score, created_at)
+    SELECT poll_uuid, option_uuid, voter_uuid, voter_ip, voter_user_agent, vote_source,
+        CASE WHEN ballot_type = 'ranked' THEN position END,
+        CASE WHEN ballot_type IN ('rating', 'schedule') THEN option_scores[array_position(option_uuids, option_uuid)] END,
+        COALESCE(first_cast_at, NOW())
+    FROM unnest(ballot) WITH ORDINALITY AS choice(option_uuid, position)
+    RETURNING *;
+
+    IF write_in_text IS NOT NULL THEN
+        RETURN QUERY
+        INSERT INTO public.votes (poll_id, write_in, voter_token, ip_address, user_agent, source, created_at)
+        VALUES (poll_uuid, write_in_text, voter_uuid, voter_ip, voter_user_agent, vote_source, COALESCE(first_cast_at, NOW()))
+        RETURNING *;
+    END IF;
+
+    -- Reaching the vote target closes the poll before the next ballot takes the lock
+    PERFORM close_poll_if_rules_met(poll_uuid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION replace_guest_votes(UUID, UUID, UUID[], VARCHAR, INET, TEXT, SMALLINT[], TEXT)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_guest_votes(UUID, UUID, UUID[], VARCHAR, INET, TEXT, SMALLINT[], TEXT) TO service_role;
+
+-- Function to retract a user's ballot on a poll
+-- Allowed while the poll is open and the poll's vote change policy permits it.
+-- Returns the number of vote rows removed, 0 when the user had not voted. Like
+-- replace_user_votes, only the server runs it.
+CREATE OR REPLACE FUNCTION retract_user_votes(poll_uuid UUID, user_uuid UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    first_cast_at TIMESTAMPTZ;
+    removed_votes INTEGER;
+BEGIN
+    IF user_uuid IS NULL THEN
+        RAISE EXCEPTION 'VOTER_MISMATCH' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM lock_open_poll(poll_uuid);
+
+    SELECT MIN(created_at) INTO first_cast_at
+    FROM public.votes
+    WHERE poll_id = poll_uuid AND user_id = user_uuid;
+
+    PERFORM assert_ballot_changeable(poll_uuid, first_cast_at);
+    PERFORM assert_survey_response_open(poll_uuid, user_uuid, NULL);
+
+    DELETE FROM public.votes
+    WHERE poll_id = poll_uuid AND user_id = user_uuid;
+    GET DIAGNOSTICS removed_votes = ROW_COUNT;
+
+    RETURN removed_votes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION retract_user_votes(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION retract_user_votes(UUID, UUID) TO service_role;
+
+-- Function to retract a logged-out voter's ballot, keyed by their voter token
+CREATE OR REPLACE FUNCTION retract_guest_votes(poll_uuid UUID, voter_uuid UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    first_cast_at TIMESTAMPTZ;
+    removed_votes INTEGER;
+BEGIN
+    IF voter_uuid IS NULL THEN
+        RAISE EXCEPTION 'VOTER_MISMATCH' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM lock_open_poll(poll_uuid);
+
+    SELECT MIN(created_at) INTO first_cast_at
+    FROM public.votes
+    WHERE poll_id = poll_uuid AND voter_token = voter_uuid;
+
+    PERFORM assert_ballot_changeable(poll_uuid, first_cast_at);
+    PERFORM assert_survey_response_open(poll_uuid, NULL, voter_uuid);
+
+    DELETE FROM public.votes
+    WHERE poll_id = poll_uuid AND voter_token = voter_uuid;
+    GET DIAGNOSTICS removed_votes = ROW_COUNT;
+
+    RETURN removed_votes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION retract_guest_votes(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION retract_guest_votes(UUID, UUID) TO service_role;
+
+-- Write-ins are grouped case-insensitively, ignoring surrounding and repeated spaces
+CREATE OR REPLACE FUNCTION normalize_write_in(write_in_text TEXT)
+RETURNS TEXT AS $$
+    SELECT lower(regexp_replace(btrim(write_in_text), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to turn a write-in into a real option of the poll
+-- Every write-in with the same normalized text becomes a vote for the option, which is
+-- created unless the poll already has an option with that text. A voter who already
+-- picked that option keeps their single vote for it. Returns the option. Only the
+-- server runs it, for the owner whose session it checked.
+CREATE OR REPLACE FUNCTION promote_write_in(
+    poll_uuid UUID,
+    owner_uuid UUID,
+    write_in_text TEXT
+)
+RETURNS public.poll_options AS $$
+DECLARE
+    target_poll public.polls%ROWTYPE;
+    target_option public.poll_options%ROWTYPE;
+    write_in_key TEXT := normalize_write_in(write_in_text);
+    moved_votes INTEGER;
+BEGIN
+    SELECT * INTO target_poll
+    FROM public.polls
+    WHERE id = poll_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'POLL_NOT_FOUND' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF owner_uuid IS NULL OR target_poll.created_by <> owner_uuid THEN
+        RAISE EXCEPTION 'NOT_POLL_OWNER' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.votes
+        WHERE poll_id = poll_uuid AND normalize_write_in(write_in) = write_in_key
+    ) THEN
+        RAISE EXCEPTION 'WRITE_IN_NOT_FOUND';
+    END IF;
+
+    SELECT * INTO target_option
+    FROM public.poll_options
+    WHERE poll_id = poll_uuid AND normalize_write_in(text) = write_in_key
+    ORDER BY position, id
+    LIMIT 1;
+
+    -- A promoted write-in goes to the end of the list
+    IF NOT FOUND THEN
+        INSERT INTO public.poll_options (poll_id, text, position)
+        SELECT poll_uuid, regexp_replace(btrim(write_in_text), '\s+', ' ', 'g'), COALESCE(MAX(position) + 1, 0)
+        FROM public.poll_options
+        WHERE poll_id = poll_uuid
+        RETURNING * INTO target_option;
+    END IF;
+
+    -- Drop write-ins from voters who already chose the option; the delete trigger
+    -- takes them out of total_votes
+    DELETE FROM public.votes w
+    WHERE w.poll_id = poll_uuid
+    AND normalize_write_in(w.write_in) = write_in_key
+    AND EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+        AND v.option_id = target_option.id
+        AND (v.user_id = w.user_id OR v.voter_token = w.voter_token)
+    );
+
+    -- The vote count trigger only runs on insert and delete, so move the count by hand
+    UPDATE public.votes
+    SET option_id = target_option.id, write_in = NULL
+    WHERE poll_id = poll_uuid AND normalize_write_in(write_in) = write_in_key;
+    GET DIAGNOSTICS moved_votes = ROW_COUNT;
+
+    UPDATE public.poll_options
+    SET votes_count = votes_count + moved_votes
+    WHERE id = target_option.id
+    RETURNING * INTO target_option;
+
+    RETURN target_option;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION promote_write_in(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION promote_write_in(UUID, UUID, TEXT) TO service_role;
+
+-- Function to replace the follow-up links leaving a poll
+-- option_uuids lines up with follow_up_uuids: voters who choose option_uuids[i] are
+-- sent on to follow_up_uuids[i]. Both polls must belong to the owner and stand alone
+-- (not quiz or survey questions), and rating and scheduling polls cannot lead anywhere
+-- since every option is scored. Links across all of the owner's polls must not form a cycle.
+-- Returns the poll's new links. Only the server runs it, for the owner whose session it checked.
+CREATE OR REPLACE FUNCTION replace_poll_follow_ups(
+    poll_uuid UUID,
+    owner_uuid UUID,
+    option_uuids UUID[],
+    follow_up_uuids UUID[]
+)
+RETURNS SETOF public.poll_follow_ups AS $$
+DECLARE
+    source_poll public.polls%ROWTYPE;
+BEGIN
+    SELECT * INTO source_poll
+    FROM public.polls
+    WHERE id = poll_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'POLL_NOT_FOUND' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF owner_uuid IS NULL OR source_poll.created_by <> owner_uuid THEN
+        RAISE EXCEPTION 'NOT_POLL_OWNER' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- Links only join the owner's own polls, so saving them one owner at a time keeps
+    -- two concurrent saves from each closing half of a cycle
+    PERFORM pg_advisory_xact_lock(hashtext('poll_follow_ups:' || owner_uuid::TEXT));
+
+    IF COALESCE(array_length(option_uuids, 1), 0) <> COALESCE(array_length(follow_up_uuids, 1), 0) THEN
+        RAISE EXCEPTION 'INVALID_FOLLOW_UP' USING DETAIL = 'option_uuids and follow_up_uuids differ in length';
+    END IF;
+
+    IF COALESCE(array_length(option_uuids, 1), 0) > 0 AND (
+        source_poll.vote_type IN ('rating', 'schedule')
+        OR source_poll.quiz_id IS NOT NULL
+        OR source_poll.survey_id IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'INVALID_FOLLOW_UP' USING DETAIL = 'poll cannot lead to follow-ups';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(option_uuids) AS linked(option_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.poll_options
+            WHERE id = linked.option_id AND poll_id = poll_uuid
+        )
+    ) THEN
+        RAISE EXCEPTION 'INVALID_FOLLOW_UP' USING DETAIL = 'option does not belong to the poll';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(follow_up_uuids) AS linked(poll_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = linked.poll_id
+            AND id <> poll_uuid
+            AND created_by = owner_uuid
+            AND quiz_id IS NULL
+            AND survey_id IS NULL
+        )
+    ) THEN
+        RAISE EXCEPTION 'INVALID_FOLLOW_UP' USING DETAIL = 'follow-up poll is not another standalone poll of the owner';
+    END IF;
+
+    DELETE FROM public.poll_follow_ups WHERE poll_id = poll_uuid;
+
+    INSERT INTO public.poll_follow_ups (poll_id, option_id, follow_up_poll_id)
+    SELECT poll_uuid, linked.option_id, linked.follow_up_poll_id
+    FROM unnest(option_uuids, follow_up_uuids) AS linked(option_id, follow_up_poll_id);
+
+    -- UNION drops polls already reached, so the walk ends even when a cycle exists
+    IF EXISTS (
+        WITH RECURSIVE reachable(poll_id) AS (
+            SELECT follow_up_poll_id FROM public.poll_follow_ups WHERE poll_id = poll_uuid
+            UNION
+            SELECT f.follow_up_poll_id
+            FROM public.poll_follow_ups f
+            JOIN reachable r ON f.poll_id = r.poll_id
+        )
+        SELECT 1 FROM reachable WHERE poll_id = poll_uuid
+    ) THEN
+        RAISE EXCEPTION 'FOLLOW_UP_CYCLE';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM public.poll_follow_ups
+    WHERE poll_id = poll_uuid
+    ORDER BY created_at, id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION replace_poll_follow_ups(UUID, UUID, UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_poll_follow_ups(UUID, UUID, UUID[], UUID[]) TO service_role;
+
+-- Function to submit a respondent's survey response
+-- Every question must have been answered. Exactly one of user_uuid and voter_uuid
+-- identifies the respondent, as checked by the server, which is the only caller.
+-- Returns the submitted response.
+CREATE OR REPLACE FUNCTION submit_survey_response(survey_uuid UUID, user_uuid UUID, voter_uuid UUID)
+RETURNS public.survey_responses AS $$
+DECLARE
+    response public.survey_responses%ROWTYPE;
+    first_unanswered SMALLINT;
+BEGIN
+    IF (user_uuid IS NULL) = (voter_uuid IS NULL) THEN
+        RAISE EXCEPTION 'VOTER_MISMATCH' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO response
+    FROM public.survey_responses
+    WHERE survey_id = survey_uuid
+    AND (user_id = user_uuid OR voter_token = voter_uuid)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SURVEY_NOT_STARTED';
+    END IF;
+
+    IF response.submitted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'SURVEY_ALREADY_SUBMITTED';
+    END IF;
+
+    -- The detail carries the first unanswered question number
+    SELECT MIN(p.survey_position) INTO first_unanswered
+    FROM public.polls p
+    WHERE p.survey_id = survey_uuid
+    AND NOT EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE v.poll_id = p.id
+        AND (v.user_id = user_uuid OR v.voter_token = voter_uuid)
+    );
+
+    IF first_unanswered IS NOT NULL THEN
+        RAISE EXCEPTION 'SURVEY_INCOMPLETE' USING DETAIL = first_unanswered::TEXT;
+    END IF;
+
+    UPDATE public.survey_responses
+    SET submitted_at = NOW(), updated_at = NOW()
+    WHERE id = response.id
+    RETURNING * INTO response;
+
+    RETURN response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION submit_survey_response(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_survey_response(UUID, UUID, UUID) TO service_role;
@@ -35,6 +35,61 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      quizzes: {
+        Row: {
+          id: string;
+          title: string;
+          description: string | null;
+          created_by: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          description?: string | null;
+          created_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          description?: string | null;
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      surveys: {
+        Row: {
+          id: string;
+          title: string;
+          description: string | null;
+          created_by: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          description?: string | null;
+          created_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          description?: string | null;
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       polls: {
         Row: {
@@ -45,10 +100,33 @@ export interface Database {
           created_at: string;
           updated_at: string;
           expires_at: string | null;
-          is_active: boolean;
+          starts_at: string | null;
+          opened_at: string | null;
+          closed_at: string | null;
+          status: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived';
           allow_multiple_votes: boolean;
+          vote_type: 'single' | 'multiple' | 'ranked' | 'rating' | 'schedule';
+          min_selections: number | null;
+          max_selections: number | null;
+          score_min: number | null;
+          score_max: number | null;
+          time_zone: string | null;
+          allow_write_ins: boolean;
+          vote_change_policy: 'never' | 'until_close' | 'window';
+          vote_change_window_minutes: number | null;
+          results_visibility: 'always' | 'after_vote' | 'after_close' | 'owner_only';
+          close_after_votes: number | null;
+          close_on_decisive_lead: boolean;
+          quorum: number | null;
+          tie_strategy: 'owner_decides' | 'random' | 'extend';
+          quiz_id: string | null;
+          quiz_position: number | null;
+          survey_id: string | null;
+          survey_position: number | null;
           is_anonymous: boolean;
+          guest_vote_limit: 'browser' | 'device' | 'network';
           qr_code_url: string | null;
+          slug: string | null;
           total_votes: number;
         };
         Insert: {
@@ -59,10 +137,33 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           expires_at?: string | null;
-          is_active?: boolean;
+          starts_at?: string | null;
+          opened_at?: string | null;
+          closed_at?: string | null;
+          status?: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived';
           allow_multiple_votes?: boolean;
+          vote_type?: 'single' | 'multiple' | 'ranked' | 'rating' | 'schedule';
+          min_selections?: number | null;
+          max_selections?: number | null;
+          score_min?: number | null;
+          score_max?: number | null;
+          time_zone?: string | null;
+          allow_write_ins?: boolean;
+          vote_change_policy?: 'never' | 'until_close' | 'window';
+          vote_change_window_minutes?: number | null;
+          results_visibility?: 'always' | 'after_vote' | 'after_close' | 'owner_only';
+          close_after_votes?: number | null;
+          close_on_decisive_lead?: boolean;
+          quorum?: number | null;
+          tie_strategy?: 'owner_decides' | 'random' | 'extend';
+          quiz_id?: string | null;
+          quiz_position?: number | null;
+          survey_id?: string | null;
+          survey_position?: number | null;
           is_anonymous?: boolean;
+          guest_vote_limit?: 'browser' | 'device' | 'network';
           qr_code_url?: string | null;
+          slug?: string | null;
           total_votes?: number;
         };
         Update: {
@@ -73,64 +174,123 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           expires_at?: string | null;
-          is_active?: boolean;
+          starts_at?: string | null;
+          opened_at?: string | null;
+          closed_at?: string | null;
+          status?: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived';
           allow_multiple_votes?: boolean;
+          vote_type?: 'single' | 'multiple' | 'ranked' | 'rating' | 'schedule';
+          min_selections?: number | null;
+          max_selections?: number | null;
+          score_min?: number | null;
+          score_max?: number | null;
+          time_zone?: string | null;
+          allow_write_ins?: boolean;
+          vote_change_policy?: 'never' | 'until_close' | 'window';
+          vote_change_window_minutes?: number | null;
+          results_visibility?: 'always' | 'after_vote' | 'after_close' | 'owner_only';
+          close_after_votes?: number | null;
+          close_on_decisive_lead?: boolean;
+          quorum?: number | null;
+          tie_strategy?: 'owner_decides' | 'random' | 'extend';
+          quiz_id?: string | null;
+          quiz_position?: number | null;
+          survey_id?: string | null;
+          survey_position?: number | null;
           is_anonymous?: boolean;
+          guest_vote_limit?: 'browser' | 'device' | 'network';
           qr_code_url?: string | null;
+          slug?: string | null;
           total_votes?: number;
         };
+        Relationships: [];
       };
       poll_options: {
         Row: {
           id: string;
           poll_id: string;
           text: string;
+          position: number; // Place in the poll's list of options, from 0
           votes_count: number;
+          is_correct: boolean;
+          image_url: string | null;
+          image_caption: string | null;
+          starts_at: string | null;
+          ends_at: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           poll_id: string;
           text: string;
+          position: number;
           votes_count?: number;
+          is_correct?: boolean;
+          image_url?: string | null;
+          image_caption?: string | null;
+          starts_at?: string | null;
+          ends_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           poll_id?: string;
           text?: string;
+          position?: number;
           votes_count?: number;
+          is_correct?: boolean;
+          image_url?: string | null;
+          image_caption?: string | null;
+          starts_at?: string | null;
+          ends_at?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       votes: {
         Row: {
           id: string;
           poll_id: string;
-          option_id: string;
+          option_id: string | null; // null for a write-in
           user_id: string | null;
           ip_address: string | null;
           user_agent: string | null;
+          source: string | null;
+          voter_token: string | null;
+          rank: number | null;
+          score: number | null;
+          write_in: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           poll_id: string;
-          option_id: string;
+          option_id?: string | null;
           user_id?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          source?: string | null;
+          voter_token?: string | null;
+          rank?: number | null;
+          score?: number | null;
+          write_in?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           poll_id?: string;
-          option_id?: string;
+          option_id?: string | null;
           user_id?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          source?: string | null;
+          voter_token?: string | null;
+          rank?: number | null;
+          score?: number | null;
+          write_in?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       poll_views: {
         Row: {
@@ -139,6 +299,7 @@ export interface Database {
           user_id: string | null;
           ip_address: string | null;
           user_agent: string | null;
+          source: string | null;
           viewed_at: string;
         };
         Insert: {
@@ -147,6 +308,7 @@ export interface Database {
           user_id?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          source?: string | null;
           viewed_at?: string;
         };
         Update: {
@@ -155,8 +317,154 @@ export interface Database {
           user_id?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          source?: string | null;
           viewed_at?: string;
         };
+        Relationships: [];
+      };
+      poll_status_events: {
+        Row: {
+          id: string;
+          poll_id: string;
+          from_status: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived' | null;
+          to_status: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived';
+          changed_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          from_status?: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived' | null;
+          to_status: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived';
+          changed_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          from_status?: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived' | null;
+          to_status?: 'draft' | 'scheduled' | 'open' | 'paused' | 'closed' | 'archived';
+          changed_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      poll_outcomes: {
+        Row: {
+          poll_id: string;
+          status: 'decided' | 'tied' | 'extended' | 'no_quorum' | 'no_votes';
+          winner_option_ids: string[];
+          tied_option_ids: string[];
+          tie_resolution: 'random' | 'owner' | null;
+          total_votes: number;
+          quorum: number | null;
+          quorum_met: boolean;
+          decided_at: string;
+        };
+        Insert: {
+          poll_id: string;
+          status: 'decided' | 'tied' | 'extended' | 'no_quorum' | 'no_votes';
+          winner_option_ids?: string[];
+          tied_option_ids?: string[];
+          tie_resolution?: 'random' | 'owner' | null;
+          total_votes: number;
+          quorum?: number | null;
+          quorum_met: boolean;
+          decided_at?: string;
+        };
+        Update: {
+          poll_id?: string;
+          status?: 'decided' | 'tied' | 'extended' | 'no_quorum' | 'no_votes';
+          winner_option_ids?: string[];
+          tied_option_ids?: string[];
+          tie_resolution?: 'random' | 'owner' | null;
+          total_votes?: number;
+          quorum?: number | null;
+          quorum_met?: boolean;
+          decided_at?: string;
+        };
+        Relationships: [];
+      };
+      poll_qr_codes: {
+        Row: {
+          id: string;
+          poll_id: string;
+          name: string;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          name: string;
+          source: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          name?: string;
+          source?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      poll_follow_ups: {
+        Row: {
+          id: string;
+          poll_id: string;
+          option_id: string;
+          follow_up_poll_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          option_id: string;
+          follow_up_poll_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          option_id?: string;
+          follow_up_poll_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      survey_responses: {
+        Row: {
+          id: string;
+          survey_id: string;
+          user_id: string | null;
+          voter_token: string | null;
+          furthest_position: number;
+          started_at: string;
+          updated_at: string;
+          submitted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          survey_id: string;
+          user_id?: string | null;
+          voter_token?: string | null;
+          furthest_position: number;
+          started_at?: string;
+          updated_at?: string;
+          submitted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          survey_id?: string;
+          user_id?: string | null;
+          voter_token?: string | null;
+          furthest_position?: number;
+          started_at?: string;
+          updated_at?: string;
+          submitted_at?: string | null;
+        };
+        Relationships: [];
       };
     };
     Views: {
@@ -190,6 +498,151 @@ export interface Database {
           option_id: string;
         }[];
       };
+      replace_user_votes: {
+        Args: {
+          poll_uuid: string;
+          user_uuid: string;
+          option_uuids: string[];
+          vote_source?: string | null;
+          option_scores?: number[] | null;
+          write_in_text?: string | null;
+        };
+        Returns: {
+          id: string;
+          poll_id: string;
+          option_id: string | null;
+          user_id: string | null;
+          ip_address: string | null;
+          user_agent: string | null;
+          source: string | null;
+          voter_token: string | null;
+          rank: number | null;
+          score: number | null;
+          write_in: string | null;
+          created_at: string;
+        }[];
+      };
+      replace_guest_votes: {
+        Args: {
+          poll_uuid: string;
+          voter_uuid: string;
+          option_uuids: string[];
+          vote_source?: string | null;
+          voter_ip?: string | null;
+          voter_user_agent?: string | null;
+          option_scores?: number[] | null;
+          write_in_text?: string | null;
+        };
+        Returns: {
+          id: string;
+          poll_id: string;
+          option_id: string | null;
+          user_id: string | null;
+          ip_address: string | null;
+          user_agent: string | null;
+          source: string | null;
+          voter_token: string | null;
+          rank: number | null;
+          score: number | null;
+          write_in: string | null;
+          created_at: string;
+        }[];
+      };
+      retract_user_votes: {
+        Args: {
+          poll_uuid: string;
+          user_uuid: string;
+        };
+        Returns: number;
+      };
+      retract_guest_votes: {
+        Args: {
+          poll_uuid: string;
+          voter_uuid: string;
+        };
+        Returns: number;
+      };
+      promote_write_in: {
+        Args: {
+          poll_uuid: string;
+          owner_uuid: string;
+          write_in_text: string;
+        };
+        Returns: {
+          id: string;
+          poll_id: string;
+          text: string;
+          votes_count: number;
+          is_correct: boolean;
+          image_url: string | null;
+          image_caption: string | null;
+          starts_at: string | null;
+          ends_at: string | null;
+          created_at: string;
+        };
+      };
+      replace_poll_follow_ups: {
+        Args: {
+          poll_uuid: string;
+          owner_uuid: string;
+          option_uuids: string[];
+          follow_up_uuids: string[];
+        };
+        Returns: {
+          id: string;
+          poll_id: string;
+          option_id: string;
+          follow_up_poll_id: string;
+          created_at: string;
+        }[];
+      };
+      transition_poll_status: {
+        Args: {
+          poll_uuid: string;
+          owner_uuid: string;
+          new_status: Database['public']['Tables']['polls']['Row']['status'];
+        };
+        Returns: Database['public']['Tables']['polls']['Row'];
+      };
+      sweep_poll_schedules: {
+        Args: Record<string, never>;
+        Returns: {
+          opened_count: number;
+          closed_count: number;
+          closed_poll_ids: string[] | null;
+        }[];
+      };
+      record_poll_outcome: {
+        Args: {
+          poll_uuid: string;
+        };
+        Returns: Database['public']['Tables']['poll_outcomes']['Row'];
+      };
+      resolve_poll_tie: {
+        Args: {
+          poll_uuid: string;
+          owner_uuid: string;
+          option_uuid: string;
+        };
+        Returns: Database['public']['Tables']['poll_outcomes']['Row'];
+      };
+      submit_survey_response: {
+        Args: {
+          survey_uuid: string;
+          user_uuid: string | null;
+          voter_uuid: string | null;
+        };
+        Returns: {
+          id: string;
+          survey_id: string;
+          user_id: string | null;
+          voter_token: string | null;
+          furthest_position: number;
+          started_at: string;
+          updated_at: string;
+          submitted_at: string | null;
+        };
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -206,18 +659,33 @@ export type Poll = Database['public']['Tables']['polls']['Row'];
 export type PollOption = Database['public']['Tables']['poll_options']['Row'];
 export type Vote = Database['public']['Tables']['votes']['Row'];
 export type PollView = Database['public']['Tables']['poll_views']['Row'];
+export type PollStatusEvent = Database['public']['Tables']['poll_status_events']['Row'];
+export type PollOutcome = Database['public']['Tables']['poll_outcomes']['Row'];
+export type PollQRCode = Database['public']['Tables']['poll_qr_codes']['Row'];
+export type PollFollowUp = Database['public']['Tables']['poll_follow_ups']['Row'];
+export type Quiz = Database['public']['Tables']['quizzes']['Row'];
+export type Survey = Database['public']['Tables']['surveys']['Row'];
+export type SurveyResponse = Database['public']['Tables']['survey_responses']['Row'];
 
 export type InsertProfile = Database['public']['Tables']['profiles']['Insert'];
 export type InsertPoll = Database['public']['Tables']['polls']['Insert'];
 export type InsertPollOption = Database['public']['Tables']['poll_options']['Insert'];
 export type InsertVote = Database['public']['Tables']['votes']['Insert'];
 export type InsertPollView = Database['public']['Tables']['poll_views']['Insert'];
+export type InsertPollQRCode = Database['public']['Tables']['poll_qr_codes']['Insert'];
+export type InsertPollFollowUp = Database['public']['Tables']['poll_follow_ups']['Insert'];
+export type InsertQuiz = Database['public']['Tables']['quizzes']['Insert'];
+export type InsertSurvey = Database['public']['Tables']['surveys']['Insert'];
 
 export type UpdateProfile = Database['public']['Tables']['profiles']['Update'];
 export type UpdatePoll = Database['public']['Tables']['polls']['Update'];
 export type UpdatePollOption = Database['public']['Tables']['poll_options']['Update'];
 export type UpdateVote = Database['public']['Tables']['votes']['Update'];
 export type UpdatePollView = Database['public']['Tables']['poll_views']['Update'];
+export type UpdatePollQRCode = Database['public']['Tables']['poll_qr_codes']['Update'];
+export type UpdatePollFollowUp = Database['public']['Tables']['poll_follow_ups']['Update'];
+export type UpdateQuiz = Database['public']['Tables']['quizzes']['Update'];
+export type UpdateSurvey = Database['public']['Tables']['surveys']['Update'];
 
 // Function return types
 export type PollResults = Database['public']['Functions']['get_poll_results']['Returns'];
@@ -225,8 +693,10 @@ export type UserVotes = Database['public']['Functions']['get_user_votes']['Retur
 
 // Extended types with relationships (for frontend use)
 export interface PollWithOptions extends Poll {
-  poll_options: PollOption[];
+  poll_options: PollOption[]; // Ordered by position
   profiles: Profile;
+  poll_follow_ups?: Pick<PollFollowUp, 'option_id' | 'follow_up_poll_id'>[]; // Links leaving the poll
+  results_hidden?: boolean; // Vote counts were blanked because the caller may not see them yet
 }
 
 export interface PollWithResults extends Poll {
@@ -235,6 +705,14 @@ export interface PollWithResults extends Poll {
   user_votes?: string[]; // Option IDs the current user voted for
 }
 
+export interface QuizWithQuestions extends Quiz {
+  polls: PollWithOptions[]; // Ordered by quiz_position
+}
+
+export interface SurveyWithQuestions extends Survey {
+  polls: PollWithOptions[]; // Ordered by survey_position
+}
+
 export interface VoteWithDetails extends Vote {
   poll_options: PollOption;
   polls: Poll;
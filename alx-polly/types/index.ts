@@ -20,6 +20,16 @@ export interface PollOption {
   text: string;
   votes: number;
   pollId: string;
+  imageUrl?: string; // Shown as a thumbnail, e.g. for "which logo" polls
+  imageCaption?: string;
+  startsAt?: Date; // Time slot, scheduling polls only
+  endsAt?: Date;
+}
+
+// An option's image: an uploaded file's URL or a link to an image elsewhere
+export interface OptionMedia {
+  imageUrl: string;
+  caption?: string;
 }
 
 export interface Poll {
@@ -31,11 +41,54 @@ export interface Poll {
   createdAt: Date;
   updatedAt: Date;
   expiresAt?: Date;
-  isActive: boolean;
+  startsAt?: Date; // Scheduled polls open at this time
+  openedAt?: Date; // When the poll first opened for voting
+  closedAt?: Date; // When the poll was last closed, by its creator or at its expiration date
+  status: PollStatus;
   allowMultipleVotes: boolean;
+  voteType: VoteType;
+  minSelections?: number; // Selection limits, multiple-choice polls only
+  maxSelections?: number;
+  ratingScale?: RatingScale; // Rating polls only
+  timeZone?: string; // Time zone the slots of a scheduling poll were picked in
+  allowWriteIns?: boolean; // Offers an "Other (please specify)" choice
+  voteChangePolicy?: VoteChangePolicy;
+  voteChangeWindowMinutes?: number; // Only set for the 'window' policy
+  resultsVisibility?: ResultsVisibility;
+  resultsHidden?: boolean; // Counts were withheld from this viewer and read as zero
+  closeAfterVotes?: number; // Vote target: the poll closes once this many ballots are in
+  closeOnDecisiveLead?: boolean; // Also close once nobody can catch the leader before the target
+  quorum?: number; // Fewest ballots for the declared result to count
+  tieStrategy?: TieStrategy;
+  quizId?: string; // Set when the poll is a quiz question
+  quizPosition?: number;
+  surveyId?: string; // Set when the poll is a survey question
+  surveyPosition?: number;
+  followUps?: PollFollowUpLink[]; // Where voters go next, depending on their answer
   isAnonymous: boolean;
+  totalVotes: number; // Ballots on ranked, rating and scheduling polls, not option rows; includes write-ins
+  qrCode: string;
+  slug?: string; // Short link, served at /p/[slug]
+}
+
+// One entry of a poll's status timeline; fromStatus is null for the status it was created with
+export interface PollStatusChange {
+  fromStatus: PollStatus | null;
+  toStatus: PollStatus;
+  changedBy?: string; // Unset when the schedule sweeper made the change
+  changedAt: Date;
+}
+
+// The official result declared when a poll closes
+export interface DeclaredOutcome {
+  status: DeclaredOutcomeStatus;
+  winnerOptionIds: string[]; // Empty unless decided
+  tiedOptionIds: string[]; // Options that shared first place, kept once the tie is settled
+  tieResolution?: "random" | "owner"; // How a tie was settled
   totalVotes: number;
-  qrCode?: string;
+  quorum?: number;
+  quorumMet: boolean;
+  decidedAt: Date;
 }
 
 export interface PollVote {
@@ -48,13 +101,54 @@ export interface PollVote {
 }
 
 // Form types
+// How strictly logged-out votes on anonymous polls are deduplicated: by the signed
+// voter cookie only, or also by device (IP address and user agent) or network (IP address)
+export type GuestVoteLimit = "browser" | "device" | "network";
+
+// When a voter may change or retract their ballot: never, while the poll is open,
+// or for a number of minutes after first voting (and while the poll is open)
+export type VoteChangePolicy = "never" | "until_close" | "window";
+
+// When people other than the creator may see the vote counts: always, once they have
+// voted, once the poll has closed, or never
+export type ResultsVisibility = "always" | "after_vote" | "after_close" | "owner_only";
+
+// How a tie for first place is settled when the poll closes: the owner picks, a random pick,
+// or the poll stays open for another round of voting (once)
+export type TieStrategy = "owner_decides" | "random" | "extend";
+
+// "tied" waits for the owner to pick the winner; "extended" reopened the poll to break the tie
+export type DeclaredOutcomeStatus = "decided" | "tied" | "extended" | "no_quorum" | "no_votes";
+
 export interface CreatePollFormData {
   title: string;
   description?: string;
   options: string[];
   expiresAt?: Date;
+  startsAt?: Date; // Schedules the poll to open later; standalone polls only
+  isDraft?: boolean; // Saves the poll unpublished, to be edited and published later
   allowMultipleVotes: boolean;
+  voteType?: VoteType; // Takes precedence over allowMultipleVotes when set
+  minSelections?: number; // Only apply to multiple-choice polls
+  maxSelections?: number;
+  ratingScale?: RatingScale; // Required for rating polls
+  slots?: TimeSlot[]; // Lines up with options; required for scheduling polls
+  timeZone?: string; // IANA time zone the slots were picked in; required for scheduling polls
+  allowWriteIns?: boolean; // Single and multiple-choice polls only
+  voteChangePolicy?: VoteChangePolicy; // Defaults to "until_close"
+  voteChangeWindowMinutes?: number; // Required for the "window" policy
+  resultsVisibility?: ResultsVisibility; // Defaults to "always"; "after_close" needs expiresAt
+  closeAfterVotes?: number; // Closing rules: standalone single, multiple-choice and ranked polls only
+  closeOnDecisiveLead?: boolean; // Needs closeAfterVotes; not for ranked polls
+  quorum?: number;
+  tieStrategy?: TieStrategy; // Defaults to "owner_decides"
+  quizId?: string; // Adds the poll to one of the creator's quizzes as its next question
+  correctOptions?: number[]; // Indexes into options; required for quiz questions
+  optionMedia?: (OptionMedia | null)[]; // Lines up with options; null for an option without an image
+  surveyId?: string; // Adds the poll to one of the creator's surveys as its next question
   isAnonymous: boolean;
+  guestVoteLimit?: GuestVoteLimit; // Only applies to anonymous polls
+  slug?: string; // Optional vanity short link; generated when omitted
 }
 
 export interface EditPollFormData {
@@ -64,8 +158,16 @@ export interface EditPollFormData {
   options: PollOption[]; // Use full PollOption objects for editing
   expiresAt?: Date;
   allowMultipleVotes: boolean;
+  voteType?: VoteType;
+  minSelections?: number | null; // null removes the limit
+  maxSelections?: number | null;
+  allowWriteIns?: boolean;
+  voteChangePolicy?: VoteChangePolicy;
+  voteChangeWindowMinutes?: number | null;
+  resultsVisibility?: ResultsVisibility;
   isAnonymous: boolean;
-  isActive: boolean;
+  guestVoteLimit?: GuestVoteLimit;
+  status: PollStatus; // Option texts can only be edited while the poll is a draft
   createdAt: Date;
   updatedAt: Date;
 }
@@ -115,7 +217,172 @@ export interface AuthFormProps {
   error?: string;
 }
 
+// QR code types
+export type QRCodeFormat = "svg" | "png";
+export type QRCodeErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QRCodeOptions {
+  format: QRCodeFormat;
+  size: number; // Width/height in pixels
+  margin: number; // Quiet zone in modules
+  errorCorrectionLevel: QRCodeErrorCorrectionLevel;
+  darkColor: string; // Hex color of the modules, e.g. "#000000"
+  lightColor: string; // Hex color of the background
+}
+
+export interface QRSourceStats {
+  source: string | null; // null for visits without a source tag
+  name: string;
+  scans: number;
+  votes: number; // Distinct ballots cast by visitors from this source
+  conversionRate: number; // Percentage of scans that led to a vote
+}
+
+// Ranked-choice types
+export type RankedBallot = string[]; // Option IDs, most preferred first
+
+export interface InstantRunoffRound {
+  round: number; // 1-based
+  tallies: Record<string, number>; // Ballots counting for each continuing option
+  exhaustedBallots: number; // Ballots with none of their ranked options left
+  eliminatedId: string | null; // Option knocked out after this round, null once there is a winner
+}
+
+export interface InstantRunoffResult {
+  totalBallots: number;
+  rounds: InstantRunoffRound[];
+  winnerId: string | null; // null when no ballots were cast
+}
+
+// Rating types
+export interface RatingScale {
+  min: number; // e.g. 1 for 1-5 stars, 0 for 0-10
+  max: number;
+}
+
+export type ScoreBallot = Record<string, number>; // Option ID to score; every option is scored
+
+export interface OptionRatingStats {
+  optionId: string;
+  raters: number;
+  average: number | null; // null until someone rates the option
+  median: number | null;
+  distribution: number[]; // Raters per score, index 0 being the scale's minimum
+}
+
+// Scheduling types
+export interface TimeSlot {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// A voter's answer for one time slot, stored as a score on the 0-2 availability scale
+export type Availability = "yes" | "if_need_be" | "no";
+
+export interface SlotAvailability {
+  optionId: string;
+  yes: number;
+  ifNeedBe: number;
+  no: number;
+}
+
+// Write-in types
+export interface WriteInGroup {
+  key: string; // Normalized text shared by the write-ins in the group
+  text: string; // Most common spelling, used when promoting the group to an option
+  count: number;
+  variants: string[]; // Distinct spellings as voters typed them
+}
+
+// Quiz types
+export interface CreateQuizFormData {
+  title: string;
+  description?: string;
+}
+
+export interface AnswerFeedback {
+  isCorrect: boolean;
+  correctOptionIds: string[];
+}
+
+export interface QuizLeaderboardEntry {
+  participantId: string; // "user:<id>" or "guest:<voter token>"; the API replaces it with the entry's position
+  name: string | null; // Username; null for guests and answers on anonymous questions
+  score: number; // Questions answered correctly
+  answered: number;
+  answerTimeMs: number; // Summed over correct answers, each counted from the question's first answer
+  rank: number; // Participants with the same score and time share a rank
+  isViewer?: boolean; // The participant who requested the leaderboard
+}
+
+// Survey types
+// The per-question part of a poll; expiry and guest settings are shared by the whole survey
+export type SurveyQuestionFormData = Pick<
+  CreatePollFormData,
+  | "title"
+  | "description"
+  | "options"
+  | "allowMultipleVotes"
+  | "voteType"
+  | "minSelections"
+  | "maxSelections"
+  | "ratingScale"
+  | "allowWriteIns"
+  | "optionMedia"
+  | "slots"
+  | "timeZone"
+>;
+
+export interface CreateSurveyFormData {
+  title: string;
+  description?: string;
+  questions: SurveyQuestionFormData[]; // In the order respondents answer them
+  expiresAt?: Date;
+  isAnonymous: boolean;
+  guestVoteLimit?: GuestVoteLimit;
+}
+
+export interface SurveyProgress {
+  furthestPosition: number; // Highest question number answered, 0 before the first answer
+  submitted: boolean;
+}
+
+export interface SurveyQuestionFunnel {
+  pollId: string;
+  position: number;
+  reached: number; // Respondents who answered this question
+  droppedOff: number; // Respondents who answered it, went no further and never submitted
+  dropOffRate: number; // Percentage of those who reached the question
+}
+
+export interface SurveyFunnel {
+  started: number; // Respondents with at least one answer
+  completed: number;
+  completionRate: number; // Percentage of started responses that were submitted
+  questions: SurveyQuestionFunnel[];
+}
+
+// Voters who choose optionId are sent on to the follow-up poll, which only they may vote on
+export interface PollFollowUpLink {
+  optionId: string;
+  followUpPollId: string;
+}
+
+// Poster types
+export type PosterPageSize = "a4" | "letter";
+
+// Embed types
+export type EmbedTheme = "light" | "dark" | "auto";
+
+export interface EmbedOptions {
+  theme: EmbedTheme; // "auto" follows the reader's system preference
+  height: number; // Iframe height in pixels
+  hideAvatar: boolean;
+}
+
 // Utility types
-export type PollStatus = "active" | "expired" | "draft";
+// Where a poll is in its lifecycle. Only open polls take votes; drafts are only
+// visible to their creator. Allowed moves are listed in POLL_STATUS_TRANSITIONS.
+export type PollStatus = "draft" | "scheduled" | "open" | "paused" | "closed" | "archived";
 export type UserRole = "user" | "admin";
-export type VoteType = "single" | "multiple";
+export type VoteType = "single" | "multiple" | "ranked" | "rating" | "schedule";
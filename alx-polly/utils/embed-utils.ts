@@ -0,0 +1,132 @@
+import { EmbedOptions, EmbedTheme } from '@/types';
+
+export const EMBED_THEMES: EmbedTheme[] = ['light', 'dark', 'auto'];
+export const EMBED_MIN_HEIGHT = 240;
+export const EMBED_MAX_HEIGHT = 1200;
+export const EMBED_DEFAULT_WIDTH = 560;
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  theme: 'light',
+  height: 480,
+  hideAvatar: false,
+};
+
+const TRUE_VALUES = ['1', 'true'];
+const FALSE_VALUES = ['0', 'false'];
+
+/**
+ * Parse embed options from URL search params, falling back to defaults
+ */
+export function parseEmbedOptions(
+  searchParams: URLSearchParams
+): { isValid: true; options: EmbedOptions } | { isValid: false; error: string } {
+  const options = { ...DEFAULT_EMBED_OPTIONS };
+
+  const theme = searchParams.get('theme');
+  if (theme !== null) {
+    const normalized = theme.toLowerCase() as EmbedTheme;
+    if (!EMBED_THEMES.includes(normalized)) {
+      return { isValid: false, error: `Theme must be one of: ${EMBED_THEMES.join(', ')}` };
+    }
+    options.theme = normalized;
+  }
+
+  const height = searchParams.get('height');
+  if (height !== null) {
+    const parsed = Number(height);
+    if (!Number.isInteger(parsed) || parsed < EMBED_MIN_HEIGHT || parsed > EMBED_MAX_HEIGHT) {
+      return {
+        isValid: false,
+        error: `Height must be a whole number between ${EMBED_MIN_HEIGHT} and ${EMBED_MAX_HEIGHT}`,
+      };
+    }
+    options.height = parsed;
+  }
+
+  const hideAvatar = searchParams.get('hide_avatar');
+  if (hideAvatar !== null) {
+    const normalized = hideAvatar.toLowerCase();
+    if (![...TRUE_VALUES, ...FALSE_VALUES].includes(normalized)) {
+      return { isValid: false, error: 'hide_avatar must be true or false' };
+    }
+    options.hideAvatar = TRUE_VALUES.includes(normalized);
+  }
+
+  return { isValid: true, options };
+}
+
+/**
+ * Build the embed page path for a poll, only including non-default options
+ */
+export function getPollEmbedPath(pollId: string, options: Partial<EmbedOptions> = {}): string {
+  const params = new URLSearchParams();
+
+  if (options.theme && options.theme !== DEFAULT_EMBED_OPTIONS.theme) {
+    params.set('theme', options.theme);
+  }
+  if (options.height !== undefined && options.height !== DEFAULT_EMBED_OPTIONS.height) {
+    params.set('height', String(options.height));
+  }
+  if (options.hideAvatar) {
+    params.set('hide_avatar', '1');
+  }
+
+  const query = params.toString();
+  return `/embed/polls/${pollId}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Work out which poll a URL on this site points to
+ *
+ * Accepts the poll page, its short link and the embed page itself; URLs on other
+ * hosts or paths return null.
+ */
+export function parsePollUrl(
+  url: string,
+  origin: string
+): { pollId: string } | { slug: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (parsed.host !== new URL(origin).host) return null;
+
+  const pollMatch = /^\/(?:embed\/)?polls\/([^/]+)\/?$/.exec(parsed.pathname);
+  if (pollMatch) return { pollId: decodeURIComponent(pollMatch[1]) };
+
+  const slugMatch = /^\/p\/([^/]+)\/?$/.exec(parsed.pathname);
+  if (slugMatch) return { slug: decodeURIComponent(slugMatch[1]) };
+
+  return null;
+}
+
+function escapeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Build the iframe markup a host page uses to embed a poll
+ */
+export function buildEmbedIframeHtml({
+  src,
+  title,
+  width,
+  height,
+}: {
+  src: string;
+  title: string;
+  width: number;
+  height: number;
+}): string {
+  return (
+    `<iframe src="${escapeHtmlAttribute(src)}" title="${escapeHtmlAttribute(title)}" ` +
+    `width="${width}" height="${height}" style="max-width:100%;border:0" loading="lazy"></iframe>`
+  );
+}
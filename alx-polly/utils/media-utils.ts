@@ -0,0 +1,115 @@
+// Image types accepted for option images, with the extension their files are stored under.
+// SVG is left out because it can carry scripts.
+export const OPTION_IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export const OPTION_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+export const OPTION_IMAGE_URL_MAX_LENGTH = 2048;
+export const OPTION_CAPTION_MAX_LENGTH = 200;
+
+// Uploaded files are served back under this path, keyed by their storage key
+export const UPLOADS_PATH = '/api/uploads';
+
+const UPLOAD_KEY_PATTERN = /^[a-z0-9-]+(\/[a-z0-9-]+)*\.[a-z0-9]+$/i;
+
+/**
+ * Check whether a MIME type is accepted for option images
+ */
+export function isOptionImageType(type: string): boolean {
+  return Object.prototype.hasOwnProperty.call(OPTION_IMAGE_TYPES, type);
+}
+
+/**
+ * Work out an image's type from its first bytes, or null if it isn't an accepted image
+ *
+ * Uploads are checked this way rather than trusting the type the browser sent.
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length &&
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x47, 0x49, 0x46, 0x38, 0x37, 0x61]) || startsWith([0x47, 0x49, 0x46, 0x38, 0x39, 0x61])) {
+    return 'image/gif';
+  }
+  // RIFF container with a WEBP form type after the chunk size
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Validate an option image URL: a web address, or a file uploaded through the app
+ */
+export function validateOptionImageUrl(url: string): { isValid: boolean; error?: string } {
+  const trimmed = url.trim();
+
+  if (!trimmed) {
+    return { isValid: false, error: 'Image URL is required' };
+  }
+
+  if (trimmed.length > OPTION_IMAGE_URL_MAX_LENGTH) {
+    return {
+      isValid: false,
+      error: `Image URL cannot exceed ${OPTION_IMAGE_URL_MAX_LENGTH} characters`,
+    };
+  }
+
+  if (trimmed.startsWith(`${UPLOADS_PATH}/`)) {
+    return isValidUploadKey(trimmed.slice(UPLOADS_PATH.length + 1))
+      ? { isValid: true }
+      : { isValid: false, error: 'Image URL does not point to an uploaded file' };
+  }
+
+  try {
+    const parsed = new URL(trimmed);
+    if (parsed.protocol === 'https:' || parsed.protocol === 'http:') {
+      return { isValid: true };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  return { isValid: false, error: 'Image URL must start with http:// or https://' };
+}
+
+/**
+ * Check that a storage key is a plain relative path, so it can't reach outside the uploads
+ */
+export function isValidUploadKey(key: string): boolean {
+  return UPLOAD_KEY_PATTERN.test(key);
+}
+
+/**
+ * Get the URL an uploaded file is served from
+ */
+export function getUploadUrl(key: string): string {
+  return `${UPLOADS_PATH}/${key}`;
+}
+
+/**
+ * Get the content type to serve a stored file with, from its extension
+ */
+export function getUploadContentType(key: string): string {
+  const extension = key.slice(key.lastIndexOf('.') + 1).toLowerCase();
+  const type = Object.keys(OPTION_IMAGE_TYPES).find(
+    (imageType) => OPTION_IMAGE_TYPES[imageType] === extension
+  );
+  return type ?? 'application/octet-stream';
+}
+
+/**
+ * Format a byte count for messages, e.g. "5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} bytes`;
+}
@@ -1,4 +1,27 @@
-import { Poll, PollOption, PollStatus } from '@/types';
+import {
+  DeclaredOutcome,
+  GuestVoteLimit,
+  InstantRunoffResult,
+  InstantRunoffRound,
+  OptionRatingStats,
+  Poll,
+  PollFollowUpLink,
+  PollOption,
+  PollStatus,
+  QuizLeaderboardEntry,
+  RankedBallot,
+  RatingScale,
+  ResultsVisibility,
+  ScoreBallot,
+  SurveyFunnel,
+  SurveyProgress,
+  TieStrategy,
+  VoteChangePolicy,
+  VoteType,
+  WriteInGroup,
+} from '@/types';
+import { PollFollowUp, PollWithOptions, SurveyResponse, Vote } from '@/types/database';
+import { getPollQRCodePath } from '@/utils/qr-utils';
 
 /**
  * Calculate the percentage of votes for a poll option
@@ -8,15 +31,86 @@ export function calculateVotePercentage(option: PollOption, totalVotes: number):
   return Math.round((option.votes / totalVotes) * 100);
 }
 
+export const POLL_STATUSES: readonly PollStatus[] = [
+  'draft',
+  'scheduled',
+  'open',
+  'paused',
+  'closed',
+  'archived',
+];
+
+export const POLL_STATUS_LABELS: Record<PollStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  open: 'Open',
+  paused: 'Paused',
+  closed: 'Closed',
+  archived: 'Archived',
+};
+
+// Mirrors the poll_status_transitions table, which transition_poll_status checks against
+export const POLL_STATUS_TRANSITIONS: Record<PollStatus, readonly PollStatus[]> = {
+  draft: ['scheduled', 'open'],
+  scheduled: ['draft', 'open', 'closed'],
+  open: ['paused', 'closed'],
+  paused: ['open', 'closed'],
+  closed: ['open', 'archived'],
+  archived: ['closed'],
+};
+
+export function isPollStatus(value: unknown): value is PollStatus {
+  return typeof value === 'string' && (POLL_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a poll may move from one status to another
+ */
+export function canTransitionPollStatus(from: PollStatus, to: PollStatus): boolean {
+  return POLL_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Name the action that moves a poll to a status, e.g. "Resume" for a paused poll
+ */
+export function getPollStatusActionLabel(from: PollStatus, to: PollStatus): string {
+  switch (to) {
+    case 'draft':
+      return 'Unpublish';
+    case 'scheduled':
+      return 'Schedule';
+    case 'open':
+      if (from === 'draft') return 'Publish';
+      if (from === 'paused') return 'Resume';
+      return from === 'closed' ? 'Reopen' : 'Open now';
+    case 'paused':
+      return 'Pause';
+    case 'closed':
+      return from === 'archived' ? 'Restore' : 'Close';
+    case 'archived':
+      return 'Archive';
+  }
+}
+
 /**
- * Get the poll status based on current date and expiration
+ * Get the status a poll is effectively in right now
+ *
+ * The sweeper opens scheduled polls and closes expired ones on a timer, but the vote
+ * functions go by the clock, so a scheduled poll counts as open from its start time and
+ * an open or paused poll as closed once it has expired.
  */
-export function getPollStatus(poll: Poll): PollStatus {
-  if (!poll.isActive) return 'draft';
-  if (poll.expiresAt && new Date() > new Date(poll.expiresAt)) {
-    return 'expired';
+export function getPollStatus(
+  poll: Pick<Poll, 'status' | 'startsAt' | 'expiresAt'>,
+  now: Date = new Date()
+): PollStatus {
+  if (poll.status === 'draft' || poll.status === 'closed' || poll.status === 'archived') {
+    return poll.status;
   }
-  return 'active';
+  if (poll.expiresAt && now > new Date(poll.expiresAt)) return 'closed';
+  if (poll.status === 'scheduled' && (!poll.startsAt || now >= new Date(poll.startsAt))) {
+    return 'open';
+  }
+  return poll.status;
 }
 
 /**
@@ -24,19 +118,785 @@ export function getPollStatus(poll: Poll): PollStatus {
  */
 export function isPollVotable(poll: Poll): boolean {
   const status = getPollStatus(poll);
-  return status === 'active';
+  return status === 'open';
 }
 
 /**
  * Get the winning option(s) from a poll
+ *
+ * Ranked polls are decided by instant runoff over their ballots, which always gives a
+ * single winner (or none before the first ballot).
  */
-export function getWinningOptions(poll: Poll): PollOption[] {
+export function getWinningOptions(poll: Poll, ballots: RankedBallot[] = []): PollOption[] {
   if (poll.options.length === 0) return [];
   
+  if (poll.voteType === 'ranked') {
+    const { winnerId } = calculateInstantRunoff(poll.options.map(option => option.id), ballots);
+    return poll.options.filter(option => option.id === winnerId);
+  }
+  
   const maxVotes = Math.max(...poll.options.map(option => option.votes));
   return poll.options.filter(option => option.votes === maxVotes);
 }
 
+/**
+ * Run an instant-runoff count over ranked ballots
+ *
+ * Each round counts every ballot for its highest-ranked option still in the race. An
+ * option with more than half of the ballots that still count wins; otherwise the
+ * option with the fewest votes is eliminated and the count repeats. Ties for last
+ * place go to the option that had fewer votes in the latest earlier round where they
+ * differed, and failing that to the option listed last, so a count never depends on
+ * ballot order.
+ *
+ * Matches ranked_poll_winner() in the database, which declares the official result.
+ *
+ * @param optionIds - The poll's options in display order
+ */
+export function calculateInstantRunoff(
+  optionIds: string[],
+  ballots: RankedBallot[]
+): InstantRunoffResult {
+  const knownOptions = new Set(optionIds);
+  // Ignore unknown and repeated options so each ballot is a clean preference list
+  const validBallots = ballots
+    .map(ballot => ballot.filter((id, index) => knownOptions.has(id) && ballot.indexOf(id) === index))
+    .filter(ballot => ballot.length > 0);
+  
+  const rounds: InstantRunoffRound[] = [];
+  if (validBallots.length === 0 || optionIds.length === 0) {
+    return { totalBallots: validBallots.length, rounds, winnerId: null };
+  }
+  
+  const continuing = [...optionIds];
+  for (;;) {
+    const tallies: Record<string, number> = Object.fromEntries(continuing.map(id => [id, 0]));
+    let exhaustedBallots = 0;
+    validBallots.forEach(ballot => {
+      const choice = ballot.find(id => id in tallies);
+      if (choice) {
+        tallies[choice] += 1;
+      } else {
+        exhaustedBallots += 1;
+      }
+    });
+    
+    const leaderId = continuing.reduce((best, id) => (tallies[id] > tallies[best] ? id : best));
+    const countingBallots = validBallots.length - exhaustedBallots;
+    if (continuing.length === 1 || tallies[leaderId] * 2 > countingBallots) {
+      rounds.push({ round: rounds.length + 1, tallies, exhaustedBallots, eliminatedId: null });
+      return { totalBallots: validBallots.length, rounds, winnerId: leaderId };
+    }
+    
+    const eliminatedId = pickEliminatedOption(continuing, tallies, rounds);
+    rounds.push({ round: rounds.length + 1, tallies, exhaustedBallots, eliminatedId });
+    continuing.splice(continuing.indexOf(eliminatedId), 1);
+  }
+}
+
+function pickEliminatedOption(
+  continuing: string[],
+  tallies: Record<string, number>,
+  previousRounds: InstantRunoffRound[]
+): string {
+  const fewestVotes = Math.min(...continuing.map(id => tallies[id]));
+  let tied = continuing.filter(id => tallies[id] === fewestVotes);
+  
+  for (let i = previousRounds.length - 1; i >= 0 && tied.length > 1; i--) {
+    const earlier = previousRounds[i].tallies;
+    const fewestEarlier = Math.min(...tied.map(id => earlier[id]));
+    tied = tied.filter(id => earlier[id] === fewestEarlier);
+  }
+  
+  // continuing keeps display order, so the last tied option was listed last
+  return tied[tied.length - 1];
+}
+
+/**
+ * Group ranked vote rows into ballots, each listing option IDs in preference order
+ *
+ * Rows belong to the same ballot when they share a user or, for guests, a voter token.
+ */
+export function groupRankedBallots(
+  votes: Array<Pick<Vote, 'id' | 'option_id' | 'user_id' | 'voter_token' | 'rank'>>
+): RankedBallot[] {
+  const ballots = new Map<string, Array<{ optionId: string; rank: number }>>();
+  votes.forEach(vote => {
+    if (!vote.option_id) return;
+    const voter = vote.user_id ?? vote.voter_token ?? vote.id;
+    const ballot = ballots.get(voter) || [];
+    ballot.push({ optionId: vote.option_id, rank: vote.rank ?? Number.MAX_SAFE_INTEGER });
+    ballots.set(voter, ballot);
+  });
+  
+  return [...ballots.values()].map(ballot =>
+    ballot.sort((a, b) => a.rank - b.rank).map(choice => choice.optionId)
+  );
+}
+
+/**
+ * Collect the scores of one voter's rating ballot, or null when the votes carry no scores
+ */
+export function toScoreBallot(votes: Array<Pick<Vote, 'option_id' | 'score'>>): ScoreBallot | null {
+  const scored = votes.filter(vote => vote.option_id && vote.score !== null);
+  if (scored.length === 0) return null;
+  return Object.fromEntries(scored.map(vote => [vote.option_id as string, vote.score as number]));
+}
+
+export const TIE_STRATEGIES: readonly TieStrategy[] = ['owner_decides', 'random', 'extend'];
+export const DEFAULT_TIE_STRATEGY: TieStrategy = 'owner_decides';
+// How long the 'extend' strategy keeps a tied poll open for another round of voting; matches
+// record_poll_outcome() in the database
+export const TIE_EXTENSION_HOURS = 24;
+
+export const TIE_STRATEGY_LABELS: Record<TieStrategy, string> = {
+  owner_decides: 'I pick the winner',
+  random: 'Pick a winner at random',
+  extend: `Keep voting open ${TIE_EXTENSION_HOURS} more hours`,
+};
+
+/**
+ * Check whether a value is a known tie strategy
+ */
+export function isTieStrategy(value: unknown): value is TieStrategy {
+  return typeof value === 'string' && (TIE_STRATEGIES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a poll can have closing rules and a declared result
+ *
+ * Only standalone polls with a winner can: rating and scheduling polls have none to declare,
+ * and quiz and survey questions are answered as part of their quiz or survey.
+ */
+export function supportsCloseRules(
+  poll: Pick<Poll, 'voteType'> & Partial<Pick<Poll, 'quizId' | 'surveyId'>>
+): boolean {
+  return (
+    (poll.voteType === 'single' || poll.voteType === 'multiple' || poll.voteType === 'ranked') &&
+    !poll.quizId &&
+    !poll.surveyId
+  );
+}
+
+/**
+ * Describe a poll's closing rules to voters, or null when it has none
+ *
+ * The ballots still needed are left out while the viewer can't see the vote counts.
+ */
+export function describeCloseRules(
+  poll: Pick<Poll, 'closeAfterVotes' | 'closeOnDecisiveLead' | 'quorum' | 'totalVotes' | 'resultsHidden'>
+): string | null {
+  const rules: string[] = [];
+  if (poll.closeAfterVotes) {
+    const remaining = Math.max(poll.closeAfterVotes - poll.totalVotes, 0);
+    rules.push(
+      `Closes after ${poll.closeAfterVotes} votes` +
+        (poll.resultsHidden ? '' : ` (${remaining} to go)`) +
+        (poll.closeOnDecisiveLead ? ", or sooner once the leader can't be caught" : '')
+    );
+  }
+  if (poll.quorum) {
+    rules.push(`The result needs at least ${poll.quorum} votes to count`);
+  }
+  return rules.length > 0 ? `${rules.join('. ')}.` : null;
+}
+
+/**
+ * Work out the result to declare when a poll closes
+ *
+ * A poll below its quorum has no winner. Otherwise the winners are the options getWinningOptions
+ * picks, and a tie for first place is settled by the poll's tie strategy. A poll is only extended
+ * once, so a tie after the extra round is left to the owner.
+ *
+ * Matches record_poll_outcome() in the database, which declares the official result.
+ *
+ * @param ballots - Ranked ballots; only used by ranked polls
+ * @param wasExtended - Whether the poll was already extended to break a tie
+ * @param random - Returns a number in [0, 1) to draw a random winner with
+ */
+export function decidePollOutcome(
+  poll: Poll,
+  ballots: RankedBallot[] = [],
+  { wasExtended = false, random = Math.random }: { wasExtended?: boolean; random?: () => number } = {}
+): Pick<DeclaredOutcome, 'status' | 'winnerOptionIds' | 'tiedOptionIds' | 'tieResolution'> {
+  const noWinner = { winnerOptionIds: [], tiedOptionIds: [] };
+  if (poll.totalVotes === 0) return { status: 'no_votes', ...noWinner };
+  if (poll.quorum && poll.totalVotes < poll.quorum) return { status: 'no_quorum', ...noWinner };
+  
+  // Options nobody voted for don't share first place when every ballot was a write-in
+  const leaders = getWinningOptions(poll, ballots)
+    .filter(option => poll.voteType === 'ranked' || option.votes > 0)
+    .map(option => option.id);
+  if (leaders.length === 0) return { status: 'no_votes', ...noWinner };
+  if (leaders.length === 1) return { status: 'decided', winnerOptionIds: leaders, tiedOptionIds: [] };
+  
+  switch (poll.tieStrategy ?? DEFAULT_TIE_STRATEGY) {
+    case 'random':
+      return {
+        status: 'decided',
+        winnerOptionIds: [leaders[Math.floor(random() * leaders.length)]],
+        tiedOptionIds: leaders,
+        tieResolution: 'random',
+      };
+    case 'extend':
+      if (!wasExtended) return { status: 'extended', winnerOptionIds: [], tiedOptionIds: leaders };
+      return { status: 'tied', winnerOptionIds: [], tiedOptionIds: leaders };
+    default:
+      return { status: 'tied', winnerOptionIds: [], tiedOptionIds: leaders };
+  }
+}
+
+export const WRITE_IN_MAX_LENGTH = 200;
+
+/**
+ * Normalize a write-in for grouping: case-insensitive, ignoring extra spaces
+ *
+ * Matches normalize_write_in() in the database, which promotion relies on.
+ */
+export function normalizeWriteIn(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Group write-in votes by normalized text, most frequent first
+ */
+export function groupWriteIns(votes: Array<Pick<Vote, 'write_in'>>): WriteInGroup[] {
+  const groups = new Map<string, Map<string, number>>();
+  votes.forEach(vote => {
+    if (!vote.write_in?.trim()) return;
+    const spelling = vote.write_in.trim().replace(/\s+/g, ' ');
+    const key = normalizeWriteIn(spelling);
+    const spellings = groups.get(key) || new Map<string, number>();
+    spellings.set(spelling, (spellings.get(spelling) || 0) + 1);
+    groups.set(key, spellings);
+  });
+  
+  return [...groups.entries()]
+    .map(([key, spellings]) => {
+      const variants = [...spellings.entries()].sort((a, b) => b[1] - a[1]);
+      return {
+        key,
+        text: variants[0][0],
+        count: variants.reduce((sum, [, count]) => sum + count, 0),
+        variants: variants.map(([spelling]) => spelling),
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/**
+ * Count the write-in votes of a single or multiple-choice poll
+ *
+ * Write-ins belong to no option, so they are the part of total_votes the options don't account for.
+ */
+export function countWriteInVotes(poll: Pick<Poll, 'options' | 'totalVotes'>): number {
+  const optionVotes = poll.options.reduce((sum, option) => sum + option.votes, 0);
+  return Math.max(poll.totalVotes - optionVotes, 0);
+}
+
+export const RESULTS_VISIBILITIES: readonly ResultsVisibility[] = [
+  'always',
+  'after_vote',
+  'after_close',
+  'owner_only',
+];
+export const DEFAULT_RESULTS_VISIBILITY: ResultsVisibility = 'always';
+
+export const RESULTS_VISIBILITY_LABELS: Record<ResultsVisibility, string> = {
+  always: 'Always',
+  after_vote: 'After voting',
+  after_close: 'After the poll closes',
+  owner_only: 'Only to the poll creator',
+};
+
+/**
+ * Check whether a value is a known results visibility
+ */
+export function isResultsVisibility(value: unknown): value is ResultsVisibility {
+  return typeof value === 'string' && (RESULTS_VISIBILITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a viewer may see a poll's vote counts
+ *
+ * The creator always can. Nobody else can while the poll is a draft or paused; otherwise
+ * its results visibility decides. Voters who may see results after voting also see them
+ * once the poll has closed, since nobody can vote any more.
+ *
+ * @param hasVoted - Whether the viewer has a ballot on the poll
+ */
+export function canViewPollResults(
+  poll: Pick<PollWithOptions, 'status' | 'created_by'> &
+    Partial<Pick<PollWithOptions, 'results_visibility' | 'expires_at'>>,
+  viewerId?: string | null,
+  hasVoted = false,
+  now: Date = new Date()
+): boolean {
+  if (viewerId && poll.created_by === viewerId) return true;
+  if (poll.status === 'draft' || poll.status === 'paused') return false;
+
+  const isClosed =
+    poll.status === 'closed' ||
+    poll.status === 'archived' ||
+    (!!poll.expires_at && new Date(poll.expires_at) <= now);
+  switch (poll.results_visibility ?? DEFAULT_RESULTS_VISIBILITY) {
+    case 'after_vote':
+      return hasVoted || isClosed;
+    case 'after_close':
+      return isClosed;
+    case 'owner_only':
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Blank a poll's vote counts for a viewer who may not see them yet
+ */
+export function withholdPollResults(poll: PollWithOptions): PollWithOptions {
+  return {
+    ...poll,
+    total_votes: 0,
+    poll_options: poll.poll_options.map((option) => ({ ...option, votes_count: 0 })),
+    results_hidden: true,
+  };
+}
+
+/**
+ * Explain when a viewer who can't see a poll's results yet will see them
+ */
+export function describeResultsVisibility(
+  poll: Pick<Poll, 'resultsVisibility' | 'expiresAt' | 'status'>
+): string {
+  if (poll.status === 'draft') return 'Results are hidden until the poll is published.';
+  if (poll.status === 'paused') return 'Results are hidden while the poll is paused.';
+
+  const closes = poll.expiresAt ? ` on ${formatPollDate(poll.expiresAt)}` : '';
+  switch (poll.resultsVisibility) {
+    case 'after_vote':
+      return `Results are shown once you vote, or to everyone when the poll closes${closes}.`;
+    case 'after_close':
+      return `Results are shown when the poll closes${closes}.`;
+    case 'owner_only':
+      return 'Only the poll creator can see the results.';
+    default:
+      return 'Results are hidden.';
+  }
+}
+
+/**
+ * Summarise the scores each option received on a rating poll
+ *
+ * Scores outside the scale are ignored. Options nobody rated get a null average and median.
+ *
+ * @param optionIds - The poll's options in display order
+ */
+export function calculateRatingStats(
+  optionIds: string[],
+  scale: RatingScale,
+  votes: Array<Pick<Vote, 'option_id' | 'score'>>
+): OptionRatingStats[] {
+  const scores = new Map<string, number[]>(optionIds.map(id => [id, []]));
+  votes.forEach(vote => {
+    const score = vote.score;
+    if (!vote.option_id || score === null || score < scale.min || score > scale.max) return;
+    scores.get(vote.option_id)?.push(score);
+  });
+  
+  return optionIds.map(optionId => {
+    const optionScores = (scores.get(optionId) || []).sort((a, b) => a - b);
+    const raters = optionScores.length;
+    const distribution = new Array<number>(scale.max - scale.min + 1).fill(0);
+    optionScores.forEach(score => {
+      distribution[score - scale.min] += 1;
+    });
+    
+    if (raters === 0) {
+      return { optionId, raters, average: null, median: null, distribution };
+    }
+    
+    const middle = Math.floor(raters / 2);
+    const median = raters % 2 === 1
+      ? optionScores[middle]
+      : (optionScores[middle - 1] + optionScores[middle]) / 2;
+    const average = optionScores.reduce((sum, score) => sum + score, 0) / raters;
+    
+    return { optionId, raters, average, median, distribution };
+  });
+}
+
+export const VOTE_TYPES: readonly VoteType[] = ['single', 'multiple', 'ranked', 'rating', 'schedule'];
+
+export const VOTE_TYPE_LABELS: Record<VoteType, string> = {
+  single: 'Single Choice',
+  multiple: 'Multiple Choice',
+  ranked: 'Ranked Choice',
+  rating: 'Rating',
+  schedule: 'Scheduling',
+};
+
+// Scales offered when creating a rating poll; the database allows any range within 0-10
+export const RATING_SCALES: ReadonlyArray<RatingScale & { label: string }> = [
+  { min: 1, max: 5, label: '1-5 stars' },
+  { min: 1, max: 10, label: '1-10' },
+  { min: 0, max: 10, label: '0-10' },
+];
+
+export const DEFAULT_RATING_SCALE: RatingScale = { min: 1, max: 5 };
+
+export const RATING_SCALE_MIN = 0;
+export const RATING_SCALE_MAX = 10;
+
+/**
+ * Check whether a rating scale is shown as stars (1-5) rather than numbers
+ */
+export function isStarScale(scale: RatingScale): boolean {
+  return scale.min === 1 && scale.max === 5;
+}
+
+/**
+ * Check whether a value is a known vote type
+ */
+export function isVoteType(value: unknown): value is VoteType {
+  return typeof value === 'string' && (VOTE_TYPES as readonly string[]).includes(value);
+}
+
+function pluralizeOptions(count: number): string {
+  return `${count} ${count === 1 ? 'option' : 'options'}`;
+}
+
+/**
+ * Describe a multiple-choice poll's selection limits, e.g. "up to 3 options"
+ *
+ * Returns null when the poll has no limits.
+ */
+export function describeSelectionLimits(
+  minSelections?: number | null,
+  maxSelections?: number | null
+): string | null {
+  if (minSelections && maxSelections) {
+    return minSelections === maxSelections
+      ? `exactly ${pluralizeOptions(maxSelections)}`
+      : `${minSelections} to ${pluralizeOptions(maxSelections)}`;
+  }
+  if (maxSelections) return `up to ${pluralizeOptions(maxSelections)}`;
+  if (minSelections) return `at least ${pluralizeOptions(minSelections)}`;
+  return null;
+}
+
+/**
+ * Check whether a number of selected options fits a poll's selection limits
+ */
+export function isWithinSelectionLimits(
+  count: number,
+  minSelections?: number | null,
+  maxSelections?: number | null
+): boolean {
+  return count >= (minSelections ?? 1) && (!maxSelections || count <= maxSelections);
+}
+
+export const GUEST_VOTE_LIMITS: readonly GuestVoteLimit[] = ['browser', 'device', 'network'];
+export const DEFAULT_GUEST_VOTE_LIMIT: GuestVoteLimit = 'device';
+
+export const GUEST_VOTE_LIMIT_LABELS: Record<GuestVoteLimit, string> = {
+  browser: 'One vote per browser',
+  device: 'One vote per device',
+  network: 'One vote per network',
+};
+
+/**
+ * Check whether visitors without an account may vote on a poll
+ *
+ * Only anonymous polls accept guest votes, since they never show who voted.
+ */
+export function allowsGuestVoting(poll: Pick<PollWithOptions, 'is_anonymous'>): boolean {
+  return poll.is_anonymous;
+}
+
+/**
+ * Check whether a value is a known guest vote limit
+ */
+export function isGuestVoteLimit(value: unknown): value is GuestVoteLimit {
+  return typeof value === 'string' && (GUEST_VOTE_LIMITS as readonly string[]).includes(value);
+}
+
+export const VOTE_CHANGE_POLICIES: readonly VoteChangePolicy[] = ['never', 'until_close', 'window'];
+export const DEFAULT_VOTE_CHANGE_POLICY: VoteChangePolicy = 'until_close';
+export const DEFAULT_VOTE_CHANGE_WINDOW_MINUTES = 15;
+export const MAX_VOTE_CHANGE_WINDOW_MINUTES = 7 * 24 * 60;
+
+export const VOTE_CHANGE_POLICY_LABELS: Record<VoteChangePolicy, string> = {
+  never: 'Votes are final',
+  until_close: 'Until the poll closes',
+  window: 'For a limited time after voting',
+};
+
+/**
+ * Check whether a value is a known vote change policy
+ */
+export function isVoteChangePolicy(value: unknown): value is VoteChangePolicy {
+  return typeof value === 'string' && (VOTE_CHANGE_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Find when a ballot was first cast, from its vote rows
+ *
+ * Changed ballots keep their original cast time, so this is where a change window starts.
+ */
+export function getBallotCastAt(votes: { created_at: string }[]): Date | null {
+  if (votes.length === 0) return null;
+  return new Date(Math.min(...votes.map((vote) => new Date(vote.created_at).getTime())));
+}
+
+/**
+ * Find when a ballot stops being changeable under a 'window' policy
+ *
+ * Returns null for the other policies, where only the poll closing (or nothing, for
+ * 'never') sets the limit.
+ */
+export function getVoteChangeDeadline(
+  policy: VoteChangePolicy,
+  windowMinutes: number | null | undefined,
+  votedAt: Date
+): Date | null {
+  if (policy !== 'window' || !windowMinutes) return null;
+  return new Date(votedAt.getTime() + windowMinutes * 60 * 1000);
+}
+
+/**
+ * Check whether a voter may change or retract the ballot they cast at votedAt
+ *
+ * A voter without a ballot (votedAt null) can always vote. Whether the poll is still
+ * open is checked separately.
+ */
+export function canChangeVote(
+  policy: VoteChangePolicy,
+  windowMinutes: number | null | undefined,
+  votedAt: Date | null,
+  now: Date = new Date()
+): boolean {
+  if (!votedAt) return true;
+  if (policy === 'never') return false;
+
+  const deadline = getVoteChangeDeadline(policy, windowMinutes, votedAt);
+  return !deadline || now < deadline;
+}
+
+/**
+ * Check a quiz answer: it is right only when it picks exactly the correct options
+ */
+export function isQuizAnswerCorrect(optionIds: string[], correctOptionIds: string[]): boolean {
+  const selected = new Set(optionIds);
+  const correct = new Set(correctOptionIds);
+  return correct.size > 0 && selected.size === correct.size && [...selected].every(id => correct.has(id));
+}
+
+/**
+ * Identify a quiz participant by user, or by voter token for guests
+ */
+export function toQuizParticipantId(voter: Pick<Vote, 'user_id' | 'voter_token'>): string | null {
+  if (voter.user_id) return `user:${voter.user_id}`;
+  return voter.voter_token ? `guest:${voter.voter_token}` : null;
+}
+
+/**
+ * Rank a quiz's participants by correct answers, then by answer speed
+ *
+ * Speed is how long after the first answer to each question the participant answered it,
+ * summed over the questions they got right, so waiting to see others' results never pays.
+ * Participants are signed-in users or guests (by voter token); votes on polls outside the
+ * answer key are ignored.
+ *
+ * @param answerKey - Poll ID of each question to its correct option IDs
+ * @param votes - Vote rows of the questions, with the voter's name where it may be shown
+ */
+export function calculateQuizLeaderboard(
+  answerKey: Record<string, string[]>,
+  votes: Array<
+    Pick<Vote, 'poll_id' | 'option_id' | 'user_id' | 'voter_token' | 'created_at'> & { name?: string | null }
+  >
+): QuizLeaderboardEntry[] {
+  const participants = new Map<
+    string,
+    { name: string | null; answers: Map<string, { optionIds: string[]; answeredAt: number }> }
+  >();
+  const firstAnswerAt = new Map<string, number>();
+
+  votes.forEach(vote => {
+    if (!(vote.poll_id in answerKey)) return;
+    const participantId = toQuizParticipantId(vote);
+    if (!participantId) return;
+
+    const answeredAt = new Date(vote.created_at).getTime();
+    const participant = participants.get(participantId) || { name: null, answers: new Map() };
+    const answer = participant.answers.get(vote.poll_id) || { optionIds: [], answeredAt };
+    if (vote.option_id) answer.optionIds.push(vote.option_id);
+    answer.answeredAt = Math.min(answer.answeredAt, answeredAt);
+    participant.answers.set(vote.poll_id, answer);
+    participant.name = participant.name ?? vote.name ?? null;
+    participants.set(participantId, participant);
+
+    firstAnswerAt.set(vote.poll_id, Math.min(firstAnswerAt.get(vote.poll_id) ?? answeredAt, answeredAt));
+  });
+
+  const entries: QuizLeaderboardEntry[] = [...participants.entries()].map(([participantId, { name, answers }]) => {
+    let score = 0;
+    let answerTimeMs = 0;
+    answers.forEach((answer, pollId) => {
+      if (!isQuizAnswerCorrect(answer.optionIds, answerKey[pollId])) return;
+      score += 1;
+      answerTimeMs += answer.answeredAt - (firstAnswerAt.get(pollId) ?? answer.answeredAt);
+    });
+    return { participantId, name, score, answered: answers.size, answerTimeMs, rank: 0 };
+  });
+
+  entries.sort(
+    (a, b) =>
+      b.score - a.score || a.answerTimeMs - b.answerTimeMs || a.participantId.localeCompare(b.participantId)
+  );
+  entries.forEach((entry, index) => {
+    const previous = entries[index - 1];
+    entry.rank =
+      previous && previous.score === entry.score && previous.answerTimeMs === entry.answerTimeMs
+        ? previous.rank
+        : index + 1;
+  });
+
+  return entries;
+}
+
+/**
+ * Summarize a respondent's survey response for the step-through page
+ */
+export function toSurveyProgress(
+  response: Pick<SurveyResponse, 'furthest_position' | 'submitted_at'> | null
+): SurveyProgress {
+  return {
+    furthestPosition: response?.furthest_position ?? 0,
+    submitted: Boolean(response?.submitted_at),
+  };
+}
+
+/**
+ * Work out how many respondents finished a survey and where the others stopped
+ *
+ * A response only exists once its respondent answered a question, so every response counts
+ * as started. An unsubmitted response dropped off at the furthest question it answered.
+ *
+ * @param questions - The survey's polls
+ * @param responses - One row per respondent
+ */
+export function calculateSurveyFunnel(
+  questions: Array<Pick<PollWithOptions, 'id' | 'survey_position'>>,
+  responses: Array<Pick<SurveyResponse, 'furthest_position' | 'submitted_at'>>
+): SurveyFunnel {
+  const started = responses.length;
+  const completed = responses.filter(response => response.submitted_at).length;
+
+  const ordered = [...questions].sort((a, b) => (a.survey_position ?? 0) - (b.survey_position ?? 0));
+  return {
+    started,
+    completed,
+    completionRate: started > 0 ? Math.round((completed / started) * 100) : 0,
+    questions: ordered.map((question, index) => {
+      const position = question.survey_position ?? index + 1;
+      const reached = responses.filter(
+        response => response.submitted_at || response.furthest_position >= position
+      ).length;
+      const droppedOff = responses.filter(
+        response => !response.submitted_at && response.furthest_position === position
+      ).length;
+      return {
+        pollId: question.id,
+        position,
+        reached,
+        droppedOff,
+        dropOffRate: reached > 0 ? Math.round((droppedOff / reached) * 100) : 0,
+      };
+    }),
+  };
+}
+
+/**
+ * Find the follow-up poll a ballot leads to, if any
+ *
+ * Options are checked in ballot order, so on multiple-choice polls the first chosen
+ * option with a follow-up wins.
+ */
+export function getFollowUpPollId(
+  followUps: PollFollowUpLink[] | undefined,
+  optionIds: string[]
+): string | null {
+  for (const optionId of optionIds) {
+    const link = followUps?.find(followUp => followUp.optionId === optionId);
+    if (link) return link.followUpPollId;
+  }
+  return null;
+}
+
+/**
+ * Check whether a voter may vote on a follow-up poll
+ *
+ * A poll no link leads to is open to everyone. Otherwise the voter must have chosen
+ * at least one of the linked options in the earlier polls.
+ *
+ * @param conditions - The links leading to the poll
+ * @param votes - The voter's votes on the polls those links leave from
+ */
+export function meetsFollowUpCondition(
+  conditions: Array<Pick<PollFollowUp, 'option_id'>>,
+  votes: Array<Pick<Vote, 'option_id'>>
+): boolean {
+  if (conditions.length === 0) return true;
+
+  const chosen = new Set(votes.map(vote => vote.option_id));
+  return conditions.some(condition => chosen.has(condition.option_id));
+}
+
+/**
+ * Find a loop in the follow-up links between polls
+ *
+ * Returns the polls along the loop, starting and ending with the same poll, or null
+ * when the links never lead back to a poll already passed through.
+ */
+export function findFollowUpCycle(
+  links: Array<Pick<PollFollowUp, 'poll_id' | 'follow_up_poll_id'>>
+): string[] | null {
+  const followUpsByPoll = new Map<string, string[]>();
+  links.forEach(link => {
+    followUpsByPoll.set(link.poll_id, [
+      ...(followUpsByPoll.get(link.poll_id) ?? []),
+      link.follow_up_poll_id,
+    ]);
+  });
+
+  // Depth-first walk; polls fully explored without finding a loop are not revisited
+  const explored = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (pollId: string): string[] | null => {
+    const loopStart = path.indexOf(pollId);
+    if (loopStart !== -1) return [...path.slice(loopStart), pollId];
+    if (explored.has(pollId)) return null;
+
+    path.push(pollId);
+    for (const followUpPollId of followUpsByPoll.get(pollId) ?? []) {
+      const cycle = visit(followUpPollId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    explored.add(pollId);
+    return null;
+  };
+
+  for (const pollId of followUpsByPoll.keys()) {
+    const cycle = visit(pollId);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
 /**
  * Format poll creation date for display
  */
@@ -50,14 +910,106 @@ export function formatPollDate(date: Date): string {
   }).format(new Date(date));
 }
 
+export const POLL_SLUG_MIN_LENGTH = 3;
+export const POLL_SLUG_MAX_LENGTH = 40;
+export const GENERATED_SLUG_LENGTH = 7;
+
+// No 0/o or 1/l/i, so generated slugs survive being read aloud or hand-typed
+const SLUG_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const POLL_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Slugs that would read like app pages rather than polls
+const RESERVED_POLL_SLUGS = ['admin', 'api', 'auth', 'create', 'dashboard', 'edit', 'new', 'polls'];
+
+/**
+ * Generate a random short slug for a poll
+ */
+export function generatePollSlug(length: number = GENERATED_SLUG_LENGTH): string {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => SLUG_ALPHABET[byte % SLUG_ALPHABET.length]).join('');
+}
+
+/**
+ * Normalize a user-entered vanity slug, e.g. "Team Lunch " -> "team-lunch"
+ */
+export function normalizePollSlug(slug: string): string {
+  return slug
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Validate a poll slug
+ */
+export function validatePollSlug(slug: string): { isValid: boolean; error?: string } {
+  if (slug.length < POLL_SLUG_MIN_LENGTH || slug.length > POLL_SLUG_MAX_LENGTH) {
+    return {
+      isValid: false,
+      error: `Short link must be between ${POLL_SLUG_MIN_LENGTH} and ${POLL_SLUG_MAX_LENGTH} characters`,
+    };
+  }
+  if (!POLL_SLUG_PATTERN.test(slug)) {
+    return {
+      isValid: false,
+      error: 'Short link can only contain lowercase letters, numbers and single hyphens',
+    };
+  }
+  if (RESERVED_POLL_SLUGS.includes(slug)) {
+    return { isValid: false, error: `"${slug}" is reserved` };
+  }
+  return { isValid: true };
+}
+
 /**
- * Generate a shareable poll URL
+ * Get the in-app path of a poll, preferring the short /p/[slug] form
  */
-export function generatePollUrl(pollId: string): string {
+export function getPollPath(poll: string | { id: string; slug?: string | null }): string {
+  if (typeof poll === 'string') return `/polls/${poll}`;
+  return poll.slug ? `/p/${poll.slug}` : `/polls/${poll.id}`;
+}
+
+/**
+ * Generate a shareable poll URL, preferring the short /p/[slug] form
+ *
+ * On the server there is no window, so pass the request origin to get an absolute URL.
+ */
+export function generatePollUrl(
+  poll: string | { id: string; slug?: string | null },
+  origin?: string
+): string {
+  const path = getPollPath(poll);
+  if (origin) {
+    return `${origin.replace(/\/$/, '')}${path}`;
+  }
+  if (typeof window !== 'undefined') {
+    return `${window.location.origin}${path}`;
+  }
+  return path;
+}
+
+/**
+ * Get the in-app path of a survey, the one link respondents share for all its questions
+ */
+export function getSurveyPath(surveyId: string): string {
+  return `/surveys/${surveyId}`;
+}
+
+/**
+ * Generate a shareable survey URL, absolute when an origin or window is available
+ */
+export function generateSurveyUrl(surveyId: string, origin?: string): string {
+  const path = getSurveyPath(surveyId);
+  if (origin) {
+    return `${origin.replace(/\/$/, '')}${path}`;
+  }
   if (typeof window !== 'undefined') {
-    return `${window.location.origin}/polls/${pollId}`;
+    return `${window.location.origin}${path}`;
   }
-  return `/polls/${pollId}`;
+  return path;
 }
 
 /**
@@ -96,21 +1048,93 @@ export function filterPollsByStatus(polls: Poll[], status: PollStatus): Poll[] {
   return polls.filter(poll => getPollStatus(poll) === status);
 }
 
+// Largest two units of a duration, e.g. "2d 3h" or "45m"
+function formatCountdown(diff: number): string {
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+  
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
 /**
  * Calculate time remaining for a poll
+ *
+ * Before a scheduled poll opens this counts down to its start instead, e.g. "Starts in 2h".
  */
-export function getTimeRemaining(expiresAt: Date): string {
-  const now = new Date();
-  const expiry = new Date(expiresAt);
-  const diff = expiry.getTime() - now.getTime();
+export function getTimeRemaining(
+  expiresAt: Date | null | undefined,
+  startsAt?: Date | null,
+  now: Date = new Date()
+): string {
+  if (startsAt && new Date(startsAt) > now) {
+    return `Starts in ${formatCountdown(new Date(startsAt).getTime() - now.getTime())}`;
+  }
+  if (!expiresAt) return 'No end date';
   
+  const diff = new Date(expiresAt).getTime() - now.getTime();
   if (diff <= 0) return 'Expired';
   
-  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-  
-  if (days > 0) return `${days}d ${hours}h remaining`;
-  if (hours > 0) return `${hours}h ${minutes}m remaining`;
-  return `${minutes}m remaining`;
+  return `${formatCountdown(diff)} remaining`;
+}
+
+/**
+ * Convert a poll row with its options into the shape the poll components use
+ */
+export function toPoll(poll: PollWithOptions): Poll {
+  return {
+    id: poll.id,
+    title: poll.title,
+    description: poll.description ?? undefined,
+    options: poll.poll_options.map((option) => ({
+      id: option.id,
+      text: option.text,
+      votes: option.votes_count,
+      pollId: poll.id,
+      imageUrl: option.image_url ?? undefined,
+      imageCaption: option.image_caption ?? undefined,
+      startsAt: option.starts_at ? new Date(option.starts_at) : undefined,
+      endsAt: option.ends_at ? new Date(option.ends_at) : undefined,
+    })),
+    createdBy: poll.created_by,
+    createdAt: new Date(poll.created_at),
+    updatedAt: new Date(poll.updated_at),
+    expiresAt: poll.expires_at ? new Date(poll.expires_at) : undefined,
+    startsAt: poll.starts_at ? new Date(poll.starts_at) : undefined,
+    openedAt: poll.opened_at ? new Date(poll.opened_at) : undefined,
+    closedAt: poll.closed_at ? new Date(poll.closed_at) : undefined,
+    status: poll.status,
+    allowMultipleVotes: poll.allow_multiple_votes,
+    voteType: poll.vote_type,
+    minSelections: poll.min_selections ?? undefined,
+    maxSelections: poll.max_selections ?? undefined,
+    ratingScale:
+      poll.vote_type === 'rating' && poll.score_min !== null && poll.score_max !== null
+        ? { min: poll.score_min, max: poll.score_max }
+        : undefined,
+    timeZone: poll.time_zone ?? undefined,
+    allowWriteIns: poll.allow_write_ins,
+    voteChangePolicy: poll.vote_change_policy,
+    voteChangeWindowMinutes: poll.vote_change_window_minutes ?? undefined,
+    resultsVisibility: poll.results_visibility,
+    resultsHidden: poll.results_hidden,
+    closeAfterVotes: poll.close_after_votes ?? undefined,
+    closeOnDecisiveLead: poll.close_on_decisive_lead,
+    quorum: poll.quorum ?? undefined,
+    tieStrategy: poll.tie_strategy,
+    quizId: poll.quiz_id ?? undefined,
+    quizPosition: poll.quiz_position ?? undefined,
+    surveyId: poll.survey_id ?? undefined,
+    surveyPosition: poll.survey_position ?? undefined,
+    followUps: poll.poll_follow_ups?.map((link) => ({
+      optionId: link.option_id,
+      followUpPollId: link.follow_up_poll_id,
+    })),
+    isAnonymous: poll.is_anonymous,
+    totalVotes: poll.total_votes,
+    qrCode: poll.qr_code_url ?? getPollQRCodePath(poll.id),
+    slug: poll.slug ?? undefined,
+  };
 }
@@ -0,0 +1,34 @@
+import { PosterPageSize } from '@/types';
+
+export const POSTER_PAGE_SIZES: PosterPageSize[] = ['a4', 'letter'];
+export const DEFAULT_POSTER_PAGE_SIZE: PosterPageSize = 'a4';
+
+/**
+ * Parse the poster page size from URL search params, falling back to A4
+ */
+export function parsePosterPageSize(
+  searchParams: URLSearchParams
+): { isValid: true; pageSize: PosterPageSize } | { isValid: false; error: string } {
+  const size = searchParams.get('size');
+  if (size === null) {
+    return { isValid: true, pageSize: DEFAULT_POSTER_PAGE_SIZE };
+  }
+
+  const normalized = size.toLowerCase() as PosterPageSize;
+  if (!POSTER_PAGE_SIZES.includes(normalized)) {
+    return { isValid: false, error: `Size must be one of: ${POSTER_PAGE_SIZES.join(', ')}` };
+  }
+
+  return { isValid: true, pageSize: normalized };
+}
+
+/**
+ * Build the poster endpoint path for a poll
+ */
+export function getPollPosterPath(
+  pollId: string,
+  pageSize: PosterPageSize = DEFAULT_POSTER_PAGE_SIZE
+): string {
+  const query = pageSize === DEFAULT_POSTER_PAGE_SIZE ? '' : `?size=${pageSize}`;
+  return `/api/polls/${pollId}/poster${query}`;
+}
@@ -0,0 +1,249 @@
+import { QRCodeErrorCorrectionLevel, QRCodeFormat, QRCodeOptions, QRSourceStats } from '@/types';
+
+export const QR_CODE_MIN_SIZE = 64;
+export const QR_CODE_MAX_SIZE = 2048;
+export const QR_CODE_MAX_MARGIN = 16;
+
+// Share of the code's width a center logo may cover; small enough for level H to recover
+export const QR_CODE_LOGO_RATIO = 0.2;
+
+export const DEFAULT_QR_CODE_OPTIONS: QRCodeOptions = {
+  format: 'svg',
+  size: 256,
+  margin: 2,
+  errorCorrectionLevel: 'M',
+  darkColor: '#000000',
+  lightColor: '#ffffff',
+};
+
+const QR_CODE_FORMATS: QRCodeFormat[] = ['svg', 'png'];
+const QR_CODE_ERROR_CORRECTION_LEVELS: QRCodeErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+// Query param that carries a QR code's source tag on the poll URL
+export const QR_SOURCE_PARAM = 'src';
+export const QR_SOURCE_MAX_LENGTH = 50;
+const QR_SOURCE_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Normalize a hex color ("#AABBCC" or "aabbcc") to "#aabbcc", or null if invalid
+ */
+export function normalizeHexColor(color: string): string | null {
+  const match = HEX_COLOR_PATTERN.exec(color.trim());
+  return match ? `#${match[1].toLowerCase()}` : null;
+}
+
+/**
+ * Parse QR code options from URL search params, falling back to defaults
+ */
+export function parseQRCodeOptions(
+  searchParams: URLSearchParams
+): { isValid: true; options: QRCodeOptions } | { isValid: false; error: string } {
+  const options = { ...DEFAULT_QR_CODE_OPTIONS };
+
+  const format = searchParams.get('format');
+  if (format !== null) {
+    if (!QR_CODE_FORMATS.includes(format as QRCodeFormat)) {
+      return { isValid: false, error: `Format must be one of: ${QR_CODE_FORMATS.join(', ')}` };
+    }
+    options.format = format as QRCodeFormat;
+  }
+
+  const size = searchParams.get('size');
+  if (size !== null) {
+    const parsed = Number(size);
+    if (!Number.isInteger(parsed) || parsed < QR_CODE_MIN_SIZE || parsed > QR_CODE_MAX_SIZE) {
+      return {
+        isValid: false,
+        error: `Size must be a whole number between ${QR_CODE_MIN_SIZE} and ${QR_CODE_MAX_SIZE}`,
+      };
+    }
+    options.size = parsed;
+  }
+
+  const margin = searchParams.get('margin');
+  if (margin !== null) {
+    const parsed = Number(margin);
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > QR_CODE_MAX_MARGIN) {
+      return {
+        isValid: false,
+        error: `Margin must be a whole number between 0 and ${QR_CODE_MAX_MARGIN}`,
+      };
+    }
+    options.margin = parsed;
+  }
+
+  const level = searchParams.get('ecl');
+  if (level !== null) {
+    const normalized = level.toUpperCase() as QRCodeErrorCorrectionLevel;
+    if (!QR_CODE_ERROR_CORRECTION_LEVELS.includes(normalized)) {
+      return {
+        isValid: false,
+        error: `Error correction level must be one of: ${QR_CODE_ERROR_CORRECTION_LEVELS.join(', ')}`,
+      };
+    }
+    options.errorCorrectionLevel = normalized;
+  }
+
+  for (const [param, key] of [['dark', 'darkColor'], ['light', 'lightColor']] as const) {
+    const color = searchParams.get(param);
+    if (color !== null) {
+      const normalized = normalizeHexColor(color);
+      if (!normalized) {
+        return { isValid: false, error: `${param} must be a hex color such as 1f2937` };
+      }
+      options[key] = normalized;
+    }
+  }
+
+  if (options.darkColor === options.lightColor) {
+    return { isValid: false, error: 'dark and light colors must differ' };
+  }
+
+  return { isValid: true, options };
+}
+
+/**
+ * Check that a source tag is a lowercase slug such as "lobby-poster"
+ */
+export function isValidSourceTag(source: string): boolean {
+  return source.length <= QR_SOURCE_MAX_LENGTH && QR_SOURCE_PATTERN.test(source);
+}
+
+/**
+ * Derive a source tag from a QR code name, suffixing it if the tag is already taken
+ */
+export function createSourceTag(name: string, existingSources: string[] = []): string {
+  const base =
+    name
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, QR_SOURCE_MAX_LENGTH - 3)
+      .replace(/-+$/, '') || 'qr';
+
+  let source = base;
+  for (let suffix = 2; existingSources.includes(source); suffix++) {
+    source = `${base}-${suffix}`;
+  }
+  return source;
+}
+
+/**
+ * Append a source tag to a poll URL so scans and votes can be attributed
+ */
+export function withSourceTag(url: string, source?: string | null): string {
+  if (!source) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${QR_SOURCE_PARAM}=${encodeURIComponent(source)}`;
+}
+
+/**
+ * Break scans, votes and conversion rate down per QR code source
+ *
+ * Named codes are listed first (even without scans), followed by unknown tags
+ * and finally direct visits without a tag.
+ */
+export function calculateSourceStats(
+  qrCodes: Array<{ name: string; source: string }>,
+  views: Array<{ source: string | null }>,
+  votes: Array<{ id: string; user_id: string | null; source: string | null }>
+): QRSourceStats[] {
+  const scans = new Map<string | null, number>();
+  views.forEach((view) => scans.set(view.source, (scans.get(view.source) || 0) + 1));
+
+  // A multiple-choice ballot is several vote rows, so count distinct voters
+  const ballots = new Map<string | null, Set<string>>();
+  votes.forEach((vote) => {
+    const voters = ballots.get(vote.source) || new Set<string>();
+    voters.add(vote.user_id ?? vote.id);
+    ballots.set(vote.source, voters);
+  });
+
+  const names = new Map<string | null, string>(qrCodes.map((code) => [code.source, code.name]));
+  const otherSources = new Set<string | null>([...scans.keys(), ...ballots.keys()]);
+  otherSources.delete(null);
+  qrCodes.forEach((code) => otherSources.delete(code.source));
+
+  const sources: Array<string | null> = [...names.keys(), ...otherSources];
+  if (scans.has(null) || ballots.has(null)) {
+    sources.push(null);
+  }
+
+  return sources.map((source) => {
+    const sourceScans = scans.get(source) || 0;
+    const sourceVotes = ballots.get(source)?.size || 0;
+    return {
+      source,
+      name: names.get(source) ?? source ?? 'Direct link',
+      scans: sourceScans,
+      votes: sourceVotes,
+      conversionRate: sourceScans > 0 ? Math.round((sourceVotes / sourceScans) * 100) : 0,
+    };
+  });
+}
+
+/**
+ * Build the QR code endpoint path for a poll, only including non-default options
+ */
+export function getPollQRCodePath(
+  pollId: string,
+  options: Partial<QRCodeOptions> = {},
+  source?: string | null
+): string {
+  const params = new URLSearchParams();
+
+  if (options.format && options.format !== DEFAULT_QR_CODE_OPTIONS.format) {
+    params.set('format', options.format);
+  }
+  if (options.size !== undefined && options.size !== DEFAULT_QR_CODE_OPTIONS.size) {
+    params.set('size', String(options.size));
+  }
+  if (options.margin !== undefined && options.margin !== DEFAULT_QR_CODE_OPTIONS.margin) {
+    params.set('margin', String(options.margin));
+  }
+  if (
+    options.errorCorrectionLevel &&
+    options.errorCorrectionLevel !== DEFAULT_QR_CODE_OPTIONS.errorCorrectionLevel
+  ) {
+    params.set('ecl', options.errorCorrectionLevel);
+  }
+  if (options.darkColor && options.darkColor !== DEFAULT_QR_CODE_OPTIONS.darkColor) {
+    params.set('dark', options.darkColor.replace('#', ''));
+  }
+  if (options.lightColor && options.lightColor !== DEFAULT_QR_CODE_OPTIONS.lightColor) {
+    params.set('light', options.lightColor.replace('#', ''));
+  }
+  if (source) {
+    params.set(QR_SOURCE_PARAM, source);
+  }
+
+  const query = params.toString();
+  return `/api/polls/${pollId}/qr${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Overlay a logo in the center of a QR code SVG produced by the QR endpoint
+ *
+ * The logo sits on a padded background so it stays legible; render the code with
+ * error correction level H so the covered modules can still be recovered.
+ */
+export function addLogoToQRCodeSvg(svg: string, logoHref: string, backgroundColor: string): string {
+  const viewBox = /viewBox="0 0 (\d+(?:\.\d+)?) (\d+(?:\.\d+)?)"/.exec(svg);
+  if (!viewBox) return svg;
+
+  const width = Number(viewBox[1]);
+  const logoSize = width * QR_CODE_LOGO_RATIO;
+  const padding = logoSize * 0.1;
+  const offset = (width - logoSize) / 2;
+
+  const overlay =
+    `<rect x="${offset - padding}" y="${offset - padding}" ` +
+    `width="${logoSize + padding * 2}" height="${logoSize + padding * 2}" ` +
+    `rx="${padding}" fill="${backgroundColor}"/>` +
+    `<image href="${logoHref}" x="${offset}" y="${offset}" ` +
+    `width="${logoSize}" height="${logoSize}" preserveAspectRatio="xMidYMid meet"/>`;
+
+  return svg.replace(/<\/svg>\s*$/, `${overlay}</svg>`);
+}
@@ -0,0 +1,291 @@
+import { Availability, PollOption, RatingScale, SlotAvailability, TimeSlot } from '@/types';
+import { Vote } from '@/types/database';
+
+// Availability is stored as a score on every slot, like a rating ballot on a fixed scale
+export const AVAILABILITY_SCALE: RatingScale = { min: 0, max: 2 };
+
+export const AVAILABILITY_SCORES: Record<Availability, number> = {
+  no: 0,
+  if_need_be: 1,
+  yes: 2,
+};
+
+export const AVAILABILITIES: readonly Availability[] = ['yes', 'if_need_be', 'no'];
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  yes: 'Yes',
+  if_need_be: 'If need be',
+  no: 'No',
+};
+
+// Slot lengths offered when picking times; the validator allows anything up to a day
+export const SLOT_DURATIONS_MINUTES = [30, 60, 90, 120, 240] as const;
+export const DEFAULT_SLOT_DURATION_MINUTES = 60;
+export const MAX_SLOT_DURATION_MINUTES = 24 * 60;
+
+/**
+ * Turn a stored score back into an availability answer
+ */
+export function toAvailability(score: number | null | undefined): Availability | undefined {
+  return AVAILABILITIES.find((availability) => AVAILABILITY_SCORES[availability] === score);
+}
+
+/**
+ * Check whether a string is an IANA time zone the runtime knows, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the time zone of the browser or server running the code
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Format a time slot, e.g. "Tue, Mar 4, 10:00 AM – 11:00 AM"
+ *
+ * Times are shown in the given time zone, or the viewer's own when none is given.
+ * The end date is only repeated when the slot runs past midnight.
+ */
+export function formatTimeSlot(
+  slot: TimeSlot,
+  {
+    timeZone,
+    locale,
+    showTimeZone = false,
+  }: { timeZone?: string; locale?: string; showTimeZone?: boolean } = {}
+): string {
+  const date = new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone,
+  });
+  const time = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone });
+  const endTime = showTimeZone
+    ? new Intl.DateTimeFormat(locale, {
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone,
+        timeZoneName: 'short',
+      })
+    : time;
+
+  const startDate = date.format(slot.startsAt);
+  const endDate = date.format(slot.endsAt);
+  const end =
+    startDate === endDate
+      ? endTime.format(slot.endsAt)
+      : `${endDate}, ${endTime.format(slot.endsAt)}`;
+
+  return `${startDate}, ${time.format(slot.startsAt)} – ${end}`;
+}
+
+/**
+ * Label the slot behind a scheduling poll option in the viewer's own time zone
+ *
+ * Falls back to the option text, which shows the slot in the creator's time zone.
+ */
+export function getSlotLabel(
+  option: Pick<PollOption, 'text' | 'startsAt' | 'endsAt'>,
+  formatOptions: Parameters<typeof formatTimeSlot>[1] = {}
+): string {
+  if (!option.startsAt || !option.endsAt) return option.text;
+  return formatTimeSlot({ startsAt: option.startsAt, endsAt: option.endsAt }, formatOptions);
+}
+
+/**
+ * Read time slots from a request body, where their times arrive as ISO strings
+ *
+ * Anything that isn't a date is kept as an invalid date for validateTimeSlots to reject.
+ */
+export function parseTimeSlots(value: unknown): TimeSlot[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.map((slot) => ({
+    startsAt: new Date(slot?.startsAt ?? NaN),
+    endsAt: new Date(slot?.endsAt ?? NaN),
+  }));
+}
+
+/**
+ * Validate the candidate time slots of a new scheduling poll
+ *
+ * Slots must lie in the future, end after they start, last at most a day and be distinct.
+ */
+export function validateTimeSlots(
+  slots: TimeSlot[],
+  now: Date = new Date()
+): { isValid: boolean; error?: string } {
+  const isDate = (value: unknown): value is Date =>
+    value instanceof Date && !Number.isNaN(value.getTime());
+
+  if (!slots.every((slot) => slot && isDate(slot.startsAt) && isDate(slot.endsAt))) {
+    return { isValid: false, error: 'Every time slot needs a valid start and end' };
+  }
+
+  if (slots.some((slot) => slot.endsAt <= slot.startsAt)) {
+    return { isValid: false, error: 'Time slots must end after they start' };
+  }
+
+  const maxDurationMs = MAX_SLOT_DURATION_MINUTES * 60 * 1000;
+  if (slots.some((slot) => slot.endsAt.getTime() - slot.startsAt.getTime() > maxDurationMs)) {
+    return { isValid: false, error: 'Time slots cannot be longer than a day' };
+  }
+
+  if (slots.some((slot) => slot.startsAt <= now)) {
+    return { isValid: false, error: 'Time slots must be in the future' };
+  }
+
+  const keys = slots.map((slot) => `${slot.startsAt.getTime()}-${slot.endsAt.getTime()}`);
+  if (new Set(keys).size !== keys.length) {
+    return { isValid: false, error: 'Time slots must be different from each other' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Count the yes, if-need-be and no answers for each slot of a scheduling poll
+ *
+ * @param optionIds - The poll's slots in display order
+ */
+export function calculateSlotAvailability(
+  optionIds: string[],
+  votes: Array<Pick<Vote, 'option_id' | 'score'>>
+): SlotAvailability[] {
+  const counts = new Map<string, SlotAvailability>(
+    optionIds.map((optionId) => [optionId, { optionId, yes: 0, ifNeedBe: 0, no: 0 }])
+  );
+
+  votes.forEach((vote) => {
+    const slot = vote.option_id ? counts.get(vote.option_id) : undefined;
+    const availability = toAvailability(vote.score);
+    if (!slot || !availability) return;
+
+    if (availability === 'yes') slot.yes += 1;
+    else if (availability === 'if_need_be') slot.ifNeedBe += 1;
+    else slot.no += 1;
+  });
+
+  return optionIds.map((optionId) => counts.get(optionId)!);
+}
+
+/**
+ * Pick the best slot: the most voters available, then the most who said yes outright
+ *
+ * Remaining ties go to the slot listed first. Returns null while nobody is available
+ * for any slot.
+ */
+export function findBestSlot(availability: SlotAvailability[]): string | null {
+  let best: SlotAvailability | null = null;
+
+  for (const slot of availability) {
+    const available = slot.yes + slot.ifNeedBe;
+    if (available === 0) continue;
+
+    const bestAvailable = best ? best.yes + best.ifNeedBe : 0;
+    if (!best || available > bestAvailable || (available === bestAvailable && slot.yes > best.yes)) {
+      best = slot;
+    }
+  }
+
+  return best?.optionId ?? null;
+}
+
+export interface CalendarEvent {
+  uid: string; // Stable across downloads, so calendars update the event instead of duplicating it
+  title: string;
+  description?: string;
+  url?: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// UTC in the iCalendar basic format, e.g. 20250304T100000Z
+function formatICalendarDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeICalendarText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a leading space
+function foldICalendarLine(line: string): string {
+  const utf8Length = (char: string) => {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) return 1;
+    if (codePoint < 0x800) return 2;
+    return codePoint < 0x10000 ? 3 : 4;
+  };
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    if (octets + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build an iCalendar (.ics) file with a single event
+ *
+ * Times are written in UTC, which every calendar converts to the reader's own time zone.
+ */
+export function buildICalendar(event: CalendarEvent, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Alx-Polly//Scheduling Poll//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalendarDate(now)}`,
+    `DTSTART:${formatICalendarDate(event.startsAt)}`,
+    `DTEND:${formatICalendarDate(event.endsAt)}`,
+    `SUMMARY:${escapeICalendarText(event.title)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeICalendarText(event.description)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldICalendarLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * Name the downloaded calendar file after the poll, e.g. "team-sync.ics"
+ */
+export function getCalendarFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+  return `${slug || 'meeting'}.ics`;
+}